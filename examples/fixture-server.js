@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+/**
+ * Static fixture server for trying render mode locally
+ *
+ * Usage:
+ *   node examples/fixture-server.js [port]
+ *   pnpm start --url http://localhost:4173 --render --allow-private-hosts --semantic-analysis
+ *
+ * Compare with a run without --render: the injected header color and the
+ * adopted stylesheet only show up when the page is rendered.
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, 'render-fixture');
+
+const contentTypes = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8'
+};
+
+// Serves examples/render-fixture; the tests start one on an ephemeral port
+function createFixtureServer() {
+  return http.createServer((req, res) => {
+    const requestPath = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+    const filePath = path.join(root, requestPath === '/' ? 'index.html' : requestPath);
+
+    if (!filePath.startsWith(root) || !fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': contentTypes[path.extname(filePath)] || 'application/octet-stream' });
+    fs.createReadStream(filePath).pipe(res);
+  });
+}
+
+if (require.main === module) {
+  const port = parseInt(process.argv[2] || '4173', 10);
+  createFixtureServer().listen(port, () => {
+    console.log(`Fixture server running at http://localhost:${port}`);
+  });
+}
+
+module.exports = { createFixtureServer };
@@ -0,0 +1,84 @@
+import { auditAccessibility } from './accessibility';
+import { apcaContrast, getContrastRatio } from './color-analysis';
+import type { SemanticColorAnalysis, SemanticContrastPair } from './types';
+
+describe('contrast math', () => {
+  it.each([
+    ['#777777', '#ffffff', 4.48],
+    ['#767676', '#ffffff', 4.54],
+    ['#000000', '#ffffff', 21],
+    ['#ffffff', '#ffffff', 1]
+  ])('WCAG ratio of %s on %s is %d:1', (foreground, background, expected) => {
+    expect(getContrastRatio(foreground, background)).toBeCloseTo(expected, 2);
+    expect(getContrastRatio(background, foreground)).toBeCloseTo(expected, 2);
+  });
+
+  // Reference values of the APCA-W3 0.0.98G-4g calculator
+  it.each([
+    ['#888888', '#ffffff', 63.056],
+    ['#ffffff', '#888888', -68.541],
+    ['#000000', '#aaaaaa', 58.146],
+    ['#aaaaaa', '#000000', -56.241],
+    ['#112233', '#ddeeff', 91.668],
+    ['#ddeeff', '#112233', -93.068]
+  ])('APCA Lc of %s on %s is %d', (text, background, expected) => {
+    expect(apcaContrast(text, background)).toBeCloseTo(expected, 2);
+  });
+
+  it('returns Lc 0 for indistinguishable colors', () => {
+    expect(apcaContrast('#777777', '#787878')).toBe(0);
+  });
+});
+
+function site(pairs: Array<Partial<SemanticContrastPair> & Pick<SemanticContrastPair, 'foreground' | 'backgrounds'>>): SemanticColorAnalysis {
+  return {
+    colors: [],
+    summary: { totalElements: 0, colorsByContext: {}, highestWeightColors: [], buttonColors: [], brandColors: [] },
+    contrastPairs: pairs.map((pair, index) => ({
+      context: 'link',
+      selector: `.item-${index}`,
+      element: 'a',
+      largeText: false,
+      count: 1,
+      ...pair
+    }))
+  };
+}
+
+describe('auditAccessibility', () => {
+  it('fails #777 text on white for AA while APCA passes, and suggests a passing shade', () => {
+    const report = auditAccessibility('https://example.com', { light: { '--foreground': '#777777', '--background': '#ffffff' } });
+
+    expect(report.theme).toHaveLength(1);
+    const [check] = report.theme;
+    expect(check).toMatchObject({ foregroundVar: '--foreground', ratio: 4.48, apca: 71.1, wcag: { aa: false, aaa: false }, apcaPass: true });
+    expect(check.suggestion!.target).toBe('foreground');
+    expect(check.suggestion!.ratio).toBeGreaterThanOrEqual(4.5);
+    expect(check.suggestion!.deltaE).toBeLessThan(2);
+    expect(report.summary).toMatchObject({ themePairs: 1, themeFailures: 1 });
+  });
+
+  it('bands each kind by its own AA, AAA and APCA thresholds', () => {
+    const report = auditAccessibility('https://example.com', undefined, site([
+      { foreground: '#777777', backgrounds: ['#ffffff'], largeText: true }, // 4.48:1, Lc 71.1
+      { foreground: '#595959', backgrounds: ['#ffffff'] }, // 7.00:1
+      { foreground: '#aaaaaa', backgrounds: ['#ffffff'], largeText: true } // 2.32:1
+    ]));
+    const bySelector = (selector: string) => report.site.find(check => check.selector === selector)!;
+
+    expect(bySelector('.item-0')).toMatchObject({ kind: 'large-text', wcag: { aa: true, aaa: false }, apcaPass: true });
+    expect(bySelector('.item-1')).toMatchObject({ kind: 'text', ratio: 7, wcag: { aa: true, aaa: true }, apcaPass: true });
+    expect(bySelector('.item-2')).toMatchObject({ kind: 'large-text', ratio: 2.32, wcag: { aa: false, aaa: false } });
+    expect(report.summary).toMatchObject({ sitePairs: 3, siteFailures: 1, aaaPasses: 1 });
+    expect(report.site[0].selector).toBe('.item-2'); // Failures first
+  });
+
+  it('composites translucent text over the flattened background before measuring', () => {
+    const report = auditAccessibility('https://example.com', undefined, site([
+      { foreground: 'rgba(0, 0, 0, 0.5)', backgrounds: ['#ffffff'] }
+    ]));
+
+    expect(report.site[0]).toMatchObject({ foreground: '#808080', background: '#ffffff', wcag: { aa: false } });
+    expect(report.site[0].ratio).toBeCloseTo(getContrastRatio('#808080', '#ffffff'), 2);
+  });
+});
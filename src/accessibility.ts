@@ -0,0 +1,271 @@
+// Accessibility report: WCAG 2.x contrast ratios and APCA lightness contrast for every
+// foreground/background pair of the generated shadcn theme and for the text the page itself
+// paints on its semantic elements, with the nearest passing replacement for each failure
+
+import { apcaContrast, colorToLab, deltaE2000, getContrastRatio, labToHex, parseCssColor } from './color-analysis';
+import type { AccessibilityReport, ContrastCheck, SemanticColorAnalysis, ShadcnTheme, SiteContrastCheck, ThemeContrastCheck } from './types';
+
+// WCAG 2.x SC 1.4.3 / 1.4.6 / 1.4.11; non-text contrast has no AAA level. APCA levels are the
+// Bronze minimums for content text, large text and non-text elements
+const CONTRAST_THRESHOLDS: AccessibilityReport['thresholds'] = {
+  'text': { aa: 4.5, aaa: 7, apca: 60 },
+  'large-text': { aa: 3, aaa: 4.5, apca: 45 },
+  'non-text': { aa: 3, aaa: 3, apca: 30 }
+};
+
+// Foreground variable, background variable, what the foreground draws
+const THEME_CONTRAST_PAIRS: Array<[string, string, ContrastCheck['kind']]> = [
+  ['--foreground', '--background', 'text'],
+  ['--card-foreground', '--card', 'text'],
+  ['--popover-foreground', '--popover', 'text'],
+  ['--primary-foreground', '--primary', 'text'],
+  ['--secondary-foreground', '--secondary', 'text'],
+  ['--muted-foreground', '--muted', 'text'],
+  ['--muted-foreground', '--background', 'text'],
+  ['--accent-foreground', '--accent', 'text'],
+  ['--destructive-foreground', '--destructive', 'text'],
+  ['--destructive', '--background', 'text'], // Form error messages
+  ['--sidebar-foreground', '--sidebar', 'text'],
+  ['--sidebar-primary-foreground', '--sidebar-primary', 'text'],
+  ['--sidebar-accent-foreground', '--sidebar-accent', 'text'],
+  ['--primary', '--background', 'non-text'], // Button surfaces against the page
+  ['--input', '--background', 'non-text'], // Input boundaries
+  ['--ring', '--background', 'non-text'] // Focus indicators
+];
+
+// Lightness steps (CIE L*) tried when searching for a passing replacement
+const SUGGESTION_STEP = 0.5;
+
+type ParsedColor = NonNullable<ReturnType<typeof parseCssColor>>;
+
+// Source-over compositing in sRGB, as browsers paint it
+function composite(color: ParsedColor, backdropHex: string): string {
+  if (color.alpha >= 1) return color.hex;
+  const channel = (hex: string, index: number) => parseInt(hex.substr(1 + index * 2, 2), 16);
+  return '#' + [0, 1, 2].map(index => {
+    const mixed = Math.round(channel(color.hex, index) * color.alpha + channel(backdropHex, index) * (1 - color.alpha));
+    const hex = mixed.toString(16);
+    return hex.length === 1 ? '0' + hex : hex;
+  }).join('');
+}
+
+function passes(foreground: string, background: string, kind: ContrastCheck['kind']): boolean {
+  const threshold = CONTRAST_THRESHOLDS[kind];
+  return getContrastRatio(foreground, background) >= threshold.aa && Math.abs(apcaContrast(foreground, background)) >= threshold.apca;
+}
+
+// Walk CIE L* away from `color` in both directions, keeping a* and b*, and take the passing
+// shade with the smallest ΔE2000
+function nearestPassingShade(color: string, test: (candidate: string) => boolean): { color: string; deltaE: number } | undefined {
+  const lab = colorToLab(color);
+  if (!lab) return undefined;
+
+  let best: { color: string; deltaE: number } | undefined;
+  [1, -1].forEach(direction => {
+    for (let step = 1; ; step++) {
+      const l = Math.max(0, Math.min(100, lab.l + direction * step * SUGGESTION_STEP));
+      const candidate = labToHex({ l, a: lab.a, b: lab.b });
+      if (test(candidate)) {
+        const deltaE = Math.round(deltaE2000(lab, colorToLab(candidate)!) * 100) / 100;
+        if (!best || deltaE < best.deltaE) best = { color: candidate, deltaE };
+        return;
+      }
+      if (l === 0 || l === 100) return;
+    }
+  });
+  return best;
+}
+
+// Prefer changing the foreground; mid-tone backgrounds (saturated orange, green) fail with
+// both black and white text, and only a lighter or darker background fixes them
+function suggestReplacement(foreground: string, background: string, kind: ContrastCheck['kind']): ContrastCheck['suggestion'] {
+  const newForeground = nearestPassingShade(foreground, candidate => passes(candidate, background, kind));
+  if (newForeground) {
+    return {
+      target: 'foreground',
+      ...newForeground,
+      ratio: Math.round(getContrastRatio(newForeground.color, background) * 100) / 100,
+      apca: Math.round(apcaContrast(newForeground.color, background) * 10) / 10
+    };
+  }
+  const newBackground = nearestPassingShade(background, candidate => passes(foreground, candidate, kind));
+  if (newBackground) {
+    return {
+      target: 'background',
+      ...newBackground,
+      ratio: Math.round(getContrastRatio(foreground, newBackground.color) * 100) / 100,
+      apca: Math.round(apcaContrast(foreground, newBackground.color) * 10) / 10
+    };
+  }
+  return undefined;
+}
+
+function checkContrast(foreground: string, background: string, kind: ContrastCheck['kind']): ContrastCheck {
+  const threshold = CONTRAST_THRESHOLDS[kind];
+  const ratio = Math.round(getContrastRatio(foreground, background) * 100) / 100;
+  const apca = Math.round(apcaContrast(foreground, background) * 10) / 10;
+  const check: ContrastCheck = {
+    kind,
+    foreground,
+    background,
+    ratio,
+    apca,
+    wcag: { aa: ratio >= threshold.aa, aaa: ratio >= threshold.aaa },
+    apcaPass: Math.abs(apca) >= threshold.apca
+  };
+  if (!check.wcag.aa || !check.apcaPass) {
+    const suggestion = suggestReplacement(foreground, background, kind);
+    if (suggestion) check.suggestion = suggestion;
+  }
+  return check;
+}
+
+function isFailure(check: ContrastCheck): boolean {
+  return !check.wcag.aa || !check.apcaPass;
+}
+
+function checkTheme(mode: 'light' | 'dark', variables: Record<string, string>): ThemeContrastCheck[] {
+  // Translucent values sit on the page background, which itself sits on the canvas
+  const canvas = mode === 'light' ? '#ffffff' : '#000000';
+  const pageColor = variables['--background'] ? parseCssColor(variables['--background']) : null;
+  const page = pageColor ? composite(pageColor, canvas) : canvas;
+
+  const checks: ThemeContrastCheck[] = [];
+  THEME_CONTRAST_PAIRS.forEach(([foregroundVar, backgroundVar, kind]) => {
+    const foregroundColor = variables[foregroundVar] ? parseCssColor(variables[foregroundVar]) : null;
+    const backgroundColor = variables[backgroundVar] ? parseCssColor(variables[backgroundVar]) : null;
+    if (!foregroundColor || !backgroundColor) return;
+    const background = composite(backgroundColor, page);
+    checks.push({ mode, foregroundVar, backgroundVar, ...checkContrast(composite(foregroundColor, background), background, kind) });
+  });
+  return checks;
+}
+
+// Pairs observed on the page: backgrounds are flattened from the root inwards over a white canvas
+function checkSite(semantic: SemanticColorAnalysis): SiteContrastCheck[] {
+  const checks = new Map<string, SiteContrastCheck>();
+  (semantic.contrastPairs || []).forEach(pair => {
+    const foregroundColor = parseCssColor(pair.foreground);
+    if (!foregroundColor) return;
+    const background = pair.backgrounds
+      .map(parseCssColor)
+      .filter((layer): layer is ParsedColor => !!layer)
+      .reduceRight((backdrop, layer) => composite(layer, backdrop), '#ffffff');
+    const foreground = composite(foregroundColor, background);
+    const kind: ContrastCheck['kind'] = pair.largeText ? 'large-text' : 'text';
+
+    const key = [pair.context, pair.selector, foreground, background, kind].join('|');
+    const existing = checks.get(key);
+    if (existing) {
+      existing.count += pair.count;
+      return;
+    }
+    checks.set(key, { context: pair.context, selector: pair.selector, element: pair.element, count: pair.count, ...checkContrast(foreground, background, kind) });
+  });
+
+  return Array.from(checks.values())
+    .sort((a, b) => Number(isFailure(b)) - Number(isFailure(a)) || b.count - a.count);
+}
+
+export function auditAccessibility(source: string, theme: ShadcnTheme | undefined, semantic?: SemanticColorAnalysis): AccessibilityReport {
+  const themeChecks = theme
+    ? checkTheme('light', theme.light).concat(theme.dark ? checkTheme('dark', theme.dark) : [])
+    : [];
+  const siteChecks = semantic ? checkSite(semantic) : [];
+
+  return {
+    source,
+    generatedAt: new Date().toISOString(),
+    thresholds: CONTRAST_THRESHOLDS,
+    semanticAnalysis: !!semantic,
+    summary: {
+      themePairs: themeChecks.length,
+      themeFailures: themeChecks.filter(isFailure).length,
+      sitePairs: siteChecks.length,
+      siteFailures: siteChecks.filter(isFailure).length,
+      aaaPasses: (themeChecks as ContrastCheck[]).concat(siteChecks).filter(check => check.wcag.aaa).length
+    },
+    theme: themeChecks,
+    site: siteChecks
+  };
+}
+
+// One line per failing pair, for console summaries
+export function describeContrastFailure(check: ThemeContrastCheck | SiteContrastCheck): string {
+  const label = 'mode' in check
+    ? `${check.mode} ${check.foregroundVar} on ${check.backgroundVar}`
+    : `${check.context} \`${check.selector}\``;
+  const fix = check.suggestion ? `; try ${check.suggestion.target} ${check.suggestion.color} (ΔE ${check.suggestion.deltaE.toFixed(1)})` : '';
+  return `${label}: ${check.foreground} on ${check.background} is ${check.ratio.toFixed(2)}:1, Lc ${check.apca.toFixed(1)}${fix}`;
+}
+
+// -------- Markdown --------
+
+function verdict(pass: boolean): string {
+  return pass ? '✅' : '❌';
+}
+
+function suggestionCell(check: ContrastCheck): string {
+  if (!check.suggestion) return isFailure(check) ? 'no passing shade of either color' : '—';
+  const { suggestion } = check;
+  return `${suggestion.target} \`${suggestion.color}\` (${suggestion.ratio.toFixed(2)}:1, Lc ${suggestion.apca.toFixed(1)}, ΔE ${suggestion.deltaE.toFixed(1)})`;
+}
+
+function checkCells(check: ContrastCheck): string {
+  return `\`${check.foreground}\` on \`${check.background}\` | ${check.ratio.toFixed(2)}:1 | ${verdict(check.wcag.aa)} | ${verdict(check.wcag.aaa)} | ` +
+    `${check.apca.toFixed(1)} ${verdict(check.apcaPass)} | ${suggestionCell(check)}`;
+}
+
+export function renderAccessibilityMarkdown(report: AccessibilityReport): string {
+  const { summary, thresholds } = report;
+  const lines: string[] = [
+    '# Accessibility report',
+    '',
+    `Source: ${report.source}`,
+    `Generated: ${report.generatedAt}`,
+    '',
+    `Theme: ${summary.themePairs - summary.themeFailures} of ${summary.themePairs} pairs pass WCAG AA and APCA.`,
+    report.semanticAnalysis
+      ? `Site: ${summary.sitePairs - summary.siteFailures} of ${summary.sitePairs} text/background pairs pass WCAG AA and APCA.`
+      : 'Site: not checked - text/background pairs come from semantic analysis (`--semantic-analysis`).',
+    ''
+  ];
+
+  (['light', 'dark'] as const).forEach(mode => {
+    const checks = report.theme.filter(check => check.mode === mode);
+    if (checks.length === 0) return;
+    lines.push(`## Theme (${mode})`, '');
+    lines.push('| Pair | Kind | Colors | WCAG | AA | AAA | APCA Lc | Suggested replacement |', '|------|------|--------|------|----|-----|---------|-----------------------|');
+    checks.forEach(check => {
+      lines.push(`| \`${check.foregroundVar}\` on \`${check.backgroundVar}\` | ${check.kind} | ${checkCells(check)} |`);
+    });
+    lines.push('');
+  });
+
+  if (report.semanticAnalysis) {
+    lines.push('## Site', '');
+    if (report.site.length === 0) {
+      lines.push('No text was found on the semantic elements.', '');
+    } else {
+      lines.push('| Context | Selector | Uses | Kind | Colors | WCAG | AA | AAA | APCA Lc | Suggested replacement |', '|---------|----------|------|------|--------|------|----|-----|---------|-----------------------|');
+      report.site.forEach(check => {
+        lines.push(`| ${check.context} | \`${check.selector.replace(/\|/g, '\\|')}\` | ${check.count} | ${check.kind} | ${checkCells(check)} |`);
+      });
+      lines.push('');
+    }
+  }
+
+  lines.push(
+    `Thresholds: text AA ${thresholds.text.aa}:1 / AAA ${thresholds.text.aaa}:1 / Lc ${thresholds.text.apca}; ` +
+      `large text AA ${thresholds['large-text'].aa}:1 / AAA ${thresholds['large-text'].aaa}:1 / Lc ${thresholds['large-text'].apca}; ` +
+      `non-text ${thresholds['non-text'].aa}:1 / Lc ${thresholds['non-text'].apca}. Body copy should reach Lc 75.`,
+    '',
+    'Suggestions keep a color\'s hue and chroma (CIE a*/b*) and change only its lightness, picking the closest passing shade by ΔE2000; ' +
+      'the background is only adjusted when no shade of the foreground passes. ' +
+      'Site backgrounds are the element\'s and its ancestors\' background-color flattened over white; background images and gradients are not seen. ' +
+      'Without `--render`, only h1/h2 count as large text.',
+    ''
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,65 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { ApiKeyService } from '../services/apiKeyService';
+import { MemoryApiKeyStore } from '../storage';
+import { AuthMiddleware } from './auth';
+
+describe('AuthMiddleware usage logging', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKeyService: ApiKeyService;
+  let key: string;
+  let keyId: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    apiKeyService = new ApiKeyService(new MemoryApiKeyStore());
+    const created = await apiKeyService.createApiKey('Test', 'enterprise');
+    key = created.key;
+    keyId = created.id;
+
+    const auth = new AuthMiddleware(apiKeyService);
+    const app = express();
+    app.use(auth.addRequestContext);
+    app.use('/api/v1', auth.validateApiKey, auth.logUsage);
+    app.get('/api/v1/styles', (req, res) => res.json({ ok: true }));
+    app.delete('/api/v1/admin/keys/:key', (req, res) => res.json({ ok: true }));
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  // Usage is logged after the response is sent
+  async function loggedRequests(count: number) {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const logs = await apiKeyService.getUsageLogs(keyId);
+      if (logs.length >= count) return logs;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Expected ${count} usage log(s)`);
+  }
+
+  it('keeps API keys from the query and the path out of the usage logs', async () => {
+    const query = await fetch(`${baseUrl}/api/v1/styles?url=https%3A%2F%2Fexample.com&apiKey=${key}&token=abc`);
+    expect(query.status).toBe(200);
+    const path = await fetch(`${baseUrl}/api/v1/admin/keys/${key}`, { method: 'DELETE', headers: { 'x-api-key': key } });
+    expect(path.status).toBe(200);
+
+    const logs = await loggedRequests(2);
+    const serialized = JSON.stringify(logs);
+    expect(serialized).not.toContain(key);
+    expect(serialized).not.toContain('abc');
+
+    const byMethod = (method: string) => logs.find(log => log.method === method)!;
+    expect(byMethod('GET').parameters).toEqual({ url: 'https://example.com', body: [] });
+    expect(byMethod('GET').endpoint).toBe('/api/v1/styles');
+    expect(byMethod('DELETE').endpoint).toBe('/api/v1/admin/keys/:key');
+  });
+});
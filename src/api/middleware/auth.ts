@@ -9,6 +9,24 @@ interface AuthenticatedRequest extends Request {
   startTime?: number;
 }
 
+// Query and route parameters that can carry a credential (`?apiKey=`, `/admin/keys/:key`). Usage
+// logs are readable through the admin API, so these never reach them.
+const CREDENTIAL_PARAMETER_REGEX = /^(api[-_]?key|key|token|access[-_]?token|auth|authorization|password|secret)$/i;
+
+function withoutCredentials(values: Record<string, any>): Record<string, any> {
+  const loggable: Record<string, any> = {};
+  Object.keys(values || {}).forEach(name => {
+    if (!CREDENTIAL_PARAMETER_REGEX.test(name)) loggable[name] = values[name];
+  });
+  return loggable;
+}
+
+// Routes with a credential in the path are logged by their pattern instead
+function loggableEndpoint(req: Request): string {
+  const hasCredential = Object.keys(req.params || {}).some(name => CREDENTIAL_PARAMETER_REGEX.test(name));
+  return hasCredential && req.route ? `${req.baseUrl}${req.route.path}` : req.path;
+}
+
 export class AuthMiddleware {
   constructor(private apiKeyService: ApiKeyService) {}
 
@@ -73,8 +91,8 @@ export class AuthMiddleware {
         const apiKeyService = (req as any).apiKeyService as ApiKeyService;
         if (apiKeyService) {
           apiKeyService.logUsage({
-            apiKeyId: req.apiKey.key, // Use key as ID for now
-            endpoint: req.path,
+            apiKeyId: req.apiKey.id,
+            endpoint: loggableEndpoint(req),
             method: req.method,
             responseTime,
             statusCode: res.statusCode,
@@ -83,8 +101,8 @@ export class AuthMiddleware {
             clientIp: req.ip || 'unknown',
             userAgent: req.get('User-Agent') || 'unknown',
             parameters: {
-              ...req.query,
-              ...req.params,
+              ...withoutCredentials(req.query),
+              ...withoutCredentials(req.params),
               body: req.body ? Object.keys(req.body) : []
             },
             error: res.statusCode >= 400 ? data : undefined
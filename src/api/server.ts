@@ -9,9 +9,12 @@ import dotenv from 'dotenv';
 
 import { ApiKeyService } from './services/apiKeyService';
 import { AnalysisService } from './services/analysisService';
+import { JobService } from './services/jobService';
+import { WebhookService } from './services/webhookService';
 import { AuthMiddleware } from './middleware/auth';
 import { API_ENDPOINTS } from './types';
-import type { ApiSuccessResponse, ApiErrorResponse, AnalyzeRequest } from './types';
+import type { ApiSuccessResponse, ApiErrorResponse, AccessibilityRequest, AnalyzeRequest, BrandAuditRequest, DiffRequest } from './types';
+import type { ValidationError } from '../types';
 
 // Load environment variables
 dotenv.config();
@@ -20,12 +23,21 @@ class GetSiteStylesServer {
   private app: express.Application;
   private apiKeyService: ApiKeyService;
   private analysisService: AnalysisService;
+  private jobService: JobService;
   private authMiddleware: AuthMiddleware;
 
   constructor() {
     this.app = express();
     this.apiKeyService = new ApiKeyService();
     this.analysisService = new AnalysisService();
+    this.jobService = new JobService(
+      this.analysisService,
+      new WebhookService({ maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5') }),
+      {
+        concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+        maxQueued: parseInt(process.env.JOB_QUEUE_LIMIT || '100')
+      }
+    );
     this.authMiddleware = new AuthMiddleware(this.apiKeyService);
     
     this.setupMiddleware();
@@ -89,6 +101,7 @@ class GetSiteStylesServer {
         documentation: `${req.protocol}://${req.get('host')}/api/docs`,
         endpoints: {
           analyze: `${req.protocol}://${req.get('host')}${API_ENDPOINTS.ANALYZE}`,
+          jobs: `${req.protocol}://${req.get('host')}${API_ENDPOINTS.JOBS}`,
           health: `${req.protocol}://${req.get('host')}${API_ENDPOINTS.HEALTH}`,
           docs: `${req.protocol}://${req.get('host')}${API_ENDPOINTS.DOCS}`
         }
@@ -105,6 +118,19 @@ class GetSiteStylesServer {
 
     // Main analysis endpoint
     this.app.post(API_ENDPOINTS.ANALYZE, this.analyzeWebsite.bind(this));
+
+    // Token diff between two analyses (URLs or saved analysis JSON)
+    this.app.post(API_ENDPOINTS.DIFF, this.diffTokens.bind(this));
+
+    // Brand consistency audit against a supplied palette
+    this.app.post(API_ENDPOINTS.BRAND_AUDIT, this.auditBrand.bind(this));
+
+    // WCAG / APCA contrast of the generated theme and the page's own text
+    this.app.post(API_ENDPOINTS.ACCESSIBILITY_AUDIT, this.auditAccessibility.bind(this));
+    
+    // Asynchronous analysis jobs (poll or receive a webhook)
+    this.app.post(API_ENDPOINTS.JOBS, this.createJob.bind(this));
+    this.app.get(API_ENDPOINTS.JOB, this.getJob.bind(this));
     
     // Usage statistics
     this.app.get(API_ENDPOINTS.USAGE, this.getUsageStats.bind(this));
@@ -258,6 +284,180 @@ class GetSiteStylesServer {
     }
   }
 
+  private async diffTokens(req: Request, res: Response): Promise<void> {
+    try {
+      const request: DiffRequest = req.body;
+
+      const isInput = (value: unknown) => (typeof value === 'string' && value.trim() !== '') || (!!value && typeof value === 'object' && !Array.isArray(value));
+      if (!isInput(request.before) || !isInput(request.after)) {
+        res.status(400).json(this.createError('MISSING_INPUT', '`before` and `after` are required: each a URL or an analysis JSON object', req));
+        return;
+      }
+      if (request.format && ['json', 'markdown', 'html'].indexOf(request.format) === -1) {
+        res.status(400).json(this.createError('INVALID_FORMAT', 'format must be json, markdown or html', req));
+        return;
+      }
+
+      const diffResult = await this.analysisService.diffTokens(request);
+
+      if (diffResult.success) {
+        const response: ApiSuccessResponse = {
+          success: true,
+          data: diffResult.data,
+          meta: diffResult.meta,
+          timestamp: new Date().toISOString(),
+          requestId: (req as any).requestId
+        };
+        res.json(response);
+      } else {
+        const code = diffResult.error?.code || 'DIFF_FAILED';
+        res.status(code === 'INVALID_ANALYSIS' ? 400 : 500).json(this.createError(
+          code,
+          diffResult.error?.message || 'Diff failed',
+          req,
+          diffResult.error?.details
+        ));
+      }
+    } catch (error) {
+      res.status(500).json(this.createError(
+        'DIFF_FAILED',
+        error instanceof Error ? error.message : 'Diff failed',
+        req,
+        error instanceof Error ? error.stack : undefined
+      ));
+    }
+  }
+
+  private async auditBrand(req: Request, res: Response): Promise<void> {
+    try {
+      const request: BrandAuditRequest = req.body;
+
+      if (!request.url) {
+        res.status(400).json(this.createError('MISSING_URL', 'URL is required', req));
+        return;
+      }
+      if (!request.palette) {
+        res.status(400).json(this.createError('MISSING_PALETTE', 'palette is required: a hex list or a Style Dictionary / theme-json document', req));
+        return;
+      }
+
+      const auditResult = await this.analysisService.auditBrand(request);
+
+      if (auditResult.success) {
+        const response: ApiSuccessResponse = {
+          success: true,
+          data: auditResult.data,
+          meta: auditResult.meta,
+          timestamp: new Date().toISOString(),
+          requestId: (req as any).requestId
+        };
+        res.json(response);
+      } else {
+        const code = auditResult.error?.code || 'AUDIT_FAILED';
+        res.status(code === 'INVALID_PALETTE' ? 400 : 500).json(this.createError(
+          code,
+          auditResult.error?.message || 'Brand audit failed',
+          req,
+          auditResult.error?.details
+        ));
+      }
+    } catch (error) {
+      res.status(500).json(this.createError(
+        'AUDIT_FAILED',
+        error instanceof Error ? error.message : 'Brand audit failed',
+        req,
+        error instanceof Error ? error.stack : undefined
+      ));
+    }
+  }
+
+  private async auditAccessibility(req: Request, res: Response): Promise<void> {
+    try {
+      const request: AccessibilityRequest = req.body;
+
+      if (!request.url) {
+        res.status(400).json(this.createError('MISSING_URL', 'URL is required', req));
+        return;
+      }
+
+      const auditResult = await this.analysisService.auditAccessibility(request);
+
+      if (auditResult.success) {
+        const response: ApiSuccessResponse = {
+          success: true,
+          data: auditResult.data,
+          meta: auditResult.meta,
+          timestamp: new Date().toISOString(),
+          requestId: (req as any).requestId
+        };
+        res.json(response);
+      } else {
+        res.status(500).json(this.createError(
+          auditResult.error?.code || 'AUDIT_FAILED',
+          auditResult.error?.message || 'Accessibility audit failed',
+          req,
+          auditResult.error?.details
+        ));
+      }
+    } catch (error) {
+      res.status(500).json(this.createError(
+        'AUDIT_FAILED',
+        error instanceof Error ? error.message : 'Accessibility audit failed',
+        req,
+        error instanceof Error ? error.stack : undefined
+      ));
+    }
+  }
+
+  private async createJob(req: Request, res: Response): Promise<void> {
+    try {
+      const request: AnalyzeRequest = req.body;
+      const apiKey = (req as any).apiKey;
+      const { job, webhookSecret } = this.jobService.createJob(request, apiKey.id);
+      
+      const response: ApiSuccessResponse = {
+        success: true,
+        data: job,
+        meta: {
+          statusUrl: `${req.protocol}://${req.get('host')}${API_ENDPOINTS.JOBS}/${job.id}`,
+          ...(webhookSecret ? { webhookSecret } : {})
+        },
+        timestamp: new Date().toISOString(),
+        requestId: (req as any).requestId
+      };
+      
+      res.setHeader('Location', `${API_ENDPOINTS.JOBS}/${job.id}`);
+      res.status(202).json(response);
+    } catch (error) {
+      const code = error && typeof error === 'object' && 'code' in error ? String((error as ValidationError).code) : 'CREATE_JOB_FAILED';
+      const status = code === 'QUEUE_FULL' ? 503 : code === 'CREATE_JOB_FAILED' ? 500 : 400;
+      res.status(status).json(this.createError(
+        code,
+        error instanceof Error ? error.message : 'Failed to create job',
+        req
+      ));
+    }
+  }
+
+  private async getJob(req: Request, res: Response): Promise<void> {
+    const apiKey = (req as any).apiKey;
+    const job = this.jobService.getJob(req.params.id, apiKey.id);
+    
+    if (!job) {
+      res.status(404).json(this.createError('JOB_NOT_FOUND', 'Job not found', req));
+      return;
+    }
+    
+    const response: ApiSuccessResponse = {
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString(),
+      requestId: (req as any).requestId
+    };
+    
+    res.json(response);
+  }
+
   private async getUsageStats(req: Request, res: Response): Promise<void> {
     try {
       const apiKey = (req as any).apiKey;
@@ -302,17 +502,12 @@ class GetSiteStylesServer {
   // Admin endpoints
   private async listApiKeys(req: Request, res: Response): Promise<void> {
     try {
+      // Keys are stored hashed - the list carries only each key's prefix
       const apiKeys = await this.apiKeyService.getAllApiKeys();
       
-      // Don't expose the actual keys in the list
-      const safeKeys = apiKeys.map(k => ({
-        ...k,
-        key: k.key.substring(0, 8) + '...' + k.key.substring(k.key.length - 4)
-      }));
-      
       const response: ApiSuccessResponse = {
         success: true,
-        data: safeKeys,
+        data: apiKeys,
         timestamp: new Date().toISOString(),
         requestId: (req as any).requestId
       };
@@ -1,36 +1,36 @@
-import { JSDOM } from 'jsdom';
-import { Root, Declaration, AtRule } from 'postcss';
-import safeParser from 'postcss-safe-parser';
 import { formatOutput } from '../../formatter';
 import { HttpClient } from '../../http-client';
 import { SecurityValidator } from '../../security';
 import { MultiSourceAnalyzer } from '../../multi-source-analyzer';
-import { analyzeImages, mergeImageColorsWithCss } from '../../image-analysis';
-import { analyzeSemanticColors, enhanceColorsWithSemantic } from '../../semantic-color-analyzer';
-import type { 
-  ExtractedTokens, 
-  ExtractedMeta, 
-  ValidationError, 
-  AuthConfig, 
-  MultiSourceTokens, 
-  ImageAnalysisResult, 
-  SemanticColorAnalysis 
-} from '../../types';
-import type { AnalyzeRequest, AnalyzeResponse } from '../types';
+import { extractStylesFromUrl, calculateTotalTokens } from '../../extractor';
+import { auditBrandColors, parseBrandPalette, renderBrandAuditMarkdown } from '../../brand-audit';
+import { auditAccessibility, renderAccessibilityMarkdown } from '../../accessibility';
+import { diffSnapshots, renderDiffHtml, renderDiffMarkdown, snapshotFromAnalysis, snapshotFromUrl, TokenSnapshot } from '../../token-diff';
+import type { AuthConfig, ValidationError } from '../../types';
+import type { AccessibilityRequest, AccessibilityResponse, AnalyzeRequest, AnalyzeResponse, BrandAuditRequest, BrandAuditResponse, DiffRequest, DiffResponse, JobStage } from '../types';
+
+// Crawls run inside a request or job slot, so keep them bounded
+const MAX_CRAWL_PAGES = 50;
+const MAX_CRAWL_DEPTH = 5;
+const MAX_STYLESHEETS = 10; // Linked stylesheets fetched per page
 
 export class AnalysisService {
-  private httpClient: HttpClient;
   private validator: SecurityValidator;
 
   constructor() {
     this.validator = new SecurityValidator();
-    this.httpClient = new HttpClient(); // Will be configured per request
   }
 
-  async analyzeWebsite(request: AnalyzeRequest): Promise<AnalyzeResponse> {
+  // `onProgress` lets the job queue report which stage a long-running analysis is in
+  async analyzeWebsite(
+    request: AnalyzeRequest,
+    onProgress: (stage: JobStage, percent: number) => void = () => {}
+  ): Promise<AnalyzeResponse> {
     const startTime = Date.now();
 
     try {
+      onProgress('validating', 5);
+
       // Validate URLs
       const validator = this.validator;
       await validator.validateUrl(request.url);
@@ -42,43 +42,7 @@ export class AnalysisService {
       }
 
       // Configure auth if provided
-      let authConfig: AuthConfig | undefined;
-      if (request.auth) {
-        authConfig = {
-          type: request.auth.type as 'basic' | 'bearer' | 'cookie' | 'custom'
-        };
-
-        switch (authConfig.type) {
-          case 'basic':
-            if (!request.auth.username || !request.auth.password) {
-              throw new Error('Basic auth requires username and password');
-            }
-            authConfig.username = request.auth.username;
-            authConfig.password = request.auth.password;
-            break;
-          
-          case 'bearer':
-            if (!request.auth.token) {
-              throw new Error('Bearer auth requires token');
-            }
-            authConfig.token = request.auth.token;
-            break;
-          
-          case 'cookie':
-            if (!request.auth.cookies) {
-              throw new Error('Cookie auth requires cookies');
-            }
-            authConfig.cookies = request.auth.cookies;
-            break;
-          
-          case 'custom':
-            if (!request.auth.headers) {
-              throw new Error('Custom auth requires headers');
-            }
-            authConfig.headers = request.auth.headers;
-            break;
-        }
-      }
+      const authConfig = this.buildAuthConfig(request.auth);
 
       // Initialize HTTP client with auth
       const httpClient = new HttpClient({ auth: authConfig });
@@ -92,11 +56,55 @@ export class AnalysisService {
       let result: any;
       let meta: any;
 
-      if (urls.length === 1) {
+      onProgress('extracting', 10);
+
+      if (request.crawl) {
+        // Crawl the site and analyze each discovered page as a source
+        const multiAnalyzer = new MultiSourceAnalyzer(httpClient);
+        const multiResult = await multiAnalyzer.analyzeSite(request.url, {
+          ...request.crawl,
+          maxPages: Math.min(Math.max(request.crawl.maxPages || 20, 1), MAX_CRAWL_PAGES),
+          maxDepth: Math.min(Math.max(request.crawl.maxDepth ?? 2, 0), MAX_CRAWL_DEPTH)
+        }, undefined, { render: request.render || false, conditions: request.conditions, maxStylesheets: MAX_STYLESHEETS });
+
+        onProgress('formatting', 80);
+        result = formatOutput(multiResult.mergedTokens, {
+          sources: multiResult.sources,
+          extractedAt: new Date().toISOString(),
+          totalTokens: calculateTotalTokens(multiResult.mergedTokens),
+          conflicts: multiResult.conflicts,
+          crawl: multiResult.crawl,
+          coverage: multiResult.coverage
+        }, {
+          format: request.format || 'json',
+          allFormats: request.allFormats || false,
+          colorFormat: request.colorFormat || 'hsl',
+          compact: request.compact || false
+        });
+
+        meta = {
+          url: request.url,
+          extractedAt: new Date().toISOString(),
+          format: request.format || 'json',
+          processingTime: Date.now() - startTime,
+          sources: multiResult.sources,
+          conflicts: multiResult.conflicts,
+          crawl: multiResult.crawl,
+          coverage: multiResult.coverage,
+          totalTokens: calculateTotalTokens(multiResult.mergedTokens)
+        };
+      } else if (urls.length === 1) {
         // Single source analysis
-        const html = await httpClient.fetchHtml(request.url);
-        const { tokens, meta: extractedMeta } = await this.extractStylesFromHtml(html, request.url, request);
+        const { tokens, meta: extractedMeta, assets } = await extractStylesFromUrl(request.url, httpClient, {
+          includeImages: request.includeImages || false,
+          maxImages: request.maxImages || 10,
+          semanticAnalysis: request.semanticAnalysis || false,
+          render: request.render || false,
+          conditions: request.conditions,
+          maxStylesheets: MAX_STYLESHEETS
+        });
         
+        onProgress('formatting', 80);
         result = formatOutput(tokens, extractedMeta, {
           format: request.format || 'json',
           allFormats: request.allFormats || false,
@@ -109,17 +117,27 @@ export class AnalysisService {
           extractedAt: new Date().toISOString(),
           format: request.format || 'json',
           processingTime: Date.now() - startTime,
-          totalTokens: extractedMeta.totalTokens
+          totalTokens: extractedMeta.totalTokens,
+          cssImports: extractedMeta.cssImports,
+          stylesheets: extractedMeta.stylesheets,
+          render: extractedMeta.render,
+          assets,
+          semanticAnalysis: extractedMeta.semanticAnalysis ? {
+            totalElements: extractedMeta.semanticAnalysis.totalElements,
+            buttonColors: extractedMeta.semanticAnalysis.buttonColors.length,
+            brandColors: extractedMeta.semanticAnalysis.brandColors.length
+          } : undefined
         };
       } else {
         // Multi-source analysis
         const multiAnalyzer = new MultiSourceAnalyzer(httpClient);
-        const multiResult = await multiAnalyzer.analyzeMultipleSources(urls, this.extractTokensFromCss.bind(this));
+        const multiResult = await multiAnalyzer.analyzeMultipleSources(urls, undefined, { render: request.render || false, conditions: request.conditions, maxStylesheets: MAX_STYLESHEETS });
         
+        onProgress('formatting', 80);
         result = formatOutput(multiResult.mergedTokens, {
           sources: multiResult.sources,
           extractedAt: new Date().toISOString(),
-          totalTokens: this.calculateTotalTokens(multiResult.mergedTokens),
+          totalTokens: calculateTotalTokens(multiResult.mergedTokens),
           conflicts: multiResult.conflicts
         }, {
           format: request.format || 'json',
@@ -136,7 +154,7 @@ export class AnalysisService {
           processingTime: Date.now() - startTime,
           sources: multiResult.sources,
           conflicts: multiResult.conflicts,
-          totalTokens: this.calculateTotalTokens(multiResult.mergedTokens)
+          totalTokens: calculateTotalTokens(multiResult.mergedTokens)
         };
       }
 
@@ -159,343 +177,173 @@ export class AnalysisService {
     }
   }
 
-  private async extractStylesFromHtml(html: string, baseUrl: string, request: AnalyzeRequest): Promise<{ tokens: ExtractedTokens; meta: ExtractedMeta }> {
-    const dom = new JSDOM(html, { url: baseUrl });
-    const document = dom.window.document;
-
-    // Extract CSS
-    const cssContents: string[] = [];
-    
-    // Inline styles
-    const styleElements = document.querySelectorAll('style');
-    styleElements.forEach(style => {
-      if (style.textContent) {
-        cssContents.push(style.textContent);
-      }
-    });
-
-    // External stylesheets (limited for security)
-    const linkElements = document.querySelectorAll('link[rel="stylesheet"]');
-    for (const link of Array.from(linkElements).slice(0, 10)) { // Limit to 10 stylesheets
-      const href = link.getAttribute('href');
-      if (href) {
-        try {
-          const absoluteUrl = new URL(href, baseUrl).toString();
-          await this.validator.validateUrl(absoluteUrl);
-          const css = await this.httpClient.fetchCss(absoluteUrl);
-          cssContents.push(css);
-        } catch (error) {
-          console.warn(`Failed to fetch stylesheet: ${href}`, error);
-        }
-      }
-    }
+  // Each side is a URL analyzed now or a saved analysis JSON; URLs are analyzed one after the other
+  async diffTokens(request: DiffRequest): Promise<DiffResponse> {
+    const startTime = Date.now();
 
-    const combinedCss = cssContents.join('\n');
-    console.log(`Total combined CSS length: ${combinedCss.length}`);
-
-    // Extract tokens
-    const tokens = this.extractTokensFromCss(combinedCss);
-
-    const meta: ExtractedMeta = {
-      source: baseUrl,
-      extractedAt: new Date().toISOString(),
-      totalTokens: {
-        customProperties: Object.keys(tokens.customProperties).length,
-        colors: tokens.colors.frequency.length,
-        fontSizes: tokens.fontSizes.frequency.length,
-        fontFamilies: tokens.fontFamilies.frequency.length,
-        fontWeights: tokens.fontWeights.frequency.length,
-        lineHeights: tokens.lineHeights.frequency.length,
-        letterSpacings: tokens.letterSpacings.frequency.length,
-        spacing: tokens.spacing.frequency.length,
-        radii: tokens.radii.frequency.length,
-        shadows: tokens.shadows.frequency.length,
-        gradients: tokens.gradients.frequency.length,
-        breakpoints: tokens.breakpoints.frequency.length,
-        zIndices: tokens.zIndices.frequency.length,
-        transitions: tokens.transitions.frequency.length,
-        opacity: tokens.opacity.frequency.length,
-        aspectRatios: tokens.aspectRatios.frequency.length,
-        borderWidths: tokens.borderWidths.frequency.length,
-        borderStyles: tokens.borderStyles.frequency.length
-      }
-    };
+    try {
+      const httpClient = new HttpClient({ auth: this.buildAuthConfig(request.auth) });
+      const snapshot = async (input: DiffRequest['before'], side: 'before' | 'after'): Promise<TokenSnapshot> => {
+        if (typeof input === 'string') {
+          this.validator.validateUrl(input);
+          return snapshotFromUrl(input, httpClient, { render: request.render || false, maxStylesheets: MAX_STYLESHEETS });
+        }
+        return snapshotFromAnalysis(input, side);
+      };
 
-    return { tokens, meta };
-  }
+      const diff = diffSnapshots(await snapshot(request.before, 'before'), await snapshot(request.after, 'after'));
+      const format = request.format || 'json';
 
-  private extractTokensFromCss(css: string): ExtractedTokens {
-    const root: Root = safeParser(css);
-    const customProperties: Record<string, string> = {};
-    const customPropRefs: Record<string, number> = {};
-    const colors: string[] = [];
-    const colorsFromVariables: Set<string> = new Set();
-    const fontSizes: string[] = [];
-    const fontFamilies: string[] = [];
-    const fontWeights: string[] = [];
-    const lineHeights: string[] = [];
-    const letterSpacings: string[] = [];
-    const spacing: string[] = [];
-    const radii: string[] = [];
-    const shadows: string[] = [];
-    const gradients: string[] = [];
-    const breakpoints: string[] = [];
-    const zIndices: string[] = [];
-    const transitions: string[] = [];
-    const opacity: string[] = [];
-    const aspectRatios: string[] = [];
-    const borderWidths: string[] = [];
-    const borderStyles: string[] = [];
-
-    // Count var(--token) references
-    const varRefRegex = /var\((--[\w-]+)\)/g;
-    let match;
-    while ((match = varRefRegex.exec(css)) !== null) {
-      const varName = match[1];
-      customPropRefs[varName] = (customPropRefs[varName] || 0) + 1;
+      return {
+        success: true,
+        data: {
+          diff,
+          ...(format === 'markdown' ? { report: renderDiffMarkdown(diff) } : {}),
+          ...(format === 'html' ? { report: renderDiffHtml(diff) } : {})
+        },
+        meta: {
+          before: diff.before.source || diff.before.label,
+          after: diff.after.source || diff.after.label,
+          format,
+          processingTime: Date.now() - startTime
+        }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: {
+          code: (error as ValidationError).code || 'DIFF_FAILED',
+          message,
+          details: error instanceof Error ? error.stack : undefined
+        }
+      };
     }
+  }
 
-    // Extract tokens (simplified version of the CLI logic)
-    root.walkDecls((decl: Declaration) => {
-      // Custom properties
-      if (decl.prop.startsWith('--')) {
-        customProperties[decl.prop] = decl.value;
-        
-        const colorRegex = /(#[0-9a-fA-F]{3,8}|rgba?\([^)]*\)|hsla?\([^)]*\))/g;
-        const colorMatches = decl.value.match(colorRegex);
-        if (colorMatches) {
-          colorMatches.forEach(color => colorsFromVariables.add(color));
-        }
-        return;
-      }
+  async auditBrand(request: BrandAuditRequest): Promise<BrandAuditResponse> {
+    const startTime = Date.now();
 
-      // Extract various token types based on property names and values
-      this.extractTokensByProperty(decl, {
-        colors,
-        fontSizes,
-        fontFamilies,
-        fontWeights,
-        lineHeights,
-        letterSpacings,
-        spacing,
-        radii,
-        shadows,
-        gradients,
-        breakpoints,
-        zIndices,
-        transitions,
-        opacity,
-        aspectRatios,
-        borderWidths,
-        borderStyles
+    try {
+      // Parse the palette first so a bad palette fails before the page is fetched
+      const palette = parseBrandPalette(request.palette);
+      this.validator.validateUrl(request.url);
+
+      const httpClient = new HttpClient({ auth: this.buildAuthConfig(request.auth) });
+      const { tokens, semantic } = await extractStylesFromUrl(request.url, httpClient, {
+        semanticAnalysis: request.semanticAnalysis !== false,
+        render: request.render || false,
+        maxStylesheets: MAX_STYLESHEETS
       });
-    });
-
-    // Convert to frequency arrays
-    const dedup = (arr: string[]) => Array.from(new Set(arr));
-    const frequencyArray = (arr: string[]) => {
-      const freq: Record<string, number> = {};
-      for (const v of arr) {
-        freq[v] = (freq[v] || 0) + 1;
-      }
-      const total = arr.length;
-      return Object.entries(freq)
-        .map(([value, count]) => ({ value, count, prevalence: +(count / total * 100).toFixed(2) }))
-        .sort((a, b) => b.count - a.count);
-    };
 
-    // Build colorsFromVariables array
-    const colorsFromVariablesArray = Array.from(colorsFromVariables).map(color => ({
-      variable: Object.keys(customProperties).find(prop => customProperties[prop].includes(color)) || '',
-      value: color,
-      references: 1
-    }));
-
-    return {
-      customProperties: Object.fromEntries(
-        Object.entries(customProperties).map(([k, v]) => [
-          k,
-          {
-            value: v,
-            references: customPropRefs[k] || 0,
-            refVariable: this.resolveVar(v, customProperties) !== v ? v : undefined
-          }
-        ])
-      ),
-      colors: {
-        values: dedup(colors),
-        frequency: frequencyArray(colors)
-      },
-      colorsFromVariables: colorsFromVariablesArray.map(c => c.value),
-      fontSizes: {
-        values: dedup(fontSizes),
-        frequency: frequencyArray(fontSizes)
-      },
-      fontFamilies: {
-        values: dedup(fontFamilies),
-        frequency: frequencyArray(fontFamilies)
-      },
-      fontWeights: {
-        values: dedup(fontWeights),
-        frequency: frequencyArray(fontWeights)
-      },
-      lineHeights: {
-        values: dedup(lineHeights),
-        frequency: frequencyArray(lineHeights)
-      },
-      letterSpacings: {
-        values: dedup(letterSpacings),
-        frequency: frequencyArray(letterSpacings)
-      },
-      spacing: {
-        values: dedup(spacing),
-        frequency: frequencyArray(spacing)
-      },
-      radii: {
-        values: dedup(radii),
-        frequency: frequencyArray(radii)
-      },
-      shadows: {
-        values: dedup(shadows),
-        frequency: frequencyArray(shadows)
-      },
-      gradients: {
-        values: dedup(gradients),
-        frequency: frequencyArray(gradients)
-      },
-      breakpoints: {
-        values: dedup(breakpoints),
-        frequency: frequencyArray(breakpoints)
-      },
-      zIndices: {
-        values: dedup(zIndices),
-        frequency: frequencyArray(zIndices)
-      },
-      transitions: {
-        values: dedup(transitions),
-        frequency: frequencyArray(transitions)
-      },
-      opacity: {
-        values: dedup(opacity),
-        frequency: frequencyArray(opacity)
-      },
-      aspectRatios: {
-        values: dedup(aspectRatios),
-        frequency: frequencyArray(aspectRatios)
-      },
-      borderWidths: {
-        values: dedup(borderWidths),
-        frequency: frequencyArray(borderWidths)
-      },
-      borderStyles: {
-        values: dedup(borderStyles),
-        frequency: frequencyArray(borderStyles)
-      }
-    };
-  }
+      const audit = auditBrandColors(tokens, request.url, palette, semantic);
+      const format = request.format || 'json';
 
-  private extractTokensByProperty(decl: Declaration, collectors: any): void {
-    const prop = decl.prop.toLowerCase();
-    const value = decl.value;
-
-    // Colors
-    if (this.isColorProperty(prop)) {
-      const colorRegex = /(#[0-9a-fA-F]{3,8}|rgba?\([^)]*\)|hsla?\([^)]*\))/g;
-      const matches = value.match(colorRegex);
-      if (matches) {
-        matches.forEach(match => {
-          if (this.isValidColor(match)) {
-            collectors.colors.push(match);
-          }
-        });
-      }
-      
-      // Only check for CSS color keywords if no other color formats were found
-      if (!matches || matches.length === 0) {
-        const validColorKeywords = ['red', 'blue', 'green', 'black', 'white', 'gray', 'grey', 'yellow', 'orange', 'purple', 'pink', 'brown', 'cyan', 'magenta', 'lime', 'navy', 'olive', 'teal', 'silver', 'maroon', 'fuchsia', 'aqua'];
-        const keywords = value.split(/\s+/).filter(word => validColorKeywords.includes(word.toLowerCase()));
-        if (keywords.length > 0) {
-          collectors.colors.push(...keywords);
+      return {
+        success: true,
+        data: {
+          audit,
+          ...(format === 'markdown' ? { report: renderBrandAuditMarkdown(audit) } : {})
+        },
+        meta: {
+          url: request.url,
+          format,
+          processingTime: Date.now() - startTime
         }
-      }
-    }
-
-    // Font sizes
-    if (this.isFontSizeProperty(prop)) {
-      const sizeRegex = /(\d+(?:\.\d+)?(?:px|em|rem|pt|pc|in|mm|cm|ex|ch|vw|vh|vmin|vmax|%))/g;
-      const matches = value.match(sizeRegex);
-      if (matches) {
-        collectors.fontSizes.push(...matches);
-      }
-    }
-
-    // Spacing (margins, padding, gaps, etc.)
-    if (this.isSpacingProperty(prop)) {
-      const spacingRegex = /(\d+(?:\.\d+)?(?:px|em|rem|pt|pc|in|mm|cm|ex|ch|vw|vh|vmin|vmax|%))/g;
-      const matches = value.match(spacingRegex);
-      if (matches) {
-        collectors.spacing.push(...matches);
-      }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: {
+          code: (error as ValidationError).code || 'AUDIT_FAILED',
+          message,
+          details: error instanceof Error ? error.stack : undefined
+        }
+      };
     }
-
-    // Additional token extraction logic would go here...
-    // (This is a simplified version for the API)
   }
 
-  private isColorProperty(prop: string): boolean {
-    return /color|background|border|outline|fill|stroke/.test(prop);
-  }
+  async auditAccessibility(request: AccessibilityRequest): Promise<AccessibilityResponse> {
+    const startTime = Date.now();
 
-  private isFontSizeProperty(prop: string): boolean {
-    return prop === 'font-size' || prop === 'font';
-  }
+    try {
+      this.validator.validateUrl(request.url);
 
-  private isSpacingProperty(prop: string): boolean {
-    return /margin|padding|gap|top|right|bottom|left|width|height/.test(prop);
-  }
+      const httpClient = new HttpClient({ auth: this.buildAuthConfig(request.auth) });
+      const { tokens, meta, semantic } = await extractStylesFromUrl(request.url, httpClient, {
+        semanticAnalysis: request.semanticAnalysis !== false,
+        render: request.render || false,
+        maxStylesheets: MAX_STYLESHEETS
+      });
 
-  private isValidColor(color: string): boolean {
-    // Basic color validation
-    return !/^(inherit|initial|unset|auto|none|transparent)$/.test(color.toLowerCase());
-  }
+      // The theme under test is the shadcn theme /analyze would generate for the same site
+      const { theme } = formatOutput(tokens, meta, { format: 'shadcn', colorFormat: request.colorFormat || 'hsl' });
+      const accessibility = auditAccessibility(request.url, theme, semantic);
+      const format = request.format || 'json';
 
-  private resolveVar(value: string, customProperties: Record<string, string>, seen: Set<string> = new Set()): string {
-    const varRegex = /var\((--[\w-]+)\)/g;
-    let result = value;
-    let match;
-    while ((match = varRegex.exec(result)) !== null) {
-      const varName = match[1];
-      if (seen.has(varName)) break;
-      seen.add(varName);
-      const replacement = customProperties[varName];
-      if (replacement) {
-        const resolved = this.resolveVar(replacement, customProperties, seen);
-        result = result.replace(match[0], resolved);
-      }
+      return {
+        success: true,
+        data: {
+          accessibility,
+          ...(format === 'markdown' ? { report: renderAccessibilityMarkdown(accessibility) } : {})
+        },
+        meta: {
+          url: request.url,
+          format,
+          processingTime: Date.now() - startTime
+        }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: {
+          code: (error as ValidationError).code || 'AUDIT_FAILED',
+          message,
+          details: error instanceof Error ? error.stack : undefined
+        }
+      };
     }
-    return result;
   }
 
-  private calculateTotalTokens(tokens: ExtractedTokens): Record<string, number> {
-    return {
-      customProperties: Object.keys(tokens.customProperties).length,
-      colors: tokens.colors.frequency.reduce((a, b) => a + b.count, 0),
-      fontSizes: tokens.fontSizes.frequency.reduce((a, b) => a + b.count, 0),
-      fontFamilies: tokens.fontFamilies.frequency.reduce((a, b) => a + b.count, 0),
-      fontWeights: tokens.fontWeights.frequency.reduce((a, b) => a + b.count, 0),
-      lineHeights: tokens.lineHeights.frequency.reduce((a, b) => a + b.count, 0),
-      letterSpacings: tokens.letterSpacings.frequency.reduce((a, b) => a + b.count, 0),
-      spacing: tokens.spacing.frequency.reduce((a, b) => a + b.count, 0),
-      radii: tokens.radii.frequency.reduce((a, b) => a + b.count, 0),
-      shadows: tokens.shadows.frequency.reduce((a, b) => a + b.count, 0),
-      gradients: tokens.gradients.frequency.reduce((a, b) => a + b.count, 0),
-      breakpoints: tokens.breakpoints.frequency.reduce((a, b) => a + b.count, 0),
-      zIndices: tokens.zIndices.frequency.reduce((a, b) => a + b.count, 0),
-      transitions: tokens.transitions.frequency.reduce((a, b) => a + b.count, 0),
-      opacity: tokens.opacity.frequency.reduce((a, b) => a + b.count, 0),
-      aspectRatios: tokens.aspectRatios.frequency.reduce((a, b) => a + b.count, 0),
-      borderWidths: tokens.borderWidths.frequency.reduce((a, b) => a + b.count, 0),
-      borderStyles: tokens.borderStyles.frequency.reduce((a, b) => a + b.count, 0)
+  private buildAuthConfig(auth: AnalyzeRequest['auth']): AuthConfig | undefined {
+    if (!auth) return undefined;
+    const authConfig: AuthConfig = {
+      type: auth.type as 'basic' | 'bearer' | 'cookie' | 'custom'
     };
+
+    switch (authConfig.type) {
+      case 'basic':
+        if (!auth.username || !auth.password) {
+          throw new Error('Basic auth requires username and password');
+        }
+        authConfig.username = auth.username;
+        authConfig.password = auth.password;
+        break;
+      
+      case 'bearer':
+        if (!auth.token) {
+          throw new Error('Bearer auth requires token');
+        }
+        authConfig.token = auth.token;
+        break;
+      
+      case 'cookie':
+        if (!auth.cookies) {
+          throw new Error('Cookie auth requires cookies');
+        }
+        authConfig.cookies = auth.cookies;
+        break;
+      
+      case 'custom':
+        if (!auth.headers) {
+          throw new Error('Custom auth requires headers');
+        }
+        authConfig.headers = auth.headers;
+        break;
+    }
+
+    return authConfig;
   }
-} 
\ No newline at end of file
+}
@@ -1,58 +1,82 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import bcrypt from 'bcryptjs';
 import { ApiKeyData, UsageLogEntry, RATE_LIMIT_TIERS } from '../types';
+import { createApiKeyStore } from '../storage';
+import type { ApiKeyStore, ApiKeyUpdate, StoredApiKey } from '../storage';
+
+const KEY_PREFIX_LENGTH = 8;
+
+// API keys are looked up by hash, so only the digest ever reaches storage. Generated keys carry
+// 128 bits of randomness, which makes a fast unsalted hash sufficient (and keeps lookups indexed).
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// Show at most half of a key, so short hand-picked keys are not given away by their prefix
+function getKeyPrefix(key: string): string {
+  return key.substring(0, Math.min(KEY_PREFIX_LENGTH, Math.floor(key.length / 2)));
+}
+
+function toApiKeyData(stored: StoredApiKey): ApiKeyData {
+  const { keyHash, ...apiKey } = stored;
+  return apiKey;
+}
 
 export class ApiKeyService {
-  private apiKeys = new Map<string, ApiKeyData>();
-  private usageLogs: UsageLogEntry[] = [];
-  private rateLimitStore = new Map<string, { count: number; resetAt: Date }>();
+  private ready: Promise<void>;
 
-  constructor() {
-    this.initializeDefaultKeys();
+  constructor(private store: ApiKeyStore = createApiKeyStore()) {
+    this.ready = this.initialize();
+    this.ready.catch(error => console.error('❌ Failed to initialize API key storage:', error));
   }
 
-  private initializeDefaultKeys(): void {
+  private async initialize(): Promise<void> {
+    await this.store.init();
+    console.log(`🔑 API key storage: ${this.store.kind}`);
+    await this.initializeDefaultKeys();
+  }
+
+  // Seed keys from the environment. Stored keys survive restarts, so only missing ones are added.
+  private async initializeDefaultKeys(): Promise<void> {
     console.log('Initializing default API keys...');
-    console.log('DEFAULT_API_KEYS env:', process.env.DEFAULT_API_KEYS);
-    
+
     const defaultKeys = process.env.DEFAULT_API_KEYS?.split(',') || [];
-    
-    defaultKeys.forEach((key, index) => {
-      if (key.trim()) {
-        console.log(`Adding default key: ${key.trim()}`);
-        const apiKey: ApiKeyData = {
-          id: uuidv4(),
-          key: key.trim(),
-          name: `Default Key ${index + 1}`,
-          createdAt: new Date(),
-          usageCount: 0,
-          isActive: true,
-          rateLimitTier: 'basic',
-          monthlyUsage: 0,
-          monthlyResetAt: this.getNextMonthReset()
-        };
-        this.apiKeys.set(key.trim(), apiKey);
+
+    for (let index = 0; index < defaultKeys.length; index++) {
+      const key = defaultKeys[index].trim();
+      if (key) {
+        await this.seedKey(key, `Default Key ${index + 1}`, 'basic');
       }
-    });
+    }
 
     // Add admin key if provided
     const adminKey = process.env.ADMIN_API_KEY;
     if (adminKey) {
-      const apiKey: ApiKeyData = {
-        id: uuidv4(),
-        key: adminKey,
-        name: 'Admin Key',
-        createdAt: new Date(),
-        usageCount: 0,
-        isActive: true,
-        rateLimitTier: 'enterprise',
-        monthlyUsage: 0,
-        monthlyResetAt: this.getNextMonthReset()
-      };
-      this.apiKeys.set(adminKey, apiKey);
+      await this.seedKey(adminKey, 'Admin Key', 'enterprise');
     }
   }
 
+  private async seedKey(key: string, name: string, tier: ApiKeyData['rateLimitTier']): Promise<void> {
+    const keyHash = hashApiKey(key);
+    if (await this.store.findKeyByHash(keyHash)) {
+      return;
+    }
+
+    console.log(`Adding default key: ${name} (${getKeyPrefix(key)}...)`);
+    await this.store.insertKey({
+      id: uuidv4(),
+      keyHash,
+      keyPrefix: getKeyPrefix(key),
+      name,
+      createdAt: new Date(),
+      usageCount: 0,
+      isActive: true,
+      rateLimitTier: tier,
+      monthlyUsage: 0,
+      monthlyResetAt: this.getNextMonthReset()
+    });
+  }
+
   private getNextMonthReset(): Date {
     const date = new Date();
     date.setMonth(date.getMonth() + 1);
@@ -61,11 +85,15 @@ export class ApiKeyService {
     return date;
   }
 
-  async createApiKey(name: string, tier: 'basic' | 'premium' | 'enterprise' = 'basic'): Promise<ApiKeyData> {
+  // The plaintext key is only returned here - it cannot be recovered later
+  async createApiKey(name: string, tier: 'basic' | 'premium' | 'enterprise' = 'basic'): Promise<ApiKeyData & { key: string }> {
+    await this.ready;
+
     const key = this.generateApiKey();
-    const apiKey: ApiKeyData = {
+    const apiKey: StoredApiKey = {
       id: uuidv4(),
-      key,
+      keyHash: hashApiKey(key),
+      keyPrefix: getKeyPrefix(key),
       name,
       createdAt: new Date(),
       usageCount: 0,
@@ -76,116 +104,93 @@ export class ApiKeyService {
       monthlyResetAt: this.getNextMonthReset()
     };
 
-    this.apiKeys.set(key, apiKey);
-    return apiKey;
+    await this.store.insertKey(apiKey);
+    return { ...toApiKeyData(apiKey), key };
   }
 
   private generateApiKey(): string {
     const prefix = 'gss'; // Get-Site-Styles
     const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substring(2, 15);
+    const random = crypto.randomBytes(16).toString('hex');
     return `${prefix}_${timestamp}_${random}`;
   }
 
   async validateApiKey(key: string): Promise<ApiKeyData | null> {
-    const apiKey = this.apiKeys.get(key);
+    await this.ready;
+
+    let apiKey = await this.store.findKeyByHash(hashApiKey(key));
     if (!apiKey || !apiKey.isActive) {
       return null;
     }
 
+    // Reset monthly usage if needed - before the limit check, so last month's usage doesn't block this month
+    if (new Date() >= apiKey.monthlyResetAt) {
+      apiKey = await this.store.updateKey(apiKey.id, {
+        monthlyUsage: 0,
+        monthlyResetAt: this.getNextMonthReset()
+      }) || apiKey;
+    }
+
     // Check monthly limits
     if (apiKey.monthlyLimit && apiKey.monthlyUsage >= apiKey.monthlyLimit) {
       return null;
     }
 
-    // Reset monthly usage if needed
-    if (new Date() >= apiKey.monthlyResetAt) {
-      apiKey.monthlyUsage = 0;
-      apiKey.monthlyResetAt = this.getNextMonthReset();
-    }
-
-    return apiKey;
+    return toApiKeyData(apiKey);
   }
 
   async checkRateLimit(apiKey: ApiKeyData): Promise<{ allowed: boolean; resetAt?: Date; remaining?: number }> {
-    const tier = RATE_LIMIT_TIERS[apiKey.rateLimitTier];
-    const key = `${apiKey.id}:ratelimit`;
-    const now = new Date();
-    
-    let rateLimitData = this.rateLimitStore.get(key);
-    
-    // Initialize or reset if window expired
-    if (!rateLimitData || now >= rateLimitData.resetAt) {
-      rateLimitData = {
-        count: 0,
-        resetAt: new Date(now.getTime() + tier.windowMs)
-      };
-    }
+    await this.ready;
 
-    if (rateLimitData.count >= tier.maxRequests) {
-      return {
-        allowed: false,
-        resetAt: rateLimitData.resetAt,
-        remaining: 0
-      };
-    }
-
-    rateLimitData.count++;
-    this.rateLimitStore.set(key, rateLimitData);
+    const tier = RATE_LIMIT_TIERS[apiKey.rateLimitTier];
+    const result = await this.store.consumeRateLimit(`${apiKey.id}:ratelimit`, tier.windowMs, tier.maxRequests, new Date());
 
     return {
-      allowed: true,
-      resetAt: rateLimitData.resetAt,
-      remaining: tier.maxRequests - rateLimitData.count
+      allowed: result.allowed,
+      resetAt: result.resetAt,
+      remaining: result.allowed ? tier.maxRequests - result.count : 0
     };
   }
 
   async logUsage(entry: Omit<UsageLogEntry, 'id' | 'timestamp'>): Promise<void> {
-    const logEntry: UsageLogEntry = {
+    await this.ready;
+
+    // Appends the log and updates the key's usage counters in one step
+    await this.store.recordUsage({
       id: uuidv4(),
       timestamp: new Date(),
       ...entry
-    };
-
-    this.usageLogs.push(logEntry);
-
-    // Update API key usage
-    const apiKey = this.apiKeys.get(entry.apiKeyId);
-    if (apiKey) {
-      apiKey.usageCount++;
-      apiKey.monthlyUsage++;
-      apiKey.lastUsedAt = new Date();
-    }
-
-    // Keep only last 10,000 logs in memory
-    if (this.usageLogs.length > 10000) {
-      this.usageLogs = this.usageLogs.slice(-10000);
-    }
+    });
   }
 
   async getApiKeyStats(keyId: string): Promise<any> {
-    const apiKey = Array.from(this.apiKeys.values()).find(k => k.id === keyId);
+    await this.ready;
+
+    const apiKey = await this.store.findKeyById(keyId);
     if (!apiKey) {
       throw new Error('API key not found');
     }
 
-    const logs = this.usageLogs.filter(log => log.apiKeyId === keyId);
     const now = new Date();
-    
-    const last24Hours = logs.filter(log => 
+    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const since = startOfMonth < thirtyDaysAgo ? startOfMonth : thirtyDaysAgo;
+    const logs = await this.store.getUsageLogs({ apiKeyId: keyId, since });
+
+    const last24Hours = logs.filter(log =>
       now.getTime() - log.timestamp.getTime() < 24 * 60 * 60 * 1000
     ).length;
 
-    const last7Days = logs.filter(log => 
+    const last7Days = logs.filter(log =>
       now.getTime() - log.timestamp.getTime() < 7 * 24 * 60 * 60 * 1000
     ).length;
 
-    const last30Days = logs.filter(log => 
+    const last30Days = logs.filter(log =>
       now.getTime() - log.timestamp.getTime() < 30 * 24 * 60 * 60 * 1000
     ).length;
 
-    const thisMonth = logs.filter(log => 
-      log.timestamp.getMonth() === now.getMonth() && 
+    const thisMonth = logs.filter(log =>
+      log.timestamp.getMonth() === now.getMonth() &&
       log.timestamp.getFullYear() === now.getFullYear()
     ).length;
 
@@ -209,8 +214,8 @@ export class ApiKeyService {
 
     // Rate limit info
     const tier = RATE_LIMIT_TIERS[apiKey.rateLimitTier];
-    const rateLimitKey = `${apiKey.id}:ratelimit`;
-    const rateLimitData = this.rateLimitStore.get(rateLimitKey);
+    const rateLimitData = await this.store.getRateLimit(`${apiKey.id}:ratelimit`);
+    const windowActive = rateLimitData && now < rateLimitData.resetAt;
 
     return {
       apiKey: {
@@ -232,76 +237,76 @@ export class ApiKeyService {
         tier: apiKey.rateLimitTier,
         windowMs: tier.windowMs,
         maxRequests: tier.maxRequests,
-        currentCount: rateLimitData?.count || 0,
-        resetsAt: rateLimitData?.resetAt?.toISOString() || new Date(Date.now() + tier.windowMs).toISOString()
+        currentCount: windowActive ? rateLimitData!.count : 0,
+        resetsAt: windowActive ? rateLimitData!.resetAt.toISOString() : new Date(Date.now() + tier.windowMs).toISOString()
       }
     };
   }
 
   async getAllApiKeys(): Promise<ApiKeyData[]> {
-    return Array.from(this.apiKeys.values());
+    await this.ready;
+    return (await this.store.listKeys()).map(toApiKeyData);
   }
 
-  async updateApiKey(key: string, updates: Partial<Pick<ApiKeyData, 'name' | 'isActive' | 'rateLimitTier' | 'monthlyLimit'>>): Promise<ApiKeyData | null> {
-    const apiKey = this.apiKeys.get(key);
+  async updateApiKey(keyOrId: string, updates: Partial<Pick<ApiKeyData, 'name' | 'isActive' | 'rateLimitTier' | 'monthlyLimit'>>): Promise<ApiKeyData | null> {
+    await this.ready;
+
+    const apiKey = await this.findKey(keyOrId);
     if (!apiKey) {
       return null;
     }
 
-    Object.assign(apiKey, updates);
-    return apiKey;
+    // Only pass through the fields admins may change, whatever else the request body holds
+    const allowed: ApiKeyUpdate = {};
+    if (updates.name !== undefined) allowed.name = updates.name;
+    if (updates.isActive !== undefined) allowed.isActive = updates.isActive;
+    if (updates.rateLimitTier !== undefined) allowed.rateLimitTier = updates.rateLimitTier;
+    if (updates.monthlyLimit !== undefined) allowed.monthlyLimit = updates.monthlyLimit;
+
+    const updated = await this.store.updateKey(apiKey.id, allowed);
+    return updated ? toApiKeyData(updated) : null;
   }
 
-  async deleteApiKey(key: string): Promise<boolean> {
-    return this.apiKeys.delete(key);
+  async deleteApiKey(keyOrId: string): Promise<boolean> {
+    await this.ready;
+
+    const apiKey = await this.findKey(keyOrId);
+    return apiKey ? this.store.deleteKey(apiKey.id) : false;
   }
 
   async getUsageLogs(apiKeyId?: string, limit: number = 100): Promise<UsageLogEntry[]> {
-    let logs = this.usageLogs;
-    
-    if (apiKeyId) {
-      logs = logs.filter(log => log.apiKeyId === apiKeyId);
-    }
-
-    return logs
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .slice(0, limit);
+    await this.ready;
+    return this.store.getUsageLogs({ apiKeyId, limit: isFinite(limit) && limit >= 0 ? limit : 100 });
   }
 
   async getAdminStats(): Promise<any> {
-    const totalKeys = this.apiKeys.size;
-    const activeKeys = Array.from(this.apiKeys.values()).filter(k => k.isActive).length;
-    
+    await this.ready;
+
+    const apiKeys = await this.store.listKeys();
+    const totalKeys = apiKeys.length;
+    const activeKeys = apiKeys.filter(k => k.isActive).length;
+
     const now = new Date();
-    const totalRequests = this.usageLogs.length;
-    const requestsToday = this.usageLogs.filter(log => 
-      now.toDateString() === log.timestamp.toDateString()
-    ).length;
-    
-    const errors = this.usageLogs.filter(log => log.statusCode >= 400).length;
-    const errorRate = totalRequests > 0 ? Math.round((errors / totalRequests) * 100) : 0;
-    
-    const avgResponseTime = totalRequests > 0 
-      ? Math.round(this.usageLogs.reduce((sum, log) => sum + log.responseTime, 0) / totalRequests)
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const summary = await this.store.summarizeUsage(startOfToday);
+
+    const totalRequests = summary.total;
+    const errorRate = totalRequests > 0 ? Math.round((summary.errors / totalRequests) * 100) : 0;
+    const avgResponseTime = totalRequests > 0
+      ? Math.round(summary.totalResponseTime / totalRequests)
       : 0;
 
     // Top API keys by usage
-    const keyUsage = new Map<string, number>();
-    this.usageLogs.forEach(log => {
-      keyUsage.set(log.apiKeyId, (keyUsage.get(log.apiKeyId) || 0) + 1);
-    });
-
-    const topApiKeys = Array.from(keyUsage.entries())
-      .map(([id, count]) => {
-        const apiKey = Array.from(this.apiKeys.values()).find(k => k.id === id);
+    const topApiKeys = summary.byApiKey
+      .slice(0, 10)
+      .map(({ apiKeyId, requests }) => {
+        const apiKey = apiKeys.find(k => k.id === apiKeyId);
         return {
-          id,
+          id: apiKeyId,
           name: apiKey?.name || 'Unknown',
-          requests: count
+          requests
         };
-      })
-      .sort((a, b) => b.requests - a.requests)
-      .slice(0, 10);
+      });
 
     return {
       apiKeys: {
@@ -310,15 +315,26 @@ export class ApiKeyService {
       },
       requests: {
         total: totalRequests,
-        today: requestsToday,
+        today: summary.today,
         errorRate,
         avgResponseTime
       },
       topApiKeys,
       systemHealth: {
+        storage: this.store.kind,
         memory: process.memoryUsage(),
         uptime: process.uptime()
       }
     };
   }
-} 
\ No newline at end of file
+
+  async close(): Promise<void> {
+    await this.ready.catch(() => undefined);
+    await this.store.close();
+  }
+
+  // Admin routes address keys by the key itself or by its id
+  private async findKey(keyOrId: string): Promise<StoredApiKey | null> {
+    return (await this.store.findKeyByHash(hashApiKey(keyOrId))) || this.store.findKeyById(keyOrId);
+  }
+}
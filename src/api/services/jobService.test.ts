@@ -0,0 +1,82 @@
+import { AnalysisService } from './analysisService';
+import { JobService } from './jobService';
+import { WebhookService } from './webhookService';
+import type { AnalyzeRequest, AnalyzeResponse } from '../types';
+
+// Analyses that stay running until the test settles them
+class FakeAnalysisService {
+  started: string[] = [];
+  private settle = new Map<string, (response: AnalyzeResponse) => void>();
+
+  analyzeWebsite(request: AnalyzeRequest): Promise<AnalyzeResponse> {
+    this.started.push(request.url);
+    return new Promise(resolve => this.settle.set(request.url, resolve));
+  }
+
+  finish(url: string): void {
+    this.settle.get(url)!({ success: true, data: {}, meta: {} } as AnalyzeResponse);
+  }
+}
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('JobService', () => {
+  let analysis: FakeAnalysisService;
+  let jobs: JobService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    analysis = new FakeAnalysisService();
+    jobs = new JobService(analysis as unknown as AnalysisService, new WebhookService(), { concurrency: 2, maxQueued: 2 });
+  });
+
+  it('runs at most `concurrency` analyses at once and starts the next when one finishes', async () => {
+    const ids = ['https://a.test', 'https://b.test', 'https://c.test'].map(url => jobs.createJob({ url }, 'key-1').job.id);
+
+    expect(analysis.started).toEqual(['https://a.test', 'https://b.test']);
+    expect(jobs.getQueueStats()).toMatchObject({ running: 2, queued: 1 });
+    expect(jobs.getJob(ids[2], 'key-1')).toMatchObject({ status: 'queued', queuePosition: 1 });
+
+    analysis.finish('https://a.test');
+    await flush();
+
+    expect(analysis.started).toEqual(['https://a.test', 'https://b.test', 'https://c.test']);
+    expect(jobs.getJob(ids[0], 'key-1')).toMatchObject({ status: 'completed', progress: { stage: 'done', percent: 100 } });
+    expect(jobs.getJob(ids[2], 'key-1')).toMatchObject({ status: 'running', queuePosition: undefined });
+  });
+
+  it('rejects new jobs with QUEUE_FULL once maxQueued jobs are waiting', () => {
+    ['https://a.test', 'https://b.test', 'https://c.test', 'https://d.test'].forEach(url => jobs.createJob({ url }, 'key-1'));
+
+    expect(() => jobs.createJob({ url: 'https://e.test' }, 'key-1')).toThrow(expect.objectContaining({ code: 'QUEUE_FULL' }));
+    expect(jobs.getQueueStats()).toMatchObject({ running: 2, queued: 2 });
+  });
+
+  it('only shows a job to the API key that created it', () => {
+    const { job } = jobs.createJob({ url: 'https://a.test' }, 'key-1');
+
+    expect(jobs.getJob(job.id, 'key-1')).toMatchObject({ id: job.id });
+    expect(jobs.getJob(job.id, 'key-2')).toBeNull();
+    expect(jobs.getJob('missing', 'key-1')).toBeNull();
+  });
+
+  it('returns a generated webhook secret only when none was supplied', () => {
+    const generated = jobs.createJob({ url: 'https://a.test', webhookUrl: 'https://hooks.test/done' }, 'key-1');
+    const supplied = jobs.createJob({ url: 'https://b.test', webhookUrl: 'https://hooks.test/done', webhookSecret: 's3cret' }, 'key-1');
+
+    expect(generated.webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+    expect(generated.job.webhook).toMatchObject({ url: 'https://hooks.test/done', status: 'pending', attempts: 0 });
+    expect(supplied.webhookSecret).toBeUndefined();
+    expect(() => jobs.createJob({ url: 'https://c.test', webhookUrl: 'http://localhost/hook' }, 'key-1'))
+      .toThrow(expect.objectContaining({ code: 'INVALID_WEBHOOK_URL' }));
+  });
+});
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisService } from './analysisService';
+import { WebhookService } from './webhookService';
+import type { ValidationError } from '../../types';
+import type { AnalyzeRequest, JobStage, JobStatus, JobView, WebhookDelivery } from '../types';
+
+export interface JobQueueConfig {
+  concurrency: number; // Analyses running at once
+  maxQueued: number; // Jobs waiting beyond that are rejected with QUEUE_FULL
+  retentionMs: number; // How long finished jobs stay pollable
+}
+
+export const DEFAULT_JOB_QUEUE_CONFIG: JobQueueConfig = {
+  concurrency: 2,
+  maxQueued: 100,
+  retentionMs: 60 * 60 * 1000 // 1 hour
+};
+
+interface AnalysisJob {
+  id: string;
+  apiKeyId: string;
+  request: AnalyzeRequest;
+  status: JobStatus;
+  stage: JobStage;
+  percent: number;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  result?: JobView['result'];
+  error?: JobView['error'];
+  webhook?: WebhookDelivery;
+  webhookSecret?: string;
+}
+
+function createJobError(code: string, message: string): ValidationError {
+  const error = new Error(message) as ValidationError;
+  error.name = 'ValidationError';
+  error.code = code;
+  return error;
+}
+
+// In-process analysis queue. Jobs live in memory: they do not survive a restart, and each
+// server instance only knows the jobs it accepted.
+export class JobService {
+  private config: JobQueueConfig;
+  private jobs = new Map<string, AnalysisJob>();
+  private pending: string[] = [];
+  private running = 0;
+
+  constructor(
+    private analysisService: AnalysisService,
+    private webhookService: WebhookService = new WebhookService(),
+    config: Partial<JobQueueConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_JOB_QUEUE_CONFIG, ...config };
+  }
+
+  // Queue an analysis. Returns the job plus, when a webhook was requested without a secret,
+  // the generated signing secret - it is not retrievable afterwards.
+  createJob(request: AnalyzeRequest, apiKeyId: string): { job: JobView; webhookSecret?: string } {
+    this.pruneFinishedJobs();
+
+    if (!request.url) {
+      throw createJobError('MISSING_URL', 'URL is required');
+    }
+    if (this.pending.length >= this.config.maxQueued) {
+      throw createJobError('QUEUE_FULL', `Job queue is full (${this.config.maxQueued} jobs waiting), try again later`);
+    }
+
+    const job: AnalysisJob = {
+      id: uuidv4(),
+      apiKeyId,
+      request,
+      status: 'queued',
+      stage: 'queued',
+      percent: 0,
+      createdAt: new Date()
+    };
+
+    let generatedSecret: string | undefined;
+    if (request.webhookUrl) {
+      try {
+        job.webhook = { url: this.webhookService.validateUrl(request.webhookUrl), status: 'pending', attempts: 0 };
+      } catch (error) {
+        throw createJobError('INVALID_WEBHOOK_URL', error instanceof Error ? error.message : String(error));
+      }
+      if (!request.webhookSecret) {
+        generatedSecret = crypto.randomBytes(32).toString('hex');
+      }
+      job.webhookSecret = request.webhookSecret || generatedSecret;
+    }
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    this.pump();
+
+    return { job: this.toView(job), webhookSecret: generatedSecret };
+  }
+
+  // Jobs are only visible to the API key that created them
+  getJob(id: string, apiKeyId: string): JobView | null {
+    const job = this.jobs.get(id);
+    return job && job.apiKeyId === apiKeyId ? this.toView(job) : null;
+  }
+
+  getQueueStats(): { queued: number; running: number; concurrency: number; maxQueued: number } {
+    return {
+      queued: this.pending.length,
+      running: this.running,
+      concurrency: this.config.concurrency,
+      maxQueued: this.config.maxQueued
+    };
+  }
+
+  private pump(): void {
+    while (this.running < this.config.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (!job) continue;
+
+      this.running++;
+      const done = () => {
+        this.running--;
+        this.pump();
+      };
+      this.runJob(job).then(done, done);
+    }
+  }
+
+  private async runJob(job: AnalysisJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date();
+    console.log(`⚙️ Job ${job.id} started: ${job.request.url}`);
+
+    try {
+      const response = await this.analysisService.analyzeWebsite(job.request, (stage, percent) => {
+        job.stage = stage;
+        job.percent = percent;
+      });
+
+      if (response.success) {
+        job.status = 'completed';
+        job.result = { data: response.data, meta: response.meta };
+      } else {
+        job.status = 'failed';
+        job.error = {
+          code: response.error?.code || 'ANALYSIS_FAILED',
+          message: response.error?.message || 'Analysis failed'
+        };
+      }
+    } catch (error) {
+      job.status = 'failed';
+      job.error = { code: 'ANALYSIS_FAILED', message: error instanceof Error ? error.message : String(error) };
+    }
+
+    job.stage = 'done';
+    job.percent = 100;
+    job.completedAt = new Date();
+    console.log(`${job.status === 'completed' ? '✅' : '❌'} Job ${job.id} ${job.status}`);
+
+    // Delivery retries run in the background so they don't hold a queue slot
+    if (job.webhook && job.webhookSecret) {
+      this.webhookService.deliver(job.webhook, {
+        event: job.status === 'completed' ? 'job.completed' : 'job.failed',
+        deliveredAt: new Date().toISOString(),
+        job: this.toView(job)
+      }, job.webhookSecret).catch(error => console.error(`Webhook delivery for job ${job.id} crashed:`, error));
+    }
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - this.config.retentionMs;
+    this.jobs.forEach((job, id) => {
+      if (job.completedAt && job.completedAt.getTime() < cutoff && (!job.webhook || job.webhook.status !== 'pending')) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+
+  private toView(job: AnalysisJob): JobView {
+    const position = this.pending.indexOf(job.id);
+    return {
+      id: job.id,
+      status: job.status,
+      progress: { stage: job.stage, percent: job.percent },
+      queuePosition: position >= 0 ? position + 1 : undefined,
+      request: {
+        url: job.request.url,
+        urls: job.request.urls,
+        format: job.request.format,
+        allFormats: job.request.allFormats
+      },
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString(),
+      completedAt: job.completedAt?.toISOString(),
+      result: job.result,
+      error: job.error,
+      webhook: job.webhook ? { ...job.webhook } : undefined
+    };
+  }
+}
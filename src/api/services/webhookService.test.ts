@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, WebhookService, signWebhookPayload } from './webhookService';
+import type { WebhookDelivery, WebhookPayload } from '../types';
+
+const payload: WebhookPayload = {
+  event: 'job.completed',
+  deliveredAt: '2024-01-01T00:00:00.000Z',
+  job: {
+    id: 'job-1',
+    status: 'completed',
+    progress: { stage: 'done', percent: 100 },
+    request: { url: 'https://example.com' },
+    createdAt: '2024-01-01T00:00:00.000Z'
+  }
+};
+
+function pendingDelivery(): WebhookDelivery {
+  return { url: 'https://hooks.test/done', status: 'pending', attempts: 0 };
+}
+
+// Answers each POST with the next status in `statuses`
+function stubPost(...statuses: number[]): jest.SpyInstance {
+  const post = jest.spyOn(axios, 'post');
+  statuses.forEach(status => post.mockResolvedValueOnce({ status }));
+  return post;
+}
+
+describe('signWebhookPayload', () => {
+  it('is a hex HMAC-SHA256 of `${timestamp}.${body}` prefixed with sha256=', () => {
+    const expected = crypto.createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+    expect(signWebhookPayload('{"a":1}', '1700000000', 'secret')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe('WebhookService.deliver', () => {
+  const service = new WebhookService({ maxAttempts: 3, initialDelayMs: 0 });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.spyOn(axios, 'post').mockReset();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('signs the exact body it sends', async () => {
+    const post = stubPost(200);
+    const delivery = pendingDelivery();
+
+    await service.deliver(delivery, payload, 'secret');
+
+    const [url, body, config] = post.mock.calls[0];
+    expect(url).toBe('https://hooks.test/done');
+    expect(body).toBe(JSON.stringify(payload));
+    expect(config.headers[SIGNATURE_HEADER]).toBe(signWebhookPayload(body, config.headers[TIMESTAMP_HEADER], 'secret'));
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, lastResponseStatus: 200 });
+  });
+
+  it('retries 5xx responses until one succeeds', async () => {
+    const post = stubPost(503, 500, 204);
+    const delivery = pendingDelivery();
+
+    await service.deliver(delivery, payload, 'secret');
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, lastError: undefined });
+  });
+
+  it.each([400, 401, 404, 410])('does not retry HTTP %i', async status => {
+    const post = stubPost(status, 200);
+    const delivery = pendingDelivery();
+
+    await service.deliver(delivery, payload, 'secret');
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, lastResponseStatus: status });
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const post = stubPost(429, 502, 503, 200);
+    const delivery = pendingDelivery();
+
+    await service.deliver(delivery, payload, 'secret');
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 3, lastError: 'Receiver responded with HTTP 503' });
+  });
+});
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { SecurityValidator } from '../../security';
+import type { WebhookDelivery, WebhookPayload } from '../types';
+
+export interface WebhookConfig {
+  maxAttempts: number;
+  initialDelayMs: number; // Doubled after every failed attempt
+  timeoutMs: number;
+}
+
+export const DEFAULT_WEBHOOK_CONFIG: WebhookConfig = {
+  maxAttempts: 5,
+  initialDelayMs: 2000,
+  timeoutMs: 10000
+};
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// Signature over `${timestamp}.${body}`; receivers recompute it with their secret and should
+// reject stale timestamps to stop replays
+export function signWebhookPayload(body: string, timestamp: string, secret: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// 408/429 and 5xx are worth retrying; any other 4xx means the receiver rejected the call
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export class WebhookService {
+  private config: WebhookConfig;
+  private validator: SecurityValidator;
+
+  constructor(config: Partial<WebhookConfig> = {}, validator?: SecurityValidator) {
+    this.config = { ...DEFAULT_WEBHOOK_CONFIG, ...config };
+    this.validator = validator || new SecurityValidator();
+  }
+
+  // Same host policy as analysis targets, so a webhook can't be pointed at internal services
+  validateUrl(url: string): string {
+    return this.validator.validateUrl(url).toString();
+  }
+
+  // POST the payload until the receiver answers 2xx, a non-retryable status, or attempts run out.
+  // `delivery` is updated in place so job polling shows the delivery state.
+  async deliver(delivery: WebhookDelivery, payload: WebhookPayload, secret: string): Promise<void> {
+    const body = JSON.stringify(payload);
+    let delay = this.config.initialDelayMs;
+
+    for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      delivery.attempts = attempt;
+      delivery.lastAttemptAt = new Date().toISOString();
+
+      let retryable = true;
+      try {
+        const response = await axios.post(delivery.url, body, {
+          timeout: this.config.timeoutMs,
+          maxRedirects: 0,
+          validateStatus: () => true,
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Get-Site-Styles-Webhook/1.0.0',
+            'X-Webhook-Event': payload.event,
+            [TIMESTAMP_HEADER]: timestamp,
+            [SIGNATURE_HEADER]: signWebhookPayload(body, timestamp, secret)
+          }
+        });
+
+        delivery.lastResponseStatus = response.status;
+        if (response.status >= 200 && response.status < 300) {
+          delivery.status = 'delivered';
+          delivery.deliveredAt = new Date().toISOString();
+          delivery.lastError = undefined;
+          return;
+        }
+        delivery.lastError = `Receiver responded with HTTP ${response.status}`;
+        retryable = isRetryable(response.status);
+      } catch (error) {
+        delivery.lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      if (!retryable || attempt === this.config.maxAttempts) break;
+      console.warn(`⚠️ Webhook delivery to ${delivery.url} failed (attempt ${attempt}/${this.config.maxAttempts}): ${delivery.lastError}`);
+      await sleep(delay);
+      delay *= 2;
+    }
+
+    delivery.status = 'failed';
+    console.warn(`❌ Giving up on webhook delivery to ${delivery.url} after ${delivery.attempts} attempt(s): ${delivery.lastError}`);
+  }
+}
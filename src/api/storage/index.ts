@@ -0,0 +1,26 @@
+import { MemoryApiKeyStore } from './memoryStore';
+import { SqliteApiKeyStore } from './sqliteStore';
+import type { ApiKeyStore } from './types';
+
+export { MemoryApiKeyStore } from './memoryStore';
+export { SqliteApiKeyStore } from './sqliteStore';
+export { MIGRATIONS, runMigrations } from './migrations';
+export type * from './types';
+
+export const DEFAULT_DATABASE_PATH = 'data/get-site-styles.db';
+
+// Pick the backend from the environment:
+//   API_KEY_STORE=sqlite (default) | memory
+//   API_KEY_DATABASE_PATH=<file>  (sqlite only; put it on a persistent disk in production)
+export function createApiKeyStore(env: NodeJS.ProcessEnv = process.env): ApiKeyStore {
+  const kind = (env.API_KEY_STORE || (env.NODE_ENV === 'test' ? 'memory' : 'sqlite')).toLowerCase();
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryApiKeyStore();
+    case 'sqlite':
+      return new SqliteApiKeyStore(env.API_KEY_DATABASE_PATH || DEFAULT_DATABASE_PATH);
+    default:
+      throw new Error(`Unknown API_KEY_STORE "${kind}" (expected "sqlite" or "memory")`);
+  }
+}
@@ -0,0 +1,135 @@
+import type { UsageLogEntry } from '../types';
+import type {
+  ApiKeyStore,
+  ApiKeyUpdate,
+  RateLimitResult,
+  RateLimitWindow,
+  StoredApiKey,
+  UsageLogQuery,
+  UsageSummary
+} from './types';
+
+// Keep only the most recent logs - this store lives in process memory
+const MAX_USAGE_LOGS = 10000;
+
+// Non-persistent store for tests and local development. Everything is lost on restart.
+export class MemoryApiKeyStore implements ApiKeyStore {
+  readonly kind = 'memory' as const;
+
+  private apiKeys = new Map<string, StoredApiKey>(); // By id
+  private usageLogs: UsageLogEntry[] = [];
+  private rateLimits = new Map<string, RateLimitWindow>();
+
+  async init(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  async insertKey(apiKey: StoredApiKey): Promise<void> {
+    if (this.findByHash(apiKey.keyHash)) {
+      throw new Error('API key already exists');
+    }
+    this.apiKeys.set(apiKey.id, { ...apiKey });
+  }
+
+  async findKeyByHash(keyHash: string): Promise<StoredApiKey | null> {
+    const apiKey = this.findByHash(keyHash);
+    return apiKey ? { ...apiKey } : null;
+  }
+
+  async findKeyById(id: string): Promise<StoredApiKey | null> {
+    const apiKey = this.apiKeys.get(id);
+    return apiKey ? { ...apiKey } : null;
+  }
+
+  async listKeys(): Promise<StoredApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .map(apiKey => ({ ...apiKey }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateKey(id: string, updates: ApiKeyUpdate): Promise<StoredApiKey | null> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey) return null;
+
+    Object.assign(apiKey, updates);
+    return { ...apiKey };
+  }
+
+  async deleteKey(id: string): Promise<boolean> {
+    return this.apiKeys.delete(id);
+  }
+
+  async recordUsage(entry: UsageLogEntry): Promise<void> {
+    this.usageLogs.push(entry);
+    if (this.usageLogs.length > MAX_USAGE_LOGS) {
+      this.usageLogs = this.usageLogs.slice(-MAX_USAGE_LOGS);
+    }
+
+    const apiKey = this.apiKeys.get(entry.apiKeyId);
+    if (apiKey) {
+      apiKey.usageCount++;
+      apiKey.monthlyUsage++;
+      apiKey.lastUsedAt = entry.timestamp;
+    }
+  }
+
+  async getUsageLogs(query: UsageLogQuery): Promise<UsageLogEntry[]> {
+    const logs = this.usageLogs.filter(log =>
+      (!query.apiKeyId || log.apiKeyId === query.apiKeyId) &&
+      (!query.since || log.timestamp >= query.since)
+    );
+
+    logs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    return query.limit !== undefined ? logs.slice(0, query.limit) : logs;
+  }
+
+  async summarizeUsage(startOfToday: Date): Promise<UsageSummary> {
+    const byApiKey = new Map<string, number>();
+    let today = 0;
+    let errors = 0;
+    let totalResponseTime = 0;
+
+    this.usageLogs.forEach(log => {
+      if (log.timestamp >= startOfToday) today++;
+      if (log.statusCode >= 400) errors++;
+      totalResponseTime += log.responseTime;
+      byApiKey.set(log.apiKeyId, (byApiKey.get(log.apiKeyId) || 0) + 1);
+    });
+
+    return {
+      total: this.usageLogs.length,
+      today,
+      errors,
+      totalResponseTime,
+      byApiKey: Array.from(byApiKey.entries())
+        .map(([apiKeyId, requests]) => ({ apiKeyId, requests }))
+        .sort((a, b) => b.requests - a.requests)
+    };
+  }
+
+  async consumeRateLimit(bucket: string, windowMs: number, maxRequests: number, now: Date): Promise<RateLimitResult> {
+    let window = this.rateLimits.get(bucket);
+
+    // Initialize or reset if window expired
+    if (!window || now >= window.resetAt) {
+      window = { count: 0, resetAt: new Date(now.getTime() + windowMs) };
+    }
+
+    if (window.count >= maxRequests) {
+      return { allowed: false, ...window };
+    }
+
+    window.count++;
+    this.rateLimits.set(bucket, window);
+    return { allowed: true, ...window };
+  }
+
+  async getRateLimit(bucket: string): Promise<RateLimitWindow | null> {
+    const window = this.rateLimits.get(bucket);
+    return window ? { ...window } : null;
+  }
+
+  private findByHash(keyHash: string): StoredApiKey | undefined {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+}
@@ -0,0 +1,95 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Append-only: never edit a migration that has shipped, add a new version instead.
+// Timestamps are stored as epoch milliseconds.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_api_keys',
+    sql: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        key_hash TEXT NOT NULL UNIQUE,
+        key_prefix TEXT NOT NULL,
+        name TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        usage_count INTEGER NOT NULL DEFAULT 0,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        rate_limit_tier TEXT NOT NULL,
+        monthly_limit INTEGER,
+        monthly_usage INTEGER NOT NULL DEFAULT 0,
+        monthly_reset_at INTEGER NOT NULL
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'create_usage_logs',
+    sql: `
+      CREATE TABLE usage_logs (
+        id TEXT PRIMARY KEY,
+        api_key_id TEXT NOT NULL,
+        endpoint TEXT NOT NULL,
+        method TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        response_time INTEGER NOT NULL,
+        status_code INTEGER NOT NULL,
+        request_size INTEGER NOT NULL,
+        response_size INTEGER NOT NULL,
+        client_ip TEXT NOT NULL,
+        user_agent TEXT NOT NULL,
+        parameters TEXT NOT NULL,
+        error TEXT
+      );
+      CREATE INDEX idx_usage_logs_key_time ON usage_logs (api_key_id, timestamp);
+      CREATE INDEX idx_usage_logs_time ON usage_logs (timestamp);
+    `
+  },
+  {
+    version: 3,
+    name: 'create_rate_limits',
+    sql: `
+      CREATE TABLE rate_limits (
+        bucket TEXT PRIMARY KEY,
+        count INTEGER NOT NULL,
+        reset_at INTEGER NOT NULL
+      );
+    `
+  }
+];
+
+// Apply every migration newer than the recorded schema version, each in its own transaction
+export function runMigrations(db: Database.Database): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  const current = row.version || 0;
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+  const applied: number[] = [];
+  MIGRATIONS
+    .filter(migration => migration.version > current)
+    .sort((a, b) => a.version - b.version)
+    .forEach(migration => {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        record.run(migration.version, migration.name, Date.now());
+      })();
+      applied.push(migration.version);
+    });
+
+  return applied;
+}
@@ -0,0 +1,305 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
+import type { UsageLogEntry } from '../types';
+import type {
+  ApiKeyStore,
+  ApiKeyUpdate,
+  RateLimitResult,
+  RateLimitWindow,
+  StoredApiKey,
+  UsageLogQuery,
+  UsageSummary
+} from './types';
+
+interface ApiKeyRow {
+  id: string;
+  key_hash: string;
+  key_prefix: string;
+  name: string;
+  created_at: number;
+  last_used_at: number | null;
+  usage_count: number;
+  is_active: number;
+  rate_limit_tier: StoredApiKey['rateLimitTier'];
+  monthly_limit: number | null;
+  monthly_usage: number;
+  monthly_reset_at: number;
+}
+
+interface UsageLogRow {
+  id: string;
+  api_key_id: string;
+  endpoint: string;
+  method: string;
+  timestamp: number;
+  response_time: number;
+  status_code: number;
+  request_size: number;
+  response_size: number;
+  client_ip: string;
+  user_agent: string;
+  parameters: string;
+  error: string | null;
+}
+
+// ApiKeyUpdate field -> column
+const UPDATABLE_COLUMNS: Record<keyof ApiKeyUpdate, string> = {
+  name: 'name',
+  isActive: 'is_active',
+  rateLimitTier: 'rate_limit_tier',
+  monthlyLimit: 'monthly_limit',
+  monthlyUsage: 'monthly_usage',
+  monthlyResetAt: 'monthly_reset_at'
+};
+
+function toApiKey(row: ApiKeyRow): StoredApiKey {
+  return {
+    id: row.id,
+    keyHash: row.key_hash,
+    keyPrefix: row.key_prefix,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    lastUsedAt: row.last_used_at !== null ? new Date(row.last_used_at) : undefined,
+    usageCount: row.usage_count,
+    isActive: row.is_active === 1,
+    rateLimitTier: row.rate_limit_tier,
+    monthlyLimit: row.monthly_limit !== null ? row.monthly_limit : undefined,
+    monthlyUsage: row.monthly_usage,
+    monthlyResetAt: new Date(row.monthly_reset_at)
+  };
+}
+
+function toUsageLog(row: UsageLogRow): UsageLogEntry {
+  return {
+    id: row.id,
+    apiKeyId: row.api_key_id,
+    endpoint: row.endpoint,
+    method: row.method,
+    timestamp: new Date(row.timestamp),
+    responseTime: row.response_time,
+    statusCode: row.status_code,
+    requestSize: row.request_size,
+    responseSize: row.response_size,
+    clientIp: row.client_ip,
+    userAgent: row.user_agent,
+    parameters: JSON.parse(row.parameters),
+    error: row.error !== null ? row.error : undefined
+  };
+}
+
+function toColumnValue(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value === undefined ? null : value;
+}
+
+// File-backed store. better-sqlite3 is synchronous, so every method completes (and every
+// transaction commits) before its promise resolves.
+export class SqliteApiKeyStore implements ApiKeyStore {
+  readonly kind = 'sqlite' as const;
+
+  private db: Database.Database | null = null;
+
+  constructor(private filename: string) {}
+
+  async init(): Promise<void> {
+    if (this.db) return;
+
+    if (this.filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(this.filename)), { recursive: true });
+    }
+
+    const db = new Database(this.filename);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+
+    const applied = runMigrations(db);
+    if (applied.length > 0) {
+      console.log(`🗄️ Applied API key store migrations ${applied.join(', ')} to ${this.filename}`);
+    }
+    this.db = db;
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  async insertKey(apiKey: StoredApiKey): Promise<void> {
+    this.connection().prepare(`
+      INSERT INTO api_keys (
+        id, key_hash, key_prefix, name, created_at, last_used_at, usage_count,
+        is_active, rate_limit_tier, monthly_limit, monthly_usage, monthly_reset_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      apiKey.id,
+      apiKey.keyHash,
+      apiKey.keyPrefix,
+      apiKey.name,
+      apiKey.createdAt.getTime(),
+      toColumnValue(apiKey.lastUsedAt),
+      apiKey.usageCount,
+      apiKey.isActive ? 1 : 0,
+      apiKey.rateLimitTier,
+      toColumnValue(apiKey.monthlyLimit),
+      apiKey.monthlyUsage,
+      apiKey.monthlyResetAt.getTime()
+    );
+  }
+
+  async findKeyByHash(keyHash: string): Promise<StoredApiKey | null> {
+    const row = this.connection().prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash) as ApiKeyRow | undefined;
+    return row ? toApiKey(row) : null;
+  }
+
+  async findKeyById(id: string): Promise<StoredApiKey | null> {
+    const row = this.connection().prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+    return row ? toApiKey(row) : null;
+  }
+
+  async listKeys(): Promise<StoredApiKey[]> {
+    const rows = this.connection().prepare('SELECT * FROM api_keys ORDER BY created_at').all() as ApiKeyRow[];
+    return rows.map(toApiKey);
+  }
+
+  async updateKey(id: string, updates: ApiKeyUpdate): Promise<StoredApiKey | null> {
+    const fields = (Object.keys(updates) as Array<keyof ApiKeyUpdate>)
+      .filter(field => field in UPDATABLE_COLUMNS && updates[field] !== undefined);
+
+    if (fields.length > 0) {
+      const assignments = fields.map(field => `${UPDATABLE_COLUMNS[field]} = ?`).join(', ');
+      this.connection()
+        .prepare(`UPDATE api_keys SET ${assignments} WHERE id = ?`)
+        .run(...fields.map(field => toColumnValue(updates[field])), id);
+    }
+
+    return this.findKeyById(id);
+  }
+
+  async deleteKey(id: string): Promise<boolean> {
+    return this.connection().prepare('DELETE FROM api_keys WHERE id = ?').run(id).changes > 0;
+  }
+
+  async recordUsage(entry: UsageLogEntry): Promise<void> {
+    const db = this.connection();
+    const insertLog = db.prepare(`
+      INSERT INTO usage_logs (
+        id, api_key_id, endpoint, method, timestamp, response_time, status_code,
+        request_size, response_size, client_ip, user_agent, parameters, error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const bumpCounters = db.prepare(`
+      UPDATE api_keys
+      SET usage_count = usage_count + 1, monthly_usage = monthly_usage + 1, last_used_at = ?
+      WHERE id = ?
+    `);
+
+    db.transaction(() => {
+      insertLog.run(
+        entry.id,
+        entry.apiKeyId,
+        entry.endpoint,
+        entry.method,
+        entry.timestamp.getTime(),
+        entry.responseTime,
+        entry.statusCode,
+        entry.requestSize,
+        entry.responseSize,
+        entry.clientIp,
+        entry.userAgent,
+        JSON.stringify(entry.parameters || {}),
+        entry.error === undefined || typeof entry.error === 'string' ? toColumnValue(entry.error) : JSON.stringify(entry.error)
+      );
+      bumpCounters.run(entry.timestamp.getTime(), entry.apiKeyId);
+    })();
+  }
+
+  async getUsageLogs(query: UsageLogQuery): Promise<UsageLogEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.apiKeyId) {
+      conditions.push('api_key_id = ?');
+      params.push(query.apiKeyId);
+    }
+    if (query.since) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since.getTime());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit !== undefined ? 'LIMIT ?' : '';
+    if (query.limit !== undefined) params.push(query.limit);
+
+    const rows = this.connection()
+      .prepare(`SELECT * FROM usage_logs ${where} ORDER BY timestamp DESC ${limit}`)
+      .all(...params) as UsageLogRow[];
+    return rows.map(toUsageLog);
+  }
+
+  async summarizeUsage(startOfToday: Date): Promise<UsageSummary> {
+    const db = this.connection();
+    const totals = db.prepare(`
+      SELECT
+        COUNT(*) AS total,
+        COALESCE(SUM(CASE WHEN timestamp >= ? THEN 1 ELSE 0 END), 0) AS today,
+        COALESCE(SUM(CASE WHEN status_code >= 400 THEN 1 ELSE 0 END), 0) AS errors,
+        COALESCE(SUM(response_time), 0) AS totalResponseTime
+      FROM usage_logs
+    `).get(startOfToday.getTime()) as Omit<UsageSummary, 'byApiKey'>;
+
+    const byApiKey = db.prepare(`
+      SELECT api_key_id AS apiKeyId, COUNT(*) AS requests
+      FROM usage_logs
+      GROUP BY api_key_id
+      ORDER BY requests DESC
+    `).all() as UsageSummary['byApiKey'];
+
+    return { ...totals, byApiKey };
+  }
+
+  async consumeRateLimit(bucket: string, windowMs: number, maxRequests: number, now: Date): Promise<RateLimitResult> {
+    const db = this.connection();
+    const select = db.prepare('SELECT count, reset_at FROM rate_limits WHERE bucket = ?');
+    const upsert = db.prepare(`
+      INSERT INTO rate_limits (bucket, count, reset_at) VALUES (?, ?, ?)
+      ON CONFLICT (bucket) DO UPDATE SET count = excluded.count, reset_at = excluded.reset_at
+    `);
+
+    return db.transaction((): RateLimitResult => {
+      const row = select.get(bucket) as { count: number; reset_at: number } | undefined;
+
+      // Initialize or reset if window expired
+      let count = 0;
+      let resetAt = now.getTime() + windowMs;
+      if (row && now.getTime() < row.reset_at) {
+        count = row.count;
+        resetAt = row.reset_at;
+      }
+
+      if (count >= maxRequests) {
+        return { allowed: false, count, resetAt: new Date(resetAt) };
+      }
+
+      upsert.run(bucket, count + 1, resetAt);
+      return { allowed: true, count: count + 1, resetAt: new Date(resetAt) };
+    }).immediate();
+  }
+
+  async getRateLimit(bucket: string): Promise<RateLimitWindow | null> {
+    const row = this.connection()
+      .prepare('SELECT count, reset_at FROM rate_limits WHERE bucket = ?')
+      .get(bucket) as { count: number; reset_at: number } | undefined;
+    return row ? { count: row.count, resetAt: new Date(row.reset_at) } : null;
+  }
+
+  private connection(): Database.Database {
+    if (!this.db) {
+      throw new Error('API key store is not initialized - call init() first');
+    }
+    return this.db;
+  }
+}
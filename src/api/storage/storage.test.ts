@@ -0,0 +1,190 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { hashApiKey } from '../services/apiKeyService';
+import type { UsageLogEntry } from '../types';
+import { MemoryApiKeyStore, SqliteApiKeyStore } from './index';
+import { MIGRATIONS, runMigrations } from './migrations';
+import type { ApiKeyStore, StoredApiKey } from './types';
+
+function storedKey(key: string, overrides: Partial<StoredApiKey> = {}): StoredApiKey {
+  return {
+    id: `id-${key}`,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.substring(0, 4),
+    name: `Key ${key}`,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    usageCount: 0,
+    isActive: true,
+    rateLimitTier: 'basic',
+    monthlyLimit: 1000,
+    monthlyUsage: 0,
+    monthlyResetAt: new Date('2026-02-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+function usageEntry(id: string, apiKeyId: string, timestamp: Date, overrides: Partial<UsageLogEntry> = {}): UsageLogEntry {
+  return {
+    id,
+    apiKeyId,
+    endpoint: '/api/v1/analyze',
+    method: 'POST',
+    timestamp,
+    responseTime: 120,
+    statusCode: 200,
+    requestSize: 40,
+    responseSize: 2048,
+    clientIp: '127.0.0.1',
+    userAgent: 'jest',
+    parameters: { url: 'https://example.com' },
+    ...overrides
+  };
+}
+
+describe.each([
+  ['memory', () => new MemoryApiKeyStore()],
+  ['sqlite', () => new SqliteApiKeyStore(':memory:')]
+] as Array<[string, () => ApiKeyStore]>)('%s API key store', (_kind, createStore) => {
+  let store: ApiKeyStore;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('finds keys by the hash of the secret only', async () => {
+    await store.insertKey(storedKey('gss_secret_one'));
+    await store.insertKey(storedKey('gss_secret_two'));
+
+    const found = await store.findKeyByHash(hashApiKey('gss_secret_one'));
+    expect(found).toMatchObject({ id: 'id-gss_secret_one', keyPrefix: 'gss_', isActive: true, monthlyLimit: 1000 });
+    expect(found!.createdAt).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(await store.findKeyByHash('gss_secret_one')).toBeNull();
+    expect(await store.findKeyByHash(hashApiKey('gss_unknown'))).toBeNull();
+    await expect(store.insertKey(storedKey('gss_secret_one', { id: 'other-id' }))).rejects.toThrow();
+  });
+
+  it('consumes the rate limit up to the maximum and resets after the window', async () => {
+    const start = new Date('2026-01-10T12:00:00Z');
+    const windowMs = 60 * 1000;
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await store.consumeRateLimit('key:ratelimit', windowMs, 3, new Date(start.getTime() + i * 1000)));
+    }
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(result => result.count)).toEqual([1, 2, 3, 3]);
+    results.forEach(result => expect(result.resetAt).toEqual(new Date(start.getTime() + windowMs)));
+
+    // Buckets are independent
+    expect((await store.consumeRateLimit('other:ratelimit', windowMs, 3, start)).count).toBe(1);
+
+    const afterWindow = new Date(start.getTime() + windowMs);
+    const reset = await store.consumeRateLimit('key:ratelimit', windowMs, 3, afterWindow);
+    expect(reset).toEqual({ allowed: true, count: 1, resetAt: new Date(afterWindow.getTime() + windowMs) });
+    expect(await store.getRateLimit('key:ratelimit')).toEqual({ count: 1, resetAt: new Date(afterWindow.getTime() + windowMs) });
+    expect(await store.getRateLimit('missing:ratelimit')).toBeNull();
+  });
+
+  it('records usage and bumps the key counters', async () => {
+    await store.insertKey(storedKey('gss_secret_one'));
+    await store.insertKey(storedKey('gss_secret_two'));
+    const first = new Date('2026-01-10T12:00:00Z');
+    const second = new Date('2026-01-10T12:05:00Z');
+
+    await store.recordUsage(usageEntry('log-1', 'id-gss_secret_one', first));
+    await store.recordUsage(usageEntry('log-2', 'id-gss_secret_one', second, { statusCode: 500, error: 'Analysis failed' }));
+    await store.recordUsage(usageEntry('log-3', 'id-gss_secret_two', first));
+
+    const apiKey = await store.findKeyById('id-gss_secret_one');
+    expect(apiKey).toMatchObject({ usageCount: 2, monthlyUsage: 2 });
+    expect(apiKey!.lastUsedAt).toEqual(second);
+
+    const logs = await store.getUsageLogs({ apiKeyId: 'id-gss_secret_one' });
+    expect(logs.map(log => log.id)).toEqual(['log-2', 'log-1']);
+    expect(logs[1]).toEqual(usageEntry('log-1', 'id-gss_secret_one', first));
+    expect(logs[0].error).toBe('Analysis failed');
+    expect((await store.getUsageLogs({ since: second })).map(log => log.id)).toEqual(['log-2']);
+    expect(await store.getUsageLogs({ limit: 1 })).toHaveLength(1);
+
+    const summary = await store.summarizeUsage(first);
+    expect(summary).toMatchObject({ total: 3, today: 3, errors: 1, totalResponseTime: 360 });
+    expect(summary.byApiKey).toEqual([
+      { apiKeyId: 'id-gss_secret_one', requests: 2 },
+      { apiKeyId: 'id-gss_secret_two', requests: 1 }
+    ]);
+  });
+});
+
+describe('SQLite migrations', () => {
+  let dir: string;
+  let filename: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gss-migrations-'));
+    filename = path.join(dir, 'keys.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // A database as the first release left it: api_keys only, recorded at version 1
+  function createVersion1Database(): void {
+    const db = new Database(filename);
+    db.exec('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at INTEGER NOT NULL);');
+    db.exec(MIGRATIONS[0].sql);
+    db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (1, ?, 0)').run(MIGRATIONS[0].name);
+    db.prepare(`
+      INSERT INTO api_keys (id, key_hash, key_prefix, name, created_at, rate_limit_tier, monthly_limit, monthly_reset_at)
+      VALUES ('id-legacy', ?, 'gss_', 'Legacy', 0, 'basic', 1000, 0)
+    `).run(hashApiKey('gss_legacy'));
+    db.close();
+  }
+
+  it('applies only the missing versions, once', () => {
+    createVersion1Database();
+    const db = new Database(filename);
+
+    expect(runMigrations(db)).toEqual([2, 3]);
+    expect(runMigrations(db)).toEqual([]);
+    expect(db.prepare('SELECT version, name FROM schema_migrations ORDER BY version').all())
+      .toEqual(MIGRATIONS.map(migration => ({ version: migration.version, name: migration.name })));
+    db.close();
+  });
+
+  it('upgrades an older database in place when the store opens it', async () => {
+    createVersion1Database();
+    const store = new SqliteApiKeyStore(filename);
+    await store.init();
+
+    expect(await store.findKeyByHash(hashApiKey('gss_legacy'))).toMatchObject({ id: 'id-legacy', name: 'Legacy', usageCount: 0 });
+    await store.recordUsage(usageEntry('log-1', 'id-legacy', new Date('2026-01-10T12:00:00Z')));
+    expect(await store.getUsageLogs({ apiKeyId: 'id-legacy' })).toHaveLength(1);
+    expect((await store.consumeRateLimit('id-legacy:minute', 60000, 5, new Date())).count).toBe(1);
+
+    await store.close();
+  });
+});
@@ -0,0 +1,57 @@
+import type { ApiKeyData, UsageLogEntry } from '../types';
+
+// An API key as persisted: only the SHA-256 of the secret is stored, never the key itself
+export interface StoredApiKey extends ApiKeyData {
+  keyHash: string;
+}
+
+export type ApiKeyUpdate = Partial<Pick<ApiKeyData, 'name' | 'isActive' | 'rateLimitTier' | 'monthlyLimit' | 'monthlyUsage' | 'monthlyResetAt'>>;
+
+export interface UsageLogQuery {
+  apiKeyId?: string;
+  since?: Date;
+  limit?: number;
+}
+
+export interface UsageSummary {
+  total: number;
+  today: number;
+  errors: number;
+  totalResponseTime: number;
+  byApiKey: Array<{ apiKeyId: string; requests: number }>; // Most requests first
+}
+
+export interface RateLimitWindow {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitResult extends RateLimitWindow {
+  allowed: boolean;
+}
+
+// Storage backend for API keys, usage logs, monthly counters and rate-limit windows.
+// Implementations must make recordUsage and consumeRateLimit atomic per call.
+export interface ApiKeyStore {
+  readonly kind: 'memory' | 'sqlite';
+
+  // Create/upgrade the schema; called once before any other method
+  init(): Promise<void>;
+  close(): Promise<void>;
+
+  insertKey(apiKey: StoredApiKey): Promise<void>;
+  findKeyByHash(keyHash: string): Promise<StoredApiKey | null>;
+  findKeyById(id: string): Promise<StoredApiKey | null>;
+  listKeys(): Promise<StoredApiKey[]>;
+  updateKey(id: string, updates: ApiKeyUpdate): Promise<StoredApiKey | null>;
+  deleteKey(id: string): Promise<boolean>;
+
+  // Append the log entry and bump the key's total and monthly counters
+  recordUsage(entry: UsageLogEntry): Promise<void>;
+  getUsageLogs(query: UsageLogQuery): Promise<UsageLogEntry[]>; // Newest first
+  summarizeUsage(startOfToday: Date): Promise<UsageSummary>;
+
+  // Count one request against `bucket` unless the window is already at `maxRequests`
+  consumeRateLimit(bucket: string, windowMs: number, maxRequests: number, now: Date): Promise<RateLimitResult>;
+  getRateLimit(bucket: string): Promise<RateLimitWindow | null>;
+}
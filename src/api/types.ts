@@ -1,6 +1,8 @@
+import type { AccessibilityReport, BrandAudit, ConditionMode, CrawlOptions, TokenDiff } from '../types';
+
 export interface ApiKeyData {
   id: string;
-  key: string;
+  keyPrefix: string; // Leading characters of the key, for display - the key itself is never stored
   name: string;
   createdAt: Date;
   lastUsedAt?: Date;
@@ -31,13 +33,18 @@ export interface UsageLogEntry {
 export interface AnalyzeRequest {
   url: string;
   urls?: string[];
-  format?: 'json' | 'style-dictionary' | 'shadcn' | 'tailwind' | 'theme-json';
+  crawl?: Omit<CrawlOptions, 'delayMs'>; // Discover pages from `url` instead of using `urls`
+  format?: 'json' | 'style-dictionary' | 'dtcg' | 'shadcn' | 'tailwind' | 'theme-json' | 'canonical' | 'figma-variables' | 'tokens-studio';
   allFormats?: boolean;
   colorFormat?: 'hsl' | 'oklch' | 'hex';
   compact?: boolean;
   includeImages?: boolean;
   maxImages?: number;
   semanticAnalysis?: boolean;
+  render?: boolean;
+  conditions?: ConditionMode; // How values under @media/@supports/@layer/@container count; defaults to 'all'
+  webhookUrl?: string; // Jobs only: POSTed a signed callback when the job finishes
+  webhookSecret?: string; // HMAC key for the callback signature; generated per job when omitted
   auth?: {
     type?: 'basic' | 'bearer' | 'cookie' | 'custom';
     username?: string;
@@ -58,6 +65,7 @@ export interface AnalyzeResponse {
     format: string;
     processingTime: number;
     totalTokens?: Record<string, number>;
+    stylesheets?: { failed?: string[]; skipped?: string[] }; // Linked stylesheets that could not be fetched or were over the limit
     semanticAnalysis?: {
       totalElements: number;
       buttonColors: number;
@@ -71,6 +79,139 @@ export interface AnalyzeResponse {
   };
 }
 
+// POST /api/v1/diff - each side is a URL to analyze now or a saved analysis JSON (any output the CLI writes)
+export interface DiffRequest {
+  before: string | Record<string, any>;
+  after: string | Record<string, any>;
+  format?: 'json' | 'markdown' | 'html'; // markdown/html add a rendered `report` next to the diff
+  render?: boolean;
+  auth?: AnalyzeRequest['auth']; // Applied to both sides when they are URLs
+}
+
+export interface DiffResponse {
+  success: boolean;
+  data?: {
+    diff: TokenDiff;
+    report?: string;
+  };
+  meta?: {
+    before: string;
+    after: string;
+    format: string;
+    processingTime: number;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+// POST /api/v1/audit/brand - measure a site's colors against a known brand palette
+export interface BrandAuditRequest {
+  url: string;
+  palette: string | string[] | Record<string, any>; // Hex list (optionally name=#hex) or a Style Dictionary / theme-json document
+  format?: 'json' | 'markdown'; // markdown adds a rendered `report` next to the audit
+  semanticAnalysis?: boolean; // Default true: supplies the selectors and contexts that use each color
+  render?: boolean;
+  auth?: AnalyzeRequest['auth'];
+}
+
+export interface BrandAuditResponse {
+  success: boolean;
+  data?: {
+    audit: BrandAudit;
+    report?: string;
+  };
+  meta?: {
+    url: string;
+    format: string;
+    processingTime: number;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+// POST /api/v1/audit/accessibility - WCAG 2.x / APCA contrast of the generated theme and the page's text
+export interface AccessibilityRequest {
+  url: string;
+  colorFormat?: 'hsl' | 'oklch' | 'hex'; // Format the shadcn theme is generated in; contrast is the same in all three
+  format?: 'json' | 'markdown'; // markdown adds a rendered `report` next to the results
+  semanticAnalysis?: boolean; // Default true: supplies the text/background pairs observed on the page
+  render?: boolean; // Measures font sizes and painted backgrounds in a real browser
+  auth?: AnalyzeRequest['auth'];
+}
+
+export interface AccessibilityResponse {
+  success: boolean;
+  data?: {
+    accessibility: AccessibilityReport;
+    report?: string;
+  };
+  meta?: {
+    url: string;
+    format: string;
+    processingTime: number;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type JobStage = 'queued' | 'validating' | 'extracting' | 'formatting' | 'done';
+
+export interface WebhookDelivery {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastAttemptAt?: string;
+  lastResponseStatus?: number;
+  lastError?: string;
+  deliveredAt?: string;
+}
+
+// What GET /api/v1/jobs/:id returns - never includes the request's auth or webhook secret
+export interface JobView {
+  id: string;
+  status: JobStatus;
+  progress: {
+    stage: JobStage;
+    percent: number;
+  };
+  queuePosition?: number; // 1-based, while queued
+  request: {
+    url: string;
+    urls?: string[];
+    format?: AnalyzeRequest['format'];
+    allFormats?: boolean;
+  };
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  result?: {
+    data: any;
+    meta?: AnalyzeResponse['meta'];
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+  webhook?: WebhookDelivery;
+}
+
+export interface WebhookPayload {
+  event: 'job.completed' | 'job.failed';
+  deliveredAt: string;
+  job: JobView;
+}
+
 export interface ApiErrorResponse {
   success: false;
   error: {
@@ -160,6 +301,11 @@ export const API_ENDPOINTS = {
   // Main functionality
   ANALYZE: '/api/v1/analyze',
   ANALYZE_MULTI: '/api/v1/analyze/multi',
+  DIFF: '/api/v1/diff',
+  BRAND_AUDIT: '/api/v1/audit/brand',
+  ACCESSIBILITY_AUDIT: '/api/v1/audit/accessibility',
+  JOBS: '/api/v1/jobs',
+  JOB: '/api/v1/jobs/:id',
   
   // Utility endpoints
   HEALTH: '/api/v1/health',
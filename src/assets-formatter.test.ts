@@ -0,0 +1,63 @@
+import { generateAssetsOutput } from './assets-formatter';
+import type { AssetInventoryEntry } from './types';
+
+const assets: AssetInventoryEntry[] = [
+  {
+    url: 'https://example.com/logo.svg',
+    kind: 'svg',
+    source: 'img',
+    type: 'logo',
+    alt: 'Acme logo\n[beta]',
+    dimensions: { width: 120, height: 40 },
+    colors: ['#2563eb', '#0f172a'],
+    analyzed: true
+  },
+  {
+    url: 'https://cdn.example.com/fit=crop|w=800/hero.jpg',
+    kind: 'image',
+    source: 'css',
+    type: 'hero',
+    colors: [],
+    analyzed: false
+  },
+  {
+    url: 'inline-svg#1',
+    kind: 'svg',
+    source: 'inline-svg',
+    type: 'icon',
+    colors: [],
+    analyzed: true
+  }
+];
+
+describe('generateAssetsOutput', () => {
+  const { assetsMd, assetsJson } = generateAssetsOutput(assets, 'https://example.com');
+
+  it('renders one table row per asset', () => {
+    expect(assetsMd).toContain('3 assets found (1 raster images, 2 SVG), 2 analyzed for color.');
+    expect(assetsMd).toContain('| 1 | `https://example.com/logo.svg` | svg | logo | img | 120×40 | `#2563eb` `#0f172a` |');
+    expect(assetsMd).toContain('| 3 | `inline-svg#1` | svg | icon | inline-svg | — | none |');
+  });
+
+  it('escapes pipes in URLs so they stay inside their table cell', () => {
+    const row = assetsMd.split('\n').find(line => line.startsWith('| 2 |'))!;
+    expect(row).toBe('| 2 | `https://cdn.example.com/fit=crop\\|w=800/hero.jpg` | image | hero | css | — | not analyzed |');
+    expect(row.split(/(?<!\\)\|/)).toHaveLength(9);
+  });
+
+  it('previews linked assets only, with alt text kept on one line', () => {
+    expect(assetsMd).toContain('![Acme logo beta](https://example.com/logo.svg)');
+    expect(assetsMd).not.toContain('](inline-svg#1)');
+    expect(assetsMd).toContain('1 inline SVG (inline-svg#n) are embedded in the page markup');
+  });
+
+  it('writes the inventory as JSON', () => {
+    const parsed = JSON.parse(assetsJson);
+    expect(parsed.source).toBe('https://example.com');
+    expect(parsed.assets).toEqual(assets);
+  });
+
+  it('says so when the page has no assets', () => {
+    expect(generateAssetsOutput([], 'https://example.com').assetsMd).toContain('No images or SVGs were found on this page.');
+  });
+});
@@ -0,0 +1,73 @@
+// Renders the image/SVG inventory collected during image analysis as ASSETS.md and assets.json
+
+import type { AssetInventoryEntry } from './types';
+
+export interface AssetsOutput {
+  assetsMd: string;
+  assetsJson: string;
+}
+
+function formatDimensions(entry: AssetInventoryEntry): string {
+  return entry.dimensions ? `${entry.dimensions.width}×${entry.dimensions.height}` : '—';
+}
+
+function formatColors(entry: AssetInventoryEntry): string {
+  if (entry.colors.length > 0) return entry.colors.map(color => `\`${color}\``).join(' ');
+  return entry.analyzed ? 'none' : 'not analyzed';
+}
+
+// Alt text ends up inside ![...] - keep it on one line and free of brackets
+function escapeAlt(alt: string): string {
+  return alt.replace(/[\[\]\r\n]+/g, ' ').trim();
+}
+
+// A raw "|" ends the table cell even inside a code span; GFM accepts "\|" in both
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+export function generateAssetsOutput(assets: AssetInventoryEntry[], source: string): AssetsOutput {
+  const generatedAt = new Date().toISOString();
+  const svgCount = assets.filter(asset => asset.kind === 'svg').length;
+  const analyzedCount = assets.filter(asset => asset.analyzed).length;
+
+  const lines: string[] = [
+    '# Assets',
+    '',
+    `Source: ${source}`,
+    `Generated: ${generatedAt}`,
+    '',
+    `${assets.length} assets found (${assets.length - svgCount} raster images, ${svgCount} SVG), ${analyzedCount} analyzed for color.`,
+    ''
+  ];
+
+  if (assets.length === 0) {
+    lines.push('No images or SVGs were found on this page.', '');
+  } else {
+    lines.push(
+      '| # | Asset | Kind | Type | Found in | Dimensions | Colors |',
+      '|---|-------|------|------|----------|------------|--------|'
+    );
+    assets.forEach((asset, index) => {
+      lines.push(`| ${index + 1} | \`${escapeTableCell(asset.url)}\` | ${asset.kind} | ${asset.type} | ${asset.source} | ${formatDimensions(asset)} | ${formatColors(asset)} |`);
+    });
+    lines.push('');
+
+    const linked = assets.filter(asset => asset.source !== 'inline-svg');
+    if (linked.length > 0) {
+      lines.push('## Previews', '');
+      linked.forEach(asset => lines.push(`![${escapeAlt(asset.alt || '')}](${asset.url})`));
+      lines.push('');
+    }
+
+    const inline = assets.length - linked.length;
+    if (inline > 0) {
+      lines.push(`${inline} inline SVG${inline === 1 ? '' : 's'} (inline-svg#n) are embedded in the page markup and have no URL to preview.`, '');
+    }
+  }
+
+  return {
+    assetsMd: lines.join('\n'),
+    assetsJson: JSON.stringify({ source, generatedAt, assets }, null, 2)
+  };
+}
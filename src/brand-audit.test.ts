@@ -0,0 +1,75 @@
+import { auditBrandColors, parseBrandPalette } from './brand-audit';
+import { deltaE2000 } from './color-analysis';
+import { extractTokensFromCss } from './extractor';
+
+describe('deltaE2000', () => {
+  // Reference pairs from Sharma, Wu & Dalal, "The CIEDE2000 Color-Difference Formula" (2005)
+  it.each([
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644]
+  ])('%j vs %j is %d', (lab1, lab2, expected) => {
+    const difference = deltaE2000({ l: lab1[0], a: lab1[1], b: lab1[2] }, { l: lab2[0], a: lab2[1], b: lab2[2] });
+    expect(difference).toBeCloseTo(expected, 4);
+  });
+});
+
+describe('parseBrandPalette', () => {
+  it('reads hex lists with optional names', () => {
+    expect(parseBrandPalette('blue=#2563EB, fff, #2563eb')).toEqual([
+      { name: 'blue', hex: '#2563eb' },
+      { name: '#ffffff', hex: '#ffffff' }
+    ]);
+  });
+
+  it('reads Style Dictionary, DTCG and theme.json documents', () => {
+    expect(parseBrandPalette({
+      color: { brand: { primary: { value: '#2563eb' }, accent: { $value: '#f97316' } } },
+      meta: { generator: '#000000' },
+      settings: { color: { palette: [{ slug: 'ink', color: '#0f172a' }] } }
+    })).toEqual([
+      { name: 'color.brand.primary', hex: '#2563eb' },
+      { name: 'color.brand.accent', hex: '#f97316' },
+      { name: 'ink', hex: '#0f172a' }
+    ]);
+  });
+
+  it('rejects entries that are not colors and empty palettes', () => {
+    expect(() => parseBrandPalette('blue=#2563eb,notacolor')).toThrow(expect.objectContaining({ code: 'INVALID_PALETTE' }));
+    expect(() => parseBrandPalette(['#2563eb', 42 as unknown as string])).toThrow(expect.objectContaining({ code: 'INVALID_PALETTE' }));
+    expect(() => parseBrandPalette({ spacing: { sm: '4px' } })).toThrow('Brand palette has no colors');
+  });
+});
+
+describe('auditBrandColors', () => {
+  const tokens = extractTokensFromCss(`
+    .a { color: #0f766e; }
+    .b { color: #0F766E; }
+    .c { color: #12806f; }
+    .d { color: #168478; }
+    .e { color: #dc2626; }
+  `);
+  const audit = auditBrandColors(tokens, 'https://example.com', parseBrandPalette('teal=#0f766e,orange=#f97316'));
+  const byHex = (hex: string) => audit.colors.find(color => color.hex === hex)!;
+
+  it('marks only the exact palette hex on-brand, however it was written', () => {
+    expect(byHex('#0f766e')).toMatchObject({ status: 'on-brand', nearest: { name: 'teal', deltaE: 0 } });
+    expect(byHex('#0f766e').count).toBe(tokens.colors.frequency
+      .filter(item => item.value.toLowerCase() === '#0f766e')
+      .reduce((sum, item) => sum + item.count, 0));
+  });
+
+  it('treats colors within ΔE 5 as near misses and the rest as off-palette', () => {
+    expect(byHex('#12806f')).toMatchObject({ status: 'near-miss', nearest: { hex: '#0f766e', deltaE: 4.83 } });
+    expect(byHex('#168478')).toMatchObject({ status: 'off-palette', nearest: { hex: '#0f766e', deltaE: 5.21 } });
+    expect(byHex('#dc2626').status).toBe('off-palette');
+  });
+
+  it('summarizes per status and per brand color', () => {
+    expect(audit.thresholds.nearMiss).toBe(5);
+    expect(audit.summary).toMatchObject({ colors: 4, onBrand: 1, nearMiss: 1, offPalette: 2, unusedBrandColors: ['orange'] });
+    expect(audit.colors.map(color => color.status)).toEqual(['near-miss', 'on-brand', 'off-palette', 'off-palette']);
+    expect(audit.brandColors[0].nearMisses).toEqual([expect.objectContaining({ hex: '#12806f', deltaE: 4.83 })]);
+  });
+});
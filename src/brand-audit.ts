@@ -0,0 +1,274 @@
+// Brand consistency audit: maps every extracted color to the nearest color of a supplied brand
+// palette by CIEDE2000 and flags near-miss shades with the selectors and surfaces that use them
+
+import { colorToLab, deltaE2000, normalizeColorToHex } from './color-analysis';
+import { colorAlpha } from './canonical-formatter';
+import { parseColor } from './css-color';
+import { tokenUsageKey } from './extractor';
+import type { BrandAudit, BrandColorMatch, BrandPaletteColor, ExtractedTokens, SemanticColorAnalysis, ValidationError } from './types';
+
+// Only the exact palette hex is on-brand; up to this ΔE a color still reads as the brand color, just not quite
+const NEAR_MISS_DELTA_E = 5;
+
+const MAX_CONTEXTS_PER_COLOR = 10;
+
+// Keys of Style Dictionary / theme-json outputs that never hold brand colors
+const SKIPPED_PALETTE_KEYS = ['meta', 'dark', 'darkValue', 'darkMode', 'css'];
+
+function createPaletteError(message: string): ValidationError {
+  const error = new Error(message) as ValidationError;
+  error.name = 'ValidationError';
+  error.code = 'INVALID_PALETTE';
+  return error;
+}
+
+function paletteHex(value: string): string | null {
+  let text = value.trim().toLowerCase();
+  if (/^[0-9a-f]{3}([0-9a-f]{3})?$/.test(text)) text = `#${text}`;
+  return parseColor(text) ? normalizeColorToHex(text) : null;
+}
+
+// `#ff6600` or `orange=#ff6600`
+function parsePaletteEntry(entry: string): BrandPaletteColor {
+  const separator = entry.indexOf('=');
+  const name = separator === -1 ? '' : entry.slice(0, separator).trim();
+  const value = separator === -1 ? entry : entry.slice(separator + 1);
+  const hex = paletteHex(value);
+  if (!hex) throw createPaletteError(`Not a color in brand palette: "${entry.trim()}"`);
+  return { name: name || hex, hex };
+}
+
+function collectPaletteColors(node: any, keyPath: string[], colors: BrandPaletteColor[]): void {
+  const add = (name: string, value: string) => {
+    const hex = paletteHex(value);
+    if (hex) colors.push({ name: name || hex, hex });
+  };
+
+  if (typeof node === 'string') {
+    const last = keyPath[keyPath.length - 1] || '';
+    add(/^\d+$/.test(last) ? '' : last, node);
+    return;
+  }
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => collectPaletteColors(item, keyPath.concat(String(index)), colors));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  // Style Dictionary (`value`) and DTCG (`$value`) leaves, named by their path
+  const leaf = typeof node.value === 'string' ? node.value : typeof node.$value === 'string' ? node.$value : null;
+  if (leaf !== null) {
+    add(keyPath.filter(key => key !== 'properties' && !/^\d+$/.test(key)).join('.'), leaf);
+    return;
+  }
+  // WordPress theme.json palette entries: { slug, name, color }
+  if (typeof node.color === 'string' && (node.slug || node.name)) {
+    add(String(node.slug || node.name), node.color);
+    return;
+  }
+  Object.keys(node).forEach(key => {
+    if (SKIPPED_PALETTE_KEYS.indexOf(key) === -1) collectPaletteColors(node[key], keyPath.concat(key), colors);
+  });
+}
+
+// A hex list (`#ff6600,#0a2540` or `orange=#ff6600,...`), an array of entries, or a parsed
+// Style Dictionary / theme-json document
+export function parseBrandPalette(input: string | string[] | Record<string, any>): BrandPaletteColor[] {
+  let colors: BrandPaletteColor[] = [];
+  if (typeof input === 'string') {
+    colors = input.split(',').filter(entry => entry.trim()).map(parsePaletteEntry);
+  } else if (Array.isArray(input)) {
+    colors = input.map(entry => {
+      if (typeof entry !== 'string') throw createPaletteError('Brand palette arrays must contain color strings');
+      return parsePaletteEntry(entry);
+    });
+  } else if (input && typeof input === 'object') {
+    collectPaletteColors(input, [], colors);
+  }
+
+  const unique = colors.filter((color, index) => colors.findIndex(other => other.hex === color.hex) === index);
+  if (unique.length === 0) throw createPaletteError('Brand palette has no colors');
+  return unique;
+}
+
+function nearestBrandColor(hex: string, palette: Array<BrandPaletteColor & { lab: { l: number; a: number; b: number } }>): BrandColorMatch['nearest'] | null {
+  const lab = colorToLab(hex);
+  if (!lab) return null;
+  let nearest: BrandColorMatch['nearest'] | null = null;
+  palette.forEach(brand => {
+    const deltaE = Math.round(deltaE2000(lab, brand.lab) * 100) / 100;
+    if (!nearest || deltaE < nearest.deltaE) nearest = { name: brand.name, hex: brand.hex, deltaE };
+  });
+  return nearest;
+}
+
+const STATUS_ORDER: Record<BrandColorMatch['status'], number> = { 'near-miss': 0, 'on-brand': 1, 'off-palette': 2 };
+
+export function auditBrandColors(
+  tokens: ExtractedTokens,
+  source: string,
+  palette: BrandPaletteColor[],
+  semantic?: SemanticColorAnalysis
+): BrandAudit {
+  const brand = palette.map(color => ({ ...color, lab: colorToLab(color.hex)! }));
+
+  // The same color written differently (#FFF, #ffffff, rgb(255,255,255)) is one entry
+  const matches = new Map<string, BrandColorMatch>();
+  tokens.colors.frequency.forEach(item => {
+    const hex = normalizeColorToHex(item.value.trim().toLowerCase());
+    if (!/^#[0-9a-f]{6}$/.test(hex)) return;
+    const alpha = colorAlpha(item.value);
+    const key = alpha < 1 ? `${hex}/${alpha}` : hex;
+    const usage = tokens.usage?.[tokenUsageKey('color', item.value)];
+
+    const existing = matches.get(key);
+    if (existing) {
+      existing.count += item.count;
+      (usage?.surfaces || []).forEach(surface => {
+        if (existing.surfaces.indexOf(surface) === -1) existing.surfaces.push(surface);
+      });
+      return;
+    }
+
+    const nearest = nearestBrandColor(hex, brand);
+    if (!nearest) return;
+    matches.set(key, {
+      value: item.value,
+      hex,
+      ...(alpha < 1 ? { alpha } : {}),
+      count: item.count,
+      nearest,
+      status: hex === nearest.hex ? 'on-brand' : nearest.deltaE <= NEAR_MISS_DELTA_E ? 'near-miss' : 'off-palette',
+      contexts: [],
+      surfaces: (usage?.surfaces || []).slice()
+    });
+  });
+
+  // Semantic analysis saw the elements: which context, selector and property each color paints
+  (semantic?.colors || []).forEach(item => {
+    const hex = normalizeColorToHex(item.color.trim().toLowerCase());
+    const alpha = colorAlpha(item.color);
+    const match = matches.get(alpha < 1 ? `${hex}/${alpha}` : hex);
+    if (!match || match.contexts.length >= MAX_CONTEXTS_PER_COLOR) return;
+    const duplicate = match.contexts.some(c => c.context === item.context && c.selector === item.selector && c.property === item.property);
+    if (!duplicate) match.contexts.push({ context: item.context, selector: item.selector, property: item.property });
+  });
+
+  const colors = Array.from(matches.values())
+    .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || b.count - a.count);
+  const uses = colors.reduce((sum, color) => sum + color.count, 0);
+  const usesWith = (status: BrandColorMatch['status']) => colors.filter(c => c.status === status).reduce((sum, c) => sum + c.count, 0);
+  const share = (count: number) => uses > 0 ? Math.round((count / uses) * 1000) / 10 : 0;
+
+  const brandColors = palette.map(color => ({
+    name: color.name,
+    hex: color.hex,
+    onBrandUses: colors.filter(c => c.status === 'on-brand' && c.nearest.hex === color.hex).reduce((sum, c) => sum + c.count, 0),
+    nearMisses: colors
+      .filter(c => c.status === 'near-miss' && c.nearest.hex === color.hex)
+      .map(c => ({ hex: c.hex, count: c.count, deltaE: c.nearest.deltaE }))
+  }));
+
+  return {
+    source,
+    generatedAt: new Date().toISOString(),
+    palette,
+    thresholds: { nearMiss: NEAR_MISS_DELTA_E },
+    semanticAnalysis: !!semantic,
+    summary: {
+      colors: colors.length,
+      onBrand: colors.filter(c => c.status === 'on-brand').length,
+      nearMiss: colors.filter(c => c.status === 'near-miss').length,
+      offPalette: colors.filter(c => c.status === 'off-palette').length,
+      uses,
+      onBrandShare: share(usesWith('on-brand')),
+      nearMissShare: share(usesWith('near-miss')),
+      unusedBrandColors: brandColors.filter(color => color.onBrandUses === 0).map(color => color.name)
+    },
+    colors,
+    brandColors
+  };
+}
+
+// One line per near miss, for console summaries
+export function describeNearMiss(match: BrandColorMatch): string {
+  return `off-brand ${match.value} used ${match.count} time${match.count === 1 ? '' : 's'}, ΔE ${match.nearest.deltaE.toFixed(1)} from ${match.nearest.hex}` +
+    (match.nearest.name !== match.nearest.hex ? ` (${match.nearest.name})` : '');
+}
+
+// -------- Markdown --------
+
+function brandLabel(nearest: { name: string; hex: string }): string {
+  return nearest.name !== nearest.hex ? `\`${nearest.hex}\` (${nearest.name})` : `\`${nearest.hex}\``;
+}
+
+function usedIn(match: BrandColorMatch): string {
+  const parts = match.contexts.map(c => `${c.context} \`${c.selector.replace(/\|/g, '\\|')}\` (${c.property})`);
+  if (match.surfaces.length) parts.push(`surfaces: ${match.surfaces.join(', ')}`);
+  return parts.length ? parts.join('; ') : '—';
+}
+
+function colorCell(match: BrandColorMatch): string {
+  return `\`${match.value}\`${match.alpha !== undefined ? ` (α ${match.alpha})` : ''}`;
+}
+
+export function renderBrandAuditMarkdown(audit: BrandAudit): string {
+  const { summary } = audit;
+  const lines: string[] = [
+    '# Brand audit',
+    '',
+    `Source: ${audit.source}`,
+    `Generated: ${audit.generatedAt}`,
+    `Palette: ${audit.palette.map(brandLabel).join(', ')}`,
+    '',
+    `${summary.onBrand} of ${summary.colors} colors are on-brand (${summary.onBrandShare}% of uses), ` +
+      `${summary.nearMiss} are near-miss shades (${summary.nearMissShare}% of uses) and ${summary.offPalette} are off-palette.`,
+    ''
+  ];
+
+  const nearMisses = audit.colors.filter(c => c.status === 'near-miss');
+  lines.push('## Near-miss shades', '');
+  if (nearMisses.length === 0) {
+    lines.push('None: every color close to the palette matches it exactly.', '');
+  } else {
+    lines.push('| Color | Uses | Nearest brand color | ΔE | Used in |', '|-------|------|---------------------|----|---------|');
+    nearMisses.forEach(match => {
+      lines.push(`| ${colorCell(match)} | ${match.count} | ${brandLabel(match.nearest)} | ${match.nearest.deltaE.toFixed(2)} | ${usedIn(match)} |`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## Brand colors', '', '| Brand color | On-brand uses | Near misses |', '|-------------|---------------|-------------|');
+  audit.brandColors.forEach(color => {
+    const misses = color.nearMisses.map(miss => `\`${miss.hex}\` ×${miss.count} (ΔE ${miss.deltaE.toFixed(1)})`).join(', ') || '—';
+    lines.push(`| ${brandLabel(color)} | ${color.onBrandUses} | ${misses} |`);
+  });
+  lines.push('');
+  if (summary.unusedBrandColors.length) {
+    lines.push(`Never used exactly: ${summary.unusedBrandColors.join(', ')}.`, '');
+  }
+
+  const offPalette = audit.colors.filter(c => c.status === 'off-palette');
+  lines.push('## Off-palette colors', '');
+  if (offPalette.length === 0) {
+    lines.push('None.', '');
+  } else {
+    lines.push('| Color | Uses | Nearest brand color | ΔE | Used in |', '|-------|------|---------------------|----|---------|');
+    offPalette.forEach(match => {
+      lines.push(`| ${colorCell(match)} | ${match.count} | ${brandLabel(match.nearest)} | ${match.nearest.deltaE.toFixed(2)} | ${usedIn(match)} |`);
+    });
+    lines.push('');
+    lines.push('Off-palette is not necessarily wrong: neutrals, status colors and third-party widgets usually land here.', '');
+  }
+
+  lines.push(
+    `On-brand means the exact palette hex; any other color within ΔE2000 ${audit.thresholds.nearMiss} of a palette color is a near miss ` +
+      '(below 1 the difference is invisible, so those are token drift rather than a visible deviation). Translucent colors are compared by their solid color.',
+    ''
+  );
+  if (!audit.semanticAnalysis) {
+    lines.push('Selectors and contexts need semantic analysis (`--semantic-analysis`); only component surfaces are listed.', '');
+  }
+
+  return lines.join('\n');
+}
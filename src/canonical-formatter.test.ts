@@ -0,0 +1,26 @@
+import { generateCanonical } from './canonical-formatter';
+import { extractTokensFromCss } from './extractor';
+
+const CSS = `
+  :root { --background: #ffffff; --foreground: #0f172a; --primary: #2563eb; --border: #e2e8f0; }
+  body { background: var(--background); color: var(--foreground); }
+  .button { background: var(--primary); color: #ffffff; border: 1px solid var(--border); }
+  .card { background: #f8fafc; border-color: var(--border); }
+`;
+
+describe('generateCanonical', () => {
+  it('is byte-identical across runs at different times', () => {
+    const tokens = extractTokensFromCss(CSS);
+    const first = generateCanonical(tokens, { source: 'https://example.com/', extractedAt: '2026-01-01T08:00:00.000Z' });
+    const second = generateCanonical(extractTokensFromCss(CSS), { source: 'https://example.com/', extractedAt: '2026-03-15T23:59:59.000Z' });
+
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    expect(JSON.stringify(first)).not.toMatch(/2026-/);
+    expect(first.coverage).toEqual({
+      urls: ['https://example.com/'],
+      routes: ['/'],
+      sampleBias: 'homepage-only',
+      estimatedFraction: null
+    });
+  });
+});
@@ -0,0 +1,530 @@
+// Generates canonical.json per the canonical.md contract (v0.1).
+// A typed, provenanced token graph: role *candidates* with per-candidate validity,
+// raw saliency inputs and explicit coverage. Role resolution happens downstream.
+// Output is deterministic - no run timestamps, stable ids and ordering - so two runs
+// on an unchanged site produce identical files.
+
+import crypto from 'crypto';
+import { analyzeColors, colorToHsl, normalizeColorToHex } from './color-analysis';
+import { parseColor } from './css-color';
+import { tokenUsageKey } from './extractor';
+import type {
+  CanonicalDocument,
+  CanonicalProvenance,
+  CanonicalRoleCandidate,
+  CanonicalToken,
+  ColorAnalysis,
+  CrawlReport,
+  ExtractedTokens,
+  TokenUsage
+} from './types';
+
+export const CONTRACT_VERSION = '0.1.0';
+// Bump the rules version whenever heuristics below change what a run emits
+const EXTRACTOR_VERSION = 'get-site-styles/1.0.0+canonical-rules/1';
+export const ROLE_DICTIONARY = 'shadcn/v1';
+
+export const SHADCN_V1_ROLES = [
+  'bg.default', 'bg.muted', 'bg.elevated',
+  'text.primary', 'text.muted', 'text.onAccent',
+  'border.default', 'border.muted',
+  'accent.primary', 'accent.secondary',
+  'intent.danger', 'intent.warning', 'intent.success', 'intent.info'
+];
+
+// A role counts as covered once a candidate clears both bars
+const HIGH_CONFIDENCE = 0.6;
+const HIGH_VALIDITY = 0.6;
+const REFUSAL_THRESHOLD = 0.3;
+const LITERAL_LIMIT = 24; // Per token group, most used first
+
+type Hsl = { h: number; s: number; l: number };
+type LiteralGroup = 'color' | 'fontFamily' | 'fontSize' | 'spacing' | 'radius' | 'shadow';
+
+// First match wins, so the more specific patterns (…-foreground, …-muted) come first
+const NAME_ROLE_PATTERNS: Array<{ role: string; pattern: RegExp }> = [
+  { role: 'text.onAccent', pattern: /(primary|accent|brand)-(foreground|fg|contrast)|on-(primary|accent|brand)/ },
+  { role: 'text.muted', pattern: /muted-(foreground|fg|text)|text-(muted|secondary|subtle)|(foreground|fg)-muted/ },
+  { role: 'intent.danger', pattern: /destructive|danger|error/ },
+  { role: 'intent.warning', pattern: /warning|caution/ },
+  { role: 'intent.success', pattern: /success|positive/ },
+  { role: 'intent.info', pattern: /(^|-)info/ },
+  { role: 'border.muted', pattern: /border-(muted|subtle|light)|divider|separator/ },
+  { role: 'bg.muted', pattern: /(^|-)(muted|bg-muted|background-muted|bg-subtle|background-subtle)$/ },
+  { role: 'bg.elevated', pattern: /(^|-)(card|popover|elevated|raised|surface-\d+)$/ },
+  { role: 'text.primary', pattern: /(^|-)(foreground|fg|text|text-primary|body-color)$/ },
+  { role: 'bg.default', pattern: /(^|-)(background|bg|surface|body-bg|page-bg)$/ },
+  { role: 'border.default', pattern: /(^|-)(border|input|outline|stroke)$/ },
+  { role: 'accent.primary', pattern: /(^|-)(primary|brand)$/ },
+  { role: 'accent.secondary', pattern: /(^|-)(secondary|accent)$/ }
+];
+
+// analyzeColors assigns one role per color; each maps onto one or more dictionary roles
+const ANALYSIS_ROLES: Record<ColorAnalysis['role'], string[]> = {
+  background: ['bg.default'],
+  foreground: ['text.primary'],
+  muted: ['bg.muted', 'text.muted'],
+  border: ['border.default', 'border.muted'],
+  primary: ['accent.primary'],
+  secondary: ['accent.secondary'],
+  accent: ['accent.secondary'],
+  destructive: ['intent.danger'],
+  neutral: []
+};
+
+const INTENT_HUES: Record<string, Array<[number, number]>> = {
+  'intent.danger': [[0, 20], [340, 360]],
+  'intent.warning': [[25, 55]],
+  'intent.success': [[90, 165]],
+  'intent.info': [[185, 250]]
+};
+
+const COMPONENT_SURFACES = ['button', 'card', 'form', 'modal', 'badge', 'alert', 'table', 'nav'];
+const COMPONENT_NAME = /button|btn|card|input|badge|modal|dialog|tooltip|popover|tab|chip|avatar|menu|nav-item/;
+const LAYOUT_NAME = /container|max-width|width|height|gutter|section|layout|sidebar|header|footer|gap/;
+
+// -------- Value helpers --------
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function isColorValue(value: string): boolean {
+  return parseColor(value) !== null;
+}
+
+export function colorAlpha(color: string): number {
+  const parsed = parseColor(color);
+  return parsed ? parsed.alpha : 1;
+}
+
+function isSymbolic(value: string): boolean {
+  return /(clamp|calc|min|max|color-mix|var)\(/i.test(value);
+}
+
+function isFluid(value: string): boolean {
+  return /clamp\(|min\(|max\(|\d(vw|vh|vmin|vmax|svh|dvh|lvh|cqw|cqi)\b/i.test(value);
+}
+
+function literalId(value: string, contextClass: LiteralGroup): string {
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  return 'literal:' + crypto.createHash('sha1').update(normalized + contextClass).digest('hex').slice(0, 10);
+}
+
+// -------- Roles --------
+
+function inHueRange(role: string, hue: number): boolean {
+  return (INTENT_HUES[role] || []).some(([from, to]) => hue >= from && hue <= to);
+}
+
+// Rule-based plausibility of a color in a role, independent of how much evidence points there.
+// Translucent colors are overlays: fine as borders, implausible as backgrounds or text.
+function roleValidity(role: string, hsl: Hsl, alpha: number): number {
+  const { h, s, l } = hsl;
+  let validity: number;
+
+  if (role === 'bg.default') {
+    validity = l >= 85 || l <= 15 ? 1 : l >= 70 || l <= 30 ? 0.5 : 0.15;
+    if (s > 60) validity *= 0.5;
+  } else if (role === 'bg.muted' || role === 'bg.elevated') {
+    validity = l >= 80 || l <= 25 ? 1 : 0.5;
+    if (s > 50) validity *= 0.5;
+  } else if (role === 'text.primary') {
+    validity = l <= 25 || l >= 90 ? 1 : l <= 40 || l >= 80 ? 0.6 : 0.2;
+  } else if (role === 'text.muted') {
+    validity = l >= 25 && l <= 70 ? 1 : 0.5;
+  } else if (role === 'text.onAccent') {
+    validity = l >= 90 || l <= 15 ? 1 : 0.3;
+  } else if (role === 'border.default' || role === 'border.muted') {
+    validity = s < 30 ? 1 : 0.6;
+  } else if (role === 'accent.primary' || role === 'accent.secondary') {
+    validity = s >= 30 ? 1 : s >= 10 ? 0.5 : 0.2;
+    if (l < 15 || l > 85) validity *= 0.5;
+  } else {
+    validity = inHueRange(role, h) ? (s >= 35 ? 1 : 0.5) : 0.2;
+  }
+
+  const alphaFactor = role.startsWith('border.') ? Math.max(alpha, 0.6) : alpha;
+  return round(validity * alphaFactor);
+}
+
+// Lightness/hue heuristics - the weakest evidence, used so unnamed colors still get candidates
+function heuristicRoles(hsl: Hsl): Array<{ role: string; confidence: number }> {
+  const { h, s, l } = hsl;
+  const roles: Array<{ role: string; confidence: number }> = [];
+
+  if (l >= 94) {
+    roles.push({ role: 'bg.default', confidence: 0.5 }, { role: 'bg.elevated', confidence: 0.35 }, { role: 'text.onAccent', confidence: 0.3 });
+  } else if (l >= 85 && s < 20) {
+    roles.push({ role: 'bg.muted', confidence: 0.45 }, { role: 'border.default', confidence: 0.4 });
+  }
+  if (l <= 20 && s < 30) {
+    roles.push({ role: 'text.primary', confidence: 0.5 });
+  } else if (l >= 30 && l <= 60 && s < 15) {
+    roles.push({ role: 'text.muted', confidence: 0.45 });
+  }
+  if (s >= 40 && l > 25 && l < 75) {
+    Object.keys(INTENT_HUES).forEach(role => {
+      if (inHueRange(role, h)) roles.push({ role, confidence: 0.35 });
+    });
+  }
+  return roles;
+}
+
+function nameRole(name: string): string | null {
+  const lower = name.toLowerCase().replace(/^--/, '');
+  const match = NAME_ROLE_PATTERNS.find(({ pattern }) => pattern.test(lower));
+  return match ? match.role : null;
+}
+
+// Merge candidate evidence per role: the strongest source sets confidence, every source is listed as basis
+function buildRoleCandidates(
+  color: string,
+  evidence: Array<{ role: string; confidence: number; basis: string }>
+): CanonicalRoleCandidate[] {
+  const hsl = colorToHsl(normalizeColorToHex(color));
+  if ([hsl.h, hsl.s, hsl.l].some(n => isNaN(n))) return [];
+  const alpha = colorAlpha(color);
+
+  const byRole = new Map<string, { confidence: number; bases: string[] }>();
+  evidence.forEach(({ role, confidence, basis }) => {
+    const existing = byRole.get(role);
+    if (existing) {
+      existing.confidence = Math.max(existing.confidence, confidence);
+      if (existing.bases.indexOf(basis) === -1) existing.bases.push(basis);
+    } else {
+      byRole.set(role, { confidence, bases: [basis] });
+    }
+  });
+
+  return SHADCN_V1_ROLES
+    .filter(role => byRole.has(role))
+    .map(role => ({
+      role: `${ROLE_DICTIONARY}#${role}`,
+      confidence: round(byRole.get(role)!.confidence),
+      validity: roleValidity(role, hsl, alpha),
+      basis: byRole.get(role)!.bases.join('; ')
+    }));
+}
+
+function colorEvidence(
+  color: string,
+  analysisByHex: Map<string, ColorAnalysis>
+): Array<{ role: string; confidence: number; basis: string }> {
+  const evidence: Array<{ role: string; confidence: number; basis: string }> = [];
+  const analysis = analysisByHex.get(normalizeColorToHex(color).toLowerCase());
+  if (analysis) {
+    ANALYSIS_ROLES[analysis.role].forEach(role => {
+      evidence.push({ role, confidence: analysis.confidence, basis: `color-analysis:${analysis.role}` });
+    });
+  }
+  const hsl = colorToHsl(normalizeColorToHex(color));
+  if (![hsl.h, hsl.s, hsl.l].some(n => isNaN(n))) {
+    heuristicRoles(hsl).forEach(({ role, confidence }) => {
+      evidence.push({ role, confidence, basis: 'lightness-hue-heuristic' });
+    });
+  }
+  return evidence;
+}
+
+// -------- Tokens --------
+
+function aliasDepth(name: string, customProperties: ExtractedTokens['customProperties'], seen: string[] = []): number {
+  const entry = customProperties[name];
+  if (!entry || seen.indexOf(name) !== -1) return 0;
+  const source = entry.expression || entry.value;
+  const refs = (source.match(/var\((--[\w-]+)/g) || []).map(ref => ref.slice(4));
+  if (refs.length === 0) return 0;
+  return 1 + Math.max(...refs.map(ref => aliasDepth(ref, customProperties, seen.concat(name))));
+}
+
+function namedTokenClass(name: string, value: string, isColor: boolean): CanonicalToken['class'] {
+  const lower = name.toLowerCase();
+  if (isFluid(value)) return 'fluid';
+  if (isColor || /font-family|(^|-)font(-sans|-serif|-mono)?$/.test(lower)) return 'discrete';
+  if (COMPONENT_NAME.test(lower)) return 'component';
+  if (LAYOUT_NAME.test(lower)) return 'layout';
+  if (/^-?[\d.]+(px|rem|em|%)?$/.test(value.trim()) || /shadow|radius|spacing|space|size|leading|tracking|weight/.test(lower)) return 'scale';
+  return 'discrete';
+}
+
+function literalTokenClass(group: LiteralGroup, value: string, usage?: TokenUsage): CanonicalToken['class'] {
+  if (isFluid(value)) return 'fluid';
+  if (group === 'color' || group === 'fontFamily') return 'discrete';
+  // Bound to a component primitive when every context sits inside one component family
+  const surfaces = usage ? usage.surfaces.filter(surface => surface !== 'root') : [];
+  if (surfaces.length === 1 && COMPONENT_SURFACES.indexOf(surfaces[0]) !== -1) return 'component';
+  return 'scale';
+}
+
+function buildNamedTokens(
+  tokens: ExtractedTokens,
+  analysisByHex: Map<string, ColorAnalysis>,
+  renderedContexts: Map<string, string[]>
+): CanonicalToken[] {
+  const customProperties = tokens.customProperties || {};
+  const usage = tokens.usage || {};
+
+  return Object.keys(customProperties).sort().map(name => {
+    const entry = customProperties[name];
+    const valueResolved = entry.value.trim();
+    const isColor = isColorValue(valueResolved);
+    const symbolicSource = entry.expression || valueResolved;
+    const usageEntry = usage[tokenUsageKey('var', name)];
+
+    const provenance: CanonicalProvenance[] = [
+      { basis: 'named-variable', evidence: `declared as ${name}`, weight: 1 }
+    ];
+    if (entry.expression) {
+      provenance.push({ basis: 'alias-resolved', evidence: `${entry.expression} -> ${valueResolved}`, weight: 0.9 });
+    }
+
+    let roleCandidates: CanonicalRoleCandidate[] = [];
+    if (isColor) {
+      const evidence = colorEvidence(valueResolved, analysisByHex);
+      const conventionRole = nameRole(name);
+      if (conventionRole) {
+        provenance.push({ basis: 'convention-match', evidence: `name follows the ${ROLE_DICTIONARY} ${conventionRole} convention`, weight: 0.8 });
+        evidence.push({ role: conventionRole, confidence: 0.8, basis: `convention-match:${name}` });
+      }
+      const contexts = renderedContexts.get(normalizeColorToHex(valueResolved).toLowerCase());
+      if (contexts) {
+        provenance.push({ basis: 'computed-style', evidence: `rendered on ${contexts.join(', ')} elements`, weight: 0.6 });
+      }
+      roleCandidates = buildRoleCandidates(valueResolved, evidence);
+    }
+
+    return {
+      id: name,
+      valueResolved,
+      valueSymbolic: isSymbolic(symbolicSource) ? symbolicSource : null,
+      class: namedTokenClass(name, valueResolved, isColor),
+      provenance,
+      saliency_inputs: {
+        refCount: entry.references,
+        aliasDepth: aliasDepth(name, customProperties),
+        contextBreadth: usageEntry ? usageEntry.contexts : 0,
+        surfaceDiversity: usageEntry ? usageEntry.surfaces.length : 0
+      },
+      roleCandidates
+    };
+  });
+}
+
+function buildLiteralTokens(
+  tokens: ExtractedTokens,
+  analysisByHex: Map<string, ColorAnalysis>,
+  renderedContexts: Map<string, string[]>,
+  namedHexes: Set<string>
+): CanonicalToken[] {
+  const usage = tokens.usage || {};
+  const groups: Array<{ group: LiteralGroup; frequency: Array<{ value: string; count: number }> }> = [
+    { group: 'color', frequency: tokens.colors.frequency },
+    { group: 'fontFamily', frequency: tokens.fontFamilies.frequency },
+    { group: 'fontSize', frequency: tokens.fontSizes.frequency },
+    { group: 'spacing', frequency: tokens.spacing.frequency },
+    { group: 'radius', frequency: tokens.radii.frequency },
+    { group: 'shadow', frequency: tokens.shadows.frequency }
+  ];
+  const result: CanonicalToken[] = [];
+  const seenIds = new Set<string>();
+
+  groups.forEach(({ group, frequency }) => {
+    const candidates = frequency
+      .filter(item => item.value && !/var\(/i.test(item.value))
+      // Colors already backed by a named variable are described by that token
+      .filter(item => group !== 'color' || !namedHexes.has(normalizeColorToHex(item.value).toLowerCase()))
+      .slice()
+      .sort((a, b) => b.count - a.count || (a.value < b.value ? -1 : a.value > b.value ? 1 : 0))
+      .slice(0, LITERAL_LIMIT);
+
+    candidates.forEach(({ value, count }) => {
+      const id = literalId(value, group);
+      if (seenIds.has(id)) return;
+      seenIds.add(id);
+
+      const valueResolved = value.trim();
+      const usageEntry = usage[tokenUsageKey(group, valueResolved)];
+      const provenance: CanonicalProvenance[] = [{
+        basis: 'computed-style',
+        evidence: `${group} declared ${count}x across ${usageEntry ? usageEntry.contexts : 0} selectors`,
+        weight: round(Math.min(1, count / 10))
+      }];
+
+      let roleCandidates: CanonicalRoleCandidate[] = [];
+      if (group === 'color' && isColorValue(valueResolved)) {
+        const contexts = renderedContexts.get(normalizeColorToHex(valueResolved).toLowerCase());
+        if (contexts) {
+          provenance.push({ basis: 'computed-style', evidence: `rendered on ${contexts.join(', ')} elements`, weight: 0.6 });
+        }
+        roleCandidates = buildRoleCandidates(valueResolved, colorEvidence(valueResolved, analysisByHex));
+      }
+
+      result.push({
+        id,
+        valueResolved,
+        valueSymbolic: isSymbolic(valueResolved) ? valueResolved : null,
+        class: literalTokenClass(group, valueResolved, usageEntry),
+        provenance,
+        saliency_inputs: {
+          refCount: count,
+          aliasDepth: 0,
+          contextBreadth: usageEntry ? usageEntry.contexts : 0,
+          surfaceDiversity: usageEntry ? usageEntry.surfaces.length : 0
+        },
+        roleCandidates
+      });
+    });
+  });
+
+  return result;
+}
+
+// Color tokens the site clearly leans on, but which no dictionary role fits
+function isUnmappedSiteRole(token: CanonicalToken): boolean {
+  if (token.roleCandidates.length > 0 || !isColorValue(token.valueResolved)) return false;
+  const namedVariable = token.provenance.some(p => p.basis === 'named-variable');
+  return (namedVariable && token.saliency_inputs.refCount >= 2) || token.saliency_inputs.contextBreadth >= 3;
+}
+
+// -------- Document --------
+
+// Share of the crawlable pages found that were actually analyzed
+function crawlFraction(crawl?: CrawlReport): number | null {
+  if (!crawl || !crawl.discovered) return null;
+  return Number((crawl.pages.length / crawl.discovered).toFixed(2));
+}
+
+function coverageFor(meta: any): CanonicalDocument['coverage'] {
+  const urls: string[] = Array.isArray(meta?.sources)
+    ? meta.sources.map((source: any) => source.url)
+    : meta?.source ? [meta.source] : [];
+
+  const routes: string[] = [];
+  urls.forEach(url => {
+    let route = url;
+    try {
+      route = new URL(url).pathname || '/';
+    } catch {
+      // Keep non-URL sources (e.g. local files) as-is
+    }
+    if (routes.indexOf(route) === -1) routes.push(route);
+  });
+
+  return {
+    urls,
+    routes,
+    sampleBias: meta?.crawl ? 'full-crawl' : routes.length > 1 ? 'multi-route' : 'homepage-only',
+    estimatedFraction: crawlFraction(meta?.crawl)
+  };
+}
+
+function coveredRoles(tokens: CanonicalToken[]): string[] {
+  const covered = new Set<string>();
+  tokens.forEach(token => token.roleCandidates.forEach(candidate => {
+    if (candidate.confidence >= HIGH_CONFIDENCE && candidate.validity >= HIGH_VALIDITY) {
+      covered.add(candidate.role.split('#')[1]);
+    }
+  }));
+  return SHADCN_V1_ROLES.filter(role => covered.has(role));
+}
+
+// Formula is versioned with CONTRACT_VERSION:
+// 0.4 x named-variable fraction + 0.4 x covered-role fraction + 0.2 x coverage breadth,
+// where breadth averages routes sampled (saturating at 5) and component families touched (at 8)
+function computeSubstrateScore(allTokens: CanonicalToken[], rolesCovered: number, routes: number, usage: Record<string, TokenUsage>): number {
+  if (allTokens.length === 0) return 0;
+  const named = allTokens.filter(token => token.provenance.some(p => p.basis === 'named-variable')).length;
+  const surfaces = new Set<string>();
+  Object.keys(usage).forEach(key => usage[key].surfaces.forEach(surface => surfaces.add(surface)));
+
+  const namedFraction = named / allTokens.length;
+  const roleFraction = rolesCovered / SHADCN_V1_ROLES.length;
+  const breadth = 0.5 * Math.min(1, routes / 5) + 0.5 * Math.min(1, surfaces.size / 8);
+  return round(0.4 * namedFraction + 0.4 * roleFraction + 0.2 * breadth);
+}
+
+// `colorAnalyses` lets a caller that already ran analyzeColors (the shadcn format) reuse its result
+export function generateCanonical(tokens: ExtractedTokens, meta: any, colorAnalyses?: ColorAnalysis[]): CanonicalDocument {
+  // Prepare semantic data the same way the shadcn/tailwind formats do
+  let semanticData: Array<{ color: string; domDepth?: number; firstSeenIndex?: number; documentPosition?: number; weight: number; context: string }> | undefined;
+  if (meta?.semanticAnalysis?.colors) {
+    semanticData = meta.semanticAnalysis.colors.map((item: any) => ({
+      color: item.color,
+      domDepth: item.domDepth,
+      firstSeenIndex: item.firstSeenIndex,
+      documentPosition: item.documentPosition,
+      weight: item.weight,
+      context: item.context
+    }));
+  }
+
+  const customProperties = tokens.customProperties || {};
+  const variableColors = Object.keys(customProperties)
+    .sort()
+    .filter(name => isColorValue(customProperties[name].value))
+    .map(name => ({ variable: name, value: customProperties[name].value.trim(), references: customProperties[name].references }));
+
+  if (!colorAnalyses) {
+    colorAnalyses = analyzeColors(tokens.colors.frequency, variableColors, semanticData, meta?.html, meta?.css);
+  }
+  const analysisByHex = new Map<string, ColorAnalysis>();
+  colorAnalyses.forEach(analysis => analysisByHex.set(normalizeColorToHex(analysis.hex).toLowerCase(), analysis));
+
+  // Semantic analysis saw these colors on actual elements
+  const renderedContexts = new Map<string, string[]>();
+  const colorsByContext: Record<string, string[]> = meta?.semanticAnalysis?.colorsByContext || {};
+  Object.keys(colorsByContext).sort().forEach(context => {
+    colorsByContext[context].forEach(color => {
+      const hex = normalizeColorToHex(color).toLowerCase();
+      const contexts = renderedContexts.get(hex) || [];
+      if (contexts.indexOf(context) === -1) contexts.push(context);
+      renderedContexts.set(hex, contexts);
+    });
+  });
+
+  const named = buildNamedTokens(tokens, analysisByHex, renderedContexts);
+  const namedHexes = new Set(variableColors.map(v => normalizeColorToHex(v.value).toLowerCase()));
+  const literals = buildLiteralTokens(tokens, analysisByHex, renderedContexts, namedHexes);
+  const allTokens = named.concat(literals);
+
+  const unmappedSiteRoles = allTokens.filter(isUnmappedSiteRole);
+  const mapped = allTokens.filter(token => !isUnmappedSiteRole(token));
+
+  const coverage = coverageFor(meta);
+  const rolesCovered = coveredRoles(mapped);
+  const missingRoles = SHADCN_V1_ROLES.filter(role => rolesCovered.indexOf(role) === -1);
+  const substrateScore = computeSubstrateScore(allTokens, rolesCovered.length, coverage.routes.length, tokens.usage || {});
+
+  const outcome: CanonicalDocument['outcome'] = allTokens.length === 0 || substrateScore < REFUSAL_THRESHOLD
+    ? 'refused'
+    : missingRoles.length === 0 ? 'full' : 'partial';
+
+  const document: CanonicalDocument = {
+    contractVersion: CONTRACT_VERSION,
+    extractorVersion: EXTRACTOR_VERSION,
+    roleDictionary: ROLE_DICTIONARY,
+    coverage,
+    substrateScore,
+    outcome,
+    tokens: mapped,
+    unmappedSiteRoles,
+    // analyzeColors' single role per color - kept only until consumers read roleCandidates
+    legacy_extractor_residue: {
+      colorAnalysis: colorAnalyses
+        .map(analysis => ({ color: analysis.hex, role: analysis.role, frequency: analysis.frequency, confidence: analysis.confidence }))
+        .sort((a, b) => b.frequency - a.frequency || (a.color < b.color ? -1 : a.color > b.color ? 1 : 0))
+    }
+  };
+
+  if (outcome === 'refused') {
+    document.refusal = {
+      reason: allTokens.length === 0 ? 'extraction_failed' : 'substrate_below_threshold',
+      missingRoles,
+      substrateScore,
+      recommendedConsumerBehavior: 'Do not synthesize narrative design documentation from this output. Treat tokens as raw evidence only, or re-run with more routes (--urls) or a rendered page (--render).'
+    };
+  }
+
+  return document;
+}
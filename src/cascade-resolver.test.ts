@@ -0,0 +1,74 @@
+import { JSDOM } from 'jsdom';
+import { CascadeResolver, resolveVarReferences } from './cascade-resolver';
+
+function resolveColors(html: string, css: string, selector: string) {
+  const document = new JSDOM(html).window.document;
+  return new CascadeResolver(css).resolve(document.querySelector(selector)!).colors;
+}
+
+describe('CascadeResolver', () => {
+  const html = '<body><div id="card" class="card primary"><a class="link">Link</a></div></body>';
+
+  it('lets the more specific selector win regardless of source order', () => {
+    const colors = resolveColors(html, `
+      #card { color: #111111; }
+      .card.primary { color: #222222; }
+      .card { color: #333333; }
+      div { color: #444444; }
+    `, '#card');
+    expect(colors.color).toBe('#111111');
+
+    expect(resolveColors(html, '.card { color: #333333; } div { color: #444444; }', '#card').color).toBe('#333333');
+    // Equal specificity falls back to source order
+    expect(resolveColors(html, '.card { color: #333333; } .primary { color: #555555; }', '#card').color).toBe('#555555');
+  });
+
+  it('lets !important beat a more specific selector', () => {
+    const colors = resolveColors(html, `
+      #card.card { background-color: #111111; }
+      div { background-color: #222222 !important; }
+    `, '#card');
+    expect(colors['background-color']).toBe('#222222');
+  });
+
+  it('lets unlayered declarations beat layered ones', () => {
+    const colors = resolveColors(html, `
+      @layer base, components;
+      div { color: #111111; }
+      @layer components { #card.card { color: #222222; } }
+      @layer base { #card { color: #333333; } }
+    `, '#card');
+    expect(colors.color).toBe('#111111');
+
+    // Between layers the later one wins
+    expect(resolveColors(html, `
+      @layer base, components;
+      @layer components { div { color: #222222; } }
+      @layer base { #card { color: #333333; } }
+    `, '#card').color).toBe('#222222');
+  });
+
+  it('substitutes var() fallbacks when the property is missing', () => {
+    const colors = resolveColors(html, `
+      :root { --brand: #0f766e; }
+      .card { color: var(--missing, var(--brand)); background-color: var(--surface, #f8fafc); }
+      .link { color: var(--undefined); }
+    `, '#card');
+    expect(colors.color).toBe('#0f766e');
+    expect(colors['background-color']).toBe('#f8fafc');
+
+    // An unresolvable var() is invalid at computed-value time and inherits
+    expect(resolveColors(html, `
+      .card { color: #222222; }
+      .link { color: var(--undefined); }
+    `, '.link').color).toBe('#222222');
+  });
+});
+
+describe('resolveVarReferences', () => {
+  it('resolves nested references and rejects cycles', () => {
+    expect(resolveVarReferences('1px solid var(--a)', { '--a': 'var(--b)', '--b': '#000' })).toBe('1px solid #000');
+    expect(resolveVarReferences('var(--a, red)', { '--a': '' })).toBe('red');
+    expect(resolveVarReferences('var(--a)', { '--a': 'var(--b)', '--b': 'var(--a)' })).toBeUndefined();
+  });
+});
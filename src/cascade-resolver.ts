@@ -0,0 +1,556 @@
+import { Root, Rule, AtRule, Declaration, ChildNode } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import { findColors } from './css-color';
+
+// Viewport the cascade is evaluated against when rules sit inside @media
+const ASSUMED_VIEWPORT_WIDTH = 1280;
+const ROOT_FONT_SIZE = 16;
+
+// Color longhands we compute for every element
+export const CASCADE_COLOR_PROPERTIES = [
+  'color',
+  'background-color',
+  'border-top-color',
+  'border-right-color',
+  'border-bottom-color',
+  'border-left-color',
+  'outline-color',
+  'text-decoration-color',
+  'fill',
+  'stroke',
+  'stop-color',
+  'flood-color'
+] as const;
+
+export type CascadeColorProperty = typeof CASCADE_COLOR_PROPERTIES[number];
+
+const INHERITED_PROPERTIES = new Set<string>(['color', 'fill', 'stroke']);
+
+const INITIAL_VALUES: Record<CascadeColorProperty, string> = {
+  'color': 'canvastext',
+  'background-color': 'transparent',
+  'border-top-color': 'currentcolor',
+  'border-right-color': 'currentcolor',
+  'border-bottom-color': 'currentcolor',
+  'border-left-color': 'currentcolor',
+  'outline-color': 'currentcolor',
+  'text-decoration-color': 'currentcolor',
+  'fill': 'black',
+  'stroke': 'none',
+  'stop-color': 'black',
+  'flood-color': 'black'
+};
+
+// SVG presentation attributes that map onto the properties above
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const PRESENTATION_ATTRIBUTES: CascadeColorProperty[] = ['color', 'fill', 'stroke', 'stop-color', 'flood-color'];
+
+const SIDES = ['top', 'right', 'bottom', 'left'];
+
+type Specificity = [number, number, number];
+
+interface CascadeDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+  specificity: Specificity;
+  layer: number; // Unlayered declarations use Infinity so they beat every named layer; SVG presentation attributes use -Infinity
+  order: number;
+  inline?: boolean;
+}
+
+interface IndexedRule {
+  selector: string;
+  specificity: Specificity;
+  declarations: Array<{ property: string; value: string; important: boolean }>;
+  layer: number;
+  order: number;
+}
+
+export interface CascadedStyle {
+  colors: Partial<Record<CascadeColorProperty, string>>;
+  customProperties: Record<string, string>;
+}
+
+// Split on top-level commas/combinators while respecting (), [] and quotes
+function splitTopLevel(input: string, separators: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quote) {
+      if (char === quote && input[i - 1] !== '\\') quote = null;
+      current += char;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (depth === 0 && separators.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function addSpecificity(a: Specificity, b: Specificity): Specificity {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+function compareSpecificity(a: Specificity, b: Specificity): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+// Selectors Level 4 specificity: (ids, classes/attributes/pseudo-classes, types/pseudo-elements)
+export function calculateSpecificity(selector: string): Specificity {
+  let specificity: Specificity = [0, 0, 0];
+  let i = 0;
+  while (i < selector.length) {
+    const char = selector[i];
+    if (char === '#') {
+      specificity[0]++;
+      i++;
+      while (i < selector.length && /[\w-]/.test(selector[i])) i++;
+    } else if (char === '.') {
+      specificity[1]++;
+      i++;
+      while (i < selector.length && /[\w-]/.test(selector[i])) i++;
+    } else if (char === '[') {
+      specificity[1]++;
+      const end = selector.indexOf(']', i);
+      i = end === -1 ? selector.length : end + 1;
+    } else if (char === ':') {
+      const isElement = selector[i + 1] === ':';
+      i += isElement ? 2 : 1;
+      const nameStart = i;
+      while (i < selector.length && /[\w-]/.test(selector[i])) i++;
+      const name = selector.slice(nameStart, i).toLowerCase();
+      let args: string | null = null;
+      if (selector[i] === '(') {
+        let depth = 0;
+        const argStart = i + 1;
+        for (; i < selector.length; i++) {
+          if (selector[i] === '(') depth++;
+          if (selector[i] === ')') {
+            depth--;
+            if (depth === 0) break;
+          }
+        }
+        args = selector.slice(argStart, i);
+        i++;
+      }
+      if (isElement || ['before', 'after', 'first-line', 'first-letter'].includes(name)) {
+        specificity[2]++;
+      } else if (name === 'where') {
+        // :where() never adds specificity
+      } else if (args !== null && ['is', 'not', 'has', 'matches'].includes(name)) {
+        // Takes the specificity of its most specific argument
+        const most = splitTopLevel(args, /,/)
+          .map(calculateSpecificity)
+          .sort((a, b) => compareSpecificity(b, a))[0];
+        if (most) specificity = addSpecificity(specificity, most);
+      } else {
+        specificity[1]++;
+      }
+    } else if (/[a-zA-Z]/.test(char)) {
+      specificity[2]++;
+      while (i < selector.length && /[\w-]/.test(selector[i])) i++;
+    } else {
+      i++;
+    }
+  }
+  return specificity;
+}
+
+// Drop (...) and [...] groups so `:not(.x)` or `[href$=".pdf"]` cannot leak into the bucket key
+function stripGroups(selector: string): string {
+  let result = '';
+  let depth = 0;
+  for (const char of selector) {
+    if (char === '(' || char === '[') depth++;
+    if (depth === 0) result += char;
+    if (char === ')' || char === ']') depth--;
+  }
+  return result;
+}
+
+// Bucket key for the rightmost compound selector, so we only test plausible rules per element
+function getRuleKey(selector: string): string {
+  const compounds = splitTopLevel(selector, /[\s>+~]/);
+  const last = stripGroups(compounds[compounds.length - 1] || '');
+  const idMatch = last.match(/#([\w-]+)/);
+  if (idMatch) return `#${idMatch[1]}`;
+  const classMatch = last.match(/\.([\w-]+)/);
+  if (classMatch) return `.${classMatch[1]}`;
+  const tagMatch = last.match(/^([a-zA-Z][\w-]*)/);
+  if (tagMatch) return tagMatch[1].toLowerCase();
+  return '*';
+}
+
+function toPixels(value: number, unit: string): number {
+  if (unit === 'em' || unit === 'rem') return value * ROOT_FONT_SIZE;
+  return value;
+}
+
+// Evaluate a media query list against a desktop, light-scheme screen
+export function matchesMedia(params: string): boolean {
+  const queries = splitTopLevel(params, /,/);
+  if (queries.length === 0) return true;
+  return queries.some(query => {
+    let normalized = query.trim().toLowerCase();
+    const negated = normalized.startsWith('not ');
+    if (negated) normalized = normalized.slice(4);
+    normalized = normalized.replace(/^only\s+/, '');
+
+    let matches = true;
+    if (/^(print|speech)\b/.test(normalized)) matches = false;
+    if (/prefers-color-scheme:\s*dark/.test(normalized)) matches = false;
+    if (/prefers-contrast:\s*more/.test(normalized)) matches = false;
+    if (/forced-colors:\s*active/.test(normalized)) matches = false;
+
+    const featureRegex = /\((min|max)-width:\s*([\d.]+)(px|em|rem)?\)/g;
+    let match;
+    while ((match = featureRegex.exec(normalized)) !== null) {
+      const width = toPixels(parseFloat(match[2]), match[3] || 'px');
+      if (match[1] === 'min' && ASSUMED_VIEWPORT_WIDTH < width) matches = false;
+      if (match[1] === 'max' && ASSUMED_VIEWPORT_WIDTH > width) matches = false;
+    }
+    const rangeRegex = /\(width\s*(>=|<=|>|<)\s*([\d.]+)(px|em|rem)?\)/g;
+    while ((match = rangeRegex.exec(normalized)) !== null) {
+      const width = toPixels(parseFloat(match[2]), match[3] || 'px');
+      const op = match[1];
+      if ((op === '>=' && !(ASSUMED_VIEWPORT_WIDTH >= width)) ||
+          (op === '>' && !(ASSUMED_VIEWPORT_WIDTH > width)) ||
+          (op === '<=' && !(ASSUMED_VIEWPORT_WIDTH <= width)) ||
+          (op === '<' && !(ASSUMED_VIEWPORT_WIDTH < width))) {
+        matches = false;
+      }
+    }
+    return negated ? !matches : matches;
+  });
+}
+
+// Pull the color component out of a shorthand such as `border: 1px solid #333`
+function extractColorComponent(value: string): string | undefined {
+  const [color] = findColors(value, { keywords: true });
+  if (color) return color;
+  // Unresolved references, currentcolor and transparent are kept for the cascade to resolve
+  const [reference] = findColors(value, { references: true });
+  if (reference) return reference;
+  const keyword = value.split(/\s+/).find(word => /^[a-z]+$/i.test(word) && !/^(none|hidden|solid|dashed|dotted|double|groove|ridge|inset|outset|thin|medium|thick|no-repeat|repeat|repeat-x|repeat-y|center|top|left|right|bottom|cover|contain|fixed|scroll|local|auto|inherit|initial|unset)$/i.test(word));
+  return keyword;
+}
+
+// Expand shorthands into the color longhands we track
+function expandDeclaration(property: string, value: string): Array<{ property: string; value: string }> {
+  const prop = property.toLowerCase();
+  if (prop.startsWith('--')) return [{ property, value }];
+  if ((CASCADE_COLOR_PROPERTIES as readonly string[]).includes(prop)) return [{ property: prop, value }];
+
+  const isGlobalKeyword = /^(inherit|initial|unset|revert)$/i.test(value.trim());
+
+  if (prop === 'background') {
+    // The shorthand resets background-color when no color is given
+    const color = isGlobalKeyword ? value : extractColorComponent(value.replace(/url\([^)]*\)/g, ''));
+    return [{ property: 'background-color', value: color || 'transparent' }];
+  }
+  if (prop === 'border-color') {
+    const parts = isGlobalKeyword ? [value, value, value, value] : splitTopLevel(value, /\s/);
+    const [top, right = top, bottom = top, left = right] = parts;
+    return [
+      { property: 'border-top-color', value: top },
+      { property: 'border-right-color', value: right },
+      { property: 'border-bottom-color', value: bottom },
+      { property: 'border-left-color', value: left }
+    ];
+  }
+  if (prop === 'border') {
+    const color = isGlobalKeyword ? value : (extractColorComponent(value) || 'currentcolor');
+    return SIDES.map(side => ({ property: `border-${side}-color`, value: color }));
+  }
+  const sideMatch = prop.match(/^border-(top|right|bottom|left)$/);
+  if (sideMatch) {
+    return [{ property: `border-${sideMatch[1]}-color`, value: isGlobalKeyword ? value : (extractColorComponent(value) || 'currentcolor') }];
+  }
+  if (prop === 'outline' || prop === 'text-decoration') {
+    const color = isGlobalKeyword ? value : extractColorComponent(value);
+    return color ? [{ property: `${prop}-color`, value: color }] : [];
+  }
+  return [];
+}
+
+// Substitute var(--name, fallback) references, recursively, using the element's custom properties
+export function resolveVarReferences(value: string, customProperties: Record<string, string>, depth: number = 0): string | undefined {
+  if (depth > 20) return undefined; // Cyclic or absurdly deep references are invalid at computed-value time
+  const start = value.search(/var\(/i);
+  if (start === -1) return value;
+
+  let parenDepth = 0;
+  let end = start + 4;
+  for (; end < value.length; end++) {
+    if (value[end] === '(') parenDepth++;
+    if (value[end] === ')') {
+      if (parenDepth === 0) break;
+      parenDepth--;
+    }
+  }
+  const inner = value.slice(start + 4, end);
+  const commaIndex = inner.indexOf(',');
+  const name = (commaIndex === -1 ? inner : inner.slice(0, commaIndex)).trim();
+  const fallback = commaIndex === -1 ? undefined : inner.slice(commaIndex + 1).trim();
+
+  let replacement: string | undefined = customProperties[name];
+  if (replacement === undefined || replacement.trim() === '') {
+    replacement = fallback;
+  }
+  if (replacement === undefined) return undefined;
+
+  const resolvedReplacement = resolveVarReferences(replacement, customProperties, depth + 1);
+  if (resolvedReplacement === undefined) return undefined;
+
+  return resolveVarReferences(value.slice(0, start) + resolvedReplacement + value.slice(end + 1), customProperties, depth + 1);
+}
+
+export class CascadeResolver {
+  private rulesByKey = new Map<string, IndexedRule[]>();
+  private cache = new Map<Element, CascadedStyle>();
+
+  constructor(css: string) {
+    this.indexRules(safeParser(css));
+  }
+
+  // Resolve the computed color longhands (and custom properties) for an element
+  resolve(element: Element): CascadedStyle {
+    const cached = this.cache.get(element);
+    if (cached) return cached;
+
+    const parentStyle = element.parentElement ? this.resolve(element.parentElement) : undefined;
+    const winners = this.collectWinningDeclarations(element);
+
+    // Custom properties inherit and are resolved before anything references them
+    const customProperties: Record<string, string> = { ...(parentStyle ? parentStyle.customProperties : {}) };
+    const ownCustom: Record<string, string> = {};
+    winners.forEach((decl, property) => {
+      if (property.startsWith('--')) ownCustom[property] = decl.value;
+    });
+    const mergedCustom = { ...customProperties, ...ownCustom };
+    Object.keys(ownCustom).forEach(property => {
+      const value = ownCustom[property];
+      if (/^initial$/i.test(value.trim())) {
+        delete customProperties[property];
+        return;
+      }
+      if (/^(inherit|unset)$/i.test(value.trim())) {
+        const inherited = parentStyle ? parentStyle.customProperties[property] : undefined;
+        if (inherited !== undefined) customProperties[property] = inherited;
+        else delete customProperties[property];
+        return;
+      }
+      const resolved = resolveVarReferences(value, mergedCustom);
+      if (resolved !== undefined) customProperties[property] = resolved;
+      else delete customProperties[property];
+    });
+
+    const colors: Partial<Record<CascadeColorProperty, string>> = {};
+    const parentColors = parentStyle ? parentStyle.colors : {};
+
+    // `color` first - currentcolor in the other properties depends on it
+    const ordered: CascadeColorProperty[] = ['color', ...CASCADE_COLOR_PROPERTIES.filter(p => p !== 'color')];
+    for (const property of ordered) {
+      const inherited = INHERITED_PROPERTIES.has(property);
+      const decl = winners.get(property);
+      let value: string | undefined = decl ? resolveVarReferences(decl.value, customProperties) : undefined;
+
+      // A value that fails var() substitution is "invalid at computed-value time" and acts as unset
+      let keyword = value ? value.trim().toLowerCase() : (inherited ? 'inherit' : 'initial');
+      if (keyword === 'unset' || keyword === 'revert') keyword = inherited ? 'inherit' : 'initial';
+
+      if (keyword === 'inherit') {
+        value = parentColors[property] || INITIAL_VALUES[property];
+      } else if (keyword === 'initial') {
+        value = INITIAL_VALUES[property];
+      }
+
+      if (value && value.trim().toLowerCase() === 'currentcolor' && property !== 'color') {
+        value = colors.color;
+      } else if (value && value.trim().toLowerCase() === 'currentcolor') {
+        value = parentColors.color || INITIAL_VALUES.color;
+      }
+
+      if (value) colors[property] = value.trim();
+    }
+
+    const style: CascadedStyle = { colors, customProperties };
+    this.cache.set(element, style);
+    return style;
+  }
+
+  private indexRules(root: Root): void {
+    const layerOrder = new Map<string, number>();
+    let anonymousLayers = 0;
+    let order = 0;
+
+    const getLayerIndex = (name: string): number => {
+      if (!layerOrder.has(name)) layerOrder.set(name, layerOrder.size);
+      return layerOrder.get(name)!;
+    };
+
+    const visit = (nodes: ChildNode[] | undefined, layer: number, layerName: string) => {
+      if (!nodes) return;
+      for (const node of nodes) {
+        if (node.type === 'rule') {
+          this.indexRule(node as Rule, layer, order++);
+        } else if (node.type === 'atrule') {
+          const atRule = node as AtRule;
+          const name = atRule.name.toLowerCase();
+          if (name === 'media') {
+            if (matchesMedia(atRule.params)) visit(atRule.nodes, layer, layerName);
+          } else if (name === 'supports' || name === 'container' || name === 'scope') {
+            visit(atRule.nodes, layer, layerName);
+          } else if (name === 'layer') {
+            const names = atRule.params.split(',').map(n => n.trim()).filter(Boolean);
+            if (!atRule.nodes) {
+              // `@layer a, b;` only declares the order
+              names.forEach(n => getLayerIndex(layerName ? `${layerName}.${n}` : n));
+              continue;
+            }
+            const fullName = names[0]
+              ? (layerName ? `${layerName}.${names[0]}` : names[0])
+              : `__anonymous_${anonymousLayers++}`;
+            visit(atRule.nodes, getLayerIndex(fullName), fullName);
+          }
+          // @keyframes, @font-face, @page etc. never apply to elements
+        }
+      }
+    };
+
+    visit(root.nodes, Infinity, '');
+  }
+
+  private indexRule(rule: Rule, layer: number, order: number): void {
+    const declarations: IndexedRule['declarations'] = [];
+    (rule.nodes || []).forEach(node => {
+      if (node.type !== 'decl') return;
+      const decl = node as Declaration;
+      expandDeclaration(decl.prop, decl.value).forEach(expanded => {
+        declarations.push({ ...expanded, important: !!decl.important });
+      });
+    });
+    if (declarations.length === 0) return;
+
+    let selectors: string[];
+    try {
+      selectors = rule.selectors;
+    } catch (error) {
+      return;
+    }
+
+    selectors.forEach(selector => {
+      // Pseudo-elements style generated boxes, not the element itself
+      if (/::|:(before|after|first-line|first-letter|placeholder|selection|marker)\b/i.test(selector)) return;
+      const key = getRuleKey(selector);
+      const bucket = this.rulesByKey.get(key) || [];
+      bucket.push({ selector, specificity: calculateSpecificity(selector), declarations, layer, order });
+      this.rulesByKey.set(key, bucket);
+    });
+  }
+
+  private candidateRules(element: Element): IndexedRule[] {
+    const keys = ['*', element.tagName.toLowerCase()];
+    if (element.id) keys.push(`#${element.id}`);
+    Array.from(element.classList).forEach(cls => keys.push(`.${cls}`));
+
+    const seen = new Set<IndexedRule>();
+    const rules: IndexedRule[] = [];
+    keys.forEach(key => {
+      (this.rulesByKey.get(key) || []).forEach(rule => {
+        if (!seen.has(rule)) {
+          seen.add(rule);
+          rules.push(rule);
+        }
+      });
+    });
+    return rules;
+  }
+
+  private collectWinningDeclarations(element: Element): Map<string, CascadeDeclaration> {
+    const winners = new Map<string, CascadeDeclaration>();
+
+    const consider = (candidate: CascadeDeclaration) => {
+      const current = winners.get(candidate.property);
+      if (!current || this.beats(candidate, current)) {
+        winners.set(candidate.property, candidate);
+      }
+    };
+
+    // Presentation attributes lose to every author rule: specificity 0, ordered before all sheets
+    if (element.namespaceURI === SVG_NAMESPACE) {
+      PRESENTATION_ATTRIBUTES.forEach(attribute => {
+        const value = element.getAttribute(attribute);
+        if (value && value.trim()) {
+          consider({
+            property: attribute,
+            value: value.trim(),
+            important: false,
+            specificity: [0, 0, 0],
+            layer: -Infinity,
+            order: -1
+          });
+        }
+      });
+    }
+
+    for (const rule of this.candidateRules(element)) {
+      let matches = false;
+      try {
+        matches = element.matches(rule.selector);
+      } catch (error) {
+        // JSDOM rejects selectors it does not support - treat them as non-matching
+        matches = false;
+      }
+      if (!matches) continue;
+      rule.declarations.forEach(decl => consider({
+        ...decl,
+        specificity: rule.specificity,
+        layer: rule.layer,
+        order: rule.order
+      }));
+    }
+
+    // Inline style attribute wins over any selector
+    const inlineStyle = element.getAttribute('style');
+    if (inlineStyle) {
+      const inlineRoot = safeParser(`x{${inlineStyle}}`);
+      inlineRoot.walkDecls((decl: Declaration) => {
+        expandDeclaration(decl.prop, decl.value).forEach(expanded => consider({
+          ...expanded,
+          important: !!decl.important,
+          specificity: [0, 0, 0],
+          layer: Infinity,
+          order: Infinity,
+          inline: true
+        }));
+      });
+    }
+
+    return winners;
+  }
+
+  // Cascade sort: importance, inline style, layer (reversed for !important), specificity, source order
+  private beats(a: CascadeDeclaration, b: CascadeDeclaration): boolean {
+    if (a.important !== b.important) return a.important;
+    if (!!a.inline !== !!b.inline) return !!a.inline;
+    if (a.layer !== b.layer) {
+      return a.important ? a.layer < b.layer : a.layer > b.layer;
+    }
+    const specificity = compareSpecificity(a.specificity, b.specificity);
+    if (specificity !== 0) return specificity > 0;
+    return a.order >= b.order;
+  }
+}
@@ -1,46 +1,20 @@
-import type { ColorAnalysis, FrequencyItem } from './types';
+import { createDarkColorLookup } from './color-schemes';
+import { parseColor, rgbaToHex } from './css-color';
+import { deriveShadcnDesignVariables } from './design-variables';
+import type { ColorAnalysis, ColorSchemeTokens, DarkModeReport, DesignVariableSource, ExtractedTokens, FrequencyItem } from './types';
+
+export interface ShadcnTheme {
+  light: Record<string, string>;
+  dark?: Record<string, string>;
+  darkMode?: DarkModeReport;
+  designVariables?: Record<string, DesignVariableSource>;
+}
 
 // Convert any color format to HSL
-function colorToHsl(color: string): { h: number; s: number; l: number } {
-  let r = 0, g = 0, b = 0;
-  
-  // Handle different color formats
-  if (color.startsWith('#')) {
-    // Hex format
-    const hex = color.replace('#', '');
-    
-    // Convert 3-digit hex to 6-digit
-    const fullHex = hex.length === 3 
-      ? hex.split('').map(char => char + char).join('')
-      : hex;
-    
-    r = parseInt(fullHex.substr(0, 2), 16) / 255;
-    g = parseInt(fullHex.substr(2, 2), 16) / 255;
-    b = parseInt(fullHex.substr(4, 2), 16) / 255;
-  } else if (color.startsWith('rgb')) {
-    // RGB/RGBA format - extract numbers
-    const rgbMatch = color.match(/rgba?\(([^)]+)\)/);
-    if (rgbMatch) {
-      const values = rgbMatch[1].split(',').map(v => parseFloat(v.trim()));
-      r = values[0] / 255;
-      g = values[1] / 255;
-      b = values[2] / 255;
-    }
-  } else {
-    // Try to treat as hex without #
-    try {
-      const fullHex = color.length === 3 
-        ? color.split('').map(char => char + char).join('')
-        : color;
-      
-      r = parseInt(fullHex.substr(0, 2), 16) / 255;
-      g = parseInt(fullHex.substr(2, 2), 16) / 255;
-      b = parseInt(fullHex.substr(4, 2), 16) / 255;
-    } catch {
-      // Default to black if parsing fails
-      return { h: 0, s: 0, l: 0 };
-    }
-  }
+export function colorToHsl(color: string): { h: number; s: number; l: number } {
+  // Bare hex without # is still accepted; anything unparseable is treated as black
+  const parsed = parseColor(color) || (/^[0-9a-f]{3}([0-9a-f]{3})?$/i.test(color) ? parseColor(`#${color}`) : null);
+  const { r, g, b } = parsed || { r: 0, g: 0, b: 0 };
   
   // Convert RGB to HSL
   const max = Math.max(r, g, b);
@@ -70,113 +44,15 @@ function colorToHsl(color: string): { h: number; s: number; l: number } {
 
 // Strip opacity from color values to get the solid version
 function stripOpacity(color: string): string {
-  if (!color || typeof color !== 'string') return color;
-  
-  // Handle rgba() format
-  if (color.startsWith('rgba(')) {
-    const match = color.match(/rgba\(([^,]+),\s*([^,]+),\s*([^,]+),\s*[^)]+\)/);
-    if (match) {
-      return `rgb(${match[1]}, ${match[2]}, ${match[3]})`;
-    }
-  }
-  
-  // Handle hex with alpha (8-digit hex)
-  if (color.startsWith('#') && color.length === 9) {
-    return color.substring(0, 7); // Strip last 2 characters (alpha)
-  }
-  
-  // Handle hsla() format
-  if (color.startsWith('hsla(')) {
-    const match = color.match(/hsla\(([^,]+),\s*([^,]+),\s*([^,]+),\s*[^)]+\)/);
-    if (match) {
-      return `hsl(${match[1]}, ${match[2]}, ${match[3]})`;
-    }
-  }
-  
-  // Return as-is if no opacity detected
-  return color;
+  const parsed = parseColor(color);
+  return parsed && parsed.alpha < 1 ? rgbaToHex(parsed) : color;
 }
 
-// Normalize color to hex format for consistent comparison
-function normalizeColorToHex(color: string): string {
-  if (!color || typeof color !== 'string') return color;
-  
-  // Already hex, just clean it up
-  if (color.startsWith('#')) {
-    const hex = color.replace('#', '');
-    // Convert 3-digit to 6-digit hex
-    if (hex.length === 3) {
-      return '#' + hex.split('').map(char => char + char).join('');
-    }
-    // Strip alpha if present (8-digit hex)
-    if (hex.length === 8) {
-      return '#' + hex.substring(0, 6);
-    }
-    return color;
-  }
-  
-  // Handle rgb/rgba format
-  if (color.startsWith('rgb')) {
-    const rgbMatch = color.match(/rgba?\(([^,]+),\s*([^,]+),\s*([^,]+)/);
-    if (rgbMatch) {
-      const r = Math.round(parseFloat(rgbMatch[1].trim()));
-      const g = Math.round(parseFloat(rgbMatch[2].trim()));
-      const b = Math.round(parseFloat(rgbMatch[3].trim()));
-      
-      // Convert to hex
-      const toHex = (n: number) => {
-        const hex = n.toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      };
-      
-      return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-    }
-  }
-  
-  // Handle hsl/hsla format - convert to RGB first, then hex
-  if (color.startsWith('hsl')) {
-    const hslMatch = color.match(/hsla?\(([^,]+),\s*([^,]+)%?,\s*([^,]+)%?/);
-    if (hslMatch) {
-      const h = parseFloat(hslMatch[1].trim()) / 360;
-      const s = parseFloat(hslMatch[2].trim()) / 100;
-      const l = parseFloat(hslMatch[3].trim()) / 100;
-      
-      // HSL to RGB conversion
-      const hue2rgb = (p: number, q: number, t: number) => {
-        if (t < 0) t += 1;
-        if (t > 1) t -= 1;
-        if (t < 1/6) return p + (q - p) * 6 * t;
-        if (t < 1/2) return q;
-        if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-        return p;
-      };
-      
-      let r, g, b;
-      if (s === 0) {
-        r = g = b = l; // achromatic
-      } else {
-        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-        const p = 2 * l - q;
-        r = hue2rgb(p, q, h + 1/3);
-        g = hue2rgb(p, q, h);
-        b = hue2rgb(p, q, h - 1/3);
-      }
-      
-      const rInt = Math.round(r * 255);
-      const gInt = Math.round(g * 255);
-      const bInt = Math.round(b * 255);
-      
-      const toHex = (n: number) => {
-        const hex = n.toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      };
-      
-      return `#${toHex(rInt)}${toHex(gInt)}${toHex(bInt)}`;
-    }
-  }
-  
+// Normalize color to hex format for consistent comparison; any CSS color syntax, alpha dropped
+export function normalizeColorToHex(color: string): string {
+  const parsed = parseColor(color);
   // Return as-is if we can't normalize
-  return color;
+  return parsed ? rgbaToHex(parsed) : color;
 }
 
 // Backward compatibility alias
@@ -267,60 +143,9 @@ function rgbToOklch(r: number, g: number, b: number): { l: number; c: number; h:
 function colorToOklch(color: string): string {
   if (!color || typeof color !== 'string') return color;
   
-  let r = 0, g = 0, b = 0;
-  
-  // Handle different color formats
-  if (color.startsWith('#')) {
-    const hex = color.replace('#', '');
-    const fullHex = hex.length === 3 
-      ? hex.split('').map(char => char + char).join('')
-      : hex;
-    
-    r = parseInt(fullHex.substr(0, 2), 16);
-    g = parseInt(fullHex.substr(2, 2), 16);
-    b = parseInt(fullHex.substr(4, 2), 16);
-  } else if (color.startsWith('rgb')) {
-    const rgbMatch = color.match(/rgba?\(([^,]+),\s*([^,]+),\s*([^,]+)/);
-    if (rgbMatch) {
-      r = Math.round(parseFloat(rgbMatch[1].trim()));
-      g = Math.round(parseFloat(rgbMatch[2].trim()));
-      b = Math.round(parseFloat(rgbMatch[3].trim()));
-    }
-  } else if (color.startsWith('hsl')) {
-    // Convert HSL to RGB first
-    const hslMatch = color.match(/hsla?\(([^,]+),\s*([^,]+)%?,\s*([^,]+)%?/);
-    if (hslMatch) {
-      const h = parseFloat(hslMatch[1].trim()) / 360;
-      const s = parseFloat(hslMatch[2].trim()) / 100;
-      const l = parseFloat(hslMatch[3].trim()) / 100;
-      
-      const hue2rgb = (p: number, q: number, t: number) => {
-        if (t < 0) t += 1;
-        if (t > 1) t -= 1;
-        if (t < 1/6) return p + (q - p) * 6 * t;
-        if (t < 1/2) return q;
-        if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-        return p;
-      };
-      
-      let rNorm, gNorm, bNorm;
-      if (s === 0) {
-        rNorm = gNorm = bNorm = l;
-      } else {
-        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-        const p = 2 * l - q;
-        rNorm = hue2rgb(p, q, h + 1/3);
-        gNorm = hue2rgb(p, q, h);
-        bNorm = hue2rgb(p, q, h - 1/3);
-      }
-      
-      r = Math.round(rNorm * 255);
-      g = Math.round(gNorm * 255);
-      b = Math.round(bNorm * 255);
-    }
-  }
-  
-  const oklch = rgbToOklch(r, g, b);
+  const parsed = parseColor(color);
+  const { r, g, b } = parsed || { r: 0, g: 0, b: 0 };
+  const oklch = rgbToOklch(Math.round(r * 255), Math.round(g * 255), Math.round(b * 255));
   
   // Format OKLCH with appropriate precision
   const l = oklch.l.toFixed(3);
@@ -480,31 +305,152 @@ function getDefaultColors(format: 'hsl' | 'oklch' | 'hex') {
   };
 }
 
-// Calculate contrast ratio between two colors
-function getContrastRatio(color1: string, color2: string): number {
+// Convert any color to CIE L*a*b* (D65); null when the value cannot be parsed as sRGB
+export function colorToLab(color: string): { l: number; a: number; b: number } | null {
+  const hex = normalizeColorToHex(color.trim().toLowerCase());
+  if (!/^#[0-9a-f]{6}$/.test(hex)) return null;
+
+  const linearize = (c: number) => c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  const r = linearize(parseInt(hex.substr(1, 2), 16) / 255);
+  const g = linearize(parseInt(hex.substr(3, 2), 16) / 255);
+  const b = linearize(parseInt(hex.substr(5, 2), 16) / 255);
+
+  // Linear sRGB to XYZ, normalized to the D65 white point
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / 1.08883;
+
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x), fy = f(y), fz = f(z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+// CIEDE2000 color difference; ~1 is a just-noticeable difference, >10 reads as a different color
+export function deltaE2000(lab1: { l: number; a: number; b: number }, lab2: { l: number; a: number; b: number }): number {
+  const toRad = Math.PI / 180;
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const cMean = (c1 + c2) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(cMean, 7) / (Math.pow(cMean, 7) + Math.pow(25, 7))));
+
+  const a1 = lab1.a * (1 + g);
+  const a2 = lab2.a * (1 + g);
+  const c1p = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const c2p = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / toRad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(lab1.b, a1);
+  const h2p = hue(lab2.b, a2);
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * toRad);
+
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cpMean = (c1p + c2p) / 2;
+  let hpMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    hpMean = Math.abs(h1p - h2p) > 180
+      ? (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2
+      : (h1p + h2p) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos((hpMean - 30) * toRad)
+    + 0.24 * Math.cos(2 * hpMean * toRad)
+    + 0.32 * Math.cos((3 * hpMean + 6) * toRad)
+    - 0.20 * Math.cos((4 * hpMean - 63) * toRad);
+  const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+  const sc = 1 + 0.045 * cpMean;
+  const sh = 1 + 0.015 * cpMean * t;
+  const rt = -2 * Math.sqrt(Math.pow(cpMean, 7) / (Math.pow(cpMean, 7) + Math.pow(25, 7)))
+    * Math.sin(60 * Math.exp(-Math.pow((hpMean - 275) / 25, 2)) * toRad);
+
+  const lTerm = dLp / sl;
+  const cTerm = dCp / sc;
+  const hTerm = dHp / sh;
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rt * cTerm * hTerm);
+}
+
+// Linear sRGB channel (0-1) back to an 8-bit hex pair, clipping out-of-gamut values
+function linearChannelToHex(c: number): string {
+  const encoded = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  const hex = Math.round(Math.max(0, Math.min(1, encoded)) * 255).toString(16);
+  return hex.length === 1 ? '0' + hex : hex;
+}
+
+// Inverse of colorToLab
+export function labToHex(lab: { l: number; a: number; b: number }): string {
+  const fy = (lab.l + 16) / 116;
+  const fx = fy + lab.a / 500;
+  const fz = fy - lab.b / 200;
+  const fInverse = (t: number) => t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27);
+  const x = fInverse(fx) * 0.95047;
+  const y = lab.l > 8 ? Math.pow(fy, 3) : lab.l / (24389 / 27);
+  const z = fInverse(fz) * 1.08883;
+
+  return '#' +
+    linearChannelToHex(3.2404542 * x - 1.5371385 * y - 0.4985314 * z) +
+    linearChannelToHex(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z) +
+    linearChannelToHex(0.0556434 * x - 0.2040259 * y + 1.0572252 * z);
+}
+
+// OKLCH (l 0-1, c, h in degrees) to sRGB hex, the exact inverse of rgbToOklch
+export function oklchToHex(l: number, c: number, h: number): string {
+  const a = c * Math.cos(h * Math.PI / 180);
+  const b = c * Math.sin(h * Math.PI / 180);
+  const lRoot = l + 0.3963377774 * a + 0.2158037573 * b;
+  const mRoot = l - 0.1055613458 * a - 0.0638541728 * b;
+  const sRoot = l - 0.0894841775 * a - 1.2914855480 * b;
+  const lLin = lRoot * lRoot * lRoot;
+  const mLin = mRoot * mRoot * mRoot;
+  const sLin = sRoot * sRoot * sRoot;
+
+  return '#' +
+    linearChannelToHex(4.0767416621 * lLin - 3.3077115913 * mLin + 0.2309699292 * sLin) +
+    linearChannelToHex(-1.2684380046 * lLin + 2.6097574011 * mLin - 0.3413193965 * sLin) +
+    linearChannelToHex(-0.0041960863 * lLin - 0.7034186147 * mLin + 1.7076147010 * sLin);
+}
+
+// Any CSS color, or shadcn's bare `h s% l%` channels, as 6-digit hex plus alpha; null when it
+// cannot be resolved
+export function parseCssColor(value: string): { hex: string; alpha: number } | null {
+  const text = value.trim().toLowerCase();
+  const channels = /^\s*([\d.]+)(?:deg)?\s+([\d.]+)%\s+([\d.]+)%\s*(?:\/\s*([\d.]+%?))?$/.exec(text);
+  const parsed = parseColor(channels ? `hsl(${channels[1]} ${channels[2]}% ${channels[3]}%${channels[4] ? ` / ${channels[4]}` : ''})` : text);
+  return parsed ? { hex: rgbaToHex(parsed), alpha: parsed.alpha } : null;
+}
+
+// #rrggbb, or #rrggbbaa when the color is translucent
+export function formatHexAlpha(color: { hex: string; alpha: number }): string {
+  if (color.alpha >= 1) return color.hex;
+  return color.hex + Math.round(color.alpha * 255).toString(16).padStart(2, '0');
+}
+
+// 8-bit sRGB channels (0-1) of any color normalizeColorToHex understands; black when unparseable
+function colorToRgbUnit(color: string): [number, number, number] {
+  const hex = normalizeColorToHex(color.trim().toLowerCase());
+  if (!/^#[0-9a-f]{6}$/.test(hex)) return [0, 0, 0];
+  return [
+    parseInt(hex.substr(1, 2), 16) / 255,
+    parseInt(hex.substr(3, 2), 16) / 255,
+    parseInt(hex.substr(5, 2), 16) / 255
+  ];
+}
+
+// Calculate contrast ratio between two colors (WCAG 2.x, 1-21)
+export function getContrastRatio(color1: string, color2: string): number {
   const getLuminance = (color: string) => {
-    let r = 0, g = 0, b = 0;
-    
-    // Handle different color formats
-    if (color.startsWith('#')) {
-      const hex = color.replace('#', '');
-      const fullHex = hex.length === 3 
-        ? hex.split('').map(char => char + char).join('')
-        : hex;
-      r = parseInt(fullHex.substr(0, 2), 16) / 255;
-      g = parseInt(fullHex.substr(2, 2), 16) / 255;
-      b = parseInt(fullHex.substr(4, 2), 16) / 255;
-    } else if (color.startsWith('rgb')) {
-      const rgbMatch = color.match(/rgba?\(([^)]+)\)/);
-      if (rgbMatch) {
-        const values = rgbMatch[1].split(',').map(v => parseFloat(v.trim()));
-        r = values[0] / 255;
-        g = values[1] / 255;
-        b = values[2] / 255;
-      }
-    }
-    
-    const [rs, gs, bs] = [r, g, b].map(c => 
+    const [rs, gs, bs] = colorToRgbUnit(color).map(c => 
       c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
     );
     
@@ -519,6 +465,28 @@ function getContrastRatio(color1: string, color2: string): number {
   return (brightest + 0.05) / (darkest + 0.05);
 }
 
+// APCA-W3 (0.0.98G-4g) lightness contrast Lc of text on a background: positive for dark text
+// on light backgrounds, negative for light text on dark; polarity matters, unlike the WCAG ratio
+export function apcaContrast(text: string, background: string): number {
+  const screenLuminance = (color: string) => {
+    const [r, g, b] = colorToRgbUnit(color).map(c => Math.pow(c, 2.4));
+    const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+    // Soft clamp for near-black, where displays flare
+    return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+  };
+
+  const textY = screenLuminance(text);
+  const backgroundY = screenLuminance(background);
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0;
+
+  if (backgroundY > textY) {
+    const sapc = (Math.pow(backgroundY, 0.56) - Math.pow(textY, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(backgroundY, 0.65) - Math.pow(textY, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
 // Check if color is a common web utility color
 function isCommonWebColor(hex: string): boolean {
   const normalized = hex.toLowerCase();
@@ -951,7 +919,7 @@ export function analyzeColors(
     if (!color?.value || typeof color.value !== 'string') return false;
     const hex = color.value.toLowerCase();
     return hex !== '#fff' && hex !== '#ffffff' && hex !== '#000' && hex !== '#000000' && 
-           hex !== 'transparent' && hex !== 'inherit' && hex !== 'initial' && hex !== 'unset';
+           hex !== 'white' && hex !== 'black' && hex !== 'transparent' && hex !== 'inherit' && hex !== 'initial' && hex !== 'unset';
   });
 
   // Group colors by their normalized hex value to consolidate variants
@@ -962,11 +930,8 @@ export function analyzeColors(
       if (!value || typeof value !== 'string') return;
       
       const normalizedHex = normalizeColorToHex(value);
-      const hasOpacity = value.includes('rgba(') || value.includes('hsla(') || 
-                        (value.startsWith('#') && value.length === 9) ||
-                        // Check for alpha channel in rgba/hsla (4th parameter)
-                        (value.match(/rgba?\([^,]+,[^,]+,[^,]+,\s*[^)]+\)/) !== null) ||
-                        (value.match(/hsla?\([^,]+,[^,]+,[^,]+,\s*[^)]+\)/) !== null);
+      const parsed = parseColor(value);
+      const hasOpacity = !!parsed && parsed.alpha < 1;
       
       if (!colorGroups.has(normalizedHex)) {
         colorGroups.set(normalizedHex, []);
@@ -1268,8 +1233,13 @@ function convertColorFromFormat(colorValue: string, originalFormat: 'hsl' | 'okl
   return colorValue;
 }
 
-export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat: 'hsl' | 'oklch' | 'hex' = 'hsl'): { light: Record<string, string>; dark?: Record<string, string> } {
-  const theme: { light: Record<string, string>; dark?: Record<string, string> } = {
+export function generateShadcnTheme(
+  colorAnalyses: ColorAnalysis[],
+  colorFormat: 'hsl' | 'oklch' | 'hex' = 'hsl',
+  colorSchemes?: ColorSchemeTokens,
+  tokens?: Pick<ExtractedTokens, 'fontFamilies' | 'fonts' | 'radii' | 'shadows' | 'spacingScale' | 'typeScale'>
+): ShadcnTheme {
+  const theme: ShadcnTheme = {
     light: {}
   };
   
@@ -1474,34 +1444,42 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
   lightTheme['--sidebar-border'] = adjustColorLightness(lightTheme['--border'], -5, colorFormat);
   lightTheme['--sidebar-ring'] = lightTheme['--ring'];
   
-  // Typography variables
-  lightTheme['--font-sans'] = "ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', sans-serif, 'Apple Color Emoji', 'Segoe UI Emoji', 'Segoe UI Symbol', 'Noto Color Emoji'";
-  lightTheme['--font-serif'] = 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif';
-  lightTheme['--font-mono'] = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace';
-  
-  // Border radius variables
-  lightTheme['--radius'] = '0.5rem';
-  
-  // Shadow variables
-  lightTheme['--shadow-2xs'] = '0 1px 3px 0px hsl(0 0% 0% / 0.05)';
-  lightTheme['--shadow-xs'] = '0 1px 3px 0px hsl(0 0% 0% / 0.05)';
-  lightTheme['--shadow-sm'] = '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10)';
-  lightTheme['--shadow'] = '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10)';
-  lightTheme['--shadow-md'] = '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 2px 4px -1px hsl(0 0% 0% / 0.10)';
-  lightTheme['--shadow-lg'] = '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 4px 6px -1px hsl(0 0% 0% / 0.10)';
-  lightTheme['--shadow-xl'] = '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 8px 10px -1px hsl(0 0% 0% / 0.10)';
-  lightTheme['--shadow-2xl'] = '0 1px 3px 0px hsl(0 0% 0% / 0.25)';
+  // Typography, radius and shadow variables - the site's own where the tokens support it
+  const designVariables = deriveShadcnDesignVariables(tokens);
+  Object.entries(designVariables).forEach(([name, variable]) => {
+    lightTheme[name] = variable.value;
+  });
+  theme.designVariables = designVariables;
   
   theme.light = lightTheme;
   
-  // Generate dark theme using specified color format with intelligent adjustments
+  // Generate dark theme - the site's own dark values where it ships them, synthesized otherwise
   const hasColorVariation = colorAnalyses.some(c => c.saturation > 30);
+  const hasSiteDark = !!(colorSchemes && colorSchemes.dark);
+  const siteDark = createDarkColorLookup(colorSchemes);
+  const extracted: string[] = [];
+  
+  // Dark value the site declares for `variable` itself, or for the light color it was built from,
+  // recording which variables used it
+  const fromSite = (variable: string, lightColor: string | null | undefined, variables: string[]): string | undefined => {
+    const declared = colorSchemes && colorSchemes.dark ? colorSchemes.dark.customProperties[variable] : undefined;
+    const darkColor = declared || (lightColor ? siteDark(lightColor) : undefined);
+    if (darkColor) extracted.push(...variables);
+    return darkColor;
+  };
   
-  if (hasColorVariation && Object.keys(lightTheme).length > 3) {
+  if (hasSiteDark || (hasColorVariation && Object.keys(lightTheme).length > 3)) {
     const darkTheme: Record<string, string> = {};
     
     // Generate dark theme backgrounds and foregrounds
-    if (backgrounds[0]) {
+    const siteBackground = fromSite('--background', backgrounds[0], ['--background', '--card', '--popover']);
+    const siteForeground = fromSite('--foreground', foregrounds[0], ['--foreground', '--card-foreground', '--popover-foreground']);
+    if (siteBackground) {
+      const darkBg = convertColorToFormat(siteBackground, colorFormat);
+      darkTheme['--background'] = darkBg;
+      darkTheme['--card'] = darkBg;
+      darkTheme['--popover'] = darkBg;
+    } else if (backgrounds[0]) {
       const darkBg = adjustColorForDarkMode(backgrounds[0], 'background', colorFormat);
       darkTheme['--background'] = darkBg;
       darkTheme['--card'] = darkBg;
@@ -1516,7 +1494,12 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
                               colorFormat === 'oklch' ? 'oklch(0.2134 0 0)' : '#1a1a1a';
     }
     
-    if (foregrounds[0]) {
+    if (siteForeground) {
+      const darkFg = convertColorToFormat(siteForeground, colorFormat);
+      darkTheme['--foreground'] = darkFg;
+      darkTheme['--card-foreground'] = darkFg;
+      darkTheme['--popover-foreground'] = darkFg;
+    } else if (foregrounds[0]) {
       const darkFg = adjustColorForDarkMode(foregrounds[0], 'foreground', colorFormat);
       darkTheme['--foreground'] = darkFg;
       darkTheme['--card-foreground'] = darkFg;
@@ -1529,14 +1512,25 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
     }
     
     // Adjust brand colors for dark mode while preserving their character
-    if (primaryColor) {
+    const sitePrimary = fromSite('--primary', primaryColor, ['--primary', '--ring']);
+    const siteSecondary = fromSite('--secondary', secondaryColor, ['--secondary']);
+    const siteAccent = fromSite('--accent', accentColor, ['--accent']);
+    const siteDestructive = fromSite('--destructive', destructives[0], ['--destructive']);
+    if (sitePrimary) {
+      darkTheme['--primary'] = convertColorToFormat(sitePrimary, colorFormat);
+      darkTheme['--ring'] = darkTheme['--primary'];
+      darkTheme['--primary-foreground'] = getForegroundColor(sitePrimary, colorFormat, false);
+    } else if (primaryColor) {
       const adjustedPrimary = adjustBrandColorForDarkMode(primaryColor, colorFormat);
       darkTheme['--primary'] = adjustedPrimary;
       darkTheme['--ring'] = adjustedPrimary;
       darkTheme['--primary-foreground'] = getForegroundColor(primaryColor, colorFormat, false);
     }
     
-    if (secondaryColor) {
+    if (siteSecondary) {
+      darkTheme['--secondary'] = convertColorToFormat(siteSecondary, colorFormat);
+      darkTheme['--secondary-foreground'] = getForegroundColor(siteSecondary, colorFormat, false);
+    } else if (secondaryColor) {
       const adjustedSecondary = adjustBrandColorForDarkMode(secondaryColor, colorFormat);
       darkTheme['--secondary'] = adjustedSecondary;
       darkTheme['--secondary-foreground'] = getForegroundColor(secondaryColor, colorFormat, false);
@@ -1546,7 +1540,10 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
       darkTheme['--secondary-foreground'] = colorFormat === 'oklch' ? 'oklch(0.9247 0.0524 66.1732)' : defaults.white;
     }
     
-    if (accentColor) {
+    if (siteAccent) {
+      darkTheme['--accent'] = convertColorToFormat(siteAccent, colorFormat);
+      darkTheme['--accent-foreground'] = getForegroundColor(siteAccent, colorFormat, false);
+    } else if (accentColor) {
       const adjustedAccent = adjustBrandColorForDarkMode(accentColor, colorFormat);
       darkTheme['--accent'] = adjustedAccent;
       darkTheme['--accent-foreground'] = getForegroundColor(accentColor, colorFormat, false);
@@ -1556,7 +1553,10 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
       darkTheme['--accent-foreground'] = colorFormat === 'oklch' ? 'oklch(0.9491 0 0)' : defaults.white;
     }
     
-    if (destructives[0]) {
+    if (siteDestructive) {
+      darkTheme['--destructive'] = convertColorToFormat(siteDestructive, colorFormat);
+      darkTheme['--destructive-foreground'] = getForegroundColor(siteDestructive, colorFormat, false);
+    } else if (destructives[0]) {
       const adjustedDestructive = adjustBrandColorForDarkMode(destructives[0], colorFormat);
       darkTheme['--destructive'] = adjustedDestructive;
       darkTheme['--destructive-foreground'] = getForegroundColor(destructives[0], colorFormat, false);
@@ -1567,7 +1567,13 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
     }
     
     // Adjust borders and muted colors for dark mode
-    if (borders[0]) {
+    const siteBorder = fromSite('--border', borders[0], ['--border', '--input']);
+    const siteMuted = fromSite('--muted', muteds[0], ['--muted']);
+    if (siteBorder) {
+      const darkBorder = convertColorToFormat(siteBorder, colorFormat);
+      darkTheme['--border'] = darkBorder;
+      darkTheme['--input'] = darkBorder;
+    } else if (borders[0]) {
       const darkBorder = adjustColorForDarkMode(borders[0], 'border', colorFormat);
       darkTheme['--border'] = darkBorder;
       darkTheme['--input'] = darkBorder;
@@ -1577,7 +1583,10 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
       darkTheme['--input'] = colorFormat === 'oklch' ? 'oklch(0.4017 0 0)' : defaults.mutedGray;
     }
     
-    if (muteds[0]) {
+    if (siteMuted) {
+      darkTheme['--muted'] = convertColorToFormat(siteMuted, colorFormat);
+      darkTheme['--muted-foreground'] = colorFormat === 'oklch' ? 'oklch(0.7699 0 0)' : defaults.white;
+    } else if (muteds[0]) {
       const darkMuted = adjustColorForDarkMode(muteds[0], 'muted', colorFormat);
       darkTheme['--muted'] = darkMuted;
       darkTheme['--muted-foreground'] = colorFormat === 'oklch' ? 'oklch(0.7699 0 0)' : defaults.white;
@@ -1589,11 +1598,11 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
     
     // Chart colors for dark theme - adjust lightness/contrast
     for (let i = 0; i < 5; i++) {
-      const lightChartColor = lightTheme[`--chart-${i + 1}`];
-      darkTheme[`--chart-${i + 1}`] = adjustBrandColorForDarkMode(
-        convertColorFromFormat(lightChartColor, colorFormat), 
-        colorFormat
-      );
+      const lightChartColor = convertColorFromFormat(lightTheme[`--chart-${i + 1}`], colorFormat);
+      const siteChart = fromSite(`--chart-${i + 1}`, lightChartColor, [`--chart-${i + 1}`]);
+      darkTheme[`--chart-${i + 1}`] = siteChart
+        ? convertColorToFormat(siteChart, colorFormat)
+        : adjustBrandColorForDarkMode(lightChartColor, colorFormat);
     }
     
     // Sidebar colors for dark theme
@@ -1624,7 +1633,26 @@ export function generateShadcnTheme(colorAnalyses: ColorAnalysis[], colorFormat:
     darkTheme['--shadow-xl'] = lightTheme['--shadow-xl'];
     darkTheme['--shadow-2xl'] = lightTheme['--shadow-2xl'];
     
+    // Sites built on shadcn/ui declare these very variables in their dark scope - use them verbatim
+    if (colorSchemes && colorSchemes.dark) {
+      Object.entries(colorSchemes.dark.customProperties).forEach(([name, hex]) => {
+        if (name in darkTheme && !/^--(font|radius|shadow)/.test(name)) {
+          darkTheme[name] = convertColorToFormat(hex, colorFormat);
+          extracted.push(name);
+        }
+      });
+    }
+
     theme.dark = darkTheme;
+
+    const colorVariables = Object.keys(darkTheme).filter(key => !/^--(font|radius|shadow)/.test(key));
+    theme.darkMode = {
+      source: extracted.length > 0 ? 'site' : 'synthesized',
+      strategy: colorSchemes ? colorSchemes.strategy : undefined,
+      selector: colorSchemes ? colorSchemes.selector : undefined,
+      extracted: colorVariables.filter(key => extracted.includes(key)),
+      synthesized: colorVariables.filter(key => !extracted.includes(key))
+    };
   }
   
   return theme;
@@ -0,0 +1,76 @@
+import { createDarkColorLookup, splitColorSchemes, toSchemeHex } from './color-schemes';
+import { extractTokensFromCss } from './extractor';
+
+describe('toSchemeHex', () => {
+  it('normalizes color syntaxes and bare HSL channels', () => {
+    expect(toSchemeHex('#FFF')).toBe('#ffffff');
+    expect(toSchemeHex('rgb(255 0 0)')).toBe('#ff0000');
+    expect(toSchemeHex('0 0% 100%')).toBe('#ffffff');
+    expect(toSchemeHex('white')).toBe('#ffffff');
+    expect(toSchemeHex('1rem')).toBeUndefined();
+  });
+});
+
+describe('splitColorSchemes', () => {
+  it('leaves CSS without dark rules untouched', () => {
+    const css = ':root { --bg: #ffffff; }';
+    expect(splitColorSchemes(css)).toEqual({ lightCss: css });
+  });
+
+  it('splits .dark scoped rules and pairs them with their light counterparts', () => {
+    const { lightCss, colorSchemes } = splitColorSchemes(`
+      :root { --background: 0 0% 100%; --foreground: #111111; }
+      .dark { --background: 222 47% 11%; --foreground: #fafafa; }
+      .card { color: #111111; }
+      .dark .card { color: #fafafa; }
+    `);
+
+    expect(lightCss).not.toMatch(/\.dark/);
+    expect(colorSchemes!.strategy).toBe('selector');
+    expect(colorSchemes!.selector).toBe('.dark');
+    expect(colorSchemes!.dark!.customProperties).toEqual({ '--background': '#0f1729', '--foreground': '#fafafa' });
+    expect(colorSchemes!.dark!.pairs[0]).toEqual({ light: '#111111', dark: '#fafafa', count: 2 });
+  });
+
+  it('reads prefers-color-scheme media rules', () => {
+    const { lightCss, colorSchemes } = splitColorSchemes(`
+      body { background: #ffffff; }
+      @media (prefers-color-scheme: dark) { body { background: #000000; } }
+    `);
+
+    expect(lightCss).not.toContain('#000000');
+    expect(colorSchemes!.strategy).toBe('media');
+    expect(colorSchemes!.signals.prefersColorSchemeRules).toBe(1);
+    expect(createDarkColorLookup(colorSchemes)('#fff')).toBe('#000000');
+  });
+
+  it('keeps the non-color declarations of dark rules in the light CSS', () => {
+    const css = `
+      :root { --radius: 0.5rem; }
+      .card { color: #111111; padding: 16px; }
+      .dark .card { color: #fafafa; padding: 24px; border-radius: 12px; box-shadow: 0 1px 2px #000000; }
+      .dark { --radius: 0.75rem; --ring: 0 0% 90%; }
+      @media (prefers-color-scheme: dark) { body { background: #000000; font-family: Inter, sans-serif; } }
+      .dark .badge { background: var(--badge); }
+    `;
+    const { lightCss, colorSchemes } = splitColorSchemes(css);
+    const tokens = extractTokensFromCss(css);
+
+    expect(lightCss).toContain('padding: 24px');
+    expect(lightCss).toContain('border-radius: 12px');
+    expect(lightCss).toContain('--radius: 0.5rem');
+    expect(lightCss).toContain('font-family: Inter');
+    expect(lightCss).not.toMatch(/#fafafa|#000000|--ring|0\.75rem|\.badge/);
+    expect(colorSchemes!.dark!.colors.values).toEqual(expect.arrayContaining(['#fafafa', '#000000', '#e6e6e6']));
+    expect(tokens.spacing.values).toContain('24px');
+    expect(tokens.radii.values).toEqual(expect.arrayContaining(['12px', '0.5rem']));
+    expect(tokens.radii.values).not.toContain('0.75rem');
+    expect(tokens.colors.values).not.toContain('#fafafa');
+  });
+
+  it('records color-scheme declarations without dark rules', () => {
+    const { colorSchemes } = splitColorSchemes(':root { color-scheme: light dark; }');
+    expect(colorSchemes!.signals.colorSchemeDeclarations).toEqual(['light dark']);
+    expect(colorSchemes!.dark).toBeUndefined();
+  });
+});
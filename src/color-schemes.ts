@@ -0,0 +1,244 @@
+import { Rule, AtRule, Declaration } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import { resolveVarReferences } from './cascade-resolver';
+import { normalizeColorToHex } from './color-analysis';
+import { findColors } from './css-color';
+import type { ColorSchemeTokens, ColorSchemePair, FrequencyItem } from './types';
+
+// A selector compound that scopes a rule to the dark theme: .dark, html.dark, [data-theme="dark"], ...
+const DARK_SCOPE_REGEX = /(?:html|:root|body)?(?:\.(?:dark|dark-mode|dark-theme|theme-dark)|\[data-(?:theme|mode|color-mode|color-scheme|bs-theme)\s*=\s*["']?dark["']?\s*\])(?![\w\\-])/i;
+const DARK_MEDIA_REGEX = /prefers-color-scheme\s*:\s*dark/i;
+
+// Same property filter the token extractor uses for colors
+const COLOR_PROPERTY_REGEX = /color|background|border|fill|stroke|outline|caret|text-decoration|accent-color/i;
+
+// shadcn-style custom properties hold bare HSL channels: "222.2 84% 4.9%"
+const HSL_CHANNELS_REGEX = /^(-?[\d.]+)(?:deg)?\s+([\d.]+)%\s+([\d.]+)%(?:\s*\/\s*[\d.]+%?)?$/;
+
+interface ScopedDeclaration {
+  selector: string;
+  property: string;
+  value: string;
+}
+
+export interface ColorSchemeSplit {
+  lightCss: string;
+  colorSchemes?: ColorSchemeTokens;
+}
+
+// Normalize a color value (any CSS color syntax, bare HSL channels) to #rrggbb
+export function toSchemeHex(value: string): string | undefined {
+  const trimmed = value.trim();
+  const channels = trimmed.match(HSL_CHANNELS_REGEX);
+  const token = channels
+    ? `hsl(${channels[1]}, ${channels[2]}%, ${channels[3]}%)`
+    : findColors(trimmed, { keywords: true })[0];
+  if (!token) return undefined;
+
+  const hex = normalizeColorToHex(token);
+  return /^#[0-9a-f]{6}$/.test(hex) ? hex : undefined;
+}
+
+function hasDarkMediaAncestor(rule: Rule): boolean {
+  for (let parent: any = rule.parent; parent; parent = parent.parent) {
+    if (parent.type === 'atrule') {
+      const atRule = parent as AtRule;
+      if (/keyframes$/i.test(atRule.name)) return false;
+      if (atRule.name.toLowerCase() === 'media' && DARK_MEDIA_REGEX.test(atRule.params)) return true;
+    }
+  }
+  return false;
+}
+
+function isInsideKeyframes(rule: Rule): boolean {
+  for (let parent: any = rule.parent; parent; parent = parent.parent) {
+    if (parent.type === 'atrule' && /keyframes$/i.test((parent as AtRule).name)) return true;
+  }
+  return false;
+}
+
+function normalizeSelector(selector: string): string {
+  const normalized = selector.trim().replace(/\s+/g, ' ');
+  return normalized === 'html' || normalized === '' ? ':root' : normalized;
+}
+
+// ".dark .card" -> ".card", "html.dark" -> ":root", so dark rules line up with their light counterparts
+function stripDarkScope(selector: string): string {
+  return normalizeSelector(selector.replace(DARK_SCOPE_REGEX, ' ').trim().replace(/^[>+~]\s*/, ''));
+}
+
+function describeScope(match: string): string {
+  return match.replace(/^(html|:root|body)/i, '').replace(/'/g, '"').replace(/\s+/g, '').toLowerCase();
+}
+
+// Declarations that change with the scheme: anything carrying a color value (incl. bare HSL
+// channels), and paint properties set through var(); border-radius, border-width and the like stay
+const NON_PAINT_PROPERTY_REGEX = /radius|width|style|offset|spacing|collapse|image/i;
+
+function isSchemeColorDeclaration(decl: Declaration): boolean {
+  if (decl.prop.toLowerCase() === 'color-scheme') return false;
+  if (toSchemeHex(decl.value) !== undefined || findColors(decl.value, { keywords: true }).length > 0) return true;
+  const paint = /shadow/i.test(decl.prop) || (COLOR_PROPERTY_REGEX.test(decl.prop) && !NON_PAINT_PROPERTY_REGEX.test(decl.prop));
+  return paint && !decl.prop.startsWith('--') && /var\(/i.test(decl.value);
+}
+
+// Shorthands and longhands describe the same paint
+function pairKey(selector: string, property: string): string {
+  const prop = property.toLowerCase() === 'background' ? 'background-color' : property.toLowerCase();
+  return `${selector}|${prop}`;
+}
+
+function toFrequency(colors: string[]): FrequencyItem[] {
+  const counts: Record<string, number> = {};
+  colors.forEach(color => { counts[color] = (counts[color] || 0) + 1; });
+  return Object.entries(counts)
+    .map(([value, count]) => ({ value, count, prevalence: +(count / colors.length * 100).toFixed(2) }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Split dark-scheme rules (@media (prefers-color-scheme: dark) and .dark / [data-theme="dark"]
+// style scopes) out of `css`. The remaining CSS is the light token set, and keeps the dark rules'
+// non-color declarations; their colors are turned into a separate color set plus light->dark
+// pairs matched by custom property name or by selector and property.
+export function splitColorSchemes(css: string): ColorSchemeSplit {
+  if (!/dark|color-scheme/i.test(css)) return { lightCss: css };
+
+  const root = safeParser(css);
+  const lightDecls: ScopedDeclaration[] = [];
+  const darkDecls: ScopedDeclaration[] = [];
+  const scopeCounts = new Map<string, number>();
+  const colorSchemeDeclarations = new Set<string>();
+  let prefersColorSchemeRules = 0;
+
+  root.walkRules((rule: Rule) => {
+    if (isInsideKeyframes(rule)) return;
+
+    let selectors: string[];
+    try {
+      selectors = rule.selectors;
+    } catch (error) {
+      return;
+    }
+    const decls = (rule.nodes || []).filter(node => node.type === 'decl') as Declaration[];
+    decls.forEach(decl => {
+      if (decl.prop.toLowerCase() === 'color-scheme') colorSchemeDeclarations.add(decl.value.trim().toLowerCase());
+    });
+
+    const inDarkMedia = hasDarkMediaAncestor(rule);
+    const darkSelectors = inDarkMedia ? selectors : selectors.filter(selector => DARK_SCOPE_REGEX.test(selector));
+    const lightSelectors = inDarkMedia ? [] : selectors.filter(selector => !DARK_SCOPE_REGEX.test(selector));
+
+    lightSelectors.forEach(selector => decls.forEach(decl => {
+      lightDecls.push({ selector: normalizeSelector(selector), property: decl.prop, value: decl.value });
+    }));
+    if (darkSelectors.length === 0) return;
+
+    if (inDarkMedia) prefersColorSchemeRules++;
+    darkSelectors.forEach(selector => {
+      const scope = selector.match(DARK_SCOPE_REGEX);
+      if (scope && !inDarkMedia) {
+        const name = describeScope(scope[0]);
+        scopeCounts.set(name, (scopeCounts.get(name) || 0) + 1);
+      }
+      const base = inDarkMedia ? normalizeSelector(selector) : stripDarkScope(selector);
+      decls.forEach(decl => darkDecls.push({ selector: base, property: decl.prop, value: decl.value }));
+    });
+
+    if (lightSelectors.length > 0) {
+      rule.selectors = lightSelectors;
+      return;
+    }
+    // Dark-only rule: its colors belong to the dark set, the rest (spacing, radius, fonts) stays.
+    // Custom properties go regardless of type - the light definition is the base token.
+    decls.filter(decl => decl.prop.startsWith('--') || isSchemeColorDeclaration(decl)).forEach(decl => decl.remove());
+    if (!rule.nodes || rule.nodes.length === 0) rule.remove();
+  });
+
+  const selectorScopes = Array.from(scopeCounts.entries()).sort((a, b) => b[1] - a[1]).map(([scope]) => scope);
+  if (darkDecls.length === 0 && colorSchemeDeclarations.size === 0) return { lightCss: css };
+
+  const colorSchemes: ColorSchemeTokens = {
+    signals: {
+      prefersColorSchemeRules,
+      selectorScopes,
+      colorSchemeDeclarations: Array.from(colorSchemeDeclarations)
+    }
+  };
+  if (selectorScopes.length > 0) {
+    colorSchemes.strategy = 'selector';
+    colorSchemes.selector = selectorScopes[0];
+  } else if (prefersColorSchemeRules > 0) {
+    colorSchemes.strategy = 'media';
+  }
+
+  if (darkDecls.length > 0) {
+    // Custom properties: last declaration wins, dark ones resolve against the light set they override
+    const lightVars: Record<string, string> = {};
+    lightDecls.forEach(decl => { if (decl.property.startsWith('--')) lightVars[decl.property] = decl.value; });
+    const darkVars: Record<string, string> = {};
+    darkDecls.forEach(decl => { if (decl.property.startsWith('--')) darkVars[decl.property] = decl.value; });
+    const mergedVars = { ...lightVars, ...darkVars };
+
+    const resolveHex = (value: string | undefined, vars: Record<string, string>): string | undefined => {
+      if (value === undefined) return undefined;
+      const resolved = resolveVarReferences(value, vars);
+      return resolved === undefined ? undefined : toSchemeHex(resolved);
+    };
+
+    const pairCounts = new Map<string, ColorSchemePair>();
+    const addPair = (light: string | undefined, dark: string | undefined) => {
+      if (!light || !dark) return;
+      const key = `${light}>${dark}`;
+      const existing = pairCounts.get(key);
+      if (existing) existing.count++;
+      else pairCounts.set(key, { light, dark, count: 1 });
+    };
+
+    const darkCustomProperties: Record<string, string> = {};
+    const darkColors: string[] = [];
+    Object.keys(darkVars).forEach(name => {
+      const darkHex = resolveHex(darkVars[name], mergedVars);
+      if (!darkHex) return;
+      darkCustomProperties[name] = darkHex;
+      darkColors.push(darkHex);
+      addPair(resolveHex(lightVars[name], lightVars), darkHex);
+    });
+
+    const lightByKey = new Map<string, string>();
+    lightDecls.forEach(decl => {
+      if (!decl.property.startsWith('--') && COLOR_PROPERTY_REGEX.test(decl.property)) {
+        lightByKey.set(pairKey(decl.selector, decl.property), decl.value);
+      }
+    });
+    darkDecls.forEach(decl => {
+      if (decl.property.startsWith('--') || !COLOR_PROPERTY_REGEX.test(decl.property)) return;
+      const darkHex = resolveHex(decl.value, mergedVars);
+      if (!darkHex) return;
+      darkColors.push(darkHex);
+      addPair(resolveHex(lightByKey.get(pairKey(decl.selector, decl.property)), lightVars), darkHex);
+    });
+
+    const frequency = toFrequency(darkColors);
+    colorSchemes.dark = {
+      colors: { values: frequency.map(item => item.value), frequency },
+      customProperties: darkCustomProperties,
+      pairs: Array.from(pairCounts.values()).sort((a, b) => b.count - a.count)
+    };
+  }
+
+  return { lightCss: root.toString(), colorSchemes };
+}
+
+// Look up the site's own dark counterpart of a light color, using the most frequent pairing
+export function createDarkColorLookup(colorSchemes?: ColorSchemeTokens): (lightColor: string) => string | undefined {
+  const lookup = new Map<string, string>();
+  if (colorSchemes && colorSchemes.dark) {
+    colorSchemes.dark.pairs.forEach(pair => {
+      if (!lookup.has(pair.light)) lookup.set(pair.light, pair.dark);
+    });
+  }
+  return (lightColor: string) => {
+    const hex = toSchemeHex(lightColor);
+    return hex ? lookup.get(hex) : undefined;
+  };
+}
@@ -0,0 +1,62 @@
+import { extractComponents } from './component-extractor';
+
+const HTML = `<body>
+  <button class="btn btn-primary">Save</button>
+  <a class="btn btn-sm" href="/more">More</a>
+  <div class="card"><div class="card-body">Body</div></div>
+  <form>
+    <input class="form-input" type="text">
+    <input type="checkbox">
+    <textarea></textarea>
+  </form>
+</body>`;
+
+const CSS = `
+  :root { --radius: 6px; }
+  .btn { padding: 8px 16px; border-radius: var(--radius); height: 40px; }
+  .btn:hover { background-color: #1d4ed8; }
+  .btn-primary { background-color: #2563eb; }
+  .btn-sm { padding: 4px 8px; height: 32px; }
+  .card { border-radius: 12px; padding: 24px; border: 1px solid #e5e7eb; }
+  .card-body { padding: 16px; }
+  .form-input { height: 40px; padding: 0 12px; border-radius: 4px; }
+  .form-input:focus { outline: 2px solid #2563eb; }
+`;
+
+describe('extractComponents', () => {
+  const inventory = extractComponents(HTML, CSS);
+  const family = (name: string) => inventory.families.find(entry => entry.family === name)!;
+
+  it('classifies button, card and input families from the DOM', () => {
+    expect(inventory.source).toBe('static-html');
+    expect(inventory.families.map(entry => entry.family)).toEqual(['button', 'card', 'input']);
+    expect(family('button').instances).toBe(2);
+    expect(family('card').instances).toBe(1); // card-body is a part, not another card
+    expect(family('input').instances).toBe(2); // Checkboxes are not text inputs
+  });
+
+  it('extracts radius, padding and height from the base rules', () => {
+    expect(family('button').selectors).toEqual(['.btn']);
+    expect(family('button').geometry).toEqual({
+      'border-radius': { value: '6px', count: 1 },
+      'height': { value: '40px', count: 1 },
+      'padding': { value: '8px 16px', count: 1 }
+    });
+    expect(family('card').geometry['border-radius']).toEqual({ value: '12px', count: 1 });
+    expect(family('card').geometry['padding']).toEqual({ value: '24px', count: 1 });
+    expect(family('input').geometry).toMatchObject({
+      'border-radius': { value: '4px' },
+      'height': { value: '40px' },
+      'padding': { value: '0 12px' }
+    });
+  });
+
+  it('separates states and variants from the base geometry', () => {
+    expect(family('button').states).toEqual([{ state: 'hover', ruleCount: 1, properties: { 'background-color': '#1d4ed8' } }]);
+    expect(family('button').variants).toEqual([
+      { name: 'primary', kind: 'emphasis', selectors: ['.btn-primary'], geometry: {} },
+      { name: 'sm', kind: 'size', selectors: ['.btn-sm'], geometry: { padding: '4px 8px', height: '32px' } }
+    ]);
+    expect(family('input').states.map(state => state.state)).toEqual(['focus']);
+  });
+});
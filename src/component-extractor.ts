@@ -0,0 +1,298 @@
+import { JSDOM } from 'jsdom';
+import { AtRule, Declaration, Rule } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import { matchesMedia, resolveVarReferences } from './cascade-resolver';
+import type { ComponentFamily, ComponentFamilyName, ComponentInventory, ComponentStateName, ComponentVariant } from './types';
+
+const FAMILY_ORDER: ComponentFamilyName[] = ['button', 'card', 'input', 'nav', 'badge', 'modal'];
+
+// Class-name roots per family, matched as whole dash/underscore-separated words
+const FAMILY_CLASS_ROOTS: Record<ComponentFamilyName, string[]> = {
+  button: ['btn', 'button', 'cta'],
+  card: ['card', 'panel', 'tile'],
+  input: ['input', 'form-control', 'form-input', 'form-select', 'text-field', 'textfield', 'textarea', 'select'],
+  nav: ['nav', 'navbar', 'navigation', 'menu', 'menubar'],
+  badge: ['badge', 'chip', 'pill', 'tag'],
+  modal: ['modal', 'dialog', 'drawer']
+};
+
+// A class carrying one of these words styles a part of the component (card-body, nav-link), not the component
+const PART_WORDS = /^(header|body|footer|title|subtitle|text|content|img|image|media|backdrop|dialog|item|link|list|toggler|toggle|brand|icon|group|wrapper|container|inner|label|close|actions?|overlay|section|divider)$/;
+
+const EMPHASIS_WORDS = /^(primary|secondary|tertiary|outline|outlined|ghost|link|plain|danger|destructive|success|warning|info|light|dark|muted|subtle|solid|default|neutral|accent|inverse)$/;
+const SIZE_WORDS = /^(xs|sm|small|md|medium|lg|large|xl|xxl|2xl|mini|tiny|huge|compact)$/;
+
+const STATE_PATTERNS: Array<{ state: ComponentStateName; pattern: RegExp }> = [
+  { state: 'hover', pattern: /:hover\b/gi },
+  { state: 'focus', pattern: /:focus(-visible|-within)?\b/gi },
+  { state: 'active', pattern: /:active\b/gi },
+  { state: 'disabled', pattern: /:disabled\b|\[disabled\]|\[aria-disabled=["']?true["']?\]|\.(is-)?disabled\b/gi }
+];
+
+const GEOMETRY_PROPERTY_REGEX = /^(padding(-(top|right|bottom|left|inline|block)(-(start|end))?)?|(min-|max-)?height|border(-(top|right|bottom|left))?(-width)?|border(-(top|bottom)-(left|right)|-(start|end)-(start|end))?-radius|font-size)$/i;
+
+const PSEUDO_ELEMENT_REGEX = /::|:(before|after|first-line|first-letter|placeholder|selection|marker)\b/i;
+const MAX_SELECTORS = 20;
+
+interface FamilyAccumulator {
+  instances: Element[];
+  domPaired: number;
+  patternOnly: number;
+  selectors: string[];
+  geometry: Map<string, Map<string, { count: number; order: number }>>;
+  states: Map<ComponentStateName, { ruleCount: number; properties: Record<string, string> }>;
+  variants: Map<string, ComponentVariant>;
+}
+
+function classWords(className: string): string[] {
+  return className.toLowerCase().split(/--|[-_]/).filter(Boolean);
+}
+
+function classFamily(className: string): ComponentFamilyName | null {
+  // BEM elements (card__title) and sub-part classes are never the component root
+  if (className.indexOf('__') !== -1) return null;
+  const words = classWords(className);
+  if (words.some((word, i) => i > 0 && PART_WORDS.test(word))) return null;
+
+  for (const family of FAMILY_ORDER) {
+    for (const root of FAMILY_CLASS_ROOTS[family]) {
+      const rootWords = root.split('-');
+      for (let i = 0; i + rootWords.length <= words.length; i++) {
+        if (rootWords.every((word, j) => words[i + j] === word)) return family;
+      }
+    }
+  }
+  return null;
+}
+
+function tagFamily(tag: string, role: string, type: string | undefined): ComponentFamilyName | null {
+  if (tag === 'button' || role === 'button') return 'button';
+  if (tag === 'input') {
+    const inputType = (type || 'text').toLowerCase();
+    if (/^(submit|button|reset)$/.test(inputType)) return 'button';
+    return /^(hidden|checkbox|radio|range|color|file|image)$/.test(inputType) ? null : 'input';
+  }
+  if (tag === 'textarea' || tag === 'select') return 'input';
+  if (tag === 'dialog' || role === 'dialog' || role === 'alertdialog') return 'modal';
+  if (tag === 'nav' || role === 'navigation') return 'nav';
+  return null;
+}
+
+function elementFamily(element: Element): ComponentFamilyName | null {
+  const role = (element.getAttribute('role') || '').trim().toLowerCase();
+  const byTag = tagFamily(element.tagName.toLowerCase(), role, element.getAttribute('type') || undefined);
+  if (byTag) return byTag;
+  const classes = Array.from(element.classList);
+  for (const className of classes) {
+    const family = classFamily(className);
+    if (family) return family;
+  }
+  return null;
+}
+
+function compoundFamily(compound: string): ComponentFamilyName | null {
+  const tag = (compound.match(/^([a-zA-Z][\w-]*)/) || [])[1];
+  const role = (compound.match(/\[role=["']?([\w-]+)/i) || [])[1];
+  const type = (compound.match(/\[type=["']?([\w-]+)/i) || [])[1];
+  const byTag = tag ? tagFamily(tag.toLowerCase(), (role || '').toLowerCase(), type) : (role ? tagFamily('', role.toLowerCase(), type) : null);
+  if (byTag) return byTag;
+  const classes = (compound.match(/\.[\w-]+/g) || []).map(cls => cls.slice(1));
+  for (const className of classes) {
+    const family = classFamily(className);
+    if (family) return family;
+  }
+  return null;
+}
+
+// Last compound selector, ignoring combinators inside (), [] and quotes
+function lastCompound(selector: string): { prefix: string; compound: string } {
+  let depth = 0;
+  let quote: string | null = null;
+  let boundary = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (depth === 0 && /[\s>+~]/.test(char)) boundary = i + 1;
+  }
+  return { prefix: selector.slice(0, boundary), compound: selector.slice(boundary) };
+}
+
+function variantsOf(compound: string, family: ComponentFamilyName): string[] {
+  const rootWords = FAMILY_CLASS_ROOTS[family].join('-').split('-');
+  const names: string[] = [];
+  (compound.match(/\.[\w-]+/g) || []).forEach(cls => {
+    classWords(cls.slice(1))
+      .filter(word => rootWords.indexOf(word) === -1 && (EMPHASIS_WORDS.test(word) || SIZE_WORDS.test(word)))
+      .forEach(word => { if (names.indexOf(word) === -1) names.push(word); });
+  });
+  return names;
+}
+
+// Rules inside print, dark-scheme or narrow-viewport media describe a different presentation
+function appliesByDefault(rule: Rule): boolean {
+  for (let parent: any = rule.parent; parent; parent = parent.parent) {
+    if (parent.type !== 'atrule') continue;
+    const name = (parent as AtRule).name.toLowerCase();
+    if (name === 'media' && !matchesMedia((parent as AtRule).params)) return false;
+    if (/keyframes$|^font-face$|^page$/.test(name)) return false;
+  }
+  return true;
+}
+
+function pushUnique(list: string[], value: string) {
+  if (value && list.indexOf(value) === -1 && list.length < MAX_SELECTORS) list.push(value);
+}
+
+function rootCustomProperties(root: ReturnType<typeof safeParser>): Record<string, string> {
+  const properties: Record<string, string> = {};
+  root.walkRules((rule: Rule) => {
+    if (!/(^|,)\s*(:root|html)\s*(,|$)/.test(rule.selector)) return;
+    rule.walkDecls((decl: Declaration) => {
+      if (decl.prop.startsWith('--')) properties[decl.prop] = decl.value.trim();
+    });
+  });
+  return properties;
+}
+
+function newAccumulator(): FamilyAccumulator {
+  return { instances: [], domPaired: 0, patternOnly: 0, selectors: [], geometry: new Map(), states: new Map(), variants: new Map() };
+}
+
+// Classify DOM nodes into component families and attribute each stylesheet rule to the family it styles
+export function extractComponents(html: string, css: string, source: ComponentInventory['source'] = 'static-html'): ComponentInventory {
+  const document = new JSDOM(html).window.document;
+  const accumulators = new Map<ComponentFamilyName, FamilyAccumulator>();
+  const accumulatorFor = (family: ComponentFamilyName) => {
+    if (!accumulators.has(family)) accumulators.set(family, newAccumulator());
+    return accumulators.get(family)!;
+  };
+
+  // Classes seen on classified nodes let rules with unconventional names (.primary-action) pair by DOM
+  const familiesByClass = new Map<string, ComponentFamilyName>();
+  Array.from(document.querySelectorAll('*')).forEach(element => {
+    const family = elementFamily(element);
+    if (!family) return;
+    accumulatorFor(family).instances.push(element);
+    Array.from(element.classList).forEach(className => {
+      if (!familiesByClass.has(className)) familiesByClass.set(className, family);
+    });
+  });
+
+  const root = safeParser(css);
+  const customProperties = rootCustomProperties(root);
+  const resolve = (value: string) => resolveVarReferences(value.trim(), customProperties) || value.trim();
+  let order = 0;
+
+  root.walkRules((rule: Rule) => {
+    if (!appliesByDefault(rule)) return;
+    let selectors: string[];
+    try {
+      selectors = rule.selectors;
+    } catch (error) {
+      return;
+    }
+    const declarations = (rule.nodes || []).filter(node => node.type === 'decl' && !(node as Declaration).prop.startsWith('--')) as Declaration[];
+    if (declarations.length === 0) return;
+
+    selectors.forEach(rawSelector => {
+      const selector = rawSelector.replace(/\s+/g, ' ').trim();
+      if (PSEUDO_ELEMENT_REGEX.test(selector)) return;
+      const { prefix, compound } = lastCompound(selector);
+
+      // :not(:disabled) and friends describe the default state, not the disabled one
+      const negations = compound.match(/:not\([^)]*\)/gi) || [];
+      const withoutNegations = compound.replace(/:not\([^)]*\)/gi, '');
+      const states = STATE_PATTERNS.filter(({ pattern }) => withoutNegations.search(pattern) !== -1).map(({ state }) => state);
+      const baseCompound = (STATE_PATTERNS.reduce((result, { pattern }) => result.replace(pattern, ''), withoutNegations) + negations.join('')).trim();
+      if (!baseCompound) return;
+      const baseSelector = prefix + baseCompound;
+
+      let family = compoundFamily(baseCompound);
+      if (!family) {
+        const knownClass = (baseCompound.match(/\.[\w-]+/g) || []).map(cls => cls.slice(1)).find(cls => familiesByClass.has(cls));
+        if (!knownClass) return;
+        family = familiesByClass.get(knownClass)!;
+      }
+
+      const accumulator = accumulatorFor(family);
+      const paired = accumulator.instances.some(element => {
+        try {
+          return element.matches(baseSelector);
+        } catch (error) {
+          // JSDOM rejects selectors it does not support - treat them as non-matching
+          return false;
+        }
+      });
+      if (paired) accumulator.domPaired++;
+      else accumulator.patternOnly++;
+      order++;
+
+      if (states.length) {
+        states.forEach(state => {
+          const entry = accumulator.states.get(state) || { ruleCount: 0, properties: {} };
+          entry.ruleCount++;
+          declarations.forEach(decl => { entry.properties[decl.prop.toLowerCase()] = resolve(decl.value); });
+          accumulator.states.set(state, entry);
+        });
+        return;
+      }
+
+      const geometryDeclarations = declarations.filter(decl => GEOMETRY_PROPERTY_REGEX.test(decl.prop));
+      const variants = variantsOf(baseCompound, family);
+      if (variants.length) {
+        variants.forEach(name => {
+          const variant = accumulator.variants.get(name) || { name, kind: SIZE_WORDS.test(name) ? 'size' : 'emphasis', selectors: [], geometry: {} };
+          pushUnique(variant.selectors, baseSelector);
+          geometryDeclarations.forEach(decl => { variant.geometry[decl.prop.toLowerCase()] = resolve(decl.value); });
+          accumulator.variants.set(name, variant);
+        });
+        return;
+      }
+
+      pushUnique(accumulator.selectors, baseSelector);
+      geometryDeclarations.forEach(decl => {
+        const prop = decl.prop.toLowerCase();
+        const values = accumulator.geometry.get(prop) || new Map<string, { count: number; order: number }>();
+        const value = resolve(decl.value);
+        const seen = values.get(value) || { count: 0, order };
+        values.set(value, { count: seen.count + 1, order });
+        accumulator.geometry.set(prop, values);
+      });
+    });
+  });
+
+  const families: ComponentFamily[] = [];
+  FAMILY_ORDER.forEach(family => {
+    const accumulator = accumulators.get(family);
+    if (!accumulator) return;
+
+    // Most common value wins; ties go to the value declared last
+    const geometry: ComponentFamily['geometry'] = {};
+    Array.from(accumulator.geometry.keys()).sort().forEach(prop => {
+      const values = Array.from(accumulator.geometry.get(prop)!.entries())
+        .sort((a, b) => b[1].count - a[1].count || b[1].order - a[1].order);
+      geometry[prop] = { value: values[0][0], count: values[0][1].count };
+    });
+
+    families.push({
+      family,
+      instances: accumulator.instances.length,
+      rules: { domPaired: accumulator.domPaired, patternOnly: accumulator.patternOnly },
+      selectors: accumulator.selectors,
+      geometry,
+      states: STATE_PATTERNS
+        .filter(({ state }) => accumulator.states.has(state))
+        .map(({ state }) => ({ state, ...accumulator.states.get(state)! })),
+      variants: Array.from(accumulator.variants.values())
+        .sort((a, b) => (a.kind === b.kind ? (a.name < b.name ? -1 : 1) : a.kind === 'emphasis' ? -1 : 1))
+    });
+  });
+
+  return { source, families };
+}
@@ -0,0 +1,152 @@
+import { crawlSite } from './crawler';
+import { collectCss, createStylesheetDedup } from './extractor';
+import { HttpClient } from './http-client';
+import { SecurityValidator } from './security';
+
+const ORIGIN = 'https://example.com';
+
+// An HttpClient that serves `responses` by URL and 404s everything else
+function stubClient(responses: Record<string, string>): { client: HttpClient; fetched: string[] } {
+  const client = new HttpClient({}, new SecurityValidator({ blockedHosts: [] }));
+  const fetched: string[] = [];
+  const serve = async (url: string) => {
+    fetched.push(url);
+    if (responses[url] === undefined) throw new Error(`404 ${url}`);
+    return responses[url];
+  };
+  jest.spyOn(client, 'fetchHtml').mockImplementation(serve);
+  jest.spyOn(client, 'fetchCss').mockImplementation(serve);
+  return { client, fetched };
+}
+
+function page(...links: string[]): string {
+  return `<html><body>${links.map(href => `<a href="${href}">${href}</a>`).join('')}</body></html>`;
+}
+
+describe('crawlSite', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('follows the robots.txt group for our user agent and its longest matching rule', async () => {
+    const { client } = stubClient({
+      [`${ORIGIN}/robots.txt`]: [
+        'User-agent: *',
+        'Disallow: /',
+        '',
+        'User-agent: Get-Site-Styles',
+        'Disallow: /docs/',
+        'Allow: /docs/public/',
+        'Disallow: /*.php$'
+      ].join('\n'),
+      [`${ORIGIN}/`]: page('/about', '/docs/internal', '/docs/public/intro', '/index.php', '/index.php?x=1'),
+      [`${ORIGIN}/about`]: page(),
+      [`${ORIGIN}/docs/public/intro`]: page(),
+      [`${ORIGIN}/index.php?x=1`]: page()
+    });
+
+    const { pages, report } = await crawlSite(`${ORIGIN}/`, client, { sitemap: false });
+    expect(pages.map(p => p.url)).toEqual([`${ORIGIN}/`, `${ORIGIN}/about`, `${ORIGIN}/docs/public/intro`, `${ORIGIN}/index.php?x=1`]);
+    expect(report.skipped).toEqual([
+      { url: `${ORIGIN}/docs/internal`, reason: 'robots' },
+      { url: `${ORIGIN}/index.php`, reason: 'robots' }
+    ]);
+    expect(report.robots).toEqual({ found: true, disallowRules: 2 });
+  });
+
+  it('falls back to the * group when no group names us', async () => {
+    const { client } = stubClient({
+      [`${ORIGIN}/robots.txt`]: 'User-agent: Googlebot\nDisallow:\n\nUser-agent: *\nDisallow: /private',
+      [`${ORIGIN}/`]: page('/private/a', '/public'),
+      [`${ORIGIN}/public`]: page()
+    });
+    const { pages, report } = await crawlSite(`${ORIGIN}/`, client, { sitemap: false });
+    expect(pages.map(p => p.url)).toEqual([`${ORIGIN}/`, `${ORIGIN}/public`]);
+    expect(report.skipped).toEqual([{ url: `${ORIGIN}/private/a`, reason: 'robots' }]);
+  });
+
+  it('keeps `*` within a path segment and lets `**` span segments', async () => {
+    const links = ['/blog/post', '/blog/2024/post', '/docs/a/b/c', '/shop/item'];
+    const responses = { [`${ORIGIN}/`]: page(...links) };
+    links.forEach(link => { responses[`${ORIGIN}${link}`] = page(); });
+
+    const single = await crawlSite(`${ORIGIN}/`, stubClient(responses).client, { sitemap: false, robots: false, include: ['/blog/*', '/docs/**'] });
+    expect(single.pages.map(p => p.url)).toEqual([`${ORIGIN}/`, `${ORIGIN}/blog/post`, `${ORIGIN}/docs/a/b/c`]);
+    expect(single.report.skipped.map(s => s.url)).toEqual([`${ORIGIN}/blog/2024/post`, `${ORIGIN}/shop/item`]);
+
+    const excluded = await crawlSite(`${ORIGIN}/`, stubClient(responses).client, { sitemap: false, robots: false, exclude: ['/blog/**'] });
+    expect(excluded.pages.map(p => p.url)).toEqual([`${ORIGIN}/`, `${ORIGIN}/docs/a/b/c`, `${ORIGIN}/shop/item`]);
+  });
+
+  it('expands sitemap indexes into their child sitemaps', async () => {
+    const { client } = stubClient({
+      [`${ORIGIN}/robots.txt`]: `Sitemap: ${ORIGIN}/sitemap-index.xml`,
+      [`${ORIGIN}/sitemap-index.xml`]: `<?xml version="1.0"?><sitemapindex><sitemap><loc>${ORIGIN}/pages.xml</loc></sitemap><sitemap><loc>${ORIGIN}/posts.xml</loc></sitemap></sitemapindex>`,
+      [`${ORIGIN}/pages.xml`]: `<urlset><url><loc>${ORIGIN}/pricing</loc></url></urlset>`,
+      [`${ORIGIN}/posts.xml`]: `<urlset><url><loc><![CDATA[${ORIGIN}/blog?page=1&amp;sort=new]]></loc></url></urlset>`,
+      [`${ORIGIN}/`]: page(),
+      [`${ORIGIN}/pricing`]: page(),
+      [`${ORIGIN}/blog?page=1&sort=new`]: page()
+    });
+
+    const { pages, report } = await crawlSite(`${ORIGIN}/`, client, { maxDepth: 1 });
+    expect(report.sitemap).toEqual({ found: true, urls: 2 });
+    expect(pages.map(p => [p.url, p.depth, p.discoveredVia])).toEqual([
+      [`${ORIGIN}/`, 0, 'start'],
+      [`${ORIGIN}/pricing`, 1, 'sitemap'],
+      [`${ORIGIN}/blog?page=1&sort=new`, 1, 'sitemap']
+    ]);
+  });
+
+  it('does not seed from the sitemap with maxDepth 0', async () => {
+    const { client, fetched } = stubClient({
+      [`${ORIGIN}/sitemap.xml`]: `<urlset><url><loc>${ORIGIN}/pricing</loc></url></urlset>`,
+      [`${ORIGIN}/`]: page('/about')
+    });
+    const { pages } = await crawlSite(`${ORIGIN}/`, client, { maxDepth: 0, robots: false });
+    expect(pages.map(p => p.url)).toEqual([`${ORIGIN}/`]);
+    expect(fetched).not.toContain(`${ORIGIN}/sitemap.xml`);
+  });
+});
+
+describe('stylesheet dedup', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('collects a stylesheet shared between pages once, by URL or by content', async () => {
+    const shared = '.btn { color: #2563eb; }';
+    const { client, fetched } = stubClient({
+      [`${ORIGIN}/shared.css`]: shared,
+      [`${ORIGIN}/copy.css`]: shared,
+      [`${ORIGIN}/about.css`]: '.about { color: #0f766e; }'
+    });
+    const dedup = createStylesheetDedup();
+
+    const home = await collectCss(
+      '<html><head><link rel="stylesheet" href="/shared.css"><style>.x { margin: 0; }</style></head></html>',
+      `${ORIGIN}/`, client, dedup
+    );
+    const about = await collectCss(
+      '<html><head><link rel="stylesheet" href="/shared.css"><link rel="stylesheet" href="/copy.css"><link rel="stylesheet" href="/about.css"><style>.x { margin: 0; }</style></head></html>',
+      `${ORIGIN}/about`, client, dedup
+    );
+
+    expect(home.css).toContain('#2563eb');
+    expect(home.stylesheets).toEqual({ total: 2, shared: 0 });
+    expect(about.css).not.toContain('#2563eb');
+    expect(about.css).toContain('#0f766e');
+    expect(about.stylesheets).toEqual({ total: 4, shared: 3 });
+    // Already-seen URLs are not fetched again
+    expect(fetched.filter(url => url === `${ORIGIN}/shared.css`)).toHaveLength(1);
+  });
+});
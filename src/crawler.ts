@@ -0,0 +1,281 @@
+import { JSDOM } from 'jsdom';
+import { HttpClient } from './http-client';
+import type { CrawledPage, CrawlOptions, CrawlReport } from './types';
+
+// Product token matched against robots.txt User-agent lines
+const ROBOTS_USER_AGENT = 'get-site-styles';
+
+const DEFAULT_CRAWL_OPTIONS: Required<Omit<CrawlOptions, 'include' | 'exclude'>> = {
+  maxDepth: 2,
+  maxPages: 20,
+  sitemap: true,
+  robots: true,
+  delayMs: 0
+};
+
+const MAX_CRAWL_DELAY_MS = 10000;
+const MAX_CHILD_SITEMAPS = 5;
+const MAX_SKIPPED_REPORTED = 100;
+
+// Links to these are never pages
+const NON_PAGE_EXTENSION_REGEX = /\.(pdf|zip|gz|tar|rar|7z|dmg|exe|png|jpe?g|gif|webp|avif|svg|ico|bmp|mp4|webm|mov|mp3|wav|ogg|woff2?|ttf|otf|eot|css|js|json|xml|rss|atom|txt|csv|xlsx?|docx?|pptx?)$/i;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay?: number;
+  sitemaps: string[];
+}
+
+function robotsPatternToRegex(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Groups for our user agent win over `*`; within a group the longest matching rule decides
+function parseRobotsTxt(text: string): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelay?: number }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number } | null = null;
+  let lastWasAgent = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      return;
+    }
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (current && (field === 'allow' || field === 'disallow')) {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', pattern: robotsPatternToRegex(value), length: value.length });
+    } else if (current && field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay)) current.crawlDelay = delay;
+    }
+  });
+
+  const ours = groups.filter(group => group.agents.some(agent => agent !== '*' && ROBOTS_USER_AGENT.indexOf(agent) !== -1));
+  const chosen = ours.length ? ours : groups.filter(group => group.agents.indexOf('*') !== -1);
+  return {
+    rules: chosen.reduce((all: RobotsRule[], group) => all.concat(group.rules), []),
+    crawlDelay: chosen.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined)[0],
+    sitemaps
+  };
+}
+
+function isAllowedByRobots(policy: RobotsPolicy, url: URL): boolean {
+  const path = url.pathname + url.search;
+  let decision: RobotsRule | undefined;
+  policy.rules.forEach(rule => {
+    if (!rule.pattern.test(path)) return;
+    if (!decision || rule.length > decision.length || (rule.length === decision.length && rule.allow)) {
+      decision = rule;
+    }
+  });
+  return decision ? decision.allow : true;
+}
+
+// `**` spans path segments, `*` and `?` stay within one
+function globToRegex(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function normalizePageUrl(href: string, base: string): URL | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+function extractLinks(html: string, pageUrl: string): string[] {
+  const document = new JSDOM(html).window.document;
+  const links: string[] = [];
+  Array.from(document.querySelectorAll('a[href]')).forEach(anchor => {
+    const rel = (anchor.getAttribute('rel') || '').toLowerCase();
+    if (rel.split(/\s+/).indexOf('nofollow') !== -1 || anchor.hasAttribute('download')) return;
+    const url = normalizePageUrl(anchor.getAttribute('href') || '', pageUrl);
+    if (url && links.indexOf(url.href) === -1) links.push(url.href);
+  });
+  return links;
+}
+
+function sitemapLocations(xml: string): string[] {
+  const locations: string[] = [];
+  const locRegex = /<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi;
+  let match;
+  while ((match = locRegex.exec(xml)) !== null) {
+    locations.push(match[1].replace(/&amp;/g, '&'));
+  }
+  return locations;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Breadth-first, same-origin crawl from `startUrl`. Sitemap URLs join the queue at depth 1,
+// after the start page (so not at all with maxDepth 0); robots.txt and the include/exclude globs
+// gate every page.
+export async function crawlSite(
+  startUrl: string,
+  httpClient: HttpClient,
+  crawlOptions: CrawlOptions = {}
+): Promise<{ pages: CrawledPage[]; report: CrawlReport }> {
+  const options = {
+    maxDepth: crawlOptions.maxDepth ?? DEFAULT_CRAWL_OPTIONS.maxDepth,
+    maxPages: crawlOptions.maxPages ?? DEFAULT_CRAWL_OPTIONS.maxPages,
+    sitemap: crawlOptions.sitemap ?? DEFAULT_CRAWL_OPTIONS.sitemap,
+    robots: crawlOptions.robots ?? DEFAULT_CRAWL_OPTIONS.robots,
+    delayMs: crawlOptions.delayMs ?? DEFAULT_CRAWL_OPTIONS.delayMs
+  };
+  const start = httpClient.getSecurityValidator().validateUrl(startUrl);
+  start.hash = '';
+  const include = (crawlOptions.include || []).map(globToRegex);
+  const exclude = (crawlOptions.exclude || []).map(globToRegex);
+
+  const report: CrawlReport = {
+    startUrl: start.href,
+    pages: [],
+    discovered: 0,
+    skipped: [],
+    robots: { found: false, disallowRules: 0 },
+    sitemap: { found: false, urls: 0 }
+  };
+  const skip = (url: string, reason: CrawlReport['skipped'][number]['reason']) => {
+    if (report.skipped.length < MAX_SKIPPED_REPORTED) report.skipped.push({ url, reason });
+  };
+
+  let robots: RobotsPolicy = { rules: [], sitemaps: [] };
+  if (options.robots) {
+    try {
+      robots = parseRobotsTxt(await httpClient.fetchHtml(new URL('/robots.txt', start).href));
+      report.robots = { found: true, disallowRules: robots.rules.filter(rule => !rule.allow).length, crawlDelay: robots.crawlDelay };
+      console.log(`🤖 robots.txt: ${report.robots.disallowRules} disallow rules${robots.crawlDelay ? `, crawl-delay ${robots.crawlDelay}s` : ''}`);
+    } catch {
+      // No robots.txt means no restrictions
+    }
+  }
+  const delayMs = Math.min(Math.max(options.delayMs, (robots.crawlDelay || 0) * 1000), MAX_CRAWL_DELAY_MS);
+
+  const queue: Array<{ url: string; depth: number; discoveredVia: CrawledPage['discoveredVia'] }> = [];
+  const queued = new Set<string>();
+
+  // The start page is always analyzed; globs and robots only gate discovered pages
+  const enqueue = (url: URL, depth: number, discoveredVia: CrawledPage['discoveredVia']) => {
+    if (queued.has(url.href)) return;
+    queued.add(url.href);
+    if (discoveredVia !== 'start') {
+      if (url.origin !== start.origin || NON_PAGE_EXTENSION_REGEX.test(url.pathname)) return;
+      if (exclude.some(glob => glob.test(url.pathname)) || (include.length && !include.some(glob => glob.test(url.pathname)))) {
+        skip(url.href, 'excluded');
+        return;
+      }
+      if (options.robots && !isAllowedByRobots(robots, url)) {
+        skip(url.href, 'robots');
+        return;
+      }
+    }
+    queue.push({ url: url.href, depth, discoveredVia });
+    report.discovered++;
+  };
+
+  enqueue(start, 0, 'start');
+
+  if (options.sitemap && options.maxDepth >= 1) {
+    const sitemapUrls = robots.sitemaps.length ? robots.sitemaps : [new URL('/sitemap.xml', start).href];
+    const locations: string[] = [];
+    let childSitemaps = 0;
+    while (sitemapUrls.length) {
+      const sitemapUrl = sitemapUrls.shift()!;
+      try {
+        const xml = await httpClient.fetchHtml(sitemapUrl);
+        report.sitemap.found = true;
+        if (/<sitemapindex[\s>]/i.test(xml)) {
+          sitemapLocations(xml).forEach(child => {
+            if (childSitemaps++ < MAX_CHILD_SITEMAPS) sitemapUrls.push(child);
+          });
+        } else {
+          locations.push(...sitemapLocations(xml));
+        }
+      } catch (error) {
+        if (robots.sitemaps.length) console.warn(`Failed to fetch sitemap: ${sitemapUrl}`);
+      }
+    }
+    report.sitemap.urls = locations.length;
+    if (locations.length) console.log(`🗺️  sitemap: ${locations.length} URLs`);
+    locations.forEach(location => {
+      const url = normalizePageUrl(location, start.href);
+      if (url) enqueue(url, 1, 'sitemap');
+    });
+  }
+
+  const pages: CrawledPage[] = [];
+  while (queue.length) {
+    const next = queue.shift()!;
+    if (pages.length >= options.maxPages) {
+      skip(next.url, 'page-limit');
+      continue;
+    }
+    if (pages.length > 0 && delayMs > 0) await sleep(delayMs);
+
+    let html: string;
+    try {
+      html = await httpClient.fetchHtml(next.url);
+    } catch (error) {
+      console.warn(`Failed to crawl ${next.url}:`, error instanceof Error ? error.message : error);
+      skip(next.url, 'fetch-failed');
+      continue;
+    }
+
+    pages.push({ ...next, html });
+    report.pages.push({ url: next.url, depth: next.depth, discoveredVia: next.discoveredVia });
+    console.log(`🕷️  [${pages.length}/${options.maxPages}] depth ${next.depth}: ${next.url}`);
+
+    if (next.depth < options.maxDepth) {
+      extractLinks(html, next.url).forEach(href => enqueue(new URL(href), next.depth + 1, 'link'));
+    }
+  }
+
+  return { pages, report };
+}
@@ -0,0 +1,113 @@
+import { findColors, parseColor, rgbaToHex } from './css-color';
+
+function hex(value: string): string | null {
+  const color = parseColor(value);
+  return color ? rgbaToHex(color) : null;
+}
+
+describe('parseColor', () => {
+  it('resolves hex and named colors', () => {
+    expect(hex('#0f766e')).toBe('#0f766e');
+    expect(hex('#abc')).toBe('#aabbcc');
+    expect(parseColor('#ff000080')!.alpha).toBeCloseTo(0.5, 2);
+    expect(hex('rebeccapurple')).toBe('#663399');
+    expect(hex('RED')).toBe('#ff0000');
+    expect(parseColor('transparent')).toEqual({ r: 0, g: 0, b: 0, alpha: 0 });
+  });
+
+  it('returns null for values that cannot be resolved on their own', () => {
+    ['currentcolor', 'var(--brand)', 'rgb(var(--rgb))', 'notacolor', '#ggg', 'rgb(1 2)'].forEach(value => {
+      expect(parseColor(value)).toBeNull();
+    });
+  });
+
+  it('reads legacy and modern function syntax', () => {
+    expect(hex('rgb(15, 118, 110)')).toBe('#0f766e');
+    expect(hex('rgba(15 118 110 / 50%)')).toBe('#0f766e');
+    expect(parseColor('rgba(15, 118, 110, 0.25)')!.alpha).toBe(0.25);
+    expect(hex('hsl(120deg 100% 25%)')).toBe('#008000');
+    expect(hex('hsl(0.5turn, 100%, 50%)')).toBe('#00ffff');
+    expect(hex('hwb(0 0% 0%)')).toBe('#ff0000');
+  });
+
+  it('clamps out-of-range sRGB function channels instead of gamut mapping them', () => {
+    expect(hex('rgb(300 0 0)')).toBe('#ff0000');
+    expect(hex('rgb(-20 300 127.5)')).toBe('#00ff80');
+    expect(hex('hsl(0 150% 50%)')).toBe('#ff0000');
+    expect(hex('hwb(0 150% 0%)')).toBe('#ffffff');
+  });
+
+  it('gamut maps colors from wider spaces', () => {
+    const p3Red = parseColor('color(display-p3 1 0 0)')!;
+    expect(p3Red.r).toBe(1);
+    expect(p3Red.g).toBeGreaterThan(0);
+    expect(hex('color(srgb 1.2 0 0)')).not.toBe('#ff0000');
+    expect(hex('oklch(0.7 0.4 30)')).toMatch(/^#[0-9a-f]{6}$/);
+    expect(hex('lab(50 80 60)')).toBe('#ef0015');
+  });
+
+  it('mixes colors with color-mix()', () => {
+    expect(hex('color-mix(in srgb, red 50%, blue)')).toBe('#800080');
+    expect(hex('color-mix(in srgb, red, blue 25%)')).toBe('#bf0040');
+    expect(hex('color-mix(red, white)')).toBe(hex('color-mix(in oklab, red, white)'));
+
+    const faded = parseColor('color-mix(in srgb, red 25%, blue 25%)')!;
+    expect(rgbaToHex(faded)).toBe('#800080');
+    expect(faded.alpha).toBe(0.5);
+
+    // Premultiplied: mixing with transparent only fades the color
+    const withTransparent = parseColor('color-mix(in srgb, red, transparent)')!;
+    expect(rgbaToHex(withTransparent)).toBe('#ff0000');
+    expect(withTransparent.alpha).toBe(0.5);
+
+    expect(parseColor('color-mix(in srgb, red 120%, blue)')).toBeNull();
+    expect(parseColor('color-mix(in srgb longer hue, red, blue)')).toBeNull();
+  });
+
+  it('interpolates hue the way the hue method asks', () => {
+    // red (0deg) to blue (240deg)
+    expect(hex('color-mix(in hsl, red, blue)')).toBe('#ff00ff');
+    expect(hex('color-mix(in hsl shorter hue, red, blue)')).toBe('#ff00ff');
+    expect(hex('color-mix(in hsl longer hue, red, blue)')).toBe('#00ff00');
+    expect(hex('color-mix(in hsl increasing hue, red, blue)')).toBe('#00ff00');
+    expect(hex('color-mix(in hsl decreasing hue, red, blue)')).toBe('#ff00ff');
+    expect(hex('color-mix(in hsl increasing hue, blue, red)')).toBe('#ff00ff');
+  });
+
+  it('resolves relative color syntax', () => {
+    expect(hex('rgb(from #ff0000 calc(r / 2) g b)')).toBe('#800000');
+    expect(hex('hsl(from red calc(h + 120) s l)')).toBe('#00ff00');
+    expect(hex('rgb(from color(display-p3 1 0 0) r g b)')).toBe('#ff0000');
+
+    const translucent = parseColor('lch(from #336699 l c h / 0.5)')!;
+    expect(rgbaToHex(translucent)).toBe('#336699');
+    expect(translucent.alpha).toBe(0.5);
+
+    const gray = parseColor('oklch(from #ff0000 l 0 h)')!;
+    expect(gray.r).toBeCloseTo(gray.g, 3);
+    expect(gray.g).toBeCloseTo(gray.b, 3);
+  });
+});
+
+describe('findColors', () => {
+  it('finds every resolvable color literal in a value', () => {
+    expect(findColors('1px solid lab(50 80 60)')).toEqual(['lab(50 80 60)']);
+    expect(findColors('0 1px 2px rgb(0 0 0 / 0.1), 0 0 0 3px #2563eb')).toEqual(['rgb(0 0 0 / 0.1)', '#2563eb']);
+    expect(findColors('linear-gradient(red, color-mix(in srgb, red, blue) 50%, #fff)', { keywords: true }))
+      .toEqual(['red', 'color-mix(in srgb, red, blue)', '#fff']);
+  });
+
+  it('skips keywords unless asked, urls, strings and unresolvable functions', () => {
+    expect(findColors('solid red')).toEqual([]);
+    expect(findColors('solid red', { keywords: true })).toEqual(['red']);
+    expect(findColors('url(#fff) "#000"')).toEqual([]);
+    expect(findColors('rgb(var(--rgb)) #123456')).toEqual(['#123456']);
+  });
+
+  it('keeps colors that resolve later with `references`', () => {
+    expect(findColors('1px solid var(--border, #e5e7eb)', { references: true })).toEqual(['var(--border, #e5e7eb)']);
+    expect(findColors('2px solid rgb(from var(--brand) r g b / 50%)', { references: true })).toEqual(['rgb(from var(--brand) r g b / 50%)']);
+    expect(findColors('thin solid currentColor', { references: true })).toEqual(['currentColor']);
+    expect(findColors('none transparent', { references: true })).toEqual(['transparent']);
+  });
+});
@@ -0,0 +1,711 @@
+// CSS Color Level 4/5 parsing: hex, the 148 named colors, rgb()/hsl()/hwb(), lab()/lch()/oklab()/
+// oklch(), color() in every predefined space, color-mix() and relative color syntax, resolved to
+// sRGB. rgb()/hsl()/hwb() channels are clamped as browsers do; colors from wider spaces get the
+// CSS Color 4 gamut mapping so wide-gamut palettes survive instead of being dropped
+
+type Vec3 = [number, number, number];
+type Matrix = [Vec3, Vec3, Vec3];
+
+type ColorSpace = 'srgb' | 'srgb-linear' | 'display-p3' | 'a98-rgb' | 'prophoto-rgb' | 'rec2020' | 'xyz-d50' | 'xyz-d65' | 'lab' | 'lch' | 'oklab' | 'oklch' | 'hsl' | 'hwb';
+
+// A color in its own space; NaN coordinates are `none` (missing) components
+interface SpaceColor {
+  space: ColorSpace;
+  coords: Vec3;
+  alpha: number;
+}
+
+// sRGB channels (0-1, gamut mapped) and alpha (0-1)
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
+
+export const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4', azure: '#f0ffff',
+  beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000', blanchedalmond: '#ffebcd', blue: '#0000ff',
+  blueviolet: '#8a2be2', brown: '#a52a2a', burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00',
+  chocolate: '#d2691e', coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b', darkgray: '#a9a9a9',
+  darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b', darkmagenta: '#8b008b', darkolivegreen: '#556b2f',
+  darkorange: '#ff8c00', darkorchid: '#9932cc', darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f',
+  darkslateblue: '#483d8b', darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', darkturquoise: '#00ced1', darkviolet: '#9400d3',
+  deeppink: '#ff1493', deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969', dodgerblue: '#1e90ff',
+  firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22', fuchsia: '#ff00ff', gainsboro: '#dcdcdc',
+  ghostwhite: '#f8f8ff', gold: '#ffd700', goldenrod: '#daa520', gray: '#808080', green: '#008000',
+  greenyellow: '#adff2f', grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c',
+  indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa', lavenderblush: '#fff0f5',
+  lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6', lightcoral: '#f08080', lightcyan: '#e0ffff',
+  lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3', lightgreen: '#90ee90', lightgrey: '#d3d3d3', lightpink: '#ffb6c1',
+  lightsalmon: '#ffa07a', lightseagreen: '#20b2aa', lightskyblue: '#87cefa', lightslategray: '#778899', lightslategrey: '#778899',
+  lightsteelblue: '#b0c4de', lightyellow: '#ffffe0', lime: '#00ff00', limegreen: '#32cd32', linen: '#faf0e6',
+  magenta: '#ff00ff', maroon: '#800000', mediumaquamarine: '#66cdaa', mediumblue: '#0000cd', mediumorchid: '#ba55d3',
+  mediumpurple: '#9370db', mediumseagreen: '#3cb371', mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc',
+  mediumvioletred: '#c71585', midnightblue: '#191970', mintcream: '#f5fffa', mistyrose: '#ffe4e1', moccasin: '#ffe4b5',
+  navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6', olive: '#808000', olivedrab: '#6b8e23',
+  orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6', palegoldenrod: '#eee8aa', palegreen: '#98fb98',
+  paleturquoise: '#afeeee', palevioletred: '#db7093', papayawhip: '#ffefd5', peachpuff: '#ffdab9', peru: '#cd853f',
+  pink: '#ffc0cb', plum: '#dda0dd', powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399',
+  red: '#ff0000', rosybrown: '#bc8f8f', royalblue: '#4169e1', saddlebrown: '#8b4513', salmon: '#fa8072',
+  sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee', sienna: '#a0522d', silver: '#c0c0c0',
+  skyblue: '#87ceeb', slateblue: '#6a5acd', slategray: '#708090', slategrey: '#708090', snow: '#fffafa',
+  springgreen: '#00ff7f', steelblue: '#4682b4', tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8',
+  tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee', wheat: '#f5deb3', white: '#ffffff',
+  whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32'
+};
+
+const COLOR_FUNCTIONS = ['rgb', 'rgba', 'hsl', 'hsla', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'color', 'color-mix'];
+
+function has<T>(record: Record<string, T>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+// -------- Color spaces --------
+
+const D50: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const SRGB_TO_XYZ: Matrix = [
+  [506752 / 1228815, 87881 / 245763, 12673 / 70218],
+  [87098 / 409605, 175762 / 245763, 12673 / 175545],
+  [7918 / 409605, 87881 / 737289, 1001167 / 1053270]
+];
+const P3_TO_XYZ: Matrix = [
+  [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+  [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+  [0, 32229 / 714400, 5220557 / 5000800]
+];
+const A98_TO_XYZ: Matrix = [
+  [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+  [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+  [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835]
+];
+const PROPHOTO_TO_XYZ_D50: Matrix = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602]
+];
+const REC2020_TO_XYZ: Matrix = [
+  [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+  [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+  [0, 19567812 / 697040785, 295819943 / 278816314]
+];
+// Bradford chromatic adaptation
+const D50_TO_D65: Matrix = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+];
+const XYZ_TO_LMS: Matrix = [
+  [0.8190224379967030, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309]
+];
+const LMS_TO_OKLAB: Matrix = [
+  [0.2104542683093140, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.4285922420485799, 0.4505937096174110],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774]
+];
+
+function multiply(m: Matrix, v: Vec3): Vec3 {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2]
+  ];
+}
+
+function compose(a: Matrix, b: Matrix): Matrix {
+  return [0, 1, 2].map(row => [0, 1, 2].map(col =>
+    a[row][0] * b[0][col] + a[row][1] * b[1][col] + a[row][2] * b[2][col]
+  )) as Matrix;
+}
+
+function invert(m: Matrix): Matrix {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det]
+  ];
+}
+
+const D65_TO_D50 = invert(D50_TO_D65);
+const LMS_TO_XYZ = invert(XYZ_TO_LMS);
+const OKLAB_TO_LMS = invert(LMS_TO_OKLAB);
+
+// Transfer functions are odd-extended so out-of-range channels keep their sign
+const signed = (f: (c: number) => number) => (c: number) => c < 0 ? -f(-c) : f(c);
+const srgbToLinear = signed(c => c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const srgbFromLinear = signed(c => c > 0.0031308 ? 1.055 * Math.pow(c, 1 / 2.4) - 0.055 : 12.92 * c);
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+interface RgbSpace {
+  toLinear: (c: number) => number;
+  fromLinear: (c: number) => number;
+  toXyz: Matrix; // To XYZ-D65
+  fromXyz: Matrix;
+}
+
+function rgbSpace(toXyz: Matrix, toLinear: (c: number) => number, fromLinear: (c: number) => number): RgbSpace {
+  return { toLinear, fromLinear, toXyz, fromXyz: invert(toXyz) };
+}
+
+const RGB_SPACES: Record<string, RgbSpace> = {
+  'srgb': rgbSpace(SRGB_TO_XYZ, srgbToLinear, srgbFromLinear),
+  'srgb-linear': rgbSpace(SRGB_TO_XYZ, c => c, c => c),
+  'display-p3': rgbSpace(P3_TO_XYZ, srgbToLinear, srgbFromLinear),
+  'a98-rgb': rgbSpace(A98_TO_XYZ, signed(c => Math.pow(c, 563 / 256)), signed(c => Math.pow(c, 256 / 563))),
+  // ProPhoto is defined against D50
+  'prophoto-rgb': rgbSpace(
+    compose(D50_TO_D65, PROPHOTO_TO_XYZ_D50),
+    signed(c => c <= 16 / 512 ? c / 16 : Math.pow(c, 1.8)),
+    signed(c => c >= 1 / 512 ? Math.pow(c, 1 / 1.8) : 16 * c)
+  ),
+  'rec2020': rgbSpace(
+    REC2020_TO_XYZ,
+    signed(c => c < REC2020_BETA * 4.5 ? c / 4.5 : Math.pow((c + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)),
+    signed(c => c >= REC2020_BETA ? REC2020_ALPHA * Math.pow(c, 0.45) - (REC2020_ALPHA - 1) : 4.5 * c)
+  )
+};
+
+const POLAR_HUE_INDEX: Partial<Record<ColorSpace, number>> = { hsl: 0, hwb: 0, lch: 2, oklch: 2 };
+
+function labToXyzD50([l, a, b]: Vec3): Vec3 {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  return [
+    (Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa) * D50[0],
+    (l > kappa * epsilon ? Math.pow(fy, 3) : l / kappa) * D50[1],
+    (Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa) * D50[2]
+  ];
+}
+
+function xyzD50ToLab(xyz: Vec3): Vec3 {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const [fx, fy, fz] = xyz.map((v, i) => {
+    const scaled = v / D50[i];
+    return scaled > epsilon ? Math.cbrt(scaled) : (kappa * scaled + 16) / 116;
+  });
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function oklabToXyz(lab: Vec3): Vec3 {
+  const lms = multiply(OKLAB_TO_LMS, lab);
+  return multiply(LMS_TO_XYZ, [Math.pow(lms[0], 3), Math.pow(lms[1], 3), Math.pow(lms[2], 3)]);
+}
+
+function xyzToOklab(xyz: Vec3): Vec3 {
+  const lms = multiply(XYZ_TO_LMS, xyz);
+  return multiply(LMS_TO_OKLAB, [Math.cbrt(lms[0]), Math.cbrt(lms[1]), Math.cbrt(lms[2])]);
+}
+
+function polarToRect([l, c, h]: Vec3): Vec3 {
+  return [l, c * Math.cos(h * Math.PI / 180), c * Math.sin(h * Math.PI / 180)];
+}
+
+// Hue is powerless (missing) for achromatic colors
+function rectToPolar([l, a, b]: Vec3, achromatic: number): Vec3 {
+  const c = Math.sqrt(a * a + b * b);
+  const h = Math.atan2(b, a) * 180 / Math.PI;
+  return [l, c, c <= achromatic ? NaN : (h + 360) % 360];
+}
+
+function hslToSrgb([h, s, l]: Vec3): Vec3 {
+  const sat = s / 100;
+  const light = l / 100;
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return light - sat * Math.min(light, 1 - light) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+function srgbToHsl([r, g, b]: Vec3): Vec3 {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  let h = NaN;
+  let s = 0;
+  if (d !== 0) {
+    s = l === 0 || l === 1 ? 0 : (max - l) / Math.min(l, 1 - l);
+    if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h *= 60;
+  }
+  if (s < 0) {
+    h += 180;
+    s = Math.abs(s);
+  }
+  if (h >= 360) h -= 360;
+  return [Math.abs(s) < 1e-6 ? NaN : h, s * 100, l * 100];
+}
+
+function hwbToSrgb([h, w, b]: Vec3): Vec3 {
+  const white = w / 100;
+  const black = b / 100;
+  if (white + black >= 1) {
+    const gray = white / (white + black);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb([h, 100, 50]).map(c => c * (1 - white - black) + white) as Vec3;
+}
+
+function srgbToHwb(rgb: Vec3): Vec3 {
+  const white = Math.min(rgb[0], rgb[1], rgb[2]);
+  const black = 1 - Math.max(rgb[0], rgb[1], rgb[2]);
+  return [white + black >= 1 - 1e-6 ? NaN : srgbToHsl(rgb)[0], white * 100, black * 100];
+}
+
+function toXyzD65(color: SpaceColor): Vec3 {
+  const coords = color.coords.map(c => isNaN(c) ? 0 : c) as Vec3;
+  switch (color.space) {
+    case 'xyz-d65': return coords;
+    case 'xyz-d50': return multiply(D50_TO_D65, coords);
+    case 'lab': return multiply(D50_TO_D65, labToXyzD50(coords));
+    case 'lch': return multiply(D50_TO_D65, labToXyzD50(polarToRect(coords)));
+    case 'oklab': return oklabToXyz(coords);
+    case 'oklch': return oklabToXyz(polarToRect(coords));
+    case 'hsl': return toXyzD65({ space: 'srgb', coords: hslToSrgb(coords), alpha: color.alpha });
+    case 'hwb': return toXyzD65({ space: 'srgb', coords: hwbToSrgb(coords), alpha: color.alpha });
+    default: {
+      const space = RGB_SPACES[color.space];
+      return multiply(space.toXyz, coords.map(space.toLinear) as Vec3);
+    }
+  }
+}
+
+function fromXyzD65(xyz: Vec3, target: ColorSpace): Vec3 {
+  switch (target) {
+    case 'xyz-d65': return xyz;
+    case 'xyz-d50': return multiply(D65_TO_D50, xyz);
+    case 'lab': return xyzD50ToLab(multiply(D65_TO_D50, xyz));
+    case 'lch': return rectToPolar(xyzD50ToLab(multiply(D65_TO_D50, xyz)), 0.0015);
+    case 'oklab': return xyzToOklab(xyz);
+    case 'oklch': return rectToPolar(xyzToOklab(xyz), 0.000004);
+    case 'hsl': return srgbToHsl(fromXyzD65(xyz, 'srgb'));
+    case 'hwb': return srgbToHwb(fromXyzD65(xyz, 'srgb'));
+    default: {
+      const space = RGB_SPACES[target];
+      return multiply(space.fromXyz, xyz).map(space.fromLinear) as Vec3;
+    }
+  }
+}
+
+function convert(color: SpaceColor, target: ColorSpace): Vec3 {
+  if (color.space === target) return [color.coords[0], color.coords[1], color.coords[2]];
+
+  // hsl() and hwb() are sRGB in another shape; skipping the XYZ round trip keeps 8-bit values exact
+  const coords = color.coords.map(c => isNaN(c) ? 0 : c) as Vec3;
+  const srgb = color.space === 'srgb' ? coords
+    : color.space === 'hsl' ? hslToSrgb(coords)
+    : color.space === 'hwb' ? hwbToSrgb(coords)
+    : null;
+  if (srgb && target === 'srgb') return srgb;
+  if (srgb && target === 'hsl') return srgbToHsl(srgb);
+  if (srgb && target === 'hwb') return srgbToHwb(srgb);
+  return fromXyzD65(toXyzD65(color), target);
+}
+
+// -------- Gamut mapping --------
+
+// CSS Color 4: reduce OKLCH chroma until clipping the result is no longer noticeable
+const JND = 0.02;
+const GAMUT_EPSILON = 0.0001;
+
+function inSrgbGamut(rgb: Vec3): boolean {
+  return rgb.every(c => c >= -0.000075 && c <= 1.000075);
+}
+
+function clipSrgb(rgb: Vec3): Vec3 {
+  return rgb.map(c => Math.max(0, Math.min(1, c))) as Vec3;
+}
+
+function deltaEOK(rgb: Vec3, oklch: Vec3): number {
+  const [l1, a1, b1] = fromXyzD65(toXyzD65({ space: 'srgb', coords: rgb, alpha: 1 }), 'oklab');
+  const [l2, a2, b2] = polarToRect(oklch);
+  return Math.sqrt((l1 - l2) * (l1 - l2) + (a1 - a2) * (a1 - a2) + (b1 - b2) * (b1 - b2));
+}
+
+function mapToSrgb(color: SpaceColor): Vec3 {
+  const rgb = convert(color, 'srgb').map(c => isNaN(c) ? 0 : c) as Vec3;
+  if (inSrgbGamut(rgb)) return clipSrgb(rgb);
+
+  const [l, chroma, rawHue] = convert(color, 'oklch');
+  const hue = isNaN(rawHue) ? 0 : rawHue;
+  if (l >= 1) return [1, 1, 1];
+  if (l <= 0) return [0, 0, 0];
+
+  const atChroma = (c: number) => fromXyzD65(toXyzD65({ space: 'oklch', coords: [l, c, hue], alpha: 1 }), 'srgb');
+  let clipped = clipSrgb(rgb);
+  if (deltaEOK(clipped, [l, chroma, hue]) < JND) return clipped;
+
+  let min = 0;
+  let max = chroma;
+  let minInGamut = true;
+  while (max - min > GAMUT_EPSILON) {
+    const c = (min + max) / 2;
+    const current = atChroma(c);
+    if (minInGamut && inSrgbGamut(current)) {
+      min = c;
+      continue;
+    }
+    clipped = clipSrgb(current);
+    const error = deltaEOK(clipped, [l, c, hue]);
+    if (error < JND) {
+      if (JND - error < GAMUT_EPSILON) break;
+      minInGamut = false;
+      min = c;
+    } else {
+      max = c;
+    }
+  }
+  return clipped;
+}
+
+// -------- Parsing --------
+
+const HUE_UNITS: Record<string, number> = { deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+
+// What 100% maps to for each channel, or 'hue'; `scale` converts the stored coordinate to the
+// number relative color syntax exposes (rgb() channels are 0-255). `clamp` keeps channels within
+// their range, so out-of-range sRGB functions (`rgb(300 0 0)`) are clipped rather than gamut mapped.
+interface ChannelSyntax {
+  space: ColorSpace;
+  ranges: Array<number | 'hue'>;
+  keys: string[];
+  scale: number;
+  clamp?: boolean;
+}
+
+const FUNCTION_SYNTAX: Record<string, ChannelSyntax> = {
+  rgb: { space: 'srgb', ranges: [255, 255, 255], keys: ['r', 'g', 'b'], scale: 255, clamp: true },
+  hsl: { space: 'hsl', ranges: ['hue', 100, 100], keys: ['h', 's', 'l'], scale: 1, clamp: true },
+  hwb: { space: 'hwb', ranges: ['hue', 100, 100], keys: ['h', 'w', 'b'], scale: 1, clamp: true },
+  lab: { space: 'lab', ranges: [100, 125, 125], keys: ['l', 'a', 'b'], scale: 1 },
+  lch: { space: 'lch', ranges: [100, 150, 'hue'], keys: ['l', 'c', 'h'], scale: 1 },
+  oklab: { space: 'oklab', ranges: [1, 0.4, 0.4], keys: ['l', 'a', 'b'], scale: 1 },
+  oklch: { space: 'oklch', ranges: [1, 0.4, 'hue'], keys: ['l', 'c', 'h'], scale: 1 }
+};
+
+// Spaces color() and color-mix() accept beyond the function names above
+const PREDEFINED_SPACES: Record<string, ColorSpace> = {
+  'srgb': 'srgb',
+  'srgb-linear': 'srgb-linear',
+  'display-p3': 'display-p3',
+  'a98-rgb': 'a98-rgb',
+  'prophoto-rgb': 'prophoto-rgb',
+  'rec2020': 'rec2020',
+  'xyz': 'xyz-d65',
+  'xyz-d50': 'xyz-d50',
+  'xyz-d65': 'xyz-d65'
+};
+
+function closingParen(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function splitTopLevel(text: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (depth === 0 && separator.test(char)) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+// Channels and alpha in modern (`r g b / a`) or legacy (`r, g, b, a`) syntax
+function splitArguments(body: string): { channels: string[]; alpha?: string } | null {
+  const slashParts = splitTopLevel(body, /\//);
+  if (slashParts.length === 0 || slashParts.length > 2) return null;
+  const commaParts = splitTopLevel(slashParts[0], /,/);
+  if (commaParts.length > 1) {
+    if (slashParts.length > 1 || commaParts.length > 4) return null;
+    return { channels: commaParts.slice(0, 3), alpha: commaParts[3] };
+  }
+  return { channels: splitTopLevel(slashParts[0], /\s/), alpha: slashParts[1] };
+}
+
+function withUnit(value: number, unit: string | undefined, range: number | 'hue'): number | null {
+  if (!unit) return value;
+  if (unit === '%') return range === 'hue' ? null : value / 100 * range;
+  if (range === 'hue' && has(HUE_UNITS, unit)) return value * HUE_UNITS[unit];
+  return null;
+}
+
+// calc() over numbers, percentages, angles and relative-color channel keywords
+function evaluateCalc(expression: string, range: number | 'hue', keywords: Record<string, number>): number | null {
+  const tokens = expression.match(/(?:\d+\.?\d*|\.\d+)(?:%|[a-z]+)?|[a-z][\w-]*\(?|[-+*/()]/g) || [];
+  let position = 0;
+
+  const factor = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) return NaN;
+    if (token === '-') return -factor();
+    if (token === '+') return factor();
+    if (token === '(' || token.endsWith('(')) {
+      const value = sum();
+      return tokens[position++] === ')' ? value : NaN;
+    }
+    if (has(keywords, token)) return keywords[token];
+    if (token === 'pi') return Math.PI;
+    const match = /^([\d.]+)(%|[a-z]+)?$/.exec(token);
+    const value = match && withUnit(parseFloat(match[1]), match[2], range);
+    return value === null ? NaN : value;
+  };
+  const product = (): number => {
+    let value = factor();
+    while (tokens[position] === '*' || tokens[position] === '/') {
+      value = tokens[position++] === '*' ? value * factor() : value / factor();
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      value = tokens[position++] === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const result = sum();
+  return position === tokens.length && isFinite(result) ? result : null;
+}
+
+// NaN for `none`, null when the token is not valid for the channel
+function parseChannel(token: string, range: number | 'hue', keywords: Record<string, number>): number | null {
+  if (token === 'none') return NaN;
+  if (has(keywords, token)) return keywords[token];
+  if (/^calc\(/.test(token)) return evaluateCalc(token.slice(5, -1), range, keywords);
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|[a-z]+)?$/.exec(token);
+  return match ? withUnit(parseFloat(match[1]), match[2], range) : null;
+}
+
+// Channels of rgb()/hsl()/.../color(), with `from <color>` binding the channel keywords
+function resolveChannels(syntax: ChannelSyntax, channels: string[], alphaToken: string | undefined, origin: SpaceColor | null): SpaceColor | null {
+  const keywords: Record<string, number> = {};
+  let alpha = 1;
+  if (origin) {
+    const coords = convert(origin, syntax.space);
+    syntax.keys.forEach((key, i) => {
+      keywords[key] = (isNaN(coords[i]) ? 0 : coords[i]) * syntax.scale;
+    });
+    keywords.alpha = origin.alpha;
+    alpha = origin.alpha;
+  }
+  if (channels.length !== 3) return null;
+
+  const coords: number[] = [];
+  for (let i = 0; i < 3; i++) {
+    const range = syntax.ranges[i];
+    const value = parseChannel(channels[i], range, keywords);
+    if (value === null) return null;
+    coords.push(syntax.clamp && range !== 'hue' ? Math.max(0, Math.min(range, value)) / syntax.scale : value / syntax.scale);
+  }
+  if (alphaToken !== undefined) {
+    const value = parseChannel(alphaToken, 1, keywords);
+    if (value === null) return null;
+    alpha = isNaN(value) ? 1 : value;
+  }
+  return { space: syntax.space, coords: [coords[0], coords[1], coords[2]], alpha: Math.max(0, Math.min(1, alpha)) };
+}
+
+function parseHex(text: string): SpaceColor | null {
+  const hex = text.slice(1);
+  if (!/^[0-9a-f]+$/.test(hex) || [3, 4, 6, 8].indexOf(hex.length) === -1) return null;
+  const full = hex.length <= 4 ? hex.split('').map(char => char + char).join('') : hex;
+  const channel = (i: number) => parseInt(full.substr(i * 2, 2), 16) / 255;
+  return { space: 'srgb', coords: [channel(0), channel(1), channel(2)], alpha: full.length === 8 ? channel(3) : 1 };
+}
+
+// color(display-p3 1 0 0), color(from <color> srgb r g b)
+function parseColorFunction(body: string): SpaceColor | null {
+  const args = splitArguments(body);
+  if (!args) return null;
+  let channels = args.channels;
+  let origin: SpaceColor | null = null;
+  if (channels[0] === 'from') {
+    origin = parseSpaceColor(channels[1] || '');
+    if (!origin) return null;
+    channels = channels.slice(2);
+  }
+  const space = has(PREDEFINED_SPACES, channels[0]) ? PREDEFINED_SPACES[channels[0]] : null;
+  if (!space) return null;
+  const keys = space.startsWith('xyz') ? ['x', 'y', 'z'] : ['r', 'g', 'b'];
+  return resolveChannels({ space, ranges: [1, 1, 1], keys, scale: 1 }, channels.slice(1), args.alpha, origin);
+}
+
+function interpolateHue(from: number, to: number, t: number, method: string): number {
+  let a = (from % 360 + 360) % 360;
+  let b = (to % 360 + 360) % 360;
+  const delta = b - a;
+  if (method === 'longer') {
+    if (delta > 0 && delta < 180) a += 360;
+    else if (delta > -180 && delta <= 0) b += 360;
+  } else if (method === 'increasing') {
+    if (b < a) b += 360;
+  } else if (method === 'decreasing') {
+    if (a < b) a += 360;
+  } else if (delta > 180) {
+    a += 360;
+  } else if (delta < -180) {
+    b += 360;
+  }
+  return ((a + (b - a) * t) % 360 + 360) % 360;
+}
+
+// One `<color> <percentage>?` argument of color-mix(), in either order
+function parseMixStop(text: string): { color: SpaceColor; percentage?: number } | null {
+  const parts = splitTopLevel(text, /\s/);
+  if (parts.length === 0 || parts.length > 2) return null;
+  const percentIndex = parts.findIndex(part => /^[\d.]+%$/.test(part));
+  if (parts.length === 2 && percentIndex === -1) return null;
+  const color = parseSpaceColor(parts[percentIndex === 0 ? 1 : 0]);
+  if (!color) return null;
+  return { color, percentage: percentIndex === -1 ? undefined : parseFloat(parts[percentIndex]) };
+}
+
+// color-mix(in <space> [<hue> hue], <color> [<p>], <color> [<p>]): premultiplied interpolation,
+// missing components take the other color's value, and percentages summing below 100% fade the result
+function parseColorMix(body: string): SpaceColor | null {
+  const parts = splitTopLevel(body, /,/);
+  if (parts.length === 2) parts.unshift('in oklab');
+  if (parts.length !== 3) return null;
+
+  const method = /^in\s+([a-z0-9-]+)(?:\s+(shorter|longer|increasing|decreasing)\s+hue)?$/.exec(parts[0]);
+  if (!method) return null;
+  const space = has(FUNCTION_SYNTAX, method[1]) ? FUNCTION_SYNTAX[method[1]].space
+    : has(PREDEFINED_SPACES, method[1]) ? PREDEFINED_SPACES[method[1]] : null;
+  const hueIndex = space ? POLAR_HUE_INDEX[space] : undefined;
+  if (!space || (method[2] && hueIndex === undefined)) return null;
+
+  const first = parseMixStop(parts[1]);
+  const second = parseMixStop(parts[2]);
+  if (!first || !second) return null;
+
+  let p1 = first.percentage;
+  let p2 = second.percentage;
+  if (p1 === undefined && p2 === undefined) p1 = p2 = 50;
+  else if (p1 === undefined) p1 = 100 - (p2 as number);
+  else if (p2 === undefined) p2 = 100 - p1;
+  const total = (p1 as number) + (p2 as number);
+  if ((p1 as number) < 0 || (p2 as number) < 0 || (p1 as number) > 100 || (p2 as number) > 100 || total === 0) return null;
+  const t = (p2 as number) / total;
+
+  const a = convert(first.color, space);
+  const b = convert(second.color, space);
+  const alpha = first.color.alpha * (1 - t) + second.color.alpha * t;
+  const coords = [0, 1, 2].map(i => {
+    const from = isNaN(a[i]) ? (isNaN(b[i]) ? 0 : b[i]) : a[i];
+    const to = isNaN(b[i]) ? from : b[i];
+    if (i === hueIndex) return interpolateHue(from, to, t, method[2] || 'shorter');
+    const mixed = from * first.color.alpha * (1 - t) + to * second.color.alpha * t;
+    return alpha === 0 ? mixed : mixed / alpha;
+  });
+  return { space, coords: [coords[0], coords[1], coords[2]], alpha: alpha * Math.min(1, total / 100) };
+}
+
+function parseSpaceColor(text: string): SpaceColor | null {
+  if (text.startsWith('#')) return parseHex(text);
+  if (text === 'transparent') return { space: 'srgb', coords: [0, 0, 0], alpha: 0 };
+  if (has(NAMED_COLORS, text)) return parseHex(NAMED_COLORS[text]);
+
+  const fn = /^([a-z-]+)\(/.exec(text);
+  if (!fn || closingParen(text, fn[1].length) !== text.length - 1) return null;
+  const name = fn[1] === 'rgba' || fn[1] === 'hsla' ? fn[1].slice(0, 3) : fn[1];
+  const body = text.slice(fn[0].length, -1);
+
+  if (name === 'color-mix') return parseColorMix(body);
+  if (name === 'color') return parseColorFunction(body);
+  if (!has(FUNCTION_SYNTAX, name)) return null;
+
+  const args = splitArguments(body);
+  if (!args) return null;
+  if (args.channels[0] === 'from') {
+    const origin = parseSpaceColor(args.channels[1] || '');
+    return origin && resolveChannels(FUNCTION_SYNTAX[name], args.channels.slice(2), args.alpha, origin);
+  }
+  return resolveChannels(FUNCTION_SYNTAX[name], args.channels, args.alpha, null);
+}
+
+// -------- Public API --------
+
+// Any CSS color as sRGB (gamut mapped when it lies outside); null for var() references, currentcolor, system colors
+// and anything else that cannot be resolved from the value alone
+export function parseColor(value: string): RgbaColor | null {
+  if (!value || typeof value !== 'string') return null;
+  const color = parseSpaceColor(value.trim().toLowerCase());
+  if (!color) return null;
+  const [r, g, b] = mapToSrgb(color);
+  return { r, g, b, alpha: color.alpha };
+}
+
+// #rrggbb, alpha dropped
+export function rgbaToHex(color: RgbaColor): string {
+  const channel = (c: number) => {
+    const hex = Math.round(c * 255).toString(16);
+    return hex.length === 1 ? '0' + hex : hex;
+  };
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
+
+// Every color literal in a declaration value, as written: hex, color functions (nested ones
+// inside color-mix() or relative syntax are part of the outer color) and, with `keywords`,
+// named colors. Only values that resolve are returned, so `rgb(var(--x))` is skipped, unless
+// `references` asks for colors that resolve later: var(), color functions over var(), currentcolor
+// and transparent
+export function findColors(value: string, options: { keywords?: boolean; references?: boolean } = {}): string[] {
+  const found: string[] = [];
+  if (!value) return found;
+  const tokenRegex = /#[0-9a-f]+(?![\w-])|-?[a-z_][\w-]*\(?|["']/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(value)) !== null) {
+    const token = match[0];
+    if (token === '"' || token === "'") {
+      const end = value.indexOf(token, tokenRegex.lastIndex);
+      tokenRegex.lastIndex = end === -1 ? value.length : end + 1;
+    } else if (token.startsWith('#')) {
+      if (parseHex(token.toLowerCase())) found.push(token);
+    } else if (token.endsWith('(')) {
+      const name = token.slice(0, -1).toLowerCase();
+      const end = closingParen(value, match.index + token.length - 1);
+      if (name === 'url') {
+        tokenRegex.lastIndex = end === -1 ? value.length : end + 1;
+      } else if (end !== -1 && (COLOR_FUNCTIONS.indexOf(name) !== -1 || (options.references && name === 'var'))) {
+        const color = value.slice(match.index, end + 1);
+        // Unresolvable functions are scanned for literal colors inside them instead
+        if (parseColor(color) || (options.references && /var\(/i.test(color))) {
+          found.push(color);
+          tokenRegex.lastIndex = end + 1;
+        }
+      }
+    } else if (options.keywords && has(NAMED_COLORS, token.toLowerCase())) {
+      found.push(token);
+    } else if (options.references && /^(currentcolor|transparent)$/i.test(token)) {
+      found.push(token);
+    }
+  }
+  return found;
+}
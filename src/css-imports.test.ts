@@ -0,0 +1,117 @@
+import { resolveCssImports } from './css-imports';
+import { HttpClient } from './http-client';
+import { SecurityValidator } from './security';
+import type { CssImport } from './types';
+
+const BASE = 'https://example.com/css';
+
+// An HttpClient whose fetchCss serves `sheets` by URL and returns '' (like a failed fetch) otherwise
+function stubClient(sheets: Record<string, string>): HttpClient {
+  const client = new HttpClient({}, new SecurityValidator({ blockedHosts: [] }));
+  jest.spyOn(client, 'fetchCss').mockImplementation(async (url: string) => sheets[url] || '');
+  return client;
+}
+
+function compact(css: string): string {
+  return css.replace(/\s+/g, ' ').trim();
+}
+
+describe('resolveCssImports', () => {
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('inlines nested imports relative to the sheet that imports them', async () => {
+    const client = stubClient({
+      [`${BASE}/base.css`]: '@import "parts/buttons.css";\n.base { color: red; }',
+      [`${BASE}/parts/buttons.css`]: '.btn { color: blue; }'
+    });
+    const graph: CssImport[] = [];
+
+    const css = await resolveCssImports('@import url(base.css);\n.page { color: green; }', `${BASE}/main.css`, client, graph);
+
+    expect(compact(css)).toBe('.btn { color: blue; } .base { color: red; } .page { color: green; }');
+    expect(graph.map(entry => [entry.url, entry.importedFrom, entry.depth, entry.status])).toEqual([
+      [`${BASE}/base.css`, `${BASE}/main.css`, 1, 'resolved'],
+      [`${BASE}/parts/buttons.css`, `${BASE}/base.css`, 2, 'resolved']
+    ]);
+  });
+
+  it('wraps imported rules in the layer, supports and media conditions of the @import', async () => {
+    const client = stubClient({ [`${BASE}/theme.css`]: '.card { padding: 1rem; }' });
+    const graph: CssImport[] = [];
+
+    const css = await resolveCssImports(
+      '@import "theme.css" layer(components) supports(display: grid) screen and (min-width: 768px);',
+      `${BASE}/main.css`, client, graph
+    );
+
+    expect(compact(css)).toBe('@media screen and (min-width: 768px) { @supports (display: grid) { @layer components { .card { padding: 1rem; } } } }');
+    expect(graph[0]).toMatchObject({ layer: 'components', supports: 'display: grid', media: 'screen and (min-width: 768px)' });
+  });
+
+  it('wraps an anonymous layer import', async () => {
+    const client = stubClient({ [`${BASE}/reset.css`]: '* { margin: 0; }' });
+    const css = await resolveCssImports('@import "reset.css" layer;', `${BASE}/main.css`, client, []);
+    expect(compact(css)).toBe('@layer { * { margin: 0; } }');
+  });
+
+  it('stops at cycles without refetching the sheet', async () => {
+    const client = stubClient({
+      [`${BASE}/a.css`]: '@import "b.css";\n.a { color: red; }',
+      [`${BASE}/b.css`]: '@import "a.css";\n.b { color: blue; }'
+    });
+    const graph: CssImport[] = [];
+
+    const css = await resolveCssImports('@import "a.css";', `${BASE}/main.css`, client, graph);
+
+    expect(compact(css)).toBe('.b { color: blue; } .a { color: red; }');
+    expect(graph.map(entry => [entry.url, entry.status])).toEqual([
+      [`${BASE}/a.css`, 'resolved'],
+      [`${BASE}/b.css`, 'resolved'],
+      [`${BASE}/a.css`, 'cycle']
+    ]);
+    expect(client.fetchCss).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops descending past the depth limit', async () => {
+    const sheets: Record<string, string> = {};
+    for (let i = 1; i <= 8; i++) {
+      sheets[`${BASE}/level${i}.css`] = `@import "level${i + 1}.css";\n.level${i} { order: ${i}; }`;
+    }
+    const graph: CssImport[] = [];
+
+    const css = await resolveCssImports('@import "level1.css";', `${BASE}/main.css`, stubClient(sheets), graph);
+
+    const limited = graph.filter(entry => entry.status === 'depth-limit');
+    expect(limited).toEqual([expect.objectContaining({ url: `${BASE}/level6.css`, depth: 6 })]);
+    expect(css).toContain('.level5');
+    expect(css).not.toContain('.level6');
+  });
+
+  it('reports imports that fail to load and drops them', async () => {
+    const graph: CssImport[] = [];
+    const css = await resolveCssImports('@import "missing.css";\n.page { color: green; }', `${BASE}/main.css`, stubClient({}), graph);
+
+    expect(compact(css)).toBe('.page { color: green; }');
+    expect(graph[0]).toMatchObject({ url: `${BASE}/missing.css`, status: 'failed' });
+  });
+
+  it('rebases relative url() references onto the imported sheet', async () => {
+    const client = stubClient({
+      [`${BASE}/fonts/fonts.css`]: [
+        '@import "../icons/icons.css";',
+        '@font-face { font-family: Inter; src: url("inter.woff2") format("woff2"), url(/shared/inter.woff) format("woff"); }',
+        '.hero { background: url(\'../img/hero.png\') no-repeat, url(data:image/png;base64,AAAA); filter: url(#blur); }'
+      ].join('\n'),
+      [`${BASE}/icons/icons.css`]: '.icon { mask-image: url(sprite.svg#check); }'
+    });
+
+    const css = await resolveCssImports('@import "fonts/fonts.css";', `${BASE}/main.css`, client, []);
+
+    expect(css).toContain('.icon { mask-image: url(https://example.com/css/icons/sprite.svg#check); }');
+    expect(css).toContain('src: url("https://example.com/css/fonts/inter.woff2") format("woff2"), url(https://example.com/shared/inter.woff) format("woff")');
+    expect(css).toContain("background: url('https://example.com/css/img/hero.png') no-repeat, url(data:image/png;base64,AAAA)");
+    expect(css).toContain('filter: url(#blur)');
+  });
+});
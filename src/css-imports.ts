@@ -0,0 +1,176 @@
+import { AtRule, Root } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import { HttpClient } from './http-client';
+import type { CssImport } from './types';
+
+// Nested @import chains deeper than this are almost always generated bundles or loops
+const MAX_IMPORT_DEPTH = 5;
+
+interface ParsedImport {
+  href: string;
+  layer?: string;
+  supports?: string;
+  media?: string;
+}
+
+// Read a balanced "(...)" group starting at `start` (which must point at "(")
+function readParenGroup(input: string, start: number): string {
+  let depth = 0;
+  for (let i = start; i < input.length; i++) {
+    if (input[i] === '(') depth++;
+    if (input[i] === ')') {
+      depth--;
+      if (depth === 0) return input.slice(start + 1, i);
+    }
+  }
+  return input.slice(start + 1);
+}
+
+// Parse @import params: <url> [layer | layer(<name>)] [supports(<condition>)] [<media-query-list>]
+function parseImportParams(params: string): ParsedImport | null {
+  const urlMatch = params.trim().match(/^(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)\s*/i);
+  if (!urlMatch) return null;
+
+  const parsed: ParsedImport = { href: (urlMatch[2] || urlMatch[4]).trim() };
+  let rest = params.trim().slice(urlMatch[0].length).trim();
+
+  if (/^layer\b/i.test(rest)) {
+    rest = rest.slice(5);
+    if (rest.startsWith('(')) {
+      const name = readParenGroup(rest, 0);
+      parsed.layer = name.trim();
+      rest = rest.slice(name.length + 2);
+    } else {
+      parsed.layer = '';
+    }
+    rest = rest.trim();
+  }
+
+  if (/^supports\(/i.test(rest)) {
+    const condition = readParenGroup(rest, 8);
+    parsed.supports = condition.trim();
+    rest = rest.slice(8 + condition.length + 2).trim();
+  }
+
+  if (rest) parsed.media = rest;
+  return parsed;
+}
+
+// Wrap imported CSS so the conditions on the @import still apply to its rules
+function wrapWithConditions(css: string, parsed: ParsedImport): string {
+  let wrapped = css;
+  if (parsed.layer !== undefined) {
+    wrapped = `@layer${parsed.layer ? ` ${parsed.layer}` : ''} {\n${wrapped}\n}`;
+  }
+  if (parsed.supports) {
+    const condition = /^[\w-]+\s*\(/.test(parsed.supports) || parsed.supports.startsWith('(')
+      ? parsed.supports
+      : `(${parsed.supports})`;
+    wrapped = `@supports ${condition} {\n${wrapped}\n}`;
+  }
+  if (parsed.media) {
+    wrapped = `@media ${parsed.media} {\n${wrapped}\n}`;
+  }
+  return wrapped;
+}
+
+// Relative url() references resolve against the sheet they were written in, so make them
+// absolute before an imported sheet is inlined into its importer
+function rebaseUrls(root: Root, sheetUrl: string): void {
+  root.walkDecls(decl => {
+    if (!/url\(/i.test(decl.value)) return;
+    decl.value = decl.value.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi, (match, quote: string, href: string) => {
+      const trimmed = href.trim();
+      if (/^(?:data:|#)/i.test(trimmed)) return match;
+      try {
+        return `url(${quote}${new URL(trimmed, sheetUrl).href}${quote})`;
+      } catch (error) {
+        return match;
+      }
+    });
+  });
+}
+
+// Recursively inline @import rules found in `css`, resolving each URL relative to
+// the importing sheet. Every import encountered (including skipped ones) is pushed
+// onto `graph` so callers can report where their CSS came from.
+export async function resolveCssImports(
+  css: string,
+  sheetUrl: string,
+  httpClient: HttpClient,
+  graph: CssImport[],
+  chain: string[] = [sheetUrl],
+  cache: Map<string, Promise<string>> = new Map()
+): Promise<string> {
+  if (!/@import/i.test(css)) return css;
+
+  const root = safeParser(css);
+  const imports: AtRule[] = [];
+  root.walkAtRules('import', (rule: AtRule) => {
+    imports.push(rule);
+  });
+  if (imports.length === 0) return css;
+
+  const depth = chain.length;
+
+  for (const rule of imports) {
+    const parsed = parseImportParams(rule.params);
+    if (!parsed || parsed.href.startsWith('data:')) {
+      continue;
+    }
+
+    let url: string;
+    try {
+      url = new URL(parsed.href, sheetUrl).href;
+    } catch (error) {
+      continue;
+    }
+
+    const entry: CssImport = {
+      url,
+      importedFrom: sheetUrl,
+      depth,
+      status: 'resolved',
+      cssLength: 0
+    };
+    if (parsed.media) entry.media = parsed.media;
+    if (parsed.layer !== undefined) entry.layer = parsed.layer;
+    if (parsed.supports) entry.supports = parsed.supports;
+    graph.push(entry);
+
+    if (chain.includes(url)) {
+      entry.status = 'cycle';
+      rule.remove();
+      continue;
+    }
+    if (depth > MAX_IMPORT_DEPTH) {
+      entry.status = 'depth-limit';
+      rule.remove();
+      continue;
+    }
+
+    // The same sheet can be imported from several places - fetch it only once
+    if (!cache.has(url)) {
+      cache.set(url, httpClient.fetchCss(url).catch(error => {
+        console.warn(`Failed to fetch imported stylesheet: ${url}`, error);
+        return '';
+      }));
+    }
+    const importedCss = await cache.get(url)!;
+
+    // fetchCss swallows network errors and returns '', so an empty body is reported as failed
+    if (!importedCss) {
+      entry.status = 'failed';
+      rule.remove();
+      continue;
+    }
+
+    const resolvedCss = await resolveCssImports(importedCss, url, httpClient, graph, [...chain, url], cache);
+    entry.cssLength = resolvedCss.length;
+    const importedRoot = safeParser(wrapWithConditions(resolvedCss, parsed));
+    rebaseUrls(importedRoot, url);
+    rule.replaceWith(importedRoot.nodes);
+  }
+
+  return root.toString();
+}
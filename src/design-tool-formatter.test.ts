@@ -0,0 +1,100 @@
+import { analyzeColors } from './color-analysis';
+import { generateFigmaVariables, generateTokensStudio } from './design-tool-formatter';
+import { extractTokensFromCss } from './extractor';
+
+const CSS = `
+  :root { --brand: #2563eb; --radius: 0.5rem; --background: #ffffff; --foreground: #0f172a; --primary: var(--brand); }
+  .dark { --background: #0f172a; --foreground: #f8fafc; }
+  body { background: var(--background); color: var(--foreground); }
+  .btn { background: var(--primary); color: #ffffff; border-radius: var(--radius); }
+`;
+
+function toolInputs(css: string) {
+  const tokens = extractTokensFromCss(css);
+  return { tokens, colorAnalyses: analyzeColors(tokens.colors.frequency, tokens.colorsFromVariables || []) };
+}
+
+// Walk a Tokens Studio set and return every token path
+function studioPaths(set: Record<string, any>, prefix: string[] = []): string[] {
+  return Object.keys(set).reduce((paths: string[], key) => {
+    const node = set[key];
+    return node && '$value' in node ? [...paths, [...prefix, key].join('.')] : [...paths, ...studioPaths(node, [...prefix, key])];
+  }, []);
+}
+
+describe('generateFigmaVariables', () => {
+  const { tokens, colorAnalyses } = toolInputs(CSS);
+  const { meta, payload } = generateFigmaVariables(tokens, { source: 'https://example.com' }, colorAnalyses);
+  const valueOf = (id: string, modeId: string) => payload.variableModeValues.find(v => v.variableId === id && v.modeId === modeId)!.value;
+
+  it('creates primitives, base and theme collections with light and dark theme modes', () => {
+    expect(payload.variableCollections.map(c => [c.id, c.name, c.initialModeId])).toEqual([
+      ['collection:primitives', 'Primitives', 'mode:primitives:value'],
+      ['collection:base', 'Base', 'mode:base:value'],
+      ['collection:theme', 'Theme', 'mode:theme:light']
+    ]);
+    // Initial modes come with the collection and are only renamed
+    expect(payload.variableModes.map(m => [m.action, m.id, m.name])).toEqual([
+      ['UPDATE', 'mode:primitives:value', 'Value'],
+      ['UPDATE', 'mode:base:value', 'Value'],
+      ['UPDATE', 'mode:theme:light', 'Light'],
+      ['CREATE', 'mode:theme:dark', 'Dark']
+    ]);
+    expect(meta).toMatchObject({ format: 'figma-variables', collections: ['Primitives', 'Base', 'Theme'], variables: payload.variables.length });
+
+    const themeVariables = payload.variables.filter(v => v.variableCollectionId === 'collection:theme');
+    themeVariables.forEach(variable => {
+      expect(payload.variableModeValues.filter(v => v.variableId === variable.id).map(v => v.modeId))
+        .toEqual(['mode:theme:light', 'mode:theme:dark']);
+    });
+  });
+
+  it('exports variables that restate another as aliases to existing variables', () => {
+    const ids = new Set(payload.variables.map(v => v.id));
+    const aliases = payload.variableModeValues.filter(v => typeof v.value === 'object' && 'type' in v.value);
+    expect(aliases.length).toBe(meta.aliases);
+    aliases.forEach(alias => expect(ids.has((alias.value as { id: string }).id)).toBe(true));
+
+    expect(valueOf('var:site/primary', 'mode:primitives:value')).toEqual({ type: 'VARIABLE_ALIAS', id: 'var:site/brand' });
+    expect(valueOf('var:site/brand', 'mode:primitives:value')).toEqual({ r: 0.1451, g: 0.3882, b: 0.9216, a: 1 });
+    expect(valueOf('var:color/background', 'mode:theme:light')).toEqual({ type: 'VARIABLE_ALIAS', id: 'var:site/background' });
+    expect(valueOf('var:color/card', 'mode:theme:light')).toEqual({ type: 'VARIABLE_ALIAS', id: 'var:color/background' });
+    expect(valueOf('var:radius/lg', 'mode:base:value')).toEqual({ type: 'VARIABLE_ALIAS', id: 'var:radius/base' });
+    expect(valueOf('var:radius/sm', 'mode:base:value')).toBe(4);
+  });
+
+  it('has only a light mode without a dark scheme', () => {
+    const light = toolInputs(':root { --brand: #2563eb; } .btn { background: var(--brand); }');
+    const { payload: lightOnly } = generateFigmaVariables(light.tokens, {}, light.colorAnalyses);
+    expect(lightOnly.variableModes.filter(m => m.variableCollectionId === 'collection:theme').map(m => m.name)).toEqual(['Light']);
+  });
+});
+
+describe('generateTokensStudio', () => {
+  const { tokens, colorAnalyses } = toolInputs(CSS);
+  const studio = generateTokensStudio(tokens, colorAnalyses);
+
+  it('lays out shared primitive/base sets, one color set per mode and $themes switching them', () => {
+    expect(Object.keys(studio)).toEqual(['primitives', 'base', 'light', 'dark', '$themes', '$metadata']);
+    expect(studio.$metadata).toEqual({ tokenSetOrder: ['primitives', 'base', 'light', 'dark'] });
+    expect(studio.$themes).toEqual([
+      { id: 'light', name: 'Light', selectedTokenSets: { primitives: 'source', base: 'enabled', light: 'enabled' } },
+      { id: 'dark', name: 'Dark', selectedTokenSets: { primitives: 'source', base: 'enabled', dark: 'enabled' } }
+    ]);
+    expect(studioPaths(studio.light)).toEqual(studioPaths(studio.dark));
+  });
+
+  it('writes aliases as references to tokens in the enabled sets', () => {
+    expect(studio.primitives.site.primary).toEqual({ $type: 'color', $value: '{site.brand}' });
+    expect(studio.light.color.background).toEqual({ $type: 'color', $value: '{site.background}' });
+    expect(studio.light.color.card).toEqual({ $type: 'color', $value: '{color.background}' });
+    expect(studio.base.radius.sm).toEqual({ $type: 'borderRadius', $value: '{radius.base} - 4px' });
+
+    ['light', 'dark'].forEach(mode => {
+      const available = new Set([...studioPaths(studio.primitives), ...studioPaths(studio.base), ...studioPaths(studio[mode])]);
+      const references = JSON.stringify(studio[mode]).match(/\{[\w.-]+\}/g) || [];
+      expect(references.length).toBeGreaterThan(0);
+      references.forEach(reference => expect(available.has(reference.slice(1, -1))).toBe(true));
+    });
+  });
+});
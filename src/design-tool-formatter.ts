@@ -0,0 +1,463 @@
+// Design-tool exports of the role-resolved theme: Figma Variables (the REST/plugin import body)
+// and Tokens Studio token sets. Both share one token model - the site's own custom properties as
+// primitives, the shadcn color roles per mode, and radius/font/shadow design variables - so a
+// role that equals a site variable is exported as an alias to it rather than a retyped value.
+
+import { formatHexAlpha, generateShadcnTheme, parseCssColor } from './color-analysis';
+import { parseShadowLayers } from './design-variables';
+import type {
+  ColorAnalysis,
+  ExtractedTokens,
+  FigmaVariablesPayload,
+  FigmaVariableValue,
+  TokensStudioShadow,
+  TokensStudioToken
+} from './types';
+
+type ToolTokenKind = 'color' | 'dimension' | 'number' | 'fontFamily' | 'shadow';
+type ToolTokenGroup = 'primitives' | 'base' | 'theme';
+
+// literal: a plain value; alias: another token; math: a Tokens Studio expression over references,
+// with the evaluated literal for tools that cannot do math (absent when we cannot evaluate it)
+type ToolTokenValue =
+  | { literal: string }
+  | { alias: ToolToken }
+  | { math: string; literal?: string };
+
+interface ToolToken {
+  variable: string; // CSS custom property the token stands for
+  path: string[];
+  kind: ToolTokenKind;
+  group: ToolTokenGroup;
+  values: Record<string, ToolTokenValue>; // 'value' for single-mode groups, 'light'/'dark' for the theme
+  references?: number;
+}
+
+interface ToolTokenSet {
+  primitives: ToolToken[];
+  base: ToolToken[];
+  theme: ToolToken[];
+  hasDark: boolean;
+}
+
+// Theme roles that shadcn derives from another role; exported as aliases while the values agree
+const THEME_ALIASES: Record<string, string> = {
+  '--card': '--background',
+  '--popover': '--background',
+  '--card-foreground': '--foreground',
+  '--popover-foreground': '--foreground',
+  '--input': '--border',
+  '--sidebar-foreground': '--foreground',
+  '--sidebar-primary': '--primary',
+  '--sidebar-primary-foreground': '--primary-foreground',
+  '--sidebar-accent-foreground': '--foreground',
+  '--sidebar-ring': '--ring'
+};
+
+// shadcn's radius scale relative to --radius, in px
+const RADIUS_STEPS: Array<[string, number]> = [['sm', -4], ['md', -2], ['lg', 0], ['xl', 4]];
+
+const FONT_VARIABLES = ['--font-sans', '--font-serif', '--font-mono'];
+
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+function toPx(value: string): number | null {
+  const match = /^(-?[\d.]+)(px|rem|em)$/.exec(value.trim());
+  if (!match) return null;
+  return round(parseFloat(match[1]) * (match[2] === 'px' ? 1 : 16));
+}
+
+function firstFamily(stack: string): string {
+  return stack.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+}
+
+// Neither tool accepts "." inside a token name
+function tokenName(variable: string): string {
+  return variable.replace(/^--/, '').replace(/\./g, '_');
+}
+
+function classifyPrimitive(variable: string, value: string): ToolTokenKind | null {
+  if (!value || value.includes('var(')) return null;
+  if (/font/i.test(variable) && !/size|weight|height|spacing|feature/i.test(variable) && /^['"]?[a-z]/i.test(value)) {
+    return 'fontFamily';
+  }
+  if (parseCssColor(value)) return 'color';
+  if (toPx(value) !== null) return 'dimension';
+  if (/^-?[\d.]+$/.test(value.trim())) return 'number';
+  return null;
+}
+
+function primitiveLiteral(kind: ToolTokenKind, value: string): string {
+  if (kind === 'color') return formatHexAlpha(parseCssColor(value)!);
+  if (kind === 'fontFamily') return firstFamily(value);
+  return value.trim();
+}
+
+// calc(var(--space) * 2) -> {site.space} * 2, when every var() is an exported primitive and the
+// rest is plain arithmetic on px/rem/unitless numbers
+function calcToMath(expression: string, byVariable: Record<string, ToolToken>): { math: string; kind: ToolTokenKind } | null {
+  const match = /^calc\((.*)\)$/.exec(expression.trim());
+  if (!match) return null;
+
+  let kind: ToolTokenKind | null = null;
+  let unresolved = false;
+  const math = match[1].replace(/var\((--[\w-]+)\)/g, (reference, variable: string) => {
+    const target = byVariable[variable];
+    if (!target || (target.kind !== 'dimension' && target.kind !== 'number')) {
+      unresolved = true;
+      return reference;
+    }
+    kind = kind || target.kind;
+    return `{${target.path.join('.')}}`;
+  });
+
+  const remainder = math.replace(/\{[^}]+\}/g, ' ');
+  if (unresolved || !kind || !/^(?:[\s+\-*/()]|\d*\.?\d+(?:px|rem)?)*$/.test(remainder)) return null;
+  return { math: math.trim(), kind };
+}
+
+// The site's custom properties that carry a color, length, number or font family. Single var()
+// references stay aliases; calc() over other primitives becomes math (Tokens Studio only).
+function buildPrimitives(customProperties: ExtractedTokens['customProperties']): ToolToken[] {
+  const primitives: ToolToken[] = [];
+  const byVariable: Record<string, ToolToken> = {};
+  const deferred: Array<[string, ExtractedTokens['customProperties'][string]]> = [];
+
+  Object.keys(customProperties).sort().forEach(variable => {
+    const property = customProperties[variable];
+    const kind = classifyPrimitive(variable, property.value);
+    if (!kind) {
+      if (property.expression) deferred.push([variable, property]);
+      return;
+    }
+    const token: ToolToken = {
+      variable,
+      path: ['site', tokenName(variable)],
+      kind,
+      group: 'primitives',
+      values: { value: { literal: primitiveLiteral(kind, property.value) } },
+      references: property.references
+    };
+    primitives.push(token);
+    byVariable[variable] = token;
+  });
+
+  // Aliases once every literal exists; an alias to a property we could not export stays literal
+  primitives.forEach(token => {
+    const refVariable = customProperties[token.variable].refVariable;
+    const target = refVariable ? byVariable[refVariable] : undefined;
+    if (target && target !== token && target.kind === token.kind) {
+      token.values.value = { alias: target };
+    }
+  });
+
+  deferred.forEach(([variable, property]) => {
+    const converted = calcToMath(property.expression!, byVariable);
+    if (!converted) return;
+    const token: ToolToken = {
+      variable,
+      path: ['site', tokenName(variable)],
+      kind: converted.kind,
+      group: 'primitives',
+      values: { value: { math: converted.math } },
+      references: property.references
+    };
+    primitives.push(token);
+    byVariable[variable] = token;
+  });
+
+  return primitives;
+}
+
+function buildBaseTokens(light: Record<string, string>): ToolToken[] {
+  const base: ToolToken[] = [];
+
+  const radiusPx = light['--radius'] ? toPx(light['--radius']) : null;
+  if (radiusPx !== null) {
+    const radius: ToolToken = {
+      variable: '--radius',
+      path: ['radius', 'base'],
+      kind: 'dimension',
+      group: 'base',
+      values: { value: { literal: `${radiusPx}px` } }
+    };
+    base.push(radius);
+    RADIUS_STEPS.forEach(([step, offset]) => {
+      base.push({
+        variable: `--radius-${step}`,
+        path: ['radius', step],
+        kind: 'dimension',
+        group: 'base',
+        values: {
+          value: offset === 0
+            ? { alias: radius }
+            : { math: `{radius.base} ${offset < 0 ? '-' : '+'} ${Math.abs(offset)}px`, literal: `${Math.max(0, radiusPx + offset)}px` }
+        }
+      });
+    });
+  }
+
+  FONT_VARIABLES.forEach(variable => {
+    if (!light[variable]) return;
+    base.push({
+      variable,
+      path: ['font', variable.replace('--font-', '')],
+      kind: 'fontFamily',
+      group: 'base',
+      values: { value: { literal: firstFamily(light[variable]) } }
+    });
+  });
+
+  Object.keys(light).filter(variable => /^--shadow(-|$)/.test(variable)).forEach(variable => {
+    base.push({
+      variable,
+      path: ['shadow', variable === '--shadow' ? 'default' : variable.replace('--shadow-', '')],
+      kind: 'shadow',
+      group: 'base',
+      values: { value: { literal: light[variable] } }
+    });
+  });
+
+  return base;
+}
+
+// One color token per theme role. Per mode, a role aliases the role it derives from while the
+// values agree, then a site primitive with the same color (same name first, then most used),
+// and only otherwise carries the color itself.
+function buildThemeTokens(light: Record<string, string>, dark: Record<string, string> | undefined, primitives: ToolToken[]): ToolToken[] {
+  const primitivesByColor: Record<string, ToolToken[]> = {};
+  primitives.forEach(token => {
+    const value = token.values.value;
+    if (token.kind !== 'color' || !('literal' in value) || !value.literal) return;
+    (primitivesByColor[value.literal] = primitivesByColor[value.literal] || []).push(token);
+  });
+
+  // Roles derived from an undetected role (--sidebar-primary without a primary) are left undefined
+  const variables = Object.keys(light).filter(variable => !/^--(radius|font-|shadow)/.test(variable) && light[variable] && parseCssColor(light[variable]));
+  const theme: ToolToken[] = variables.map(variable => ({
+    variable,
+    path: ['color', tokenName(variable)],
+    kind: 'color' as ToolTokenKind,
+    group: 'theme' as ToolTokenGroup,
+    values: {}
+  }));
+  const byVariable: Record<string, ToolToken> = {};
+  theme.forEach(token => { byVariable[token.variable] = token; });
+
+  const modes: Array<[string, Record<string, string>]> = [['light', light]];
+  if (dark) modes.push(['dark', { ...light, ...dark }]);
+
+  modes.forEach(([mode, values]) => {
+    const literalOf = (variable: string) => {
+      const color = values[variable] ? parseCssColor(values[variable]) : null;
+      return color ? formatHexAlpha(color) : null;
+    };
+
+    theme.forEach(token => {
+      const literal = literalOf(token.variable);
+      if (!literal) return;
+
+      const parent = THEME_ALIASES[token.variable];
+      if (parent && byVariable[parent] && literalOf(parent) === literal) {
+        token.values[mode] = { alias: byVariable[parent] };
+        return;
+      }
+
+      const matches = primitivesByColor[literal];
+      if (matches) {
+        const name = tokenName(token.variable);
+        const primitive = matches.slice().sort((a, b) =>
+          Number(b.path[1] === name) - Number(a.path[1] === name) || (b.references || 0) - (a.references || 0)
+        )[0];
+        token.values[mode] = { alias: primitive };
+        return;
+      }
+
+      token.values[mode] = { literal };
+    });
+  });
+
+  return theme.filter(token => token.values.light);
+}
+
+function buildToolTokens(tokens: ExtractedTokens, colorAnalyses: ColorAnalysis[]): ToolTokenSet {
+  const shadcnTheme = generateShadcnTheme(colorAnalyses, 'hex', tokens.colorSchemes, tokens);
+  const primitives = buildPrimitives(tokens.customProperties || {});
+  return {
+    primitives,
+    base: buildBaseTokens(shadcnTheme.light),
+    theme: buildThemeTokens(shadcnTheme.light, shadcnTheme.dark, primitives),
+    hasDark: !!shadcnTheme.dark
+  };
+}
+
+// -------- Figma Variables --------
+
+const FIGMA_TYPES: Record<Exclude<ToolTokenKind, 'shadow'>, FigmaVariablesPayload['variables'][number]['resolvedType']> = {
+  color: 'COLOR',
+  dimension: 'FLOAT',
+  number: 'FLOAT',
+  fontFamily: 'STRING'
+};
+
+function figmaId(token: ToolToken): string {
+  return `var:${token.path.join('/')}`;
+}
+
+function figmaLiteral(kind: ToolTokenKind, literal: string): FigmaVariableValue | null {
+  if (kind === 'color') {
+    const color = parseCssColor(literal);
+    if (!color) return null;
+    const channel = (offset: number) => round(parseInt(color.hex.slice(offset, offset + 2), 16) / 255);
+    // Literals carry alpha as an 8-digit hex pair; two decimals undo its 1/255 quantization
+    return { r: channel(1), g: channel(3), b: channel(5), a: Math.round(color.alpha * 100) / 100 };
+  }
+  if (kind === 'dimension') return toPx(literal);
+  if (kind === 'number') return parseFloat(literal);
+  return literal;
+}
+
+function figmaValue(token: ToolToken, value: ToolTokenValue): FigmaVariableValue | null {
+  if ('alias' in value) return { type: 'VARIABLE_ALIAS', id: figmaId(value.alias) };
+  return value.literal === undefined ? null : figmaLiteral(token.kind, value.literal);
+}
+
+// Tokens Figma can hold: no shadows (variables have no effect type) and no unevaluated math,
+// nor anything aliasing a token that was dropped for those reasons
+function figmaExportable(tokens: ToolToken[]): ToolToken[] {
+  const kept = new Set<ToolToken>();
+  const check = (token: ToolToken, seen: ToolToken[]): boolean => {
+    if (kept.has(token)) return true;
+    if (token.kind === 'shadow' || seen.indexOf(token) !== -1) return false;
+    const ok = Object.keys(token.values).every(mode => {
+      const value = token.values[mode];
+      if ('alias' in value) return check(value.alias, [...seen, token]);
+      return value.literal !== undefined && figmaLiteral(token.kind, value.literal) !== null;
+    });
+    if (ok) kept.add(token);
+    return ok;
+  };
+  return tokens.filter(token => check(token, []));
+}
+
+export function generateFigmaVariables(tokens: ExtractedTokens, meta: any, colorAnalyses: ColorAnalysis[]): { meta: any; payload: FigmaVariablesPayload } {
+  const set = buildToolTokens(tokens, colorAnalyses);
+  const exportable = figmaExportable([...set.primitives, ...set.base, ...set.theme]);
+  const payload: FigmaVariablesPayload = { variableCollections: [], variableModes: [], variables: [], variableModeValues: [] };
+
+  const collections: Array<{ group: ToolTokenGroup; name: string; modes: Array<[string, string]> }> = [
+    { group: 'primitives', name: 'Primitives', modes: [['value', 'Value']] },
+    { group: 'base', name: 'Base', modes: [['value', 'Value']] },
+    { group: 'theme', name: 'Theme', modes: set.hasDark ? [['light', 'Light'], ['dark', 'Dark']] : [['light', 'Light']] }
+  ];
+
+  collections.forEach(collection => {
+    const members = exportable.filter(token => token.group === collection.group);
+    if (members.length === 0) return;
+
+    const collectionId = `collection:${collection.group}`;
+    const modeId = (mode: string) => `mode:${collection.group}:${mode}`;
+    payload.variableCollections.push({ action: 'CREATE', id: collectionId, name: collection.name, initialModeId: modeId(collection.modes[0][0]) });
+    collection.modes.forEach(([mode, name], index) => {
+      // The initial mode exists once the collection does; it only needs its name
+      payload.variableModes.push({ action: index === 0 ? 'UPDATE' : 'CREATE', id: modeId(mode), name, variableCollectionId: collectionId });
+    });
+
+    members.forEach(token => {
+      const variable: FigmaVariablesPayload['variables'][number] = {
+        action: 'CREATE',
+        id: figmaId(token),
+        name: token.path.join('/'),
+        variableCollectionId: collectionId,
+        resolvedType: FIGMA_TYPES[token.kind as Exclude<ToolTokenKind, 'shadow'>],
+        codeSyntax: { WEB: `var(${token.variable})` }
+      };
+      if (token.path[0] === 'radius') variable.scopes = ['CORNER_RADIUS'];
+      if (token.kind === 'fontFamily') variable.scopes = ['FONT_FAMILY'];
+      payload.variables.push(variable);
+
+      collection.modes.forEach(([mode]) => {
+        const value = figmaValue(token, token.values[mode] || token.values.light);
+        if (value !== null) payload.variableModeValues.push({ variableId: figmaId(token), modeId: modeId(mode), value });
+      });
+    });
+  });
+
+  return {
+    meta: {
+      ...meta,
+      format: 'figma-variables',
+      collections: payload.variableCollections.map(c => c.name),
+      variables: payload.variables.length,
+      aliases: payload.variableModeValues.filter(v => typeof v.value === 'object' && 'type' in v.value).length
+    },
+    payload
+  };
+}
+
+// -------- Tokens Studio --------
+
+function studioToken(token: ToolToken, value: ToolTokenValue): TokensStudioToken | null {
+  const type: TokensStudioToken['$type'] =
+    token.kind === 'shadow' ? 'boxShadow'
+      : token.kind === 'fontFamily' ? 'fontFamilies'
+        : token.path[0] === 'radius' ? 'borderRadius'
+          : token.kind;
+
+  if ('alias' in value) return { $type: type, $value: `{${value.alias.path.join('.')}}` };
+  if ('math' in value) return { $type: type, $value: value.math };
+  if (token.kind === 'shadow') {
+    const layers = parseShadowLayers(value.literal);
+    if (!layers) return null;
+    const shadows = layers.map((layer): TokensStudioShadow => ({
+      x: layer.offsetX,
+      y: layer.offsetY,
+      blur: layer.blur,
+      spread: layer.spread,
+      color: formatHexAlpha(layer.color),
+      type: layer.inset ? 'innerShadow' : 'dropShadow'
+    }));
+    return { $type: type, $value: shadows.length === 1 ? shadows[0] : shadows };
+  }
+  return { $type: type, $value: token.kind === 'number' ? parseFloat(value.literal) : value.literal };
+}
+
+function addToSet(set: Record<string, any>, token: ToolToken, value: ToolTokenValue | undefined): void {
+  const studio = value ? studioToken(token, value) : null;
+  if (!studio) return;
+  let node = set;
+  token.path.slice(0, -1).forEach(segment => {
+    node = node[segment] = node[segment] || {};
+  });
+  node[token.path[token.path.length - 1]] = studio;
+}
+
+// A single multi-set JSON file (Tokens Studio "Load from file"): primitives and base shared by both
+// themes, one color set per mode, and $themes that switch between them
+export function generateTokensStudio(tokens: ExtractedTokens, colorAnalyses: ColorAnalysis[]): Record<string, any> {
+  const set = buildToolTokens(tokens, colorAnalyses);
+  const sets: Record<string, Record<string, any>> = { primitives: {}, base: {}, light: {} };
+  if (set.hasDark) sets.dark = {};
+
+  set.primitives.forEach(token => addToSet(sets.primitives, token, token.values.value));
+  set.base.forEach(token => addToSet(sets.base, token, token.values.value));
+  set.theme.forEach(token => {
+    addToSet(sets.light, token, token.values.light);
+    if (sets.dark) addToSet(sets.dark, token, token.values.dark || token.values.light);
+  });
+
+  const modes = set.hasDark ? ['light', 'dark'] : ['light'];
+  return {
+    ...sets,
+    $themes: modes.map(mode => ({
+      id: mode,
+      name: mode === 'light' ? 'Light' : 'Dark',
+      selectedTokenSets: { primitives: 'source', base: 'enabled', [mode]: 'enabled' }
+    })),
+    $metadata: {
+      tokenSetOrder: Object.keys(sets)
+    }
+  };
+}
@@ -0,0 +1,27 @@
+import { deriveShadcnDesignVariables } from './design-variables';
+import { extractTokensFromCss } from './extractor';
+
+describe('deriveShadcnDesignVariables', () => {
+  it('reads rem radii against the site root font-size', () => {
+    const tokens = extractTokensFromCss(`
+      html { font-size: 62.5%; }
+      .card { border-radius: 1rem; }
+      .button { border-radius: 10px; }
+      .input { border-radius: 10px; }
+    `);
+    const variables = deriveShadcnDesignVariables(tokens);
+
+    // On a 10px root 1rem and 10px are one radius, written back in the site's rem
+    expect(variables['--radius']).toMatchObject({ value: '1rem', source: '10px', confidence: 1 });
+  });
+
+  it('falls back to a 16px root without a detected one', () => {
+    const variables = deriveShadcnDesignVariables({
+      fontFamilies: { values: [], frequency: [] },
+      radii: { values: ['0.5rem'], frequency: [{ value: '0.5rem', count: 2, prevalence: 100 }] },
+      shadows: { values: [], frequency: [] }
+    });
+
+    expect(variables['--radius'].value).toBe('0.5rem');
+  });
+});
@@ -0,0 +1,251 @@
+import { parseCssColor } from './color-analysis';
+import { findColors } from './css-color';
+import type { ExtractedTokens, DesignVariableSource, FontInventory, FrequencyItem } from './types';
+
+// shadcn defaults, used when the site gives us nothing to go on
+export const DEFAULT_FONT_STACKS = {
+  sans: "ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', sans-serif, 'Apple Color Emoji', 'Segoe UI Emoji', 'Segoe UI Symbol', 'Noto Color Emoji'",
+  serif: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
+  mono: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace'
+};
+
+export const DEFAULT_RADIUS = '0.5rem';
+
+export const SHADOW_SCALE = ['--shadow-2xs', '--shadow-xs', '--shadow-sm', '--shadow', '--shadow-md', '--shadow-lg', '--shadow-xl', '--shadow-2xl'];
+
+export const DEFAULT_SHADOWS: Record<string, string> = {
+  '--shadow-2xs': '0 1px 3px 0px hsl(0 0% 0% / 0.05)',
+  '--shadow-xs': '0 1px 3px 0px hsl(0 0% 0% / 0.05)',
+  '--shadow-sm': '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10)',
+  '--shadow': '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10)',
+  '--shadow-md': '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 2px 4px -1px hsl(0 0% 0% / 0.10)',
+  '--shadow-lg': '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 4px 6px -1px hsl(0 0% 0% / 0.10)',
+  '--shadow-xl': '0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 8px 10px -1px hsl(0 0% 0% / 0.10)',
+  '--shadow-2xl': '0 1px 3px 0px hsl(0 0% 0% / 0.25)'
+};
+
+// Fewer observations than this and a winner is not trusted fully
+const MIN_EVIDENCE = 3;
+
+const GENERIC_FAMILIES = /^(sans-serif|serif|monospace|cursive|fantasy|system-ui|ui-sans-serif|ui-serif|ui-monospace|ui-rounded|math|emoji|fangsong|-apple-system|blinkmacsystemfont|inherit|initial|unset|revert)$/i;
+const ICON_FONTS = /icon|awesome|glyph|dashicons|material symbols|icomoon|fontello|feather|ionicons|emoji/i;
+const MONO_FONTS = /mono|code|consolas|menlo|monaco|courier|sfmono|inconsolata|hack\b|iosevka|jetbrains/i;
+const SERIF_FONTS = /serif|georgia|times|garamond|baskerville|cambria|didot|bodoni|playfair|merriweather|lora|tiempos|charter|caslon|palatino|crimson|libre caslon|spectral|newsreader|fraunces|source serif|pt serif|noto serif/i;
+
+type FontClass = 'sans' | 'serif' | 'mono';
+
+// The generic family a stack ends with is the site's own classification; the name is a guess
+function classifyFamily(family: string, generic?: string): FontClass {
+  if (generic && /monospace/i.test(generic)) return 'mono';
+  if (generic && /^(ui-)?serif$/i.test(generic)) return 'serif';
+  if (generic && /sans-serif|system-ui/i.test(generic)) return 'sans';
+  if (MONO_FONTS.test(family)) return 'mono';
+  // "sans" wins over "serif" in names like "Noto Sans" / "IBM Plex Sans"
+  if (/\bsans\b/i.test(family)) return 'sans';
+  if (SERIF_FONTS.test(family)) return 'serif';
+  return 'sans';
+}
+
+// Share of the evidence the winner holds, discounted when there is little evidence overall
+function confidence(winnerCount: number, total: number): number {
+  if (total === 0) return 0;
+  return +(winnerCount / total * Math.min(1, total / MIN_EVIDENCE)).toFixed(2);
+}
+
+function quoteFamily(family: string): string {
+  return /^[\w-]+$/.test(family) ? family : `"${family}"`;
+}
+
+interface FontCandidate {
+  family: string;
+  count: number;
+  loaded: boolean;
+}
+
+// With a font inventory, families the page actually loads beat system fallbacks that merely
+// appear in more stacks; without one, the most declared family of each class wins
+function deriveFonts(fontFamilies: FrequencyItem[], variables: Record<string, DesignVariableSource>, fonts?: FontInventory): void {
+  const byClass: Record<FontClass, FontCandidate[]> = { sans: [], serif: [], mono: [] };
+  if (fonts) {
+    fonts.families.forEach(entry => {
+      if (entry.status === 'generic' || entry.usage === 0 || GENERIC_FAMILIES.test(entry.family) || ICON_FONTS.test(entry.family)) return;
+      byClass[classifyFamily(entry.family, entry.generic)].push({ family: entry.family, count: entry.usage, loaded: entry.status === 'loaded' });
+    });
+  } else {
+    fontFamilies.forEach(item => {
+      const family = item.value.trim();
+      if (!family || family.includes('var(') || GENERIC_FAMILIES.test(family) || ICON_FONTS.test(family)) return;
+      byClass[classifyFamily(family)].push({ family, count: item.count, loaded: false });
+    });
+  }
+
+  (Object.keys(byClass) as FontClass[]).forEach(fontClass => {
+    const name = `--font-${fontClass}`;
+    const candidates = byClass[fontClass].sort((a, b) => Number(b.loaded) - Number(a.loaded) || b.count - a.count);
+    if (candidates.length === 0) {
+      variables[name] = { value: DEFAULT_FONT_STACKS[fontClass], source: null, confidence: 0 };
+      return;
+    }
+    // Keep the default stack as the fallback chain behind the site's family
+    const total = candidates.reduce((sum, item) => sum + item.count, 0);
+    variables[name] = {
+      value: `${quoteFamily(candidates[0].family)}, ${DEFAULT_FONT_STACKS[fontClass]}`,
+      source: candidates[0].family,
+      confidence: confidence(candidates[0].count, total)
+    };
+  });
+}
+
+// rem/em against the site's root font-size (detectRootFontSize), as the type and spacing scales use
+function toPx(length: string, rootPx: number): number | null {
+  const match = length.trim().match(/^(-?[\d.]+)(px|rem|em)?$/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  const unit = (match[2] || 'px').toLowerCase();
+  return unit === 'px' ? value : value * rootPx;
+}
+
+// The root font-size the extractor detected; 16 for tokens that predate it
+function rootFontSize(tokens?: Pick<ExtractedTokens, 'spacingScale' | 'typeScale'>): number {
+  if (tokens && tokens.spacingScale) return tokens.spacingScale.rootPx;
+  if (tokens && tokens.typeScale) return tokens.typeScale.rootPx;
+  return 16;
+}
+
+function deriveRadius(radii: FrequencyItem[], variables: Record<string, DesignVariableSource>, rootPx: number): void {
+  // Group equivalent lengths (8px == 0.5rem); 0, percentages and pill values say nothing about the base radius
+  const groups = new Map<number, { count: number; sources: FrequencyItem[] }>();
+  radii.forEach(item => {
+    const px = toPx(item.value, rootPx);
+    if (px === null || px <= 0 || px >= 100) return;
+    const group = groups.get(px) || { count: 0, sources: [] };
+    group.count += item.count;
+    group.sources.push(item);
+    groups.set(px, group);
+  });
+
+  const ranked = Array.from(groups.entries()).sort((a, b) => b[1].count - a[1].count);
+  if (ranked.length === 0) {
+    variables['--radius'] = { value: DEFAULT_RADIUS, source: null, confidence: 0 };
+    return;
+  }
+
+  const [px, group] = ranked[0];
+  const total = ranked.reduce((sum, [, g]) => sum + g.count, 0);
+  variables['--radius'] = {
+    value: `${+(px / rootPx).toFixed(4)}rem`,
+    source: group.sources.sort((a, b) => b.count - a.count)[0].value,
+    confidence: confidence(group.count, total)
+  };
+}
+
+// Split on commas outside parentheses: "0 1px rgba(0,0,0,.1), 0 2px #000" -> two layers
+export function splitLayers(value: string): string[] {
+  const layers: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      layers.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) layers.push(current.trim());
+  return layers;
+}
+
+// One box-shadow layer with its lengths as written; null when a layer is not plain
+// lengths plus a color (var(), calc(), keywords)
+export interface ShadowLayer {
+  inset: boolean;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  color: { hex: string; alpha: number }; // currentColor (no color given) reads as opaque black
+}
+
+export function parseShadowLayers(value: string): ShadowLayer[] | null {
+  const layers = splitLayers(value).map(layer => {
+    const [written] = findColors(layer, { keywords: true });
+    const color = written ? parseCssColor(written) : null;
+    const lengths: string[] = [];
+    let inset = false;
+
+    for (const part of layer.replace(written || '', ' ').trim().split(/\s+/)) {
+      if (part.toLowerCase() === 'inset') inset = true;
+      else if (/^-?\d*\.?\d+(px|rem|em)?$/.test(part)) lengths.push(part);
+      else if (part) return null;
+    }
+    if (lengths.length < 2 || lengths.length > 4) return null;
+
+    return {
+      inset,
+      offsetX: lengths[0],
+      offsetY: lengths[1],
+      blur: lengths[2] || '0',
+      spread: lengths[3] || '0',
+      color: color || { hex: '#000000', alpha: 1 }
+    };
+  });
+  return layers.some(layer => !layer) ? null : layers as ShadowLayer[];
+}
+
+// How far a shadow lifts its element: offset-y plus blur of the deepest outer layer.
+// Returns null for values that are not elevation shadows (none, inset-only, focus rings).
+function shadowElevation(value: string, rootPx: number): number | null {
+  if (/^(none|inherit|initial|unset)$/i.test(value.trim()) || value.includes('var(')) return null;
+
+  let elevation: number | null = null;
+  splitLayers(value).forEach(layer => {
+    if (/\binset\b/i.test(layer)) return;
+    const withoutColors = layer.replace(/(#[0-9a-f]{3,8}\b|[a-z-]+\([^)]*\)|\b[a-z]+\b)/gi, ' ');
+    const lengths = withoutColors.trim().split(/\s+/).map(length => toPx(length, rootPx)).filter((n): n is number => n !== null);
+    if (lengths.length < 2) return;
+    const offsetY = Math.abs(lengths[1]);
+    const blur = lengths[2] || 0;
+    if (offsetY === 0 && blur === 0) return; // Spread-only rings are focus/border effects
+    elevation = Math.max(elevation === null ? 0 : elevation, offsetY + blur);
+  });
+  return elevation;
+}
+
+function deriveShadows(shadows: FrequencyItem[], variables: Record<string, DesignVariableSource>, rootPx: number): void {
+  // The most used elevation shadows, ordered from flattest to deepest
+  const candidates = shadows
+    .map(item => ({ item, elevation: shadowElevation(item.value, rootPx) }))
+    .filter((entry): entry is { item: FrequencyItem; elevation: number } => entry.elevation !== null)
+    .sort((a, b) => b.item.count - a.item.count)
+    .slice(0, SHADOW_SCALE.length)
+    .sort((a, b) => a.elevation - b.elevation);
+
+  if (candidates.length === 0) {
+    SHADOW_SCALE.forEach(name => {
+      variables[name] = { value: DEFAULT_SHADOWS[name], source: null, confidence: 0 };
+    });
+    return;
+  }
+
+  // Spread the site's shadows across the 8 steps; with fewer than 8, neighbouring steps share a value
+  const coverage = +(candidates.length / SHADOW_SCALE.length).toFixed(2);
+  SHADOW_SCALE.forEach((name, index) => {
+    const pick = candidates[Math.round(index * (candidates.length - 1) / (SHADOW_SCALE.length - 1))];
+    variables[name] = { value: pick.item.value, source: pick.item.value, confidence: coverage };
+  });
+}
+
+// Map the site's dominant (preferably loaded) font families, modal border radius and shadow scale onto the shadcn
+// --font-*, --radius and --shadow-* variables. Every variable records the token it came from
+// (null when the shadcn default was kept) and a 0-1 confidence.
+export function deriveShadcnDesignVariables(tokens?: Pick<ExtractedTokens, 'fontFamilies' | 'fonts' | 'radii' | 'shadows' | 'spacingScale' | 'typeScale'>): Record<string, DesignVariableSource> {
+  const variables: Record<string, DesignVariableSource> = {};
+  const rootPx = rootFontSize(tokens);
+  deriveFonts(tokens && tokens.fontFamilies ? tokens.fontFamilies.frequency : [], variables, tokens && tokens.fonts);
+  deriveRadius(tokens && tokens.radii ? tokens.radii.frequency : [], variables, rootPx);
+  deriveShadows(tokens && tokens.shadows ? tokens.shadows.frequency : [], variables, rootPx);
+  return variables;
+}
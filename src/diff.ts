@@ -0,0 +1,126 @@
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { HttpClient } from './http-client';
+import { SecurityValidator } from './security';
+import { diffExitCode, diffSnapshots, exceededThresholds, renderDiffHtml, renderDiffMarkdown, snapshotFromAnalysis, snapshotFromUrl, THRESHOLD_EXIT_CODE, TokenSnapshot } from './token-diff';
+import type { DiffThresholds } from './types';
+
+const program = new Command();
+
+program
+  .name('diff')
+  .argument('<before>', 'Analysis JSON file, outputs/<host>-<date>/ folder, or URL')
+  .argument('<after>', 'Analysis JSON file, outputs/<host>-<date>/ folder, or URL')
+  .option('--format <format>', 'Report format: json | md | html | all', 'md')
+  .option('--out <dir>', 'Directory for the report files (default: outputs/diff-YYYY-MM-DD)')
+  .option('--render', 'Load URLs in a headless browser (requires playwright) to capture runtime-injected styles')
+  .option('--allow-private-hosts', 'Allow localhost/private network URLs, e.g. staging on a private network')
+  .option('--max-changes <count>', `Exit with code ${THRESHOLD_EXIT_CODE} when more tokens, custom properties and roles changed`)
+  .option('--max-delta-e <deltaE>', `Exit with code ${THRESHOLD_EXIT_CODE} when a changed color moved further (ΔE2000)`)
+  .parse(process.argv);
+
+const options = program.opts();
+const [beforeInput, afterInput] = program.args;
+
+const httpClient = new HttpClient(
+  {},
+  options.allowPrivateHosts ? new SecurityValidator({ blockedHosts: [] }) : undefined
+);
+
+// theme-HH-MM-SS[-compact][-suffix].json -> the run's time, so all formats of one run sort together
+const OUTPUT_FILE_REGEX = /^(?:theme|multi-source)-(\d{2}-\d{2}-\d{2})(-compact)?(-shadcn\.analysis|-canonical)?\.json$/;
+
+// Latest run in an outputs/<host>-<date>/ folder; within a run the full json output wins because
+// it carries every token group and enough to resolve role bindings
+function latestAnalysisFile(dir: string): string {
+  const candidates = fs.readdirSync(dir)
+    .map(file => ({ file, match: file.match(OUTPUT_FILE_REGEX) }))
+    .filter(entry => entry.match)
+    .map(entry => {
+      const [, time, compact, suffix] = entry.match!;
+      const rank = suffix === '-shadcn.analysis' ? 2 : suffix === '-canonical' ? 3 : compact ? 1 : 0;
+      return { file: entry.file, time, rank };
+    })
+    .sort((a, b) => (a.time < b.time ? 1 : a.time > b.time ? -1 : a.rank - b.rank));
+
+  if (candidates.length === 0) {
+    throw new Error(`No analysis JSON (theme-*.json, multi-source-*.json, *.analysis.json) found in ${dir}`);
+  }
+  return path.join(dir, candidates[0].file);
+}
+
+function parseThreshold(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!isFinite(n) || n < 0) throw new Error(`${flag} must be a non-negative number, got "${value}"`);
+  return n;
+}
+
+async function loadSnapshot(input: string): Promise<TokenSnapshot> {
+  if (/^https?:\/\//i.test(input)) {
+    console.log(`🌐 Analyzing ${input}...`);
+    return snapshotFromUrl(input, httpClient, { render: options.render });
+  }
+
+  let file = input;
+  if (fs.statSync(input).isDirectory()) {
+    file = latestAnalysisFile(input);
+    console.log(`📂 ${input} → ${path.basename(file)}`);
+  }
+  return snapshotFromAnalysis(JSON.parse(fs.readFileSync(file, 'utf-8')), file);
+}
+
+(async () => {
+  try {
+    const format = String(options.format).toLowerCase();
+    if (['json', 'md', 'html', 'all'].indexOf(format) === -1) {
+      throw new Error(`Unknown --format "${options.format}" (expected json, md, html or all)`);
+    }
+    const thresholds: DiffThresholds = {
+      maxChanges: parseThreshold(options.maxChanges, '--max-changes'),
+      maxDeltaE: parseThreshold(options.maxDeltaE, '--max-delta-e')
+    };
+
+    const before = await loadSnapshot(beforeInput);
+    const after = await loadSnapshot(afterInput);
+    const diff = diffSnapshots(before, after);
+
+    const now = new Date();
+    const outDir = options.out || path.join(process.cwd(), 'outputs', `diff-${now.toISOString().slice(0, 10)}`);
+    fs.mkdirSync(outDir, { recursive: true });
+    const baseName = `diff-${now.toISOString().slice(11, 19).replace(/:/g, '-')}`;
+
+    const written: string[] = [];
+    if (format === 'json' || format === 'all') {
+      const jsonPath = path.join(outDir, `${baseName}.json`);
+      fs.writeFileSync(jsonPath, JSON.stringify(diff, null, 2), 'utf-8');
+      written.push(jsonPath);
+    }
+    if (format === 'md' || format === 'all') {
+      const mdPath = path.join(outDir, `${baseName}.md`);
+      fs.writeFileSync(mdPath, renderDiffMarkdown(diff), 'utf-8');
+      written.push(mdPath);
+    }
+    if (format === 'html' || format === 'all') {
+      const htmlPath = path.join(outDir, `${baseName}.html`);
+      fs.writeFileSync(htmlPath, renderDiffHtml(diff), 'utf-8');
+      written.push(htmlPath);
+    }
+
+    const { summary } = diff;
+    console.log(`\n📊 Token diff: ${summary.added} added, ${summary.removed} removed, ${summary.changed} changed`);
+    console.log(`   Custom properties changed: ${summary.customPropertiesChanged}`);
+    console.log(`   Role bindings reassigned: ${before.roles && after.roles ? summary.rolesReassigned : 'not compared (missing bindings)'}`);
+    written.forEach(file => console.log(`  ✅ ${file}`));
+
+    const exitCode = diffExitCode(diff, thresholds);
+    if (exitCode !== 0) {
+      console.error(`\n❌ Diff exceeds thresholds: ${exceededThresholds(diff, thresholds).join('; ')}`);
+      process.exit(exitCode);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,45 @@
+import { generateDtcg } from './dtcg-formatter';
+import { extractTokensFromCss } from './extractor';
+
+const EXTENSION = 'io.github.switmer.get-site-styles';
+
+describe('generateDtcg', () => {
+  it('builds border composites from any CSS color', () => {
+    const dtcg = generateDtcg(extractTokensFromCss(`
+      .a { border: 1px solid lab(50 80 60); }
+      .b { border: 2px dashed color-mix(in srgb, red 50%, blue); }
+      .c { border: 1px solid rgb(0 0 0 / 10%); }
+      .d { border: thin dotted rebeccapurple; }
+    `), {});
+
+    const borders = Object.keys(dtcg.border).map(key => dtcg.border[key].$value);
+    expect(borders).toEqual(expect.arrayContaining([
+      { color: '#ef0015', width: '1px', style: 'solid' },
+      { color: '#800080', width: '2px', style: 'dashed' },
+      { color: '#0000001a', width: '1px', style: 'solid' },
+      { color: '#663399', width: '1px', style: 'dotted' }
+    ]));
+    expect(dtcg.$extensions[EXTENSION].unsupported).toEqual({});
+  });
+
+  it('reads gradient stops in any CSS color', () => {
+    const dtcg = generateDtcg(extractTokensFromCss(`
+      .hero { background: linear-gradient(90deg, lab(50 80 60), color-mix(in oklab, red, white) 50%, #fff); }
+      .card { background-image: radial-gradient(oklch(0.7 0.1 200) 20%, transparent); }
+    `), {});
+
+    const gradients = Object.keys(dtcg.gradient).map(key => dtcg.gradient[key]);
+    const hero = gradients.find(token => token.$extensions[EXTENSION].kind === 'linear');
+    expect(hero.$value).toEqual([
+      { color: '#ef0015', position: 0 },
+      { color: expect.stringMatching(/^#[0-9a-f]{6}$/), position: 0.5 },
+      { color: '#ffffff', position: 1 }
+    ]);
+    expect(hero.$extensions[EXTENSION].direction).toBe('90deg');
+
+    const card = gradients.find(token => token.$extensions[EXTENSION].kind === 'radial');
+    expect(card.$value.map((stop: any) => stop.position)).toEqual([0.2, 1]);
+    expect(card.$value[1].color).toBe('#00000000');
+    expect(dtcg.$extensions[EXTENSION].unsupported).toEqual({});
+  });
+});
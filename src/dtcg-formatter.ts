@@ -0,0 +1,515 @@
+// Generates a W3C Design Tokens Community Group (DTCG) file: every token a `$value` with its
+// `$type`, composite shadow/typography/border/transition/gradient tokens, `{alias}` references
+// rebuilt from the site's var() chains, and prevalence/provenance under `$extensions`.
+// Values use the format draft's string syntax that Style Dictionary v4 reads (hex colors,
+// px/rem dimensions, ms durations); anything that cannot be expressed is counted, not guessed.
+
+import { formatHexAlpha, parseCssColor } from './color-analysis';
+import { createDarkColorLookup } from './color-schemes';
+import { findColors } from './css-color';
+import { deriveShadcnDesignVariables, parseShadowLayers, splitLayers } from './design-variables';
+import { tokenUsageKey, TYPOGRAPHY_PROPERTIES } from './extractor';
+import { typeScaleSummary } from './type-scale';
+import type { DtcgToken, ExtractedTokens, FrequencyItem, TextStyle } from './types';
+
+const EXTENSION = 'io.github.switmer.get-site-styles';
+
+type DtcgType = DtcgToken['$type'];
+type Convert = (value: string) => DtcgToken['$value'] | null;
+type UsageGroup = Parameters<typeof tokenUsageKey>[0];
+
+const TIMING_FUNCTIONS: Record<string, number[]> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+const FONT_WEIGHT_KEYWORDS: Record<string, number> = { normal: 400, bold: 700 };
+const BORDER_WIDTH_KEYWORDS: Record<string, string> = { thin: '1px', medium: '3px', thick: '5px' };
+const STROKE_STYLES = ['solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'outset', 'inset'];
+const NORMAL_LINE_HEIGHT = 1.2; // What `line-height: normal` computes to for most fonts
+
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+// -------- Value conversion --------
+
+function toColor(value: string): string | null {
+  const color = parseCssColor(value);
+  return color ? formatHexAlpha(color) : null;
+}
+
+function toDimension(value: string): string | null {
+  const match = /^(-?\d*\.?\d+)(px|rem)?$/.exec(value.trim().toLowerCase());
+  if (!match || (!match[2] && parseFloat(match[1]) !== 0)) return null;
+  return `${parseFloat(match[1])}${match[2] || 'px'}`;
+}
+
+function dimensionPx(dimension: string): number | null {
+  const match = /^(-?[\d.]+)(px|rem)$/.exec(dimension);
+  return match ? parseFloat(match[1]) * (match[2] === 'rem' ? 16 : 1) : null;
+}
+
+function toDuration(value: string): string | null {
+  const match = /^(\d*\.?\d+)(ms|s)$/.exec(value.trim().toLowerCase());
+  if (!match) return null;
+  return `${round(parseFloat(match[1]) * (match[2] === 's' ? 1000 : 1))}ms`;
+}
+
+function toCubicBezier(value: string): number[] | null {
+  const keyword = TIMING_FUNCTIONS[value.trim().toLowerCase()];
+  if (keyword) return keyword;
+  const match = /^cubic-bezier\(([^)]*)\)$/i.exec(value.trim());
+  const points = match ? match[1].split(',').map(n => parseFloat(n)) : [];
+  return points.length === 4 && points.every(n => !isNaN(n)) ? points : null;
+}
+
+function toFontWeight(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (FONT_WEIGHT_KEYWORDS[text]) return FONT_WEIGHT_KEYWORDS[text];
+  const weight = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  return weight >= 1 && weight <= 1000 ? weight : null;
+}
+
+function toFontFamily(value: string): string | string[] | null {
+  const families = value.split(',').map(family => family.trim().replace(/^['"]|['"]$/g, '')).filter(Boolean);
+  if (families.length === 0 || families.some(family => family.includes('var('))) return null;
+  return families.length === 1 ? families[0] : families;
+}
+
+function toNumber(value: string): number | null {
+  const text = value.trim();
+  if (/^-?\d*\.?\d+%$/.test(text)) return round(parseFloat(text) / 100);
+  return /^-?\d*\.?\d+$/.test(text) ? parseFloat(text) : null;
+}
+
+function toRatio(value: string): number | null {
+  const match = /^(\d*\.?\d+)\s*\/\s*(\d*\.?\d+)$/.exec(value.trim());
+  if (match) return parseFloat(match[2]) ? round(parseFloat(match[1]) / parseFloat(match[2])) : null;
+  return toNumber(value);
+}
+
+function toStrokeStyle(value: string): string | null {
+  const style = value.trim().toLowerCase();
+  return STROKE_STYLES.indexOf(style) !== -1 ? style : null;
+}
+
+function toShadow(value: string): Record<string, any> | Array<Record<string, any>> | null {
+  const layers = parseShadowLayers(value);
+  if (!layers) return null;
+  const shadows = layers.map(layer => {
+    const lengths = [layer.offsetX, layer.offsetY, layer.blur, layer.spread].map(toDimension);
+    if (lengths.some(length => length === null)) return null;
+    const shadow: Record<string, any> = {
+      color: formatHexAlpha(layer.color),
+      offsetX: lengths[0],
+      offsetY: lengths[1],
+      blur: lengths[2],
+      spread: lengths[3]
+    };
+    if (layer.inset) shadow.inset = true;
+    return shadow;
+  });
+  if (shadows.some(shadow => !shadow)) return null;
+  return shadows.length === 1 ? shadows[0]! : shadows as Array<Record<string, any>>;
+}
+
+// -------- Site custom properties --------
+
+interface SiteContext {
+  tokens: Record<string, { name: string; type: DtcgType }>; // By custom property
+  customProperties: ExtractedTokens['customProperties'];
+}
+
+function tokenName(variable: string): string {
+  return variable.replace(/^--/, '').replace(/[.{}$]/g, '_');
+}
+
+// The DTCG type a custom property's resolved value fits, judged by value and, for fonts and
+// motion, by name; null for values no DTCG type can hold (calc(), keywords, unresolved var())
+function classifyCustomProperty(variable: string, value: string): { type: DtcgType; value: DtcgToken['$value'] } | null {
+  if (!value || value.includes('var(')) return null;
+  const name = variable.toLowerCase();
+  const attempts: Array<[DtcgType, Convert, boolean]> = [
+    ['fontWeight', toFontWeight, /weight/.test(name)],
+    ['fontFamily', toFontFamily, /font|family|typeface/.test(name) && !/size|weight|height|spacing|feature/.test(name) && /^['"]?[a-z]/i.test(value)],
+    ['color', toColor, true],
+    ['dimension', toDimension, true],
+    ['duration', toDuration, true],
+    ['cubicBezier', toCubicBezier, /ease|easing|timing|bezier/.test(name) || /^cubic-bezier\(/i.test(value)],
+    ['shadow', toShadow, /shadow|elevation/.test(name)],
+    ['number', toNumber, !/%$/.test(value.trim())]
+  ];
+  for (const [type, convert, applies] of attempts) {
+    if (!applies) continue;
+    const converted = convert(value);
+    if (converted !== null) return { type, value: converted };
+  }
+  return null;
+}
+
+// A composite's sub-value: `{site.x}` when it is exactly var(--x) of the right type, the
+// converted resolved value when the variable is not a token, the converted literal otherwise
+function referenceOrValue(raw: string, type: DtcgType, convert: Convert, site: SiteContext): DtcgToken['$value'] | null {
+  const reference = /^var\((--[\w-]+)\)$/.exec(raw.trim());
+  if (reference) {
+    const token = site.tokens[reference[1]];
+    if (token && token.type === type) return `{site.${token.name}}`;
+    const property = site.customProperties[reference[1]];
+    return property && !property.value.includes('var(') ? convert(property.value) : null;
+  }
+  return raw.includes('var(') ? null : convert(raw);
+}
+
+function buildSiteGroup(tokens: ExtractedTokens, unsupported: Record<string, number>): { group: Record<string, DtcgToken>; site: SiteContext } {
+  const customProperties = tokens.customProperties || {};
+  const darkProperties = tokens.colorSchemes && tokens.colorSchemes.dark ? tokens.colorSchemes.dark.customProperties : {};
+  const site: SiteContext = { tokens: {}, customProperties };
+  const group: Record<string, DtcgToken> = {};
+
+  const classified = Object.keys(customProperties).sort().map(variable => ({
+    variable,
+    result: classifyCustomProperty(variable, customProperties[variable].value)
+  }));
+  classified.forEach(({ variable, result }) => {
+    if (result) site.tokens[variable] = { name: tokenName(variable), type: result.type };
+    else unsupported.site = (unsupported.site || 0) + 1;
+  });
+
+  classified.forEach(({ variable, result }) => {
+    if (!result) return;
+    const property = customProperties[variable];
+    const target = property.refVariable ? site.tokens[property.refVariable] : undefined;
+    const provenance: Record<string, any> = { variable, references: property.references };
+    if (property.expression) provenance.css = property.expression;
+    const usage = tokens.usage && tokens.usage[tokenUsageKey('var', variable)];
+    if (usage) provenance.usage = usage;
+    if (result.type === 'color' && darkProperties[variable]) provenance.darkValue = toColor(darkProperties[variable]);
+    if (property.conditions) provenance.conditions = property.conditions;
+
+    group[tokenName(variable)] = {
+      $type: result.type,
+      $value: target && target.type === result.type && property.refVariable !== variable ? `{site.${target.name}}` : result.value,
+      $extensions: { [EXTENSION]: provenance }
+    };
+  });
+
+  return { group, site };
+}
+
+// -------- Extracted value groups --------
+
+interface GroupContext {
+  site: SiteContext;
+  unsupported: Record<string, number>; // Distinct values per group no DTCG type can express
+}
+
+function mergeConditionCounts(into: Record<string, number> | undefined, counts: Record<string, number>): Record<string, number> {
+  const merged: Record<string, number> = { ...(into || {}) };
+  Object.keys(counts).forEach(key => {
+    merged[key] = (merged[key] || 0) + counts[key];
+  });
+  return merged;
+}
+
+// Tokens numbered by frequency; values that convert to the same $value ("0" and "0px") merge.
+// A value that is exactly var(--x) becomes an alias of the site token.
+function frequencyGroup(
+  name: string,
+  items: FrequencyItem[],
+  type: DtcgType,
+  convert: Convert,
+  context: GroupContext,
+  describe?: (item: FrequencyItem) => Record<string, any>
+): Record<string, DtcgToken> {
+  const group: Record<string, DtcgToken> = {};
+  const byValue: Record<string, DtcgToken> = {};
+
+  items.forEach(item => {
+    const value = /^var\(--[\w-]+\)$/.test(item.value.trim())
+      ? referenceOrValue(item.value, type, convert, context.site)
+      : convert(item.value);
+    if (value === null) {
+      context.unsupported[name] = (context.unsupported[name] || 0) + 1;
+      return;
+    }
+    const key = JSON.stringify(value);
+    const existing = byValue[key];
+    if (existing) {
+      existing.$extensions![EXTENSION].count += item.count;
+      existing.$extensions![EXTENSION].prevalence = round(existing.$extensions![EXTENSION].prevalence + item.prevalence);
+      if (item.conditions) existing.$extensions![EXTENSION].conditions = mergeConditionCounts(existing.$extensions![EXTENSION].conditions, item.conditions);
+      return;
+    }
+
+    const provenance: Record<string, any> = { count: item.count, prevalence: item.prevalence };
+    if (item.conditions) provenance.conditions = { ...item.conditions };
+    if (describe) Object.assign(provenance, describe(item));
+
+    const token: DtcgToken = { $type: type, $value: value, $extensions: { [EXTENSION]: provenance } };
+    byValue[key] = token;
+    group[String(Object.keys(group).length + 1)] = token;
+  });
+
+  return group;
+}
+
+function parseTransition(value: string): { value: Record<string, any>; property: string } | null {
+  if (splitLayers(value).length !== 1) return null; // DTCG transitions are single, not lists
+  const bezier = /cubic-bezier\([^)]*\)/i.exec(value);
+  let timingFunction = bezier ? toCubicBezier(bezier[0]) : null;
+  const durations: string[] = [];
+  let property: string | null = null;
+
+  for (const part of value.replace(bezier ? bezier[0] : '', ' ').trim().split(/\s+/)) {
+    const duration = toDuration(part);
+    if (duration) durations.push(duration);
+    else if (TIMING_FUNCTIONS[part.toLowerCase()] && !timingFunction) timingFunction = TIMING_FUNCTIONS[part.toLowerCase()];
+    else if (/^[a-z-]+$/.test(part) && !property && durations.length === 0) property = part;
+    else return null; // steps(), iteration counts, fill modes: animations, not transitions
+  }
+  if (durations.length === 0 || durations.length > 2) return null;
+
+  return {
+    value: { duration: durations[0], delay: durations[1] || '0ms', timingFunction: timingFunction || TIMING_FUNCTIONS.ease },
+    property: property || 'all'
+  };
+}
+
+// A gradient argument as `<color> [<position>]`, the color as written (var() and currentcolor
+// included, so they are not taken for a direction); null for directions
+function parseGradientStop(arg: string): { color: string; position: string } | null {
+  const text = arg.trim();
+  const color = findColors(text, { keywords: true, references: true })[0];
+  if (!color || text.indexOf(color) !== 0) return null;
+  return { color, position: text.slice(color.length).trim() };
+}
+
+// Stops of the first linear/radial gradient in a value, positions as 0-1 fractions; stops
+// without a position are spread evenly between their neighbours as CSS does
+function parseGradient(value: string): { stops: Array<{ color: string; position: number }>; kind: string; direction?: string } | null {
+  const start = /(repeating-)?(linear|radial)-gradient\(/i.exec(value);
+  if (!start) return null;
+  let depth = 0;
+  let end = -1;
+  for (let i = start.index + start[0].length - 1; i < value.length; i++) {
+    if (value[i] === '(') depth++;
+    if (value[i] === ')' && --depth === 0) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return null;
+
+  const args = splitLayers(value.slice(start.index + start[0].length, end));
+  const direction = args.length > 0 && !parseGradientStop(args[0]) ? args.shift() : undefined;
+
+  const colors: string[] = [];
+  const positions: Array<number | undefined> = [];
+  for (const arg of args) {
+    const stop = parseGradientStop(arg);
+    const color = stop ? toColor(stop.color) : null;
+    const position = stop && stop.position ? /^(-?[\d.]+)%/.exec(stop.position) : null;
+    if (!color || (stop!.position && !position)) return null; // Length positions and color hints
+    colors.push(color);
+    positions.push(position ? Math.max(0, Math.min(1, parseFloat(position[1]) / 100)) : undefined);
+  }
+  if (colors.length < 2) return null;
+
+  if (positions[0] === undefined) positions[0] = 0;
+  if (positions[positions.length - 1] === undefined) positions[positions.length - 1] = 1;
+  let previous = 0;
+  for (let i = 1; i < positions.length; i++) {
+    if (positions[i] === undefined) continue;
+    for (let j = previous + 1; j < i; j++) {
+      positions[j] = positions[previous]! + (positions[i]! - positions[previous]!) * (j - previous) / (i - previous);
+    }
+    previous = i;
+  }
+
+  return {
+    stops: colors.map((color, i) => ({ color, position: round(positions[i]!) })),
+    kind: `${start[1] || ''}${start[2].toLowerCase()}`,
+    direction
+  };
+}
+
+function parseDeclarations(block: string): Record<string, string> {
+  const declared: Record<string, string> = {};
+  block.split(';').forEach(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon > 0) declared[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).trim();
+  });
+  return declared;
+}
+
+// A rule's font declarations as a typography composite; properties the rule leaves to
+// inheritance take the site's body defaults and are listed under `inherited`
+function typographyComposite(block: string, defaultFamily: DtcgToken['$value'], site: SiteContext): { value: Record<string, any>; inherited: string[] } | null {
+  const declared = parseDeclarations(block);
+  const fontSize = referenceOrValue(declared['font-size'], 'dimension', toDimension, site);
+  if (fontSize === null) return null;
+  const sizePx = typeof fontSize === 'string' ? dimensionPx(fontSize) : null;
+
+  const inherited = TYPOGRAPHY_PROPERTIES.filter(prop => !declared[prop]);
+  const fontFamily = declared['font-family'] ? referenceOrValue(declared['font-family'], 'fontFamily', toFontFamily, site) : defaultFamily;
+  const fontWeight = declared['font-weight'] ? referenceOrValue(declared['font-weight'], 'fontWeight', toFontWeight, site) : 400;
+  const lineHeight = declared['line-height'] ? referenceOrValue(declared['line-height'], 'number', value => {
+    if (value.trim().toLowerCase() === 'normal') return NORMAL_LINE_HEIGHT;
+    const length = toDimension(value);
+    const px = length ? dimensionPx(length) : null;
+    if (px !== null) return sizePx ? round(px / sizePx) : null;
+    return toNumber(value);
+  }, site) : NORMAL_LINE_HEIGHT;
+  const letterSpacing = declared['letter-spacing'] ? referenceOrValue(declared['letter-spacing'], 'dimension', value => {
+    if (value.trim().toLowerCase() === 'normal') return '0px';
+    const em = /^(-?\d*\.?\d+)em$/.exec(value.trim());
+    if (em) return sizePx ? `${round(parseFloat(em[1]) * sizePx)}px` : null;
+    return toDimension(value);
+  }, site) : '0px';
+
+  if (fontFamily === null || fontWeight === null || lineHeight === null || letterSpacing === null) return null;
+  return { value: { fontFamily, fontSize, fontWeight, letterSpacing, lineHeight }, inherited };
+}
+
+// border shorthand -> { color, width, style }; a border without a color (currentColor) or a
+// visible style has no DTCG equivalent
+function borderComposite(value: string, site: SiteContext): Record<string, any> | null {
+  const reference = /var\([^)]*\)/i.exec(value);
+  const colorText = reference ? reference[0] : findColors(value)[0];
+  let color: DtcgToken['$value'] | null = colorText ? referenceOrValue(colorText, 'color', toColor, site) : null;
+  let width: DtcgToken['$value'] | null = '3px';
+  let style: string | null = null;
+
+  for (const part of value.replace(colorText || '', ' ').trim().split(/\s+/)) {
+    const lower = part.toLowerCase();
+    if (BORDER_WIDTH_KEYWORDS[lower] || toDimension(part)) width = BORDER_WIDTH_KEYWORDS[lower] || toDimension(part);
+    else if (toStrokeStyle(part)) style = lower;
+    else if (!color && toColor(part)) color = toColor(part);
+    else return null;
+  }
+  return color && style ? { color, width, style } : null;
+}
+
+// A text role's resolved font properties in the declaration-block form typographyComposite reads
+function textStyleBlock(style: TextStyle): string {
+  const values: Record<string, string | undefined> = {
+    'font-family': style.fontFamily,
+    'font-size': style.fontSize,
+    'font-weight': style.fontWeight,
+    'line-height': style.lineHeight,
+    'letter-spacing': style.letterSpacing
+  };
+  return TYPOGRAPHY_PROPERTIES.filter(prop => values[prop]).map(prop => `${prop}: ${values[prop]}`).join('; ');
+}
+
+export function generateDtcg(tokens: ExtractedTokens, meta: any): Record<string, any> {
+  const unsupported: Record<string, number> = {};
+
+  const { group: siteGroup, site } = buildSiteGroup(tokens, unsupported);
+  const context: GroupContext = { site, unsupported };
+  const siteDark = createDarkColorLookup(tokens.colorSchemes);
+  const css = (item: FrequencyItem) => ({ css: item.value });
+  // Selector count and component families for the groups the extractor tracks usage of
+  const usage = (group: UsageGroup, extra?: (item: FrequencyItem) => Record<string, any>) => (item: FrequencyItem) => {
+    const entry = tokens.usage && tokens.usage[tokenUsageKey(group, item.value)];
+    const described = extra ? extra(item) : {};
+    return entry ? { ...described, usage: entry } : described;
+  };
+  const items = (group?: { frequency: FrequencyItem[] }) => group && group.frequency ? group.frequency : [];
+
+  // Rules that set no font-family inherit the site's most declared text family (usually body's)
+  const declaredFamily = items(tokens.typography)
+    .map(item => parseDeclarations(item.value)['font-family'])
+    .filter(Boolean)
+    .map(family => referenceOrValue(family, 'fontFamily', toFontFamily, site))
+    .filter(family => family !== null)[0];
+  const defaultFamily = declaredFamily || toFontFamily(deriveShadcnDesignVariables(tokens)['--font-sans'].value) || 'sans-serif';
+
+  const groups: Record<string, Record<string, DtcgToken>> = {
+    color: frequencyGroup('color', items(tokens.colors), 'color', toColor, context, usage('color', item => {
+      const darkValue = siteDark(item.value);
+      return darkValue ? { css: item.value, darkValue: toColor(darkValue) } : { css: item.value };
+    })),
+    fontFamily: frequencyGroup('fontFamily', items(tokens.fontFamilies), 'fontFamily', toFontFamily, context, usage('fontFamily')),
+    fontSize: frequencyGroup('fontSize', items(tokens.fontSizes), 'dimension', toDimension, context, usage('fontSize')),
+    fontWeight: frequencyGroup('fontWeight', items(tokens.fontWeights), 'fontWeight', toFontWeight, context),
+    lineHeight: frequencyGroup('lineHeight', items(tokens.lineHeights), 'number', toNumber, context),
+    letterSpacing: frequencyGroup('letterSpacing', items(tokens.letterSpacings), 'dimension', value =>
+      value.trim().toLowerCase() === 'normal' ? '0px' : toDimension(value), context),
+    typography: {},
+    textStyle: {},
+    spacing: frequencyGroup('spacing', items(tokens.spacing), 'dimension', toDimension, context, usage('spacing')),
+    radius: frequencyGroup('radius', items(tokens.radii), 'dimension', toDimension, context, usage('radius')),
+    borderWidth: frequencyGroup('borderWidth', items(tokens.borderWidths), 'dimension', value =>
+      BORDER_WIDTH_KEYWORDS[value.trim().toLowerCase()] || toDimension(value), context),
+    borderStyle: frequencyGroup('borderStyle', items(tokens.borderStyles), 'strokeStyle', toStrokeStyle, context),
+    border: frequencyGroup('border', items(tokens.borders), 'border', value => borderComposite(value, site), context, css),
+    shadow: frequencyGroup('shadow', items(tokens.shadows), 'shadow', toShadow, context, usage('shadow', css)),
+    gradient: frequencyGroup('gradient', items(tokens.gradients), 'gradient', value => {
+      const gradient = parseGradient(value);
+      return gradient ? gradient.stops : null;
+    }, context, item => {
+      const gradient = parseGradient(item.value);
+      if (!gradient) return { css: item.value };
+      return gradient.direction ? { css: item.value, kind: gradient.kind, direction: gradient.direction } : { css: item.value, kind: gradient.kind };
+    }),
+    transition: frequencyGroup('transition', items(tokens.transitions), 'transition', value => {
+      const transition = parseTransition(value);
+      return transition ? transition.value : null;
+    }, context, item => {
+      const transition = parseTransition(item.value);
+      return transition ? { css: item.value, property: transition.property } : { css: item.value };
+    }),
+    opacity: frequencyGroup('opacity', items(tokens.opacity), 'number', toNumber, context),
+    zIndex: frequencyGroup('zIndex', items(tokens.zIndices), 'number', value => /^-?\d+$/.test(value.trim()) ? parseInt(value, 10) : null, context),
+    aspectRatio: frequencyGroup('aspectRatio', items(tokens.aspectRatios), 'number', toRatio, context, css),
+    breakpoint: frequencyGroup('breakpoint', items(tokens.breakpoints), 'dimension', toDimension, context),
+    site: siteGroup
+  };
+
+  groups.typography = frequencyGroup('typography', items(tokens.typography), 'typography', value => {
+    const composite = typographyComposite(value, defaultFamily, site);
+    return composite ? composite.value : null;
+  }, context, item => {
+    const composite = typographyComposite(item.value, defaultFamily, site);
+    return composite && composite.inherited.length > 0 ? { css: item.value, inherited: composite.inherited } : { css: item.value };
+  });
+
+  // One composite per text role (h1-h6, body, lead, ...), placed on the inferred modular scale
+  if (tokens.typeScale) {
+    tokens.typeScale.roles.forEach(style => {
+      const composite = typographyComposite(textStyleBlock(style), defaultFamily, site);
+      if (!composite) {
+        unsupported.textStyle = (unsupported.textStyle || 0) + 1;
+        return;
+      }
+      const provenance: Record<string, any> = { selector: style.selector, step: style.step };
+      if (style.declaredSize) provenance.css = style.declaredSize;
+      if (style.inherited.length > 0) provenance.inherited = style.inherited;
+      groups.textStyle[style.role] = { $type: 'typography', $value: composite.value, $extensions: { [EXTENSION]: provenance } };
+    });
+  }
+
+  const source = meta.source || (meta.sources && meta.sources[0] && meta.sources[0].url) || meta.url;
+  const document: Record<string, any> = {
+    $description: source ? `Design tokens extracted from ${source}` : 'Extracted design tokens',
+    $extensions: {
+      [EXTENSION]: {
+        source,
+        extractedAt: meta.extractedAt,
+        darkMode: tokens.colorSchemes && tokens.colorSchemes.dark ? tokens.colorSchemes.strategy || 'media' : undefined,
+        typeScale: tokens.typeScale ? typeScaleSummary(tokens.typeScale) : undefined,
+        conditions: tokens.conditions, // Keys of the per-token `conditions` counts and values
+        unsupported // Distinct values per group that no DTCG type can express, e.g. em spacing or calc()
+      }
+    }
+  };
+  Object.keys(groups).forEach(name => {
+    if (Object.keys(groups[name]).length > 0) document[name] = groups[name];
+  });
+  return document;
+}
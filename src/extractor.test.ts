@@ -0,0 +1,89 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { collectCss, extractStylesFromUrl, extractTokensFromCss } from './extractor';
+import { HttpClient } from './http-client';
+import { SecurityValidator } from './security';
+
+const { createFixtureServer } = require('../examples/fixture-server');
+
+describe('extractTokensFromCss', () => {
+  it('counts values per group by frequency', () => {
+    const tokens = extractTokensFromCss(`
+      :root { --brand: #ff6600; }
+      .a { color: #111111; padding: 8px; }
+      .b { color: #111111; margin: 16px 8px; border-radius: 4px; }
+    `);
+
+    expect(tokens.colors.frequency[0]).toMatchObject({ value: '#111111' });
+    expect(tokens.spacing.frequency).toEqual(expect.arrayContaining([expect.objectContaining({ value: '8px', count: 2 })]));
+    expect(tokens.radii.values).toEqual(['4px']);
+    expect(tokens.customProperties['--brand'].value).toBe('#ff6600');
+  });
+
+  it('keeps responsive custom property values apart from the base value', () => {
+    const tokens = extractTokensFromCss(`
+      :root { --gap: 16px; }
+      @media (width >= 768px) { :root { --gap: 24px; } }
+    `);
+
+    expect(tokens.customProperties['--gap']).toMatchObject({
+      value: '16px',
+      conditions: { '@media (width >= 768px)': '24px' }
+    });
+    expect(tokens.breakpoints.values).toEqual(['768px']);
+  });
+});
+
+describe('against the render fixture', () => {
+  let server: Server;
+  let baseUrl: string;
+  const httpClient = new HttpClient({}, new SecurityValidator({ blockedHosts: [] }));
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    server = createFixtureServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('extracts linked and inline CSS, but not runtime-injected styles', async () => {
+    const { tokens, meta } = await extractStylesFromUrl(baseUrl, httpClient);
+
+    expect(tokens.colors.values).toEqual(expect.arrayContaining(['#1f2937', '#0f766e']));
+    expect(tokens.colors.values).not.toContain('#7c3aed');
+    expect(tokens.fontFamilies.values).toContain('Georgia');
+    expect(meta.source).toBe(baseUrl);
+    expect(meta.stylesheets).toBeUndefined();
+  });
+
+  it('reports stylesheets that fail to load', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const html = '<link rel="stylesheet" href="/static.css"><link rel="stylesheet" href="/missing.css">';
+    const collected = await collectCss(html, baseUrl, httpClient);
+
+    expect(collected.css).toContain('#0f766e');
+    expect(collected.stylesheets).toMatchObject({ total: 2, shared: 0, failed: [`${baseUrl}missing.css`] });
+  });
+
+  it('skips linked stylesheets past the limit', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const html = '<link rel="stylesheet" href="/static.css"><link rel="stylesheet" href="/other.css">';
+    const collected = await collectCss(html, baseUrl, httpClient, undefined, 1);
+
+    expect(collected.stylesheets!.skipped).toEqual([`${baseUrl}other.css`]);
+    expect(collected.stylesheets!.failed).toBeUndefined();
+  });
+
+  it('fetches more stylesheets than the validator allows at once', async () => {
+    const html = Array.from({ length: 12 }, (_, i) => `<link rel="stylesheet" href="/static.css?${i}">`).join('');
+    const collected = await collectCss(html, baseUrl, httpClient);
+
+    expect(collected.stylesheets!.failed).toBeUndefined();
+    expect(collected.css.match(/#0f766e/g)).toHaveLength(12);
+  });
+});
@@ -0,0 +1,795 @@
+import crypto from 'crypto';
+import { JSDOM } from 'jsdom';
+import { Root, Declaration, AtRule } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import { HttpClient } from './http-client';
+import { resolveCssImports } from './css-imports';
+import { splitColorSchemes } from './color-schemes';
+import { findColors, parseColor } from './css-color';
+import { renderPage } from './renderer';
+import { analyzeImages, mergeImageColorsWithCss } from './image-analysis';
+import { analyzeSemanticColors, enhanceColorsWithSemantic } from './semantic-color-analyzer';
+import { extractStructure } from './structure-extractor';
+import { extractComponents } from './component-extractor';
+import { extractFontInventory } from './font-inventory';
+import { inferSpacingScale } from './spacing-scale';
+import { detectRootFontSize, extractTypeScale } from './type-scale';
+import { annotateConditions, applyConditionMode, cascadeRank, createConditionTracker, isConditional, mediaWidths, trackConditions } from './token-conditions';
+import type { CollectedCss, ComponentInventory, CssImport, ExtractedTokens, ExtractedMeta, ExtractionOptions, ExtractionResult, ImageAnalysisResult, PageStructure, SemanticColorAnalysis, StylesheetDedup, TokenUsage } from './types';
+
+// Component families a selector can belong to; a selector list may touch several
+const SURFACE_PATTERNS: Array<{ surface: string; pattern: RegExp }> = [
+  { surface: 'nav', pattern: /(^|[^\w-])nav|menu/ },
+  { surface: 'header', pattern: /header|masthead|topbar/ },
+  { surface: 'footer', pattern: /footer/ },
+  { surface: 'hero', pattern: /hero|banner|jumbotron/ },
+  { surface: 'button', pattern: /button|(^|[^\w-])btn|(^|[^\w-])cta|\[type=["']?(submit|button)/ },
+  { surface: 'card', pattern: /card|panel|tile/ },
+  { surface: 'form', pattern: /(^|[^\w-])(input|select|textarea|form|label|fieldset)([^\w-]|$)|field/ },
+  { surface: 'modal', pattern: /modal|dialog|overlay|popover|drawer|tooltip/ },
+  { surface: 'table', pattern: /(^|[^\w-])(table|th|td|tr)([^\w-]|$)/ },
+  { surface: 'badge', pattern: /badge|chip|pill|(^|[^\w-])tag([^\w-]|$)/ },
+  { surface: 'alert', pattern: /alert|toast|notification|callout/ },
+  { surface: 'link', pattern: /(^|[\s,>+~])a([\s,:.[>+~]|$)|link/ },
+  { surface: 'typography', pattern: /(^|[\s,>+~])(h[1-6]|p|blockquote|code|pre)([\s,:.[>+~]|$)|prose/ },
+  { surface: 'root', pattern: /:root|(^|[\s,])(html|body)([\s,:.[>]|$)/ }
+];
+
+function classifySurfaces(selector: string): string[] {
+  const lower = selector.toLowerCase();
+  return SURFACE_PATTERNS.filter(({ pattern }) => pattern.test(lower)).map(({ surface }) => surface);
+}
+
+// Key into ExtractedTokens.usage: token group plus the whitespace/case-normalized value
+export function tokenUsageKey(group: 'color' | 'fontFamily' | 'fontSize' | 'spacing' | 'radius' | 'shadow' | 'var', value: string): string {
+  return `${group}:${value.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
+function resolveVar(value: string, customProperties: Record<string, string>, seen: Set<string> = new Set()): string {
+  // Recursively resolve CSS variable references like var(--foo)
+  const varRegex = /var\((--[\w-]+)\)/g;
+  let result = value;
+  let match;
+  while ((match = varRegex.exec(result)) !== null) {
+    const varName = match[1];
+    if (seen.has(varName)) break; // Prevent infinite loops
+    seen.add(varName);
+    const replacement = customProperties[varName];
+    if (replacement) {
+      const resolved = resolveVar(replacement, customProperties, seen);
+      result = result.replace(match[0], resolved);
+    }
+  }
+  return result;
+}
+
+// Declaration order of a serialized text style, e.g. "font-family: Inter; font-size: 2rem; font-weight: 700"
+export const TYPOGRAPHY_PROPERTIES = ['font-family', 'font-size', 'font-weight', 'line-height', 'letter-spacing'];
+
+function frequencyMap(arr: string[]): Record<string, number> {
+  const freq: Record<string, number> = {};
+  for (const v of arr) {
+    freq[v] = (freq[v] || 0) + 1;
+  }
+  return freq;
+}
+
+function frequencyArray(arr: string[]): { value: string; count: number; prevalence: number }[] {
+  const freq = frequencyMap(arr);
+  const total = arr.length;
+  return Object.entries(freq)
+    .map(([value, count]) => ({ value, count, prevalence: +(count / total * 100).toFixed(2) }))
+    .sort((a, b) => b.count - a.count);
+}
+
+export function extractTokensFromCss(css: string): ExtractedTokens {
+  // Dark-scheme rules get their own color set instead of polluting the main (light) tokens
+  const { lightCss, colorSchemes } = splitColorSchemes(css);
+  const root: Root = safeParser(lightCss);
+  const customProperties: Record<string, string> = {};
+  const customPropertyRanks: Record<string, number> = {}; // cascadeRank() of the declaration customProperties holds
+  const customPropertyConditions: Record<string, Record<string, string>> = {};
+  const customPropRefs: Record<string, number> = {};
+  const colors: string[] = [];
+  const colorsFromVariables: Set<string> = new Set(); // Track colors that come from CSS variables
+  const fontSizes: string[] = [];
+  const fontFamilies: string[] = [];
+  const fontWeights: string[] = [];
+  const lineHeights: string[] = [];
+  const letterSpacings: string[] = [];
+  const spacing: string[] = [];
+  const radii: string[] = [];
+  const shadows: string[] = [];
+  const gradients: string[] = [];
+  const breakpoints: string[] = [];
+  const zIndices: string[] = [];
+  const transitions: string[] = [];
+  const opacity: string[] = [];
+  const aspectRatios: string[] = [];
+  const borderWidths: string[] = [];
+  const borderStyles: string[] = [];
+  const typography: string[] = [];
+  const borders: string[] = [];
+  const usage: Record<string, { selectors: Set<string>; surfaces: Set<string> }> = {};
+  // Values each declaration adds are also counted under its @media/@supports/@layer/@container context
+  const tracker = createConditionTracker(root);
+  const groups: Record<string, string[]> = {
+    colors, fontSizes, fontFamilies, fontWeights, lineHeights, letterSpacings, spacing, radii, shadows, gradients,
+    zIndices, transitions, opacity, aspectRatios, borderWidths, borderStyles, typography, borders
+  };
+
+  // Record the selector a value is used under; custom properties are tracked through their var() references
+  const recordUsage = (key: string, decl: Declaration) => {
+    const parent: any = decl.parent;
+    const selector = parent && parent.type === 'rule' ? parent.selector : parent && parent.type === 'atrule' ? `@${parent.name} ${parent.params}` : ':root';
+    if (!usage[key]) {
+      usage[key] = { selectors: new Set(), surfaces: new Set() };
+    }
+    usage[key].selectors.add(selector);
+    classifySurfaces(selector).forEach(surface => usage[key].surfaces.add(surface));
+  };
+
+  // Count var(--token) references
+  const varRefRegex = /var\((--[\w-]+)\)/g;
+  let match;
+  while ((match = varRefRegex.exec(css)) !== null) {
+    const varName = match[1];
+    customPropRefs[varName] = (customPropRefs[varName] || 0) + 1;
+  }
+
+  // Helper function to check if a CSS rule should be ignored
+  const shouldIgnoreRule = (rule: any): boolean => {
+    if (!rule.parent) return false;
+    
+    // Get the full selector chain
+    let currentRule = rule.parent;
+    let selectors: string[] = [];
+    
+    while (currentRule) {
+      if (currentRule.type === 'rule') {
+        selectors.push(currentRule.selector || '');
+      }
+      currentRule = currentRule.parent;
+    }
+    
+    const fullSelector = selectors.join(' ').toLowerCase();
+    
+    // Ignore problematic pseudo-states that often contain browser defaults
+    const ignoredPatterns = [
+      /:hover/i,           // Hover states often use browser defaults
+      /:focus/i,           // Focus rings often use browser defaults  
+      /:visited/i,         // Visited link colors use browser defaults
+      /:link/i,            // Default link colors
+      /:active/i,          // Active states may use defaults
+      /a:not\(/i,          // Default link styling
+      /\*:focus/i,         // Universal focus styles
+      /input:focus/i,      // Default form focus colors
+      /button:focus/i,     // Default button focus colors
+      /textarea:focus/i,   // Default textarea focus colors
+      /select:focus/i,     // Default select focus colors
+      /:focus-visible/i,   // Focus-visible often browser defaults
+      /:target/i           // Target pseudo-class defaults
+    ];
+    
+    return ignoredPatterns.some(pattern => pattern.test(fullSelector));
+  };
+
+  root.walkDecls((decl: Declaration) => trackConditions(tracker, decl, groups, condition => {
+    const declVarRefs = decl.value.match(/var\((--[\w-]+)/g);
+    if (declVarRefs) {
+      declVarRefs.forEach(ref => recordUsage(tokenUsageKey('var', ref.slice(4)), decl));
+    }
+
+    // Custom properties: the value is the one that wins the unconditional cascade, and values
+    // declared under a query are kept per condition (responsive and fallback tokens)
+    if (decl.prop.startsWith('--')) {
+      const rank = cascadeRank(condition);
+      if (customPropertyRanks[decl.prop] === undefined || rank >= customPropertyRanks[decl.prop]) {
+        customProperties[decl.prop] = decl.value;
+        customPropertyRanks[decl.prop] = rank;
+      }
+      if (condition && isConditional(condition)) {
+        (customPropertyConditions[decl.prop] || (customPropertyConditions[decl.prop] = {}))[condition.key] = decl.value;
+      }
+      
+      // If this custom property contains colors, mark them as variable-defined; a value that is
+      // a single color may also be a named one (`--brand: rebeccapurple`)
+      const colorMatches = parseColor(decl.value) ? [decl.value.trim()] : findColors(decl.value);
+      colorMatches.forEach(color => colorsFromVariables.add(color));
+    }
+    
+    // Colors - but skip problematic pseudo-states
+    if (!shouldIgnoreRule(decl) && /color|background|border|fill|stroke|shadow|outline|caret|text-decoration|accent-color/i.test(decl.prop)) {
+      const matches = findColors(decl.value, { keywords: true });
+      if (matches.length > 0) {
+        // Additional filter for known browser default colors
+        matches.forEach(color => {
+          const normalized = color.toLowerCase();
+          const browserDefaults = [
+            '#0000ee', '#0000ff', '#0066cc', '#0080ff', '#0099ff', '#1e90ff', '#4169e1',
+            '#800080', '#8b008b', '#9932cc', '#663399',
+            '#005fcc', '#0078d4', '#0066ff', '#217ce8', '#2563eb',
+            '#0078d7', '#106ebe', '#66afe9', '#80bdff', '#007bff',
+            '#1976d2', '#2196f3', '#42a5f5'
+          ];
+          
+          // Only include if it's not a known browser default
+          if (!browserDefaults.includes(normalized)) {
+            colors.push(color);
+            recordUsage(tokenUsageKey('color', color), decl);
+          }
+        });
+      }
+    }
+    
+    // Also extract colors from any CSS value that contains color patterns (but still filter)
+    if (!shouldIgnoreRule(decl) && decl.value) {
+      const valueMatches = findColors(decl.value);
+      if (valueMatches.length > 0) {
+        valueMatches.forEach(color => {
+          const normalized = color.toLowerCase();
+          const browserDefaults = [
+            '#0000ee', '#0000ff', '#0066cc', '#0080ff', '#0099ff', '#1e90ff', '#4169e1',
+            '#800080', '#8b008b', '#9932cc', '#663399',
+            '#005fcc', '#0078d4', '#0066ff', '#217ce8', '#2563eb',
+            '#0078d7', '#106ebe', '#66afe9', '#80bdff', '#007bff',
+            '#1976d2', '#2196f3', '#42a5f5'
+          ];
+          
+          // Only include if it's not a known browser default
+          if (!browserDefaults.includes(normalized)) {
+            colors.push(color);
+            recordUsage(tokenUsageKey('color', color), decl);
+          }
+        });
+      }
+    }
+    // Font sizes
+    if (/font-size/i.test(decl.prop)) {
+      const fontSizeRegex = /([\d.]+(px|rem|em|%|vw|vh))/g;
+      const matches = decl.value.match(fontSizeRegex);
+      if (matches) matches.forEach(f => {
+        fontSizes.push(f);
+        recordUsage(tokenUsageKey('fontSize', f), decl);
+      });
+    }
+    // Font families
+    if (/font-family/i.test(decl.prop)) {
+      const families = decl.value.split(',').map(f => f.trim().replace(/^['"]|['"]$/g, ''));
+      families.forEach(fam => {
+        fontFamilies.push(fam);
+        recordUsage(tokenUsageKey('fontFamily', fam), decl);
+      });
+    }
+    // Font weights
+    if (/font-weight/i.test(decl.prop)) {
+      fontWeights.push(decl.value.trim());
+    }
+    // Line heights
+    if (/line-height/i.test(decl.prop)) {
+      lineHeights.push(decl.value.trim());
+    }
+    // Letter spacing
+    if (/letter-spacing/i.test(decl.prop)) {
+      letterSpacings.push(decl.value.trim());
+    }
+    // Spacing
+    if (/margin|padding|gap/i.test(decl.prop)) {
+      const spacingRegex = /([\d.]+(px|rem|em|%|vw|vh))/g;
+      const matches = decl.value.match(spacingRegex);
+      if (matches) matches.forEach(s => {
+        spacing.push(s);
+        recordUsage(tokenUsageKey('spacing', s), decl);
+      });
+    }
+    // Border radius
+    if (/radius/i.test(decl.prop)) {
+      const radiusRegex = /([\d.]+(px|rem|em|%))/g;
+      const matches = decl.value.match(radiusRegex);
+      if (matches) matches.forEach(r => {
+        radii.push(r);
+        recordUsage(tokenUsageKey('radius', r), decl);
+      });
+    }
+    // Shadows
+    if (/box-shadow|text-shadow/i.test(decl.prop)) {
+      shadows.push(decl.value);
+      recordUsage(tokenUsageKey('shadow', decl.value), decl);
+    }
+    // Gradients
+    if (/gradient/i.test(decl.value)) {
+      gradients.push(decl.value);
+    }
+    // Z-Index
+    if (/z-index/i.test(decl.prop)) {
+      zIndices.push(decl.value.trim());
+    }
+    // Transitions & Animations
+    if (/transition|animation/i.test(decl.prop)) {
+      transitions.push(decl.value.trim());
+    }
+    // Opacity
+    if (/opacity/i.test(decl.prop)) {
+      opacity.push(decl.value.trim());
+    }
+    // Aspect Ratio
+    if (/aspect-ratio/i.test(decl.prop)) {
+      aspectRatios.push(decl.value.trim());
+    }
+    // Border Widths
+    if (/border-width/i.test(decl.prop)) {
+      borderWidths.push(decl.value.trim());
+    }
+    // Border Styles
+    if (/border-style/i.test(decl.prop)) {
+      borderStyles.push(decl.value.trim());
+    }
+    // Border shorthands keep width, style and color together
+    if (/^border(-(top|right|bottom|left))?$/i.test(decl.prop) && !/^(none|0|inherit|initial|unset)$/i.test(decl.value.trim())) {
+      borders.push(decl.value.trim());
+    }
+  }));
+
+  // One text style per rule that sets a font size, with the font properties declared beside it
+  root.walkRules(rule => trackConditions(tracker, rule, groups, () => {
+    const declared: Record<string, string> = {};
+    rule.each(node => {
+      if (node.type === 'decl' && TYPOGRAPHY_PROPERTIES.indexOf(node.prop.toLowerCase()) !== -1) {
+        declared[node.prop.toLowerCase()] = node.value.trim();
+      }
+    });
+    if (!declared['font-size']) return;
+    typography.push(TYPOGRAPHY_PROPERTIES.filter(prop => declared[prop]).map(prop => `${prop}: ${declared[prop]}`).join('; '));
+  }));
+
+  // Media queries for breakpoints, in min-/max-width or range syntax
+  root.walkAtRules((rule: AtRule) => {
+    if (rule.name === 'media') {
+      mediaWidths(rule.params).forEach(width => breakpoints.push(width));
+    }
+  });
+
+  // Resolve custom property values
+  const processedCustomProperties: ExtractedTokens['customProperties'] = {};
+  for (const [key, value] of Object.entries(customProperties)) {
+    const resolved = resolveVar(value, customProperties);
+    // Check if the original value is exactly a single var(--token)
+    const varMatch = value.match(/^var\((--[\w-]+)\)$/);
+    if (varMatch) {
+      processedCustomProperties[key] = {
+        value: resolved,
+        references: customPropRefs[key] || 0,
+        refVariable: varMatch[1],
+        expression: value
+      };
+    } else {
+      processedCustomProperties[key] = {
+        value: resolved,
+        references: customPropRefs[key] || 0
+      };
+      if (resolved !== value) {
+        processedCustomProperties[key].expression = value;
+      }
+    }
+    const conditions = customPropertyConditions[key];
+    if (conditions) {
+      processedCustomProperties[key].conditions = {};
+      Object.keys(conditions).forEach(condition => {
+        processedCustomProperties[key].conditions![condition] = resolveVar(conditions[condition], customProperties);
+      });
+    }
+  }
+
+  // Font declarations paired per text role (h1-h6, body, p, ...) and the modular scale behind them;
+  // spacing is normalized to px against the same root font-size
+  const rootPx = detectRootFontSize(root, processedCustomProperties);
+  const typeScale = extractTypeScale(root, processedCustomProperties, rootPx);
+  const spacingScale = inferSpacingScale(frequencyArray(spacing), rootPx);
+
+  const tokenUsage: Record<string, TokenUsage> = {};
+  Object.keys(usage).sort().forEach(key => {
+    tokenUsage[key] = { contexts: usage[key].selectors.size, surfaces: Array.from(usage[key].surfaces).sort() };
+  });
+
+  function dedup(arr: string[]) {
+    return Array.from(new Set(arr));
+  }
+
+  const tokens: ExtractedTokens = {
+    customProperties: processedCustomProperties,
+    colors: {
+      values: dedup(colors),
+      frequency: frequencyArray(colors)
+    },
+    colorsFromVariables: Array.from(colorsFromVariables),
+    fontSizes: {
+      values: dedup(fontSizes),
+      frequency: frequencyArray(fontSizes)
+    },
+    fontFamilies: {
+      values: dedup(fontFamilies),
+      frequency: frequencyArray(fontFamilies)
+    },
+    fontWeights: {
+      values: dedup(fontWeights),
+      frequency: frequencyArray(fontWeights)
+    },
+    lineHeights: {
+      values: dedup(lineHeights),
+      frequency: frequencyArray(lineHeights)
+    },
+    letterSpacings: {
+      values: dedup(letterSpacings),
+      frequency: frequencyArray(letterSpacings)
+    },
+    spacing: {
+      values: dedup(spacing),
+      frequency: frequencyArray(spacing)
+    },
+    radii: {
+      values: dedup(radii),
+      frequency: frequencyArray(radii)
+    },
+    shadows: {
+      values: dedup(shadows),
+      frequency: frequencyArray(shadows)
+    },
+    gradients: {
+      values: dedup(gradients),
+      frequency: frequencyArray(gradients)
+    },
+    breakpoints: {
+      values: dedup(breakpoints),
+      frequency: frequencyArray(breakpoints)
+    },
+    zIndices: {
+      values: dedup(zIndices),
+      frequency: frequencyArray(zIndices)
+    },
+    transitions: {
+      values: dedup(transitions),
+      frequency: frequencyArray(transitions)
+    },
+    opacity: {
+      values: dedup(opacity),
+      frequency: frequencyArray(opacity)
+    },
+    aspectRatios: {
+      values: dedup(aspectRatios),
+      frequency: frequencyArray(aspectRatios)
+    },
+    borderWidths: {
+      values: dedup(borderWidths),
+      frequency: frequencyArray(borderWidths)
+    },
+    borderStyles: {
+      values: dedup(borderStyles),
+      frequency: frequencyArray(borderStyles)
+    },
+    typography: {
+      values: dedup(typography),
+      frequency: frequencyArray(typography)
+    },
+    borders: {
+      values: dedup(borders),
+      frequency: frequencyArray(borders)
+    },
+    colorSchemes,
+    typeScale,
+    spacingScale,
+    usage: tokenUsage
+  };
+  annotateConditions(tokens, tracker);
+  return tokens;
+}
+
+export function createStylesheetDedup(): StylesheetDedup {
+  return { seenUrls: new Set<string>(), seenHashes: new Set<string>() };
+}
+
+// Returns false when the stylesheet was already collected, and remembers it otherwise
+function claimStylesheet(dedup: StylesheetDedup, css: string, url?: string): boolean {
+  if (!css.trim()) return true; // Failed fetches and empty blocks are harmless either way
+  const hash = crypto.createHash('sha1').update(css).digest('hex');
+  if (dedup.seenHashes.has(hash)) return false;
+  dedup.seenHashes.add(hash);
+  if (url) dedup.seenUrls.add(url);
+  return true;
+}
+
+// Run `fn` over `items` with at most `limit` calls in flight, keeping results in order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(Math.max(limit, 1), items.length); i++) workers.push(worker());
+  await Promise.all(workers);
+  return results;
+}
+
+// Collect external stylesheets and inline <style> blocks into a single CSS string,
+// inlining any @import rules they pull in. With `dedup`, stylesheets an earlier page
+// already contributed are neither fetched again nor included. Stylesheets are fetched
+// no faster than the security validator admits requests; past `maxStylesheets` they are
+// skipped, and both skipped and failed sheets are reported.
+export async function collectCss(html: string, baseUrl: string, httpClient: HttpClient, dedup?: StylesheetDedup, maxStylesheets?: number): Promise<CollectedCss> {
+  const dom = new JSDOM(html);
+  const document = dom.window.document;
+  const imports: CssImport[] = [];
+  const importCache = new Map<string, Promise<string>>();
+
+  // Get all external stylesheet URLs
+  const allLinkHrefs = Array.from(document.querySelectorAll('link[rel="stylesheet"]'))
+    .map(link => (link as HTMLLinkElement).href)
+    .map(href => href.startsWith('http') ? href : new URL(href, baseUrl).href);
+  const unseenHrefs = dedup ? allLinkHrefs.filter(href => !dedup.seenUrls.has(href)) : allLinkHrefs;
+  const linkHrefs = maxStylesheets !== undefined ? unseenHrefs.slice(0, maxStylesheets) : unseenHrefs;
+  const skipped = unseenHrefs.slice(linkHrefs.length);
+  if (skipped.length > 0) {
+    console.warn(`⚠️  Skipped ${skipped.length} stylesheet(s) past the limit of ${maxStylesheets}`);
+  }
+
+  // Get all inline <style> tag contents
+  const allStyleContents = Array.from(document.querySelectorAll('style'))
+    .map(style => (style as HTMLStyleElement).textContent || '');
+  const styleContents = dedup ? allStyleContents.filter(content => claimStylesheet(dedup, content)) : allStyleContents;
+
+  // Fetch all external CSS - a blocked or unreachable stylesheet should not fail the whole page
+  const concurrency = httpClient.getSecurityValidator().getMaxConcurrentRequests();
+  const externalCssArr = await mapWithConcurrency(linkHrefs, concurrency, async url => {
+    try {
+      return await httpClient.fetchCss(url);
+    } catch (error) {
+      console.warn(`Failed to fetch stylesheet: ${url}`, error);
+      return '';
+    }
+  });
+  // fetchCss returns '' for sheets it could not load
+  const failed = linkHrefs.filter((_, i) => !externalCssArr[i]);
+  if (failed.length > 0) {
+    console.warn(`⚠️  ${failed.length} of ${linkHrefs.length} stylesheet(s) failed to load; their tokens are missing`);
+  }
+
+  // Resolve @import chains sequentially so the import graph keeps document order
+  const resolvedSheets: string[] = [];
+  for (let i = 0; i < externalCssArr.length; i++) {
+    if (!externalCssArr[i]) continue;
+    if (dedup && !claimStylesheet(dedup, externalCssArr[i], linkHrefs[i])) continue;
+    resolvedSheets.push(await resolveCssImports(externalCssArr[i], linkHrefs[i], httpClient, imports, [linkHrefs[i]], importCache));
+  }
+  for (const styleContent of styleContents) {
+    resolvedSheets.push(await resolveCssImports(styleContent, baseUrl, httpClient, imports, [baseUrl], importCache));
+  }
+
+  if (imports.length > 0) {
+    const resolvedCount = imports.filter(entry => entry.status === 'resolved').length;
+    console.log(`📥 Resolved ${resolvedCount}/${imports.length} @import rules`);
+  }
+
+  // Combine all CSS
+  const total = allLinkHrefs.length + allStyleContents.length;
+  return {
+    html,
+    css: resolvedSheets.join('\n'),
+    imports,
+    stylesheets: {
+      total,
+      shared: total - resolvedSheets.length - failed.length - skipped.length,
+      ...(failed.length > 0 ? { failed } : {}),
+      ...(skipped.length > 0 ? { skipped } : {})
+    }
+  };
+}
+
+// Load a page's HTML and CSS, either statically (HttpClient + JSDOM) or, when
+// `options.render` is set, through a headless browser so runtime-injected styles count
+export async function loadPageStyles(url: string, httpClient: HttpClient, options: ExtractionOptions = {}): Promise<CollectedCss> {
+  if (options.render) {
+    const imports: CssImport[] = [];
+    const rendered = await renderPage(url, httpClient, imports);
+    return { html: rendered.html, css: rendered.css, imports, rendered };
+  }
+
+  const html = await httpClient.fetchHtml(url);
+  return collectCss(html, url, httpClient, undefined, options.maxStylesheets);
+}
+
+export function calculateTotalTokens(tokens: ExtractedTokens): Record<string, number> {
+  return {
+    customProperties: Object.keys(tokens.customProperties).length,
+    colors: tokens.colors.frequency.reduce((a, b) => a + b.count, 0),
+    fontSizes: tokens.fontSizes.frequency.reduce((a, b) => a + b.count, 0),
+    fontFamilies: tokens.fontFamilies.frequency.reduce((a, b) => a + b.count, 0),
+    fontWeights: tokens.fontWeights.frequency.reduce((a, b) => a + b.count, 0),
+    lineHeights: tokens.lineHeights.frequency.reduce((a, b) => a + b.count, 0),
+    letterSpacings: tokens.letterSpacings.frequency.reduce((a, b) => a + b.count, 0),
+    spacing: tokens.spacing.frequency.reduce((a, b) => a + b.count, 0),
+    radii: tokens.radii.frequency.reduce((a, b) => a + b.count, 0),
+    shadows: tokens.shadows.frequency.reduce((a, b) => a + b.count, 0),
+    gradients: tokens.gradients.frequency.reduce((a, b) => a + b.count, 0),
+    breakpoints: tokens.breakpoints.frequency.reduce((a, b) => a + b.count, 0),
+    zIndices: tokens.zIndices.frequency.reduce((a, b) => a + b.count, 0),
+    transitions: tokens.transitions.frequency.reduce((a, b) => a + b.count, 0),
+    opacity: tokens.opacity.frequency.reduce((a, b) => a + b.count, 0),
+    aspectRatios: tokens.aspectRatios.frequency.reduce((a, b) => a + b.count, 0),
+    borderWidths: tokens.borderWidths.frequency.reduce((a, b) => a + b.count, 0),
+    borderStyles: tokens.borderStyles.frequency.reduce((a, b) => a + b.count, 0)
+  };
+}
+
+// Full single-page pipeline shared by the CLI and the API: CSS collection,
+// token extraction, optional image/semantic enrichment and meta totals
+export async function extractStylesFromUrl(
+  url: string,
+  httpClient: HttpClient,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const collected = await loadPageStyles(url, httpClient, options);
+  return analyzeCollectedStyles(collected, url, httpClient, options);
+}
+
+export async function extractStylesFromHtml(
+  html: string,
+  baseUrl: string,
+  httpClient: HttpClient,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const collected = await collectCss(html, baseUrl, httpClient, undefined, options.maxStylesheets);
+  return analyzeCollectedStyles(collected, baseUrl, httpClient, options);
+}
+
+// Landmarks, breakpoints and layering for STRUCTURE.md / composition.json, and component
+// families with their geometry for COMPONENTS.md / components.json
+export function extractPageLayout(collected: CollectedCss): { structure?: PageStructure; components?: ComponentInventory } {
+  const { html, css, rendered } = collected;
+  const evidence = rendered ? 'rendered-dom' : 'static-html';
+
+  let structure: PageStructure | undefined;
+  try {
+    structure = extractStructure(html, css, evidence);
+  } catch (error) {
+    console.warn('Structure extraction failed:', error);
+  }
+
+  let components: ComponentInventory | undefined;
+  try {
+    components = extractComponents(html, css, evidence);
+  } catch (error) {
+    console.warn('Component extraction failed:', error);
+  }
+
+  return { structure, components };
+}
+
+async function analyzeCollectedStyles(
+  collected: CollectedCss,
+  baseUrl: string,
+  httpClient: HttpClient,
+  options: ExtractionOptions
+): Promise<ExtractionResult> {
+  const { html, css: allCss, imports, rendered, stylesheets } = collected;
+  console.log('Total combined CSS length:', allCss.length);
+
+  // Optional image analysis
+  let imageAnalysis: ImageAnalysisResult | undefined;
+  if (options.includeImages) {
+    try {
+      imageAnalysis = await analyzeImages(html, allCss, baseUrl, httpClient, {
+        maxImages: options.maxImages || 10,
+        timeout: 5000
+      });
+    } catch (error) {
+      console.warn('Image analysis failed:', error);
+    }
+  }
+
+  // Optional semantic color analysis
+  let semanticAnalysis: SemanticColorAnalysis | undefined;
+  if (options.semanticAnalysis) {
+    try {
+      semanticAnalysis = analyzeSemanticColors(html, allCss, rendered ? rendered.computedStyles : []);
+    } catch (error) {
+      console.warn('Semantic analysis failed:', error);
+    }
+  }
+
+  const { structure, components } = extractPageLayout(collected);
+
+  // Parse and extract tokens
+  const tokens = extractTokensFromCss(allCss);
+  if (options.conditions) applyConditionMode(tokens, options.conditions);
+  if (tokens.colorSchemes && tokens.colorSchemes.dark) {
+    const { dark, strategy, selector } = tokens.colorSchemes;
+    console.log(`🌗 Site dark scheme (${strategy === 'selector' ? selector : strategy}): ${dark.colors.values.length} colors, ${dark.pairs.length} light/dark pairs`);
+  }
+
+  // Which font-family stack entries the page actually loads (@font-face, Google/Adobe links) vs system fallbacks
+  try {
+    tokens.fonts = extractFontInventory(html, allCss, baseUrl, tokens.customProperties, imports);
+    const loaded = tokens.fonts.families.filter(family => family.status === 'loaded');
+    if (loaded.length > 0 || tokens.fonts.faces.length > 0) {
+      console.log(`🔤 Web fonts: ${loaded.map(family => family.family).join(', ') || 'none loaded'} (${tokens.fonts.faces.length} @font-face rules, ${tokens.fonts.links.length} font links)`);
+    }
+  } catch (error) {
+    console.warn('Font inventory failed:', error);
+  }
+
+  // Enhance colors with all available analysis types
+  let enhancedColors = tokens.colors.frequency.map(f => ({ value: f.value, count: f.count }));
+
+  // Apply image analysis enhancement
+  if (imageAnalysis) {
+    enhancedColors = mergeImageColorsWithCss(enhancedColors, imageAnalysis);
+    console.log(`🖼️  Enhanced colors with image analysis: ${imageAnalysis.images.length} images processed`);
+  }
+
+  // Apply semantic analysis enhancement
+  if (semanticAnalysis) {
+    const semanticEnhanced = enhanceColorsWithSemantic(enhancedColors, semanticAnalysis);
+
+    // Update tokens with semantic-enhanced color data
+    tokens.colors.frequency = semanticEnhanced.map(c => ({
+      value: c.value,
+      count: c.count,
+      prevalence: +(c.count / semanticEnhanced.reduce((sum, item) => sum + item.count, 0) * 100).toFixed(2)
+    }));
+
+    tokens.colors.values = semanticEnhanced.map(c => c.value);
+
+    console.log(`🎯 Enhanced colors with semantic analysis:`);
+    console.log(`    Button colors: ${semanticAnalysis.summary.buttonColors.length}`);
+    console.log(`    Brand colors: ${semanticAnalysis.summary.brandColors.length}`);
+    console.log(`    Total semantic elements: ${semanticAnalysis.summary.totalElements}`);
+  } else if (imageAnalysis) {
+    // If only image analysis was performed, update tokens
+    tokens.colors.frequency = enhancedColors.map(c => ({
+      value: c.value,
+      count: c.count,
+      prevalence: +(c.count / enhancedColors.reduce((sum, item) => sum + item.count, 0) * 100).toFixed(2)
+    }));
+
+    tokens.colors.values = enhancedColors.map(c => c.value);
+  }
+
+  const meta: ExtractedMeta = {
+    source: baseUrl,
+    extractedAt: new Date().toISOString(),
+    cssImports: imports.length > 0 ? imports : undefined,
+    stylesheets: stylesheets && (stylesheets.failed || stylesheets.skipped)
+      ? { failed: stylesheets.failed, skipped: stylesheets.skipped }
+      : undefined,
+    render: rendered ? {
+      stylesheets: rendered.stylesheetCount,
+      adoptedStylesheets: rendered.adoptedStylesheetCount,
+      computedElements: rendered.computedStyles.length
+    } : undefined,
+    imageAnalysis: imageAnalysis ? {
+      totalImages: imageAnalysis.totalImages,
+      processedImages: imageAnalysis.images.length,
+      logoColors: imageAnalysis.logoColors,
+      heroColors: imageAnalysis.heroColors,
+      averageColorsPerImage: imageAnalysis.averageColorsPerImage,
+      imageTypes: imageAnalysis.images.reduce((acc: Record<string, number>, img) => {
+        acc[img.type] = (acc[img.type] || 0) + 1;
+        return acc;
+      }, {})
+    } : undefined,
+    semanticAnalysis: semanticAnalysis ? {
+      totalElements: semanticAnalysis.summary.totalElements,
+      buttonColors: semanticAnalysis.summary.buttonColors,
+      brandColors: semanticAnalysis.summary.brandColors,
+      colorsByContext: semanticAnalysis.summary.colorsByContext,
+      highestWeightColors: semanticAnalysis.summary.highestWeightColors,
+      tailwind: semanticAnalysis.tailwind
+    } : undefined,
+    totalTokens: calculateTotalTokens(tokens)
+  };
+
+  return { css: allCss, tokens, meta, assets: imageAnalysis ? imageAnalysis.assets : undefined, structure, components, semantic: semanticAnalysis };
+}
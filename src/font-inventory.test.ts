@@ -0,0 +1,116 @@
+import { extractFontInventory, mergeFontInventories } from './font-inventory';
+
+const BASE = 'https://www.example.com/';
+
+const HTML = `
+  <html><head>
+    <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Lora:ital,wght@0,400;1,700&display=swap">
+    <link rel="preload" as="font" href="/fonts/inter-var.woff2" crossorigin>
+  </head><body></body></html>
+`;
+
+const CSS = `
+  @font-face {
+    font-family: "Inter";
+    src: url(/fonts/inter-var.woff2) format("woff2-variations"), url("/fonts/inter.woff") format("woff");
+    font-weight: 100 900;
+    font-display: swap;
+    unicode-range: U+0000-00FF;
+  }
+  @font-face {
+    font-family: 'Brand Sans';
+    src: url(https://cdn.fonts.net/brand-sans-bold.woff2) format('woff2');
+    font-weight: bold;
+    font-style: italic;
+  }
+  @font-face {
+    font-family: "Inter Fallback";
+    src: local("Arial");
+    size-adjust: 107%;
+  }
+  :root { --font-body: "Inter", "Inter Fallback", -apple-system, "Segoe UI", sans-serif; }
+  body { font-family: var(--font-body); }
+  h1 { font: italic 700 2rem/1.2 "Brand Sans", Georgia, serif; }
+  blockquote { font-family: Lora, serif; }
+  code { font-family: "Operator Mono", ui-monospace, monospace; }
+  .inherit { font-family: inherit; }
+`;
+
+describe('extractFontInventory', () => {
+  const customProperties = {
+    '--font-body': { value: '"Inter", "Inter Fallback", -apple-system, "Segoe UI", sans-serif', references: 1 }
+  };
+  const inventory = extractFontInventory(HTML, CSS, BASE, customProperties);
+  const family = (name: string) => inventory.families.find(entry => entry.family === name)!;
+
+  it('parses @font-face descriptors and sources', () => {
+    expect(inventory.faces).toEqual([
+      {
+        family: 'Inter',
+        weight: '100 900',
+        style: 'normal',
+        sources: [
+          { url: '/fonts/inter-var.woff2', format: 'woff2-variations' },
+          { url: '/fonts/inter.woff', format: 'woff' }
+        ],
+        provider: 'self-hosted',
+        variable: true,
+        unicodeRange: 'U+0000-00FF',
+        display: 'swap'
+      },
+      {
+        family: 'Brand Sans',
+        weight: '700',
+        style: 'italic',
+        sources: [{ url: 'https://cdn.fonts.net/brand-sans-bold.woff2', format: 'woff2' }],
+        provider: 'third-party',
+        variable: false
+      },
+      {
+        family: 'Inter Fallback',
+        weight: '400',
+        style: 'normal',
+        sources: [{ local: 'Arial' }],
+        provider: 'local',
+        variable: false
+      }
+    ]);
+  });
+
+  it('reads Google Fonts links and font preloads', () => {
+    expect(inventory.links).toEqual([
+      {
+        href: 'https://fonts.googleapis.com/css2?family=Lora:ital,wght@0,400;1,700&display=swap',
+        provider: 'google',
+        kind: 'stylesheet',
+        families: [{ family: 'Lora', weights: ['400', '700'], styles: ['normal', 'italic'] }],
+        display: 'swap'
+      },
+      { href: 'https://www.example.com/fonts/inter-var.woff2', provider: 'self-hosted', kind: 'preload', families: [] }
+    ]);
+  });
+
+  it('classifies every family in the stacks', () => {
+    expect(family('Inter')).toMatchObject({ status: 'loaded', provider: 'self-hosted', weights: ['100 900'], variable: true, primary: true, generic: 'sans-serif' });
+    expect(family('Brand Sans')).toMatchObject({ status: 'loaded', provider: 'third-party', styles: ['italic'], primary: true, generic: 'serif' });
+    expect(family('Lora')).toMatchObject({ status: 'loaded', provider: 'google', faces: 0 });
+    expect(family('Inter Fallback')).toMatchObject({ status: 'local', provider: 'local', primary: false });
+    expect(family('Segoe UI')).toMatchObject({ status: 'system', primary: false });
+    expect(family('Georgia').status).toBe('system');
+    expect(family('Operator Mono')).toMatchObject({ status: 'missing', primary: true, generic: 'monospace' });
+    expect(family('sans-serif').status).toBe('generic');
+    expect(inventory.families.map(entry => entry.family)).not.toContain('inherit');
+  });
+});
+
+describe('mergeFontInventories', () => {
+  it('keeps the best status and the widest single-page usage', () => {
+    const home = extractFontInventory('', 'body { font-family: "Inter", sans-serif; } p { font-family: Inter; }', BASE);
+    const blog = extractFontInventory('', '@font-face { font-family: Inter; src: url(/inter.woff2); } body { font-family: Inter; }', BASE);
+
+    const merged = mergeFontInventories([home, blog]);
+
+    expect(merged.families.find(entry => entry.family === 'Inter')).toMatchObject({ status: 'loaded', usage: 2, faces: 1, generic: 'sans-serif' });
+    expect(merged.faces).toHaveLength(1);
+  });
+});
@@ -0,0 +1,390 @@
+import { JSDOM } from 'jsdom';
+import { AtRule, Declaration } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import type { CssImport, ExtractedTokens, FontFaceRule, FontFaceSource, FontFamilyEntry, FontInventory, FontLink, FontProvider } from './types';
+
+const GENERIC_FAMILIES = /^(serif|sans-serif|monospace|cursive|fantasy|system-ui|ui-serif|ui-sans-serif|ui-monospace|ui-rounded|math|emoji|fangsong)$/i;
+const CSS_WIDE_KEYWORDS = /^(inherit|initial|unset|revert|revert-layer)$/i;
+
+// Fonts that ship with the major operating systems, i.e. what a stack falls back to before its generic family
+const SYSTEM_FONTS = /^(-apple-system|blinkmacsystemfont|segoe ui( (emoji|symbol|variable))?|roboto|helvetica( neue)?|arial|arial black|noto sans|noto color emoji|liberation (sans|serif|mono)|ubuntu|cantarell|oxygen(-sans)?|fira sans|droid sans|georgia|times( new roman)?|cambria|palatino( linotype)?|book antiqua|garamond|verdana|tahoma|trebuchet ms|lucida (grande|sans unicode|console)|gill sans|optima|avenir( next)?|impact|comic sans ms|courier( new)?|consolas|menlo|monaco|sfmono-regular|sf mono|sf pro( display| text)?|dejavu sans( mono)?|apple color emoji|apple system)$/i;
+
+const GOOGLE_HOSTS = /(^|\.)(fonts\.googleapis\.com|fonts\.gstatic\.com)$/i;
+const ADOBE_HOSTS = /(^|\.)typekit\.(net|com)$/i;
+
+const STATUS_RANK: Record<FontFamilyEntry['status'], number> = { loaded: 0, local: 1, missing: 2, system: 3, generic: 4 };
+
+// Split on top-level commas, leaving commas inside quotes and parentheses (data: URLs) alone
+function splitList(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function splitFamilies(value: string): string[] {
+  return splitList(value)
+    .map(family => family.replace(/^(['"])(.*)\1$/, '$2').replace(/\s+/g, ' ').trim())
+    .filter(family => family && !family.includes('var(') && !CSS_WIDE_KEYWORDS.test(family));
+}
+
+// Substitute var(--x[, fallback]) with the extractor's resolved custom property values
+function resolveFamilyVars(value: string, customProperties: ExtractedTokens['customProperties']): string {
+  return value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/g, (whole, name: string, fallback?: string) => {
+    const property = customProperties[name];
+    if (property && property.value) return property.value;
+    return fallback !== undefined ? fallback : whole;
+  });
+}
+
+// Family list of a `font` shorthand: everything after the size (and optional /line-height)
+function shorthandFamilies(value: string): string | null {
+  const match = value.match(/(?:^|\s)(?:[\d.]+[a-z%]*|(?:xx?x?-)?(?:small|large)|medium|smaller|larger)(?:\s*\/\s*[^\s,]+)?\s+([^\d\s/].*)$/i);
+  return match ? match[1] : null;
+}
+
+function siteDomain(hostname: string): string {
+  return hostname.toLowerCase().split('.').slice(-2).join('.');
+}
+
+function fontProvider(url: string, baseUrl: string): FontProvider {
+  if (/^data:/i.test(url)) return 'self-hosted';
+  let host: string;
+  try {
+    host = new URL(url, baseUrl).hostname;
+  } catch {
+    return 'self-hosted';
+  }
+  if (GOOGLE_HOSTS.test(host)) return 'google';
+  if (ADOBE_HOSTS.test(host)) return 'adobe';
+  try {
+    if (siteDomain(host) === siteDomain(new URL(baseUrl).hostname)) return 'self-hosted';
+  } catch {
+    // A base URL we cannot parse makes every absolute host third-party
+  }
+  return 'third-party';
+}
+
+function normalizeWeight(weight: string | undefined): string {
+  if (!weight) return '400';
+  return weight.trim().toLowerCase().split(/\s+/)
+    .map(part => part === 'normal' ? '400' : part === 'bold' ? '700' : part)
+    .join(' ');
+}
+
+function parseSources(src: string): FontFaceSource[] {
+  return splitList(src).map(part => {
+    const source: FontFaceSource = {};
+    const url = part.match(/url\(\s*(['"]?)(.*?)\1\s*\)/i);
+    const local = part.match(/local\(\s*(['"]?)(.*?)\1\s*\)/i);
+    const format = part.match(/format\(\s*['"]?([^'")]+)['"]?\s*\)/i);
+    const tech = part.match(/tech\(\s*([^)]+)\)/i);
+    if (url) source.url = /^data:/i.test(url[2]) ? url[2].split(',')[0] : url[2];
+    if (local) source.local = local[2];
+    if (format) source.format = format[1].trim();
+    if (tech) source.tech = tech[1].trim();
+    return source;
+  }).filter(source => source.url || source.local);
+}
+
+function parseFontFace(rule: AtRule, baseUrl: string): FontFaceRule | null {
+  const descriptors: Record<string, string> = {};
+  rule.each(node => {
+    if (node.type === 'decl') descriptors[node.prop.toLowerCase()] = node.value.trim();
+  });
+  const family = descriptors['font-family'] ? splitFamilies(descriptors['font-family'])[0] : undefined;
+  if (!family) return null;
+
+  const sources = parseSources(descriptors['src'] || '');
+  const remote = sources.filter(source => source.url);
+  const weight = normalizeWeight(descriptors['font-weight']);
+  const face: FontFaceRule = {
+    family,
+    weight,
+    style: (descriptors['font-style'] || 'normal').toLowerCase(),
+    sources,
+    provider: remote.length > 0 ? fontProvider(remote[0].url!, baseUrl) : 'local',
+    // A weight range or a variations source means one file covers many weights
+    variable: /\s/.test(weight) || sources.some(source => /variations/i.test(`${source.format || ''} ${source.tech || ''}`))
+  };
+  if (descriptors['font-stretch']) face.stretch = descriptors['font-stretch'];
+  if (descriptors['unicode-range']) face.unicodeRange = descriptors['unicode-range'];
+  if (descriptors['font-display']) face.display = descriptors['font-display'];
+  return face;
+}
+
+// css2: family=Inter:ital,wght@0,400;1,700 or family=Inter:wght@100..900
+function parseGoogleCss2Family(spec: string): FontLink['families'][number] {
+  const [family, axesSpec] = spec.split(':');
+  const weights = new Set<string>();
+  const styles = new Set<string>();
+  if (axesSpec && axesSpec.includes('@')) {
+    const [axesList, tuples] = axesSpec.split('@');
+    const axes = axesList.split(',');
+    tuples.split(';').forEach(tuple => {
+      const values = tuple.split(',');
+      const ital = axes.indexOf('ital');
+      const wght = axes.indexOf('wght');
+      styles.add(ital !== -1 && values[ital] === '1' ? 'italic' : 'normal');
+      if (wght !== -1 && values[wght]) weights.add(values[wght].replace('..', ' '));
+    });
+  } else if (axesSpec === 'ital') {
+    styles.add('italic');
+  }
+  if (weights.size === 0) weights.add('400');
+  if (styles.size === 0) styles.add('normal');
+  return { family: family.trim(), weights: Array.from(weights), styles: Array.from(styles) };
+}
+
+// css v1: family=Roboto:400,700italic|Open+Sans
+function parseGoogleCssFamily(spec: string): FontLink['families'][number] {
+  const [family, variantsSpec] = spec.split(':');
+  const weights = new Set<string>();
+  const styles = new Set<string>();
+  (variantsSpec || '').split(',').filter(Boolean).forEach(variant => {
+    const lower = variant.trim().toLowerCase();
+    const weight = lower.match(/\d{3}/);
+    weights.add(weight ? weight[0] : lower.startsWith('bold') ? '700' : '400');
+    styles.add(/i(talic)?$/.test(lower) ? 'italic' : 'normal');
+  });
+  if (weights.size === 0) weights.add('400');
+  if (styles.size === 0) styles.add('normal');
+  return { family: family.trim(), weights: Array.from(weights), styles: Array.from(styles) };
+}
+
+// Google Fonts and Adobe Fonts stylesheet URLs; null for anything else
+function parseFontServiceUrl(href: string, kind: FontLink['kind']): FontLink | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (/(^|\.)fonts\.googleapis\.com$/i.test(url.hostname)) {
+    const css2 = url.pathname.startsWith('/css2');
+    const families = css2
+      ? url.searchParams.getAll('family').map(parseGoogleCss2Family)
+      : (url.searchParams.get('family') || '').split('|').filter(Boolean).map(parseGoogleCssFamily);
+    const link: FontLink = { href, provider: 'google', kind, families };
+    const display = url.searchParams.get('display');
+    if (display) link.display = display;
+    return link;
+  }
+  if (ADOBE_HOSTS.test(url.hostname) && /\.css$/i.test(url.pathname)) {
+    return { href, provider: 'adobe', kind, families: [] };
+  }
+  return null;
+}
+
+function extractFontLinks(html: string, baseUrl: string, imports: CssImport[]): FontLink[] {
+  const links: FontLink[] = [];
+  const seen = new Set<string>();
+  const add = (link: FontLink | null) => {
+    if (!link || seen.has(link.href)) return;
+    seen.add(link.href);
+    links.push(link);
+  };
+
+  const document = new JSDOM(html).window.document;
+  Array.from(document.querySelectorAll('link[href]')).forEach(element => {
+    const rel = (element.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+    let href: string;
+    try {
+      href = new URL(element.getAttribute('href') || '', baseUrl).href;
+    } catch {
+      return;
+    }
+    if (rel.indexOf('stylesheet') !== -1) {
+      add(parseFontServiceUrl(href, 'stylesheet'));
+    } else if (rel.indexOf('preload') !== -1 && (element.getAttribute('as') || '').toLowerCase() === 'font') {
+      add({ href, provider: fontProvider(href, baseUrl), kind: 'preload', families: [] });
+    }
+  });
+  imports.forEach(entry => add(parseFontServiceUrl(entry.url, 'import')));
+  return links;
+}
+
+function compareWeights(a: string, b: string): number {
+  return parseFloat(a) - parseFloat(b) || a.length - b.length;
+}
+
+interface FamilyAccumulator {
+  family: string;
+  usage: number;
+  primary: boolean;
+  generics: Record<string, number>;
+  weights: Set<string>;
+  styles: Set<string>;
+  faces: FontFaceRule[];
+  linkProvider?: FontProvider;
+  variable: boolean;
+}
+
+function familyStatus(entry: FamilyAccumulator): FontFamilyEntry['status'] {
+  if (GENERIC_FAMILIES.test(entry.family)) return 'generic';
+  if (entry.linkProvider || entry.faces.some(face => face.provider !== 'local')) return 'loaded';
+  if (entry.faces.length > 0) return 'local';
+  if (SYSTEM_FONTS.test(entry.family)) return 'system';
+  return 'missing';
+}
+
+function toFamilyEntry(entry: FamilyAccumulator): FontFamilyEntry {
+  const status = familyStatus(entry);
+  const loadedFace = entry.faces.find(face => face.provider !== 'local');
+  const generics = Object.keys(entry.generics).sort((a, b) => entry.generics[b] - entry.generics[a]);
+  const result: FontFamilyEntry = {
+    family: entry.family,
+    status,
+    weights: Array.from(entry.weights).sort(compareWeights),
+    styles: Array.from(entry.styles).sort(),
+    variable: entry.variable,
+    faces: entry.faces.length,
+    usage: entry.usage,
+    primary: entry.primary
+  };
+  const provider = loadedFace ? loadedFace.provider : entry.linkProvider || (entry.faces.length > 0 ? 'local' : undefined);
+  if (provider) result.provider = provider;
+  if (generics.length > 0) result.generic = generics[0];
+  return result;
+}
+
+function sortFamilies(families: FontFamilyEntry[]): FontFamilyEntry[] {
+  return families.sort((a, b) => b.usage - a.usage || STATUS_RANK[a.status] - STATUS_RANK[b.status] || a.family.localeCompare(b.family));
+}
+
+// Inventory the page's web fonts: @font-face rules (families, weight/style ranges, unicode-range,
+// font-display, src URLs and formats), Google/Adobe font links and font preloads, then classify every
+// family named in a font-family stack as loaded, a system font, a generic family or missing.
+export function extractFontInventory(
+  html: string,
+  css: string,
+  baseUrl: string,
+  customProperties: ExtractedTokens['customProperties'] = {},
+  imports: CssImport[] = []
+): FontInventory {
+  const root = safeParser(css);
+  const families: Record<string, FamilyAccumulator> = {};
+  const familyFor = (name: string): FamilyAccumulator => {
+    const key = name.toLowerCase();
+    return families[key] || (families[key] = {
+      family: name, usage: 0, primary: false, generics: {}, weights: new Set(), styles: new Set(), faces: [], variable: false
+    });
+  };
+
+  const faces: FontFaceRule[] = [];
+  const seenFaces = new Set<string>();
+  root.walkAtRules(/^font-face$/i, rule => {
+    const face = parseFontFace(rule, baseUrl);
+    if (!face) return;
+    // The same stylesheet reached twice (a link and an @import) declares identical faces
+    const key = JSON.stringify(face);
+    if (seenFaces.has(key)) return;
+    seenFaces.add(key);
+    faces.push(face);
+    const entry = familyFor(face.family);
+    entry.family = face.family; // @font-face spelling wins over usage spelling
+    entry.faces.push(face);
+    entry.weights.add(face.weight);
+    entry.styles.add(face.style);
+    entry.variable = entry.variable || face.variable;
+  });
+
+  const links = extractFontLinks(html, baseUrl, imports);
+  links.forEach(link => link.families.forEach(linked => {
+    const entry = familyFor(linked.family);
+    entry.linkProvider = entry.linkProvider || link.provider;
+    linked.weights.forEach(weight => entry.weights.add(weight));
+    linked.styles.forEach(style => entry.styles.add(style));
+    entry.variable = entry.variable || linked.weights.some(weight => /\s/.test(weight));
+  }));
+
+  root.walkDecls(/^(font-family|font)$/i, (decl: Declaration) => {
+    const parent: any = decl.parent;
+    if (parent && parent.type === 'atrule' && /^font-face$/i.test(parent.name)) return;
+    const value = resolveFamilyVars(decl.value, customProperties);
+    const list = decl.prop.toLowerCase() === 'font' ? shorthandFamilies(value) : value;
+    if (!list) return;
+    const stack = splitFamilies(list);
+    const generic = stack.filter(family => GENERIC_FAMILIES.test(family)).pop();
+    stack.forEach((family, index) => {
+      const entry = familyFor(family);
+      entry.usage++;
+      if (index === 0) entry.primary = true;
+      if (generic && !GENERIC_FAMILIES.test(family)) {
+        const key = generic.toLowerCase();
+        entry.generics[key] = (entry.generics[key] || 0) + 1;
+      }
+    });
+  });
+
+  return {
+    families: sortFamilies(Object.keys(families).map(key => toFamilyEntry(families[key]))),
+    faces,
+    links
+  };
+}
+
+// Combine per-page inventories of a crawl. Pages share stylesheets, so a family keeps its widest
+// single-page usage rather than the sum, and its best status across pages.
+export function mergeFontInventories(inventories: FontInventory[]): FontInventory {
+  const faces: FontFaceRule[] = [];
+  const seenFaces = new Set<string>();
+  const links: FontLink[] = [];
+  const seenLinks = new Set<string>();
+  const families: Record<string, FontFamilyEntry> = {};
+
+  inventories.forEach(inventory => {
+    inventory.faces.forEach(face => {
+      const key = JSON.stringify(face);
+      if (seenFaces.has(key)) return;
+      seenFaces.add(key);
+      faces.push(face);
+    });
+    inventory.links.forEach(link => {
+      if (seenLinks.has(link.href)) return;
+      seenLinks.add(link.href);
+      links.push(link);
+    });
+    inventory.families.forEach(entry => {
+      const key = entry.family.toLowerCase();
+      const existing = families[key];
+      if (!existing) {
+        families[key] = { ...entry, weights: entry.weights.slice(), styles: entry.styles.slice() };
+        return;
+      }
+      if (STATUS_RANK[entry.status] < STATUS_RANK[existing.status]) {
+        existing.status = entry.status;
+        existing.provider = entry.provider;
+      }
+      existing.weights = Array.from(new Set(existing.weights.concat(entry.weights))).sort(compareWeights);
+      existing.styles = Array.from(new Set(existing.styles.concat(entry.styles))).sort();
+      existing.variable = existing.variable || entry.variable;
+      existing.usage = Math.max(existing.usage, entry.usage);
+      existing.primary = existing.primary || entry.primary;
+      existing.generic = existing.generic || entry.generic;
+    });
+  });
+
+  Object.keys(families).forEach(key => {
+    families[key].faces = faces.filter(face => face.family.toLowerCase() === key).length;
+  });
+  return { families: sortFamilies(Object.keys(families).map(key => families[key])), faces, links };
+}
@@ -0,0 +1,47 @@
+import { extractTokensFromCss } from './extractor';
+import { formatOutput } from './formatter';
+
+describe('formatOutput shadcn', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('emits the conditional values of theme variables the site declares', () => {
+    const tokens = extractTokensFromCss(`
+      :root { --radius: 0.5rem; --background: #ffffff; --foreground: #0f172a; }
+      @media (min-width: 768px) { :root { --radius: 0.75rem; } }
+      @layer base { @supports (color: oklch(0 0 0)) { :root { --background: #fafafa; } } }
+      @layer theme { :root { --radius: 1rem; } }
+      body { background: var(--background); color: var(--foreground); }
+      .card { border-radius: var(--radius); }
+    `);
+    const { css } = formatOutput(tokens, {}, { format: 'shadcn', colorFormat: 'hex' });
+
+    expect(css).toContain('@media (min-width: 768px) {\n  :root {\n    --radius: 0.75rem;\n  }\n}');
+    // The synthesized dark theme redefines --background
+    expect(css).toContain('@supports (color: oklch(0 0 0)) {\n  :root:not(.dark) {\n    --background: #fafafa;\n  }\n}');
+    expect(css).not.toContain('@layer'); // Layers only reorder the cascade
+    expect(css.indexOf('@media (min-width: 768px)')).toBeLessThan(css.indexOf('@theme inline'));
+  });
+
+  it('keeps conditional values of variables the dark theme redefines out of dark mode', () => {
+    const tokens = extractTokensFromCss(`
+      :root { --radius: 0.5rem; --background: #ffffff; --foreground: #0f172a; }
+      .dark { --background: #0f172a; --foreground: #f8fafc; }
+      @supports (color: oklch(0 0 0)) { :root { --background: #fafafa; } }
+      @media print { :root { --radius: 0; } }
+      body { background: var(--background); color: var(--foreground); }
+      .card { border-radius: var(--radius); }
+    `);
+    const { css } = formatOutput(tokens, {}, { format: 'shadcn', colorFormat: 'hex' });
+
+    expect(css).toContain('.dark {');
+    expect(css).toContain('@supports (color: oklch(0 0 0)) {\n  :root:not(.dark) {\n    --background: #fafafa;\n  }\n}');
+    // Same in both themes
+    expect(css).toContain('@media print {\n  :root {\n    --radius: 0;\n  }\n}');
+  });
+});
@@ -1,156 +1,121 @@
-// Formatter for output formats: json, style-dictionary, shadcn, tailwind, theme-json
+// Formatter for output formats: json, style-dictionary, dtcg, shadcn, tailwind, theme-json, canonical, figma-variables, tokens-studio
 import type { Options } from './types/formatter';
-import { analyzeColors, generateShadcnTheme, convertColorToFormat, getForegroundColor } from './color-analysis';
+import { analyzeColors, generateShadcnTheme, convertColorToFormat, getForegroundColor, normalizeColorToHex, colorToHsl, parseCssColor } from './color-analysis';
+import { generateTailwindCorrelations } from './tailwind-correlations';
+import { createDarkColorLookup } from './color-schemes';
+import { generateCanonical } from './canonical-formatter';
+import { generateFigmaVariables, generateTokensStudio } from './design-tool-formatter';
+import { generateDtcg } from './dtcg-formatter';
+import { resolveRoleBindings } from './role-resolver';
+import { typeScaleSummary } from './type-scale';
+import type { ColorAnalysis, ColorSchemeTokens, DarkModeReport, ExtractedTokens, FontInventory, SpacingStep, TextStyle, TypeScale } from './types';
 
-// Normalize color to hex format for consistent output
-function normalizeColorToHex(color: string): string {
-  if (!color || typeof color !== 'string') return color;
-  
-  // Already hex, just clean it up
-  if (color.startsWith('#')) {
-    const hex = color.replace('#', '');
-    // Convert 3-digit to 6-digit hex
-    if (hex.length === 3) {
-      return '#' + hex.split('').map(char => char + char).join('');
-    }
-    // Strip alpha if present (8-digit hex)
-    if (hex.length === 8) {
-      return '#' + hex.substring(0, 6);
-    }
-    return color;
-  }
-  
-  // Handle rgb/rgba format
-  if (color.startsWith('rgb')) {
-    const rgbMatch = color.match(/rgba?\(([^,]+),\s*([^,]+),\s*([^,]+)/);
-    if (rgbMatch) {
-      const r = Math.round(parseFloat(rgbMatch[1].trim()));
-      const g = Math.round(parseFloat(rgbMatch[2].trim()));
-      const b = Math.round(parseFloat(rgbMatch[3].trim()));
-      
-      // Convert to hex
-      const toHex = (n: number) => {
-        const hex = n.toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      };
-      
-      return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-    }
-  }
-  
-  // Handle hsl/hsla format - convert to RGB first, then hex
-  if (color.startsWith('hsl')) {
-    const hslMatch = color.match(/hsla?\(([^,]+),\s*([^,]+)%?,\s*([^,]+)%?/);
-    if (hslMatch) {
-      const h = parseFloat(hslMatch[1].trim()) / 360;
-      const s = parseFloat(hslMatch[2].trim()) / 100;
-      const l = parseFloat(hslMatch[3].trim()) / 100;
-      
-      // HSL to RGB conversion
-      const hue2rgb = (p: number, q: number, t: number) => {
-        if (t < 0) t += 1;
-        if (t > 1) t -= 1;
-        if (t < 1/6) return p + (q - p) * 6 * t;
-        if (t < 1/2) return q;
-        if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-        return p;
-      };
-      
-      let r, g, b;
-      if (s === 0) {
-        r = g = b = l; // achromatic
-      } else {
-        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-        const p = 2 * l - q;
-        r = hue2rgb(p, q, h + 1/3);
-        g = hue2rgb(p, q, h);
-        b = hue2rgb(p, q, h - 1/3);
-      }
-      
-      const rInt = Math.round(r * 255);
-      const gInt = Math.round(g * 255);
-      const bInt = Math.round(b * 255);
-      
-      const toHex = (n: number) => {
-        const hex = n.toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      };
-      
-      return `#${toHex(rInt)}${toHex(gInt)}${toHex(bInt)}`;
-    }
-  }
-  
-  // Return as-is if we can't normalize
-  return color;
+// Dark role colors (hex) for the non-shadcn outputs, taken from the same generator as the shadcn
+// .dark block so every format reports the same site/synthesized provenance
+function buildDarkRoleColors(colorAnalyses: ColorAnalysis[], colorSchemes?: ColorSchemeTokens): { colors: Record<string, string>; report?: DarkModeReport } {
+  const theme = generateShadcnTheme(colorAnalyses, 'hex', colorSchemes);
+  if (!theme.dark) return { colors: {} };
+
+  const colors: Record<string, string> = {};
+  Object.entries(theme.dark).forEach(([key, value]) => {
+    if (!/^--(font|radius|shadow)/.test(key)) colors[key.slice(2)] = value;
+  });
+  return { colors, report: theme.darkMode };
 }
-import { generateTailwindCorrelations } from './tailwind-correlations';
 
-// Import colorToHsl for theme-json format
-function colorToHsl(color: string): { h: number; s: number; l: number } {
-  let r = 0, g = 0, b = 0;
-  
-  // Handle different color formats
-  if (color.startsWith('#')) {
-    // Hex format
-    const hex = color.replace('#', '');
-    
-    // Convert 3-digit hex to 6-digit
-    const fullHex = hex.length === 3 
-      ? hex.split('').map(char => char + char).join('')
-      : hex;
-    
-    r = parseInt(fullHex.substr(0, 2), 16) / 255;
-    g = parseInt(fullHex.substr(2, 2), 16) / 255;
-    b = parseInt(fullHex.substr(4, 2), 16) / 255;
-  } else if (color.startsWith('rgb')) {
-    // RGB/RGBA format - extract numbers
-    const rgbMatch = color.match(/rgba?\(([^)]+)\)/);
-    if (rgbMatch) {
-      const values = rgbMatch[1].split(',').map(v => parseFloat(v.trim()));
-      r = values[0] / 255;
-      g = values[1] / 255;
-      b = values[2] / 255;
-    }
-  } else {
-    // Try to treat as hex without #
-    try {
-      const fullHex = color.length === 3 
-        ? color.split('').map(char => char + char).join('')
-        : color;
-      
-      r = parseInt(fullHex.substr(0, 2), 16) / 255;
-      g = parseInt(fullHex.substr(2, 2), 16) / 255;
-      b = parseInt(fullHex.substr(4, 2), 16) / 255;
-    } catch {
-      // Default to black if parsing fails
-      return { h: 0, s: 0, l: 0 };
-    }
-  }
-  
-  // Convert RGB to HSL
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const diff = max - min;
-  
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-  
-  if (diff !== 0) {
-    s = l > 0.5 ? diff / (2 - max - min) : diff / (max + min);
-    
-    switch (max) {
-      case r: h = ((g - b) / diff + (g < b ? 6 : 0)) / 6; break;
-      case g: h = ((b - r) / diff + 2) / 6; break;
-      case b: h = ((r - g) / diff + 4) / 6; break;
-    }
-  }
-  
-  return {
-    h: Math.round(h * 360),
-    s: Math.round(s * 100),
-    l: Math.round(l * 100)
-  };
+// Tailwind `darkMode` config matching how the site switches schemes
+function getTailwindDarkMode(colorSchemes?: ColorSchemeTokens): string | [string, string] {
+  if (!colorSchemes || !colorSchemes.strategy) return 'class';
+  if (colorSchemes.strategy === 'media') return 'media';
+  return !colorSchemes.selector || colorSchemes.selector === '.dark' ? 'class' : ['selector', colorSchemes.selector];
+}
+
+// Style Dictionary key for a font family, e.g. "Playfair Display" -> playfairDisplay
+function fontKey(family: string): string {
+  const words = family.replace(/[^\w\s-]/g, '').split(/[\s_-]+/).filter(Boolean);
+  return words.map((word, i) => i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('') || 'font';
+}
+
+function quoteFontFamily(family: string): string {
+  return /^[\w-]+$/.test(family) ? family : `"${family}"`;
+}
+
+// A text role's font properties, leaving out what neither the role nor body declares
+function textStyleValue(style: TextStyle): Record<string, string> {
+  const value: Record<string, string> = { fontSize: style.fontSize, fontWeight: style.fontWeight };
+  if (style.fontFamily) value.fontFamily = style.fontFamily;
+  if (style.lineHeight) value.lineHeight = style.lineHeight;
+  if (style.letterSpacing) value.letterSpacing = style.letterSpacing;
+  return value;
+}
+
+// Tailwind `fontSize` tuples per text role: ['2.5rem', { lineHeight, letterSpacing, fontWeight }]
+function tailwindFontSizes(scale: TypeScale): Record<string, [string, Record<string, string>]> {
+  const fontSize: Record<string, [string, Record<string, string>]> = {};
+  scale.roles.forEach(style => {
+    const settings: Record<string, string> = {};
+    if (style.lineHeight) settings.lineHeight = style.lineHeight;
+    if (style.letterSpacing) settings.letterSpacing = style.letterSpacing;
+    settings.fontWeight = style.fontWeight;
+    fontSize[style.role] = [style.fontSize, settings];
+  });
+  return fontSize;
+}
+
+// Responsive/conditional variants of the theme variables the site declares itself: when a role
+// keeps the site's own base value, its @media/@supports/@container values are emitted as `:root`
+// overrides under the same (unlayered) condition. Variables the dark theme redefines are scoped to
+// `:root:not(.dark)` so the override does not beat `.dark`.
+function conditionalThemeCss(light: Record<string, string>, dark: Record<string, string> | undefined, customProperties: ExtractedTokens['customProperties'] | undefined, colorFormat: 'hsl' | 'oklch' | 'hex'): string {
+  const blocks: Array<{ queries: string[]; selector: string; declarations: string[] }> = [];
+  Object.keys(light).forEach(variable => {
+    const site = customProperties ? customProperties[variable] : undefined;
+    if (!site || !site.conditions || !light[variable]) return;
+
+    const color = parseCssColor(site.value);
+    const sameValue = color
+      ? (parseCssColor(light[variable]) || { hex: null }).hex === color.hex
+      : light[variable].trim() === site.value.trim();
+    if (!sameValue) return;
+
+    const selector = dark && dark[variable] !== undefined && dark[variable] !== light[variable] ? ':root:not(.dark)' : ':root';
+    Object.keys(site.conditions).forEach(key => {
+      const value = site.conditions![key];
+      const queries = key.split(' > ').filter(part => /^@(media|supports|container) /.test(part));
+      if (queries.length === 0) return; // Layer-only: not a condition
+      const conditionalColor = parseCssColor(value);
+      const declaration = `${variable}: ${color && conditionalColor ? convertColorToFormat(conditionalColor.hex, colorFormat) : value};`;
+
+      const block = blocks.find(b => b.selector === selector && b.queries.join(' > ') === queries.join(' > '));
+      if (block) block.declarations.push(declaration);
+      else blocks.push({ queries, selector, declarations: [declaration] });
+    });
+  });
+
+  const indent = (depth: number) => '  '.repeat(depth);
+  return blocks.map(({ queries, selector, declarations }) => {
+    const depth = queries.length;
+    return [
+      ...queries.map((query, i) => `${indent(i)}${query} {`),
+      `${indent(depth)}${selector} {`,
+      ...declarations.map(declaration => `${indent(depth + 1)}${declaration}`),
+      `${indent(depth)}}`,
+      ...queries.map((query, i) => `${indent(depth - 1 - i)}}`)
+    ].join('\n');
+  }).join('\n\n');
+}
+
+// Positional/semantic evidence from --semantic-analysis, in the shape analyzeColors() weighs roles with
+function semanticDataFrom(meta: any): Array<{ color: string; domDepth?: number; firstSeenIndex?: number; documentPosition?: number; weight: number; context: string }> | undefined {
+  if (!meta.semanticAnalysis?.colors) return undefined;
+  return meta.semanticAnalysis.colors.map((item: any) => ({
+    color: item.color,
+    domDepth: item.domDepth,
+    firstSeenIndex: item.firstSeenIndex,
+    documentPosition: item.documentPosition,
+    weight: item.weight,
+    context: item.context
+  }));
 }
 
 export function formatOutput(tokens: any, meta: any, options: Options): any {
@@ -158,18 +123,7 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
   
   if (format === 'shadcn') {
     // Prepare semantic data for enhanced color analysis
-    let semanticData: Array<{ color: string; domDepth?: number; firstSeenIndex?: number; documentPosition?: number; weight: number; context: string }> | undefined;
-    
-    if (meta.semanticAnalysis?.colors) {
-      semanticData = meta.semanticAnalysis.colors.map((item: any) => ({
-        color: item.color,
-        domDepth: item.domDepth,
-        firstSeenIndex: item.firstSeenIndex,
-        documentPosition: item.documentPosition,
-        weight: item.weight,
-        context: item.context
-      }));
-    }
+    const semanticData = semanticDataFrom(meta);
     
     // Generate shadcn theme with enhanced positional analysis
     const colorAnalyses = analyzeColors(
@@ -180,7 +134,7 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       meta.css   // Pass CSS for framework detection
     );
     const colorFormat = options.colorFormat || 'hsl';
-    const shadcnTheme = generateShadcnTheme(colorAnalyses, colorFormat);
+    const shadcnTheme = generateShadcnTheme(colorAnalyses, colorFormat, tokens.colorSchemes, tokens);
     
     // Helper function to check if a color is valid and not transparent/problematic
     const isValidBrandColor = (color: string): boolean => {
@@ -192,19 +146,15 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       // Filter out malformed CSS functions
       if (color.includes('hsl(var(') || color.includes('rgb(var(') || color.includes('oklch(var(')) return false;
       
-      // Filter out transparent colors, invalid colors, and common problematic patterns
+      // Filter out unresolvable, pure white/black and (nearly) transparent colors in any syntax
+      const parsed = parseCssColor(color);
+      if (!parsed || parsed.alpha < 0.25 || parsed.hex === '#ffffff' || parsed.hex === '#000000') return false;
+      
+      // Filter out common problematic patterns
       const problematicPatterns = [
-        /^(transparent|inherit|initial|unset|none)$/i,
-        /^#(fff|ffffff|000|000000|0000|fff0|f{3,})$/i, // Pure white/black/transparent variants
-        /rgba?\([^)]*,\s*0\)/i, // Fully transparent rgba
-        /rgba?\([^)]*,\s*0\.[0-2]\)/i, // Nearly transparent rgba (opacity < 0.2)
-        /#[0-9a-f]{6}(00|[0-3][0-9a-f])/i, // Hex with very low alpha
-        /#[0-9a-f]{3}0$/i, // 3-digit hex with zero alpha
-        /^#0+$/i, // All zeros
         /var\(/i, // Any CSS variable reference
         /--[\w-]+/i, // CSS custom property names
         /\$[\w-]+/i, // Sass/SCSS variables
-        /calc\(/i, // CSS calc() functions
         /url\(/i, // CSS url() functions
       ];
       
@@ -228,17 +178,7 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       const validButtonColors = meta.semanticAnalysis.buttonColors
         .filter((color: string) => {
           // Additional validation to ensure it's a proper color value
-          if (!isValidBrandColor(color)) return false;
-          
-          // Must start with # (hex) or be a valid rgb/hsl function
-          const isProperColorFormat = 
-            /^#[0-9a-f]{3,8}$/i.test(color) || 
-            /^rgb\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*\)$/i.test(color) ||
-            /^rgba\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*[\d.]+\s*\)$/i.test(color) ||
-            /^hsl\(\s*\d+\s*,\s*\d+%?\s*,\s*\d+%?\s*\)$/i.test(color) ||
-            /^hsla\(\s*\d+\s*,\s*\d+%?\s*,\s*\d+%?\s*,\s*[\d.]+\s*\)$/i.test(color);
-          
-          return isProperColorFormat && !usedColors.has(color);
+          return isValidBrandColor(color) && !usedColors.has(color);
         })
         .slice(0, 5); // Take top 5 button colors
       
@@ -256,8 +196,7 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
           return contextColors?.find((color: string) => 
             isValidBrandColor(color) && 
             !usedColors.has(color) &&
-            !color.includes('rgba') && // Avoid transparent overlays
-            !color.includes('0.')  // Avoid low opacity
+            parseCssColor(color)?.alpha === 1 // Avoid transparent overlays
           );
         };
         
@@ -298,18 +237,8 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
           if (color.includes('230, 255') || color.includes('237, 255') || color.includes('#d8e843') || color.includes('#e6ff')) {
             return isValidBrandColor(color);
           }
-          // Standard filtering for other colors - ensure proper color format
-          if (!isValidBrandColor(color) || usedColors.has(color)) return false;
-          
-          // Must be a proper color format
-          const isProperColorFormat = 
-            /^#[0-9a-f]{3,8}$/i.test(color) || 
-            /^rgb\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*\)$/i.test(color) ||
-            /^rgba\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*[\d.]+\s*\)$/i.test(color) ||
-            /^hsl\(\s*\d+\s*,\s*\d+%?\s*,\s*\d+%?\s*\)$/i.test(color) ||
-            /^hsla\(\s*\d+\s*,\s*\d+%?\s*,\s*\d+%?\s*,\s*[\d.]+\s*\)$/i.test(color);
-          
-          return isProperColorFormat;
+          // Standard filtering for other colors
+          return isValidBrandColor(color) && !usedColors.has(color);
         })
         .slice(0, 3); // Take top 3 brand colors
       
@@ -331,19 +260,10 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
             convertColorToFormat(normalizeColorToHex(color), colorFormat) === used
           );
           
-          // Must be a valid brand color and proper format
+          // Must be a valid brand color
           if (!isValidBrandColor(color) || usedColors.has(color)) return false;
           
-          // Must be a proper color format
-          const isProperColorFormat = 
-            /^#[0-9a-f]{3,8}$/i.test(color) || 
-            /^rgb\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*\)$/i.test(color) ||
-            /^rgba\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*[\d.]+\s*\)$/i.test(color) ||
-            /^hsl\(\s*\d+\s*,\s*\d+%?\s*,\s*\d+%?\s*\)$/i.test(color) ||
-            /^hsla\(\s*\d+\s*,\s*\d+%?\s*,\s*\d+%?\s*,\s*[\d.]+\s*\)$/i.test(color);
-          
-          return isProperColorFormat && 
-                 !alreadyUsedInButtons &&
+          return !alreadyUsedInButtons &&
                  !alreadyUsedInLayout &&
                  !alreadyUsedInBrand;
         })
@@ -401,6 +321,11 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       
       css += '\n}';
     }
+
+    const conditionalCss = conditionalThemeCss(shadcnTheme.light, shadcnTheme.dark, tokens.customProperties, colorFormat);
+    if (conditionalCss) {
+      css += `\n\n${conditionalCss}`;
+    }
     
     // Add modern @theme inline section for Tailwind integration
     css += '\n\n@theme inline {\n';
@@ -443,11 +368,16 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
     });
     
     css += '}';
+
+    // One binding per dictionary role (bg.default, text.primary, ...) for DESIGN.md and other bindings consumers
+    const bindings = resolveRoleBindings(generateCanonical(tokens, meta, colorAnalyses).tokens);
     
     return {
       meta: {
         ...meta,
         format: 'shadcn',
+        darkMode: shadcnTheme.darkMode,
+        designVariables: shadcnTheme.designVariables,
         colorAnalysis: colorAnalyses.map(c => ({
           color: c.hex,
           role: c.role,
@@ -473,24 +403,14 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
         letterSpacings: tokens.letterSpacings.values,
         spacing: tokens.spacing.values,
         radii: tokens.radii.values
-      }
+      },
+      bindings
     };
   }
 
   if (format === 'tailwind') {
     // Prepare semantic data for enhanced color analysis
-    let semanticData: Array<{ color: string; domDepth?: number; firstSeenIndex?: number; documentPosition?: number; weight: number; context: string }> | undefined;
-    
-    if (meta.semanticAnalysis?.colors) {
-      semanticData = meta.semanticAnalysis.colors.map((item: any) => ({
-        color: item.color,
-        domDepth: item.domDepth,
-        firstSeenIndex: item.firstSeenIndex,
-        documentPosition: item.documentPosition,
-        weight: item.weight,
-        context: item.context
-      }));
-    }
+    const semanticData = semanticDataFrom(meta);
     
     // Generate Tailwind correlations with enhanced color analysis
     const tailwindCorrelations = generateTailwindCorrelations(tokens);
@@ -501,19 +421,31 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       meta.html, // Pass HTML for framework detection
       meta.css   // Pass CSS for framework detection
     );
+    const darkRoles = buildDarkRoleColors(colorAnalyses, tokens.colorSchemes);
     
     return {
       meta: {
         ...meta,
-        format: 'tailwind'
+        format: 'tailwind',
+        darkMode: darkRoles.report
+      },
+      darkMode: {
+        config: getTailwindDarkMode(tokens.colorSchemes),
+        colors: darkRoles.colors
       },
       correlations: tailwindCorrelations,
+      typography: tokens.typeScale ? {
+        scale: typeScaleSummary(tokens.typeScale),
+        fontSize: tailwindFontSizes(tokens.typeScale)
+      } : undefined,
       colorAnalysis: colorAnalyses,
       recommendations: {
         primaryColors: colorAnalyses.filter(c => c.role === 'primary').slice(0, 3),
         secondaryColors: colorAnalyses.filter(c => c.role === 'secondary').slice(0, 2),
         accentColors: colorAnalyses.filter(c => c.role === 'accent').slice(0, 3),
-        spacingSystem: Object.keys(tailwindCorrelations.spacing).slice(0, 10),
+        spacingSystem: tokens.spacingScale
+          ? tokens.spacingScale.steps.map((step: SpacingStep) => step.values[0]).slice(0, 10)
+          : Object.keys(tailwindCorrelations.spacing).slice(0, 10),
         fontSizes: Object.keys(tailwindCorrelations.fontSize).slice(0, 8),
         borderRadius: Object.keys(tailwindCorrelations.borderRadius).slice(0, 5)
       },
@@ -521,20 +453,35 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
     };
   }
   
+  if (format === 'canonical') {
+    // Provenanced token graph per canonical.md - role candidates, not resolved roles
+    return generateCanonical(tokens, meta);
+  }
+
+  if (format === 'dtcg') {
+    // W3C Design Tokens Community Group file, ready for Style Dictionary v4 and other DTCG tooling
+    return generateDtcg(tokens, meta);
+  }
+
+  if (format === 'figma-variables' || format === 'tokens-studio') {
+    // Design-tool imports, built from the same role-resolved theme as the shadcn output
+    const semanticData = semanticDataFrom(meta);
+    
+    const colorAnalyses = analyzeColors(
+      tokens.colors.frequency, 
+      tokens.colorsFromVariables || [], 
+      semanticData,
+      meta.html, // Pass HTML for framework detection
+      meta.css   // Pass CSS for framework detection
+    );
+    return format === 'figma-variables'
+      ? generateFigmaVariables(tokens, meta, colorAnalyses)
+      : generateTokensStudio(tokens, colorAnalyses);
+  }
+
   if (format === 'theme-json') {
     // Generate theme.json style format with enhanced color analysis
-    let semanticData: Array<{ color: string; domDepth?: number; firstSeenIndex?: number; documentPosition?: number; weight: number; context: string }> | undefined;
-    
-    if (meta.semanticAnalysis?.colors) {
-      semanticData = meta.semanticAnalysis.colors.map((item: any) => ({
-        color: item.color,
-        domDepth: item.domDepth,
-        firstSeenIndex: item.firstSeenIndex,
-        documentPosition: item.documentPosition,
-        weight: item.weight,
-        context: item.context
-      }));
-    }
+    const semanticData = semanticDataFrom(meta);
     
     const colorAnalyses = analyzeColors(
       tokens.colors.frequency, 
@@ -606,6 +553,18 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
         });
     }
     
+    // Dark values for the same custom properties: role colors from the dark theme generator,
+    // layout/button colors only when the site declares a dark counterpart
+    const darkRoles = buildDarkRoleColors(colorAnalyses, tokens.colorSchemes);
+    if (darkRoles.report) {
+      const siteDark = createDarkColorLookup(tokens.colorSchemes);
+      themeJson.dark = { customProperties: {} };
+      Object.entries(themeJson.customProperties).forEach(([key, value]) => {
+        const darkValue = darkRoles.colors[key.slice(2)] || siteDark(value as string);
+        if (darkValue) themeJson.dark.customProperties[key] = darkValue;
+      });
+    }
+    
     // Include all detected colors in array
     themeJson.colors = colorAnalyses
       .sort((a, b) => b.frequency - a.frequency)
@@ -616,6 +575,16 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       themeJson.fontSizes = tokens.fontSizes.values;
     }
     
+    // Composite text styles per role, and the scale they were inferred on
+    if (tokens.typeScale) {
+      const typeScale: TypeScale = tokens.typeScale;
+      themeJson.typeScale = typeScaleSummary(typeScale);
+      themeJson.textStyles = {};
+      typeScale.roles.forEach(style => {
+        themeJson.textStyles[style.role] = textStyleValue(style);
+      });
+    }
+    
     if (tokens.spacing?.values) {
       themeJson.spacing = tokens.spacing.values;
     }
@@ -628,6 +597,7 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       meta: {
         ...meta,
         format: 'theme-json',
+        darkMode: darkRoles.report,
         colorAnalysis: colorAnalyses.map(c => ({
           color: c.hex,
           role: c.role,
@@ -644,11 +614,12 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
     if (options.compact) {
       // Compact mode: only values, short keys
       const compactCustomProps: Record<string, any> = {};
-      for (const [k, v] of Object.entries(tokens.customProperties)) {
+      for (const [k, v] of Object.entries(tokens.customProperties as ExtractedTokens['customProperties'])) {
         if (typeof v === 'object' && v !== null && 'value' in v) {
-          const entry: any = { v: (v as any).value };
-          if ('references' in v && (v as any).references && (v as any).references > 0) entry.r = (v as any).references;
-          if ('refVariable' in v && (v as any).refVariable) entry.ref = (v as any).refVariable;
+          const entry: { v: string; r?: number; ref?: string; c?: Record<string, string> } = { v: v.value };
+          if (v.references > 0) entry.r = v.references;
+          if (v.refVariable) entry.ref = v.refVariable;
+          if (v.conditions) entry.c = v.conditions;
           if (Object.keys(entry).length === 1) {
             compactCustomProps[k] = entry.v;
           } else {
@@ -666,6 +637,13 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
           compactTokens[group] = groupObj.values;
         }
       }
+      // Web fonts: family -> loaded / local / system / generic / missing
+      if (tokens.fonts) {
+        compactTokens.fonts = (tokens.fonts as FontInventory).families.reduce((acc: Record<string, string>, family) => {
+          acc[family.family] = family.status;
+          return acc;
+        }, {});
+      }
       // Build relationships
       const relationships: Record<string, any> = {};
       if (tokens.customProperties) {
@@ -709,12 +687,27 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
         customProperties: {},
       }
     };
-    // Colors
+    // Colors - darkValue (Style Dictionary's dark mode convention) where the site declares one
+    const siteDark = createDarkColorLookup(tokens.colorSchemes);
     if (tokens.colors && tokens.colors.values) {
       tokens.colors.values.forEach((c: string, i: number) => {
         sd.properties.color[`color${i+1}`] = { value: c };
+        const darkValue = siteDark(c);
+        if (darkValue) sd.properties.color[`color${i+1}`].darkValue = darkValue;
       });
     }
+    // Dark role colors, shared with the shadcn .dark block
+    if (tokens.colors && tokens.colors.frequency) {
+      const colorAnalyses = analyzeColors(tokens.colors.frequency, tokens.colorsFromVariables || []);
+      const darkRoles = buildDarkRoleColors(colorAnalyses, tokens.colorSchemes);
+      if (darkRoles.report) {
+        sd.meta = { ...meta, darkMode: darkRoles.report };
+        sd.properties.color.dark = {};
+        Object.entries(darkRoles.colors).forEach(([role, value]) => {
+          sd.properties.color.dark[role] = { value };
+        });
+      }
+    }
     // Font sizes
     if (tokens.fontSizes && tokens.fontSizes.values) {
       tokens.fontSizes.values.forEach((s: string, i: number) => {
@@ -793,6 +786,42 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
         sd.properties.font[`fontFamily${i+1}`] = { value: ff };
       });
     }
+    // Web fonts: named families with their load status, and the files behind loaded faces
+    if (tokens.fonts) {
+      const fonts: FontInventory = tokens.fonts;
+      sd.properties.font.family = {};
+      fonts.families.forEach(family => {
+        if (family.status === 'generic') return;
+        sd.properties.font.family[fontKey(family.family)] = {
+          value: family.generic ? `${quoteFontFamily(family.family)}, ${family.generic}` : quoteFontFamily(family.family),
+          status: family.status,
+          provider: family.provider,
+          weights: family.weights,
+          styles: family.styles,
+          variable: family.variable
+        };
+      });
+      const assets: Record<string, Record<string, any>> = {};
+      fonts.faces.forEach(face => {
+        const file = face.sources.find(source => source.url);
+        if (!file) return;
+        const faces = assets[fontKey(face.family)] || (assets[fontKey(face.family)] = {});
+        const base = `${face.weight.replace(/\s+/g, '-')}-${face.style}`;
+        let key = base;
+        for (let n = 2; faces[key]; n++) key = `${base}-${n}`; // unicode-range subsets of one weight/style
+        faces[key] = { value: file.url, format: file.format, unicodeRange: face.unicodeRange, display: face.display, provider: face.provider };
+      });
+      if (Object.keys(assets).length > 0) sd.properties.asset = { font: assets };
+    }
+    // Text styles per role as composite values; the scale itself goes in meta
+    if (tokens.typeScale) {
+      const typeScale: TypeScale = tokens.typeScale;
+      sd.meta = { ...sd.meta, typeScale: typeScaleSummary(typeScale) };
+      sd.properties.typography = {};
+      typeScale.roles.forEach(style => {
+        sd.properties.typography[style.role] = { value: textStyleValue(style), selector: style.selector, step: style.step };
+      });
+    }
     // Font Weights
     if (tokens.fontWeights && tokens.fontWeights.values) {
       tokens.fontWeights.values.forEach((fw: string, i: number) => {
@@ -816,8 +845,11 @@ export function formatOutput(tokens: any, meta: any, options: Options): any {
       Object.entries(tokens.customProperties).forEach(([k, v]: [string, any]) => {
         if (v && typeof v === 'object' && 'value' in v) {
           sd.properties.customProperties[k] = { value: v.value };
+          const darkValue = tokens.colorSchemes?.dark?.customProperties[k];
+          if (darkValue) sd.properties.customProperties[k].darkValue = darkValue;
           if ('refVariable' in v && v.refVariable) sd.properties.customProperties[k].ref = v.refVariable;
           if ('references' in v && typeof v.references === 'number') sd.properties.customProperties[k].references = v.references;
+          if (v.conditions) sd.properties.customProperties[k].conditions = v.conditions; // Responsive / fallback values by condition key
         }
       });
     }
@@ -55,6 +55,11 @@ export class HttpClient {
     );
   }
 
+  // Expose the validator so other fetch paths (e.g. the headless renderer) apply the same host policy
+  getSecurityValidator(): SecurityValidator {
+    return this.security;
+  }
+
   async fetchHtml(url: string): Promise<string> {
     const validatedUrl = this.security.validateUrl(url);
     
@@ -110,6 +115,30 @@ export class HttpClient {
     }
   }
 
+  async fetchBinary(url: string): Promise<{ data: Buffer; contentType: string }> {
+    const validatedUrl = this.security.validateUrl(url);
+
+    try {
+      await this.security.checkConcurrentRequests();
+      this.security.acquireRequest();
+
+      const response = await this.retryRequest(() =>
+        this.axiosInstance.get(validatedUrl.toString(), {
+          responseType: 'arraybuffer',
+          headers: { 'Accept': 'image/avif,image/webp,image/png,image/svg+xml,image/*;q=0.8,*/*;q=0.5' }
+        })
+      );
+
+      const data = Buffer.from(response.data);
+      this.security.validateContentSize(data.byteLength);
+      return { data, contentType: String(response.headers['content-type'] || '') };
+    } catch (error) {
+      throw this.handleError(error, `Failed to fetch ${url}`);
+    } finally {
+      this.security.releaseRequest();
+    }
+  }
+
   private async retryRequest<T>(
     requestFn: () => Promise<T>,
     maxRetries: number = 3,
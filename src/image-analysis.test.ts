@@ -0,0 +1,77 @@
+import sharp from 'sharp';
+import { analyzeImages } from './image-analysis';
+import { HttpClient } from './http-client';
+import { SecurityValidator } from './security';
+
+const BASE = 'https://example.com/';
+
+// A PNG whose top `rows` rows are `top` and the rest `bottom`
+async function twoColorPng(width: number, height: number, rows: number, top: [number, number, number], bottom: [number, number, number]): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const [r, g, b] = y < rows ? top : bottom;
+    for (let x = 0; x < width; x++) {
+      pixels.set([r, g, b], (y * width + x) * 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+function stubClient(fetchBinary: (url: string) => Promise<{ data: Buffer; contentType: string }>): HttpClient {
+  const client = new HttpClient({}, new SecurityValidator({ blockedHosts: [] }));
+  jest.spyOn(client, 'fetchBinary').mockImplementation(fetchBinary);
+  return client;
+}
+
+const BLUE: [number, number, number] = [0x25, 0x63, 0xeb];
+const ORANGE: [number, number, number] = [0xf9, 0x73, 0x16];
+
+describe('analyzeImages', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('finds both colors of a two-color image, largest cluster first', async () => {
+    const png = await twoColorPng(20, 20, 5, ORANGE, BLUE); // 25% orange, 75% blue
+    const client = stubClient(async () => ({ data: png, contentType: 'image/png' }));
+
+    const result = await analyzeImages('<img src="/hero.png" class="hero">', '', BASE, client);
+
+    expect(result.images).toHaveLength(1);
+    expect(result.images[0]).toMatchObject({
+      type: 'hero',
+      dominantColors: ['#2563eb', '#f97316'],
+      dimensions: { width: 20, height: 20 },
+      format: 'png',
+      analysis: { colorCount: 2, isMonochrome: false, hasTransparency: false }
+    });
+    expect(result.heroColors).toEqual(['#2563eb', '#f97316']);
+  });
+
+  it('drops clusters covering less than 3% of the image', async () => {
+    const png = await twoColorPng(50, 50, 1, ORANGE, BLUE); // 2% orange
+    const client = stubClient(async () => ({ data: png, contentType: 'image/png' }));
+
+    const result = await analyzeImages('<img src="/hero.png" class="hero">', '', BASE, client);
+
+    expect(result.images[0].dominantColors).toEqual(['#2563eb']);
+    expect(result.images[0].analysis.isMonochrome).toBe(true);
+  });
+
+  it('gives up on an image that does not load within the timeout', async () => {
+    const client = stubClient(() => new Promise(() => undefined));
+
+    const result = await analyzeImages('<img src="/logo.png">', '', BASE, client, { timeout: 20 });
+
+    expect(result.images).toEqual([]);
+    expect(result.assets).toEqual([expect.objectContaining({ url: `${BASE}logo.png`, type: 'logo', analyzed: false })]);
+    expect(console.warn).toHaveBeenCalledWith(`Failed to process image ${BASE}logo.png:`, expect.objectContaining({
+      message: `Image analysis for ${BASE}logo.png timed out after 20ms`
+    }));
+  });
+});
@@ -1,5 +1,11 @@
 import { JSDOM } from 'jsdom';
-import type { ImageColorData, ImageAnalysisResult } from './types';
+import sharp from 'sharp';
+import { Declaration } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import { HttpClient } from './http-client';
+import { CascadeResolver } from './cascade-resolver';
+import { extractSvgColors, parseSvgMarkup, readSvgDimensions, SvgColorResult } from './svg-analysis';
+import type { ImageColorData, ImageAnalysisResult, AssetInventoryEntry } from './types';
 
 // Image type detection based on URL patterns and context
 function detectImageType(url: string, alt: string = '', className: string = '', context: string = ''): ImageColorData['type'] {
@@ -86,71 +92,406 @@ function getImageWeight(type: ImageColorData['type'], size?: { width: number; he
   return weight;
 }
 
+interface DiscoveredAsset {
+  url: string;
+  kind: 'image' | 'svg';
+  source: AssetInventoryEntry['source'];
+  alt: string;
+  className: string;
+  context: string;
+  element?: Element; // Inline <svg>, analyzed in place so the page cascade applies
+  dimensions?: { width: number; height: number };
+}
+
+// Declarations that can reference images (fonts in @font-face `src` are deliberately excluded)
+const IMAGE_PROPERTY_REGEX = /^(background(-image)?|(-webkit-)?mask(-image)?|list-style(-image)?|border-image(-source)?|content)$/i;
+
+function isSvgUrl(url: string): boolean {
+  try {
+    return /\.svgz?$/i.test(new URL(url).pathname);
+  } catch (error) {
+    return false;
+  }
+}
+
+function resolveAssetUrl(raw: string | null, baseUrl: string): string | null {
+  const value = (raw || '').trim();
+  if (!value || value.startsWith('data:') || value.startsWith('#')) return null;
+  try {
+    return new URL(value, baseUrl).href;
+  } catch (error) {
+    return null;
+  }
+}
+
+// First candidate of a srcset attribute
+function firstSrcsetCandidate(srcset: string | null): string | null {
+  if (!srcset) return null;
+  const first = srcset.split(',')[0].trim().split(/\s+/)[0];
+  return first || null;
+}
+
+function readAttributeDimensions(element: Element): { width: number; height: number } | undefined {
+  const width = parseInt(element.getAttribute('width') || '', 10);
+  const height = parseInt(element.getAttribute('height') || '', 10);
+  return width > 0 && height > 0 ? { width, height } : undefined;
+}
+
+// Class names, ids and labels of the nearest ancestors - enough to spot "header .logo a > svg"
+function describeContext(element: Element, baseUrl: string): string {
+  const parts: string[] = [];
+  let current = element.parentElement;
+  for (let depth = 0; current && depth < 4; depth++, current = current.parentElement) {
+    parts.push(current.getAttribute('class') || '', current.id || '', current.getAttribute('aria-label') || '');
+  }
+
+  // The graphic inside the header link back to the homepage is the site logo
+  const link = element.closest('a[href]');
+  if (link && element.closest('header, nav, [role="banner"]')) {
+    const href = resolveAssetUrl(link.getAttribute('href'), baseUrl);
+    if (href && new URL(href).pathname === '/' && new URL(href).origin === new URL(baseUrl).origin) {
+      parts.push('logo');
+    }
+  }
+  return parts.filter(Boolean).join(' ');
+}
+
+// Find every image and SVG the page references: <img>, <picture> sources, favicons,
+// social preview images, CSS url()s and inline <svg> elements
+function discoverAssets(document: Document, css: string, baseUrl: string): DiscoveredAsset[] {
+  const assets = new Map<string, DiscoveredAsset>();
+  const add = (asset: DiscoveredAsset) => {
+    // The first (most specific) sighting of a URL keeps its context
+    if (!assets.has(asset.url)) assets.set(asset.url, asset);
+  };
+  const addUrl = (raw: string | null, source: DiscoveredAsset['source'], element?: Element) => {
+    const url = resolveAssetUrl(raw, baseUrl);
+    if (!url) return;
+    add({
+      url,
+      kind: isSvgUrl(url) ? 'svg' : 'image',
+      source,
+      alt: element ? element.getAttribute('alt') || '' : '',
+      className: element ? element.getAttribute('class') || '' : '',
+      context: element ? describeContext(element, baseUrl) : '',
+      dimensions: element ? readAttributeDimensions(element) : undefined
+    });
+  };
+
+  // Extract from IMG tags (lazy-loading libraries keep the real URL in data-src)
+  document.querySelectorAll('img').forEach(img => {
+    addUrl(img.getAttribute('src') || img.getAttribute('data-src') || firstSrcsetCandidate(img.getAttribute('srcset')), 'img', img);
+  });
+  document.querySelectorAll('picture source[srcset]').forEach(source => {
+    const img = source.parentElement ? source.parentElement.querySelector('img') : null;
+    addUrl(firstSrcsetCandidate(source.getAttribute('srcset')), 'picture', img || source);
+  });
+  document.querySelectorAll('link[rel~="icon"], link[rel="apple-touch-icon"], link[rel="mask-icon"]').forEach(link => {
+    addUrl(link.getAttribute('href'), 'icon');
+  });
+  document.querySelectorAll('meta[property="og:image"], meta[name="twitter:image"]').forEach(meta => {
+    addUrl(meta.getAttribute('content'), 'meta');
+  });
+
+  // Extract from CSS url() references
+  try {
+    safeParser(css).walkDecls((decl: Declaration) => {
+      if (!IMAGE_PROPERTY_REGEX.test(decl.prop)) return;
+      const urlRegex = /url\(\s*(['"]?)([^'")]+)\1\s*\)/gi;
+      let match;
+      while ((match = urlRegex.exec(decl.value)) !== null) {
+        const url = resolveAssetUrl(match[2], baseUrl);
+        if (!url) continue;
+        add({ url, kind: isSvgUrl(url) ? 'svg' : 'image', source: 'css', alt: '', className: '', context: 'background-image' });
+      }
+    });
+  } catch (error) {
+    console.warn('Error parsing CSS for images:', error);
+  }
+
+  // Inline SVG - logos are almost always delivered this way
+  let inlineIndex = 0;
+  document.querySelectorAll('svg').forEach(svg => {
+    if (svg.parentElement && svg.parentElement.closest('svg')) return; // Nested <svg> is part of its parent
+    const title = svg.querySelector('title');
+    add({
+      url: `inline-svg#${++inlineIndex}`,
+      kind: 'svg',
+      source: 'inline-svg',
+      alt: svg.getAttribute('aria-label') || (title ? title.textContent || '' : ''),
+      className: svg.getAttribute('class') || '',
+      context: describeContext(svg, baseUrl),
+      element: svg,
+      dimensions: readSvgDimensions(svg)
+    });
+  });
+
+  return Array.from(assets.values());
+}
+
 // Extract images from HTML and CSS
 export function discoverImages(html: string, css: string, baseUrl: string): string[] {
-  const imageUrls = new Set<string>();
-  
   try {
     const dom = new JSDOM(html);
-    const document = dom.window.document;
-    
-    // Extract from IMG tags
-    const imgTags = document.querySelectorAll('img');
-    imgTags.forEach(img => {
-      const src = (img as HTMLImageElement).src;
-      if (src) {
-        const absoluteUrl = src.startsWith('http') ? src : new URL(src, baseUrl).href;
-        imageUrls.add(absoluteUrl);
-      }
-    });
-    
-    // Extract from CSS background-image
-    const backgroundImageRegex = /background-image:\s*url\(['"]?([^'")\s]+)['"]?\)/gi;
-    let match;
-    while ((match = backgroundImageRegex.exec(css)) !== null) {
-      const url = match[1];
-      if (url && !url.startsWith('data:')) {
-        const absoluteUrl = url.startsWith('http') ? url : new URL(url, baseUrl).href;
-        imageUrls.add(absoluteUrl);
-      }
-    }
-    
-    // Extract from SVG (could contain brand colors)
-    const svgTags = document.querySelectorAll('svg');
-    // For now, we'll skip SVG processing but could extract fill/stroke colors
-    
+    return discoverAssets(dom.window.document, css, baseUrl)
+      .filter(asset => asset.source !== 'inline-svg')
+      .map(asset => asset.url);
   } catch (error) {
     console.warn('Error parsing HTML for images:', error);
+    return [];
   }
-  
-  return Array.from(imageUrls);
 }
 
-// Mock dominant color extraction (would use real library in production)
-async function extractDominantColors(imageUrl: string): Promise<string[]> {
-  // This is a placeholder - in real implementation would use:
-  // - sharp + color-thief for Node.js
-  // - Canvas API for browser
-  // - Computer vision API for advanced analysis
-  
-  console.log(`[MOCK] Extracting colors from: ${imageUrl}`);
-  
-  // Return mock colors based on URL patterns (for demonstration)
-  const url = imageUrl.toLowerCase();
-  
-  if (url.includes('logo')) {
-    // Mock logo colors - typically brand primaries
-    return ['#e40089', '#262a82', '#ffffff'];
-  } else if (url.includes('hero') || url.includes('banner')) {
-    // Mock hero image colors - typically brand + photography
-    return ['#569ff7', '#f398c0', '#b0f4ff', '#3da834'];
-  } else if (url.includes('product')) {
-    // Mock product colors - varied
-    return ['#d32f2f', '#1976d2', '#f57c00'];
+// Downscale before quantizing - dominant colors survive, the cost drops by orders of magnitude
+const SAMPLE_SIZE = 64;
+const MAX_DOMINANT_COLORS = 5;
+const KMEANS_CLUSTERS = 8;
+const KMEANS_ITERATIONS = 12;
+const MIN_CLUSTER_SHARE = 0.03; // Ignore clusters covering less than 3% of opaque pixels
+const ALPHA_THRESHOLD = 128; // Pixels more transparent than this are not part of the visible palette
+const CHROMA_THRESHOLD = 0.03; // OKLCH chroma below this reads as gray
+
+type Oklab = [number, number, number];
+
+interface DecodedImage {
+  pixels: Buffer; // RGBA, downscaled
+  width: number;
+  height: number;
+  format: string;
+  hasTransparency: boolean;
+}
+
+interface DominantColorResult {
+  colors: string[];
+  averageSaturation: number;
+  isMonochrome: boolean;
+  hasTransparency: boolean;
+  dimensions?: { width: number; height: number };
+  format: string;
+}
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(channel: number): number {
+  const c = channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+  return Math.round(Math.max(0, Math.min(1, c)) * 255);
+}
+
+// sRGB -> OKLab (Björn Ottosson), a perceptual space where euclidean distance tracks visual difference
+function rgbToOklab(r: number, g: number, b: number): Oklab {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  ];
+}
+
+function oklabToHex([L, a, b]: Oklab): string {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+  const r = linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s);
+  const g = linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s);
+  const bl = linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s);
+  return '#' + [r, g, bl].map(v => v.toString(16).padStart(2, '0')).join('');
+}
+
+function oklabDistanceSq(a: Oklab, b: Oklab): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function rgbSaturation(r: number, g: number, b: number): number {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const lightness = (max + min) / 2;
+  if (max === min) return 0;
+  return (max - min) / (1 - Math.abs(2 * lightness - 1));
+}
+
+// Decode PNG/JPEG/WebP/GIF (first frame) bytes into a small RGBA sample
+async function decodeImage(data: Buffer): Promise<DecodedImage> {
+  const image = sharp(data, { animated: false, failOn: 'none' });
+  const metadata = await image.metadata();
+  const { data: pixels } = await image
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let hasTransparency = false;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 255) {
+      hasTransparency = true;
+      break;
+    }
   }
-  
-  // Default mock colors
-  return ['#333333', '#666666', '#999999'];
+
+  return {
+    pixels,
+    width: metadata.width || 0,
+    height: metadata.height || 0,
+    format: metadata.format || 'unknown',
+    hasTransparency
+  };
+}
+
+// k-means in OKLab with deterministic farthest-point seeding, so repeated runs give the same palette
+function quantizeOklab(points: Oklab[], k: number): Array<{ center: Oklab; size: number }> {
+  if (points.length === 0) return [];
+
+  // Seed with the mean, then repeatedly add the point farthest from every existing center
+  const mean: Oklab = [0, 0, 0];
+  points.forEach(p => { mean[0] += p[0]; mean[1] += p[1]; mean[2] += p[2]; });
+  const centers: Oklab[] = [[mean[0] / points.length, mean[1] / points.length, mean[2] / points.length]];
+  const nearest = points.map(p => oklabDistanceSq(p, centers[0]));
+  while (centers.length < k) {
+    let farthest = 0;
+    for (let i = 1; i < points.length; i++) {
+      if (nearest[i] > nearest[farthest]) farthest = i;
+    }
+    if (nearest[farthest] < 1e-6) break; // Fewer distinct colors than clusters
+    const center = points[farthest];
+    centers.push([center[0], center[1], center[2]]);
+    points.forEach((p, i) => { nearest[i] = Math.min(nearest[i], oklabDistanceSq(p, center)); });
+  }
+
+  const assignments = new Array<number>(points.length).fill(0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let changed = false;
+    points.forEach((p, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach((c, j) => {
+        const distance = oklabDistanceSq(p, c);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = j;
+        }
+      });
+      if (assignments[i] !== best) {
+        assignments[i] = best;
+        changed = true;
+      }
+    });
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    points.forEach((p, i) => {
+      const sum = sums[assignments[i]];
+      sum[0] += p[0]; sum[1] += p[1]; sum[2] += p[2]; sum[3]++;
+    });
+    sums.forEach((sum, j) => {
+      if (sum[3] > 0) centers[j] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+
+    if (!changed && iteration > 0) break;
+  }
+
+  const sizes = centers.map(() => 0);
+  assignments.forEach(j => { sizes[j]++; });
+  return centers
+    .map((center, j) => ({ center, size: sizes[j] }))
+    .filter(cluster => cluster.size > 0)
+    .sort((a, b) => b.size - a.size);
+}
+
+// A palette is monochrome when every chromatic color shares (roughly) one hue
+function isMonochromePalette(centers: Oklab[]): boolean {
+  const hues = centers
+    .filter(([, a, b]) => Math.sqrt(a * a + b * b) >= CHROMA_THRESHOLD)
+    .map(([, a, b]) => (Math.atan2(b, a) * 180 / Math.PI + 360) % 360)
+    .sort((a, b) => a - b);
+  if (hues.length <= 1) return true;
+
+  // Largest gap between neighbouring hues (wrapping around 360°) tells us the occupied arc
+  let largestGap = 360 - hues[hues.length - 1] + hues[0];
+  for (let i = 1; i < hues.length; i++) {
+    largestGap = Math.max(largestGap, hues[i] - hues[i - 1]);
+  }
+  return 360 - largestGap <= 20;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// SVG colors are exact, so "dominant" simply means most used
+function measureSvgPalette(result: SvgColorResult): DominantColorResult {
+  const colors = result.colors.slice(0, MAX_DOMINANT_COLORS).map(color => color.value);
+  const rgb = colors.map(hexToRgb);
+  const saturationSum = rgb.reduce((sum, [r, g, b]) => sum + rgbSaturation(r, g, b), 0);
+
+  return {
+    colors,
+    averageSaturation: rgb.length > 0 ? Math.round(saturationSum / rgb.length * 100) : 0,
+    isMonochrome: isMonochromePalette(rgb.map(([r, g, b]) => rgbToOklab(r, g, b))),
+    hasTransparency: true, // The canvas stays transparent wherever no shape paints
+    dimensions: result.dimensions,
+    format: 'svg'
+  };
+}
+
+function isSvgResource(url: string, contentType: string, data: Buffer): boolean {
+  if (/svg/i.test(contentType) || isSvgUrl(url)) return true;
+  // Servers regularly send SVG as text/plain or application/octet-stream
+  const head = data.subarray(0, 512).toString('utf8').trimStart();
+  return head.startsWith('<') && /<svg[\s>]/i.test(head);
+}
+
+// Fetch an image through HttpClient and measure its dominant colors - SVG is parsed, everything else decoded
+async function extractDominantColors(imageUrl: string, httpClient: HttpClient): Promise<DominantColorResult> {
+  const { data, contentType } = await httpClient.fetchBinary(imageUrl);
+  if (isSvgResource(imageUrl, contentType, data)) {
+    return measureSvgPalette(parseSvgMarkup(data.toString('utf8')));
+  }
+
+  const decoded = await decodeImage(data);
+
+  const points: Oklab[] = [];
+  let saturationSum = 0;
+  for (let i = 0; i < decoded.pixels.length; i += 4) {
+    if (decoded.pixels[i + 3] < ALPHA_THRESHOLD) continue;
+    const r = decoded.pixels[i];
+    const g = decoded.pixels[i + 1];
+    const b = decoded.pixels[i + 2];
+    points.push(rgbToOklab(r, g, b));
+    saturationSum += rgbSaturation(r, g, b);
+  }
+
+  const clusters = quantizeOklab(points, KMEANS_CLUSTERS)
+    .filter(cluster => cluster.size / points.length >= MIN_CLUSTER_SHARE)
+    .slice(0, MAX_DOMINANT_COLORS);
+
+  // Clusters can land on the same sRGB value after rounding
+  const colors = Array.from(new Set(clusters.map(cluster => oklabToHex(cluster.center))));
+
+  return {
+    colors,
+    averageSaturation: points.length > 0 ? Math.round(saturationSum / points.length * 100) : 0,
+    isMonochrome: isMonochromePalette(clusters.map(cluster => cluster.center)),
+    hasTransparency: decoded.hasTransparency,
+    dimensions: { width: decoded.width, height: decoded.height },
+    format: decoded.format
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number, label: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeout}ms`)), timeout);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
 }
 
 // Main image analysis function
@@ -158,61 +499,82 @@ export async function analyzeImages(
   html: string, 
   css: string, 
   baseUrl: string,
+  httpClient: HttpClient,
   options: { maxImages?: number; timeout?: number } = {}
 ): Promise<ImageAnalysisResult> {
   const { maxImages = 20, timeout = 5000 } = options;
   
   console.log('🖼️  Starting image analysis...');
   
-  // Discover images
-  const imageUrls = discoverImages(html, css, baseUrl);
-  console.log(`Found ${imageUrls.length} images`);
+  // Discover images and SVGs, with the markup context used for type detection
+  const dom = new JSDOM(html);
+  const discovered = discoverAssets(dom.window.document, css, baseUrl);
+  console.log(`Found ${discovered.length} images (${discovered.filter(asset => asset.kind === 'svg').length} SVG)`);
+
+  const assets: AssetInventoryEntry[] = discovered.map(asset => ({
+    url: asset.url,
+    kind: asset.kind,
+    source: asset.source,
+    type: detectImageType(asset.source === 'inline-svg' ? '' : asset.url, asset.alt, asset.className, asset.context),
+    alt: asset.alt || undefined,
+    dimensions: asset.dimensions,
+    colors: [],
+    analyzed: false
+  }));
   
-  // Limit number of images to process
-  const urlsToProcess = imageUrls.slice(0, maxImages);
+  // Limit number of images to process - most authoritative types first
+  const queue = assets
+    .map((entry, index) => ({ entry, asset: discovered[index] }))
+    .sort((a, b) => getImageWeight(b.entry.type) - getImageWeight(a.entry.type))
+    .slice(0, maxImages);
   
   const imageAnalysis: ImageColorData[] = [];
   const logoColors: string[] = [];
   const heroColors: string[] = [];
-  
+
+  // Inline SVGs resolve against the page cascade (currentColor comes from the host element)
+  let pageResolver: CascadeResolver | undefined;
+
   // Process each image
-  for (const url of urlsToProcess) {
+  for (const { entry, asset } of queue) {
+    const { url, type } = entry;
     try {
       console.log(`Processing: ${url.substring(0, 80)}...`);
       
-      // Extract context from original HTML for better type detection
-      const dom = new JSDOM(html);
-      const document = dom.window.document;
-      const imgElement = Array.from(document.querySelectorAll('img')).find(
-        img => (img as HTMLImageElement).src === url || (img as HTMLImageElement).src.endsWith(url.split('/').pop() || '')
-      );
-      
-      const alt = imgElement ? (imgElement as HTMLImageElement).alt : '';
-      const className = imgElement ? (imgElement as HTMLImageElement).className : '';
-      
-      // Detect image type
-      const type = detectImageType(url, alt, className);
-      
-      // Extract dominant colors (mock for now)
-      const dominantColors = await extractDominantColors(url);
+      let measured: DominantColorResult;
+      if (asset.element) {
+        pageResolver = pageResolver || new CascadeResolver(css);
+        measured = measureSvgPalette(extractSvgColors(asset.element, pageResolver));
+      } else {
+        // Decode and quantize the actual pixels
+        measured = await withTimeout(extractDominantColors(url, httpClient), timeout, `Image analysis for ${url}`);
+      }
+      const dominantColors = measured.colors;
+      const dimensions = measured.dimensions || asset.dimensions;
       
       // Get weight
-      const weight = getImageWeight(type);
+      const weight = getImageWeight(type, dimensions);
       
       const imageData: ImageColorData = {
         url,
         type,
         dominantColors,
         weight,
+        dimensions,
+        format: measured.format,
         analysis: {
           colorCount: dominantColors.length,
-          averageSaturation: 75, // Mock
-          isMonochrome: dominantColors.length <= 2,
-          hasTransparency: url.includes('.png') // Mock
+          averageSaturation: measured.averageSaturation,
+          isMonochrome: measured.isMonochrome,
+          hasTransparency: measured.hasTransparency
         }
       };
       
       imageAnalysis.push(imageData);
+      entry.colors = dominantColors;
+      entry.dimensions = dimensions;
+      entry.analyzed = true;
+      if (measured.format === 'svg') entry.kind = 'svg';
       
       // Collect colors by type
       if (type === 'logo') {
@@ -231,12 +593,13 @@ export async function analyzeImages(
   
   return {
     images: imageAnalysis,
-    totalImages: imageUrls.length,
+    totalImages: assets.length,
     logoColors: Array.from(new Set(logoColors)),
     heroColors: Array.from(new Set(heroColors)),
     averageColorsPerImage: imageAnalysis.length > 0 
       ? imageAnalysis.reduce((sum, img) => sum + img.dominantColors.length, 0) / imageAnalysis.length 
-      : 0
+      : 0,
+    assets
   };
 }
 
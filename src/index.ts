@@ -1,26 +1,33 @@
 import { Command } from 'commander';
-import { JSDOM } from 'jsdom';
-import { Root, Declaration, AtRule } from 'postcss';
-import safeParser from 'postcss-safe-parser';
 import fs from 'fs';
 import path from 'path';
 import { formatOutput } from './formatter';
 import { generateSiteSpec } from './site-spec-formatter';
+import { generateAssetsOutput } from './assets-formatter';
 import { HttpClient } from './http-client';
 import { SecurityValidator } from './security';
 import { MultiSourceAnalyzer } from './multi-source-analyzer';
-import { analyzeImages, mergeImageColorsWithCss } from './image-analysis';
-import { analyzeSemanticColors, enhanceColorsWithSemantic } from './semantic-color-analyzer';
-import type { ExtractedTokens, ExtractedMeta, ValidationError, AuthConfig, MultiSourceTokens, ImageAnalysisResult, SemanticColorAnalysis } from './types';
+import { auditBrandColors, describeNearMiss, parseBrandPalette, renderBrandAuditMarkdown } from './brand-audit';
+import { auditAccessibility, describeContrastFailure, renderAccessibilityMarkdown } from './accessibility';
+import { extractStylesFromUrl, calculateTotalTokens } from './extractor';
+import type { ValidationError, AuthConfig, MultiSourceTokens, BrandPaletteColor, ComponentInventory, ExtractedTokens, PageStructure, SemanticColorAnalysis } from './types';
 
 const program = new Command();
 
 program
   .requiredOption('--url <url>', 'Primary URL of the website to extract styles from')
   .option('--urls <urls>', 'Additional URLs to analyze (comma-separated). Use for design system docs, style guides, etc.')
+  .option('--crawl', 'Discover same-origin pages from --url (links, sitemap.xml) and analyze them as sources')
+  .option('--max-pages <number>', 'Maximum pages to analyze when crawling', '20')
+  .option('--max-depth <number>', 'Maximum link depth from --url when crawling', '2')
+  .option('--include <globs>', 'Only crawl paths matching these globs (comma-separated), e.g. "/blog/**,/docs/*"')
+  .option('--exclude <globs>', 'Never crawl paths matching these globs (comma-separated)')
+  .option('--no-sitemap', 'Do not seed the crawl from sitemap.xml')
+  .option('--ignore-robots', 'Crawl paths disallowed by robots.txt')
+  .option('--crawl-delay <ms>', 'Pause between crawled pages in milliseconds', '0')
   .option('--compact', 'Output compact/minified JSON for LLM use')
-  .option('--format <format>', 'Output format: json | style-dictionary | shadcn | tailwind | theme-json', 'json')
-  .option('--all-formats', 'Generate all output formats (json, style-dictionary, shadcn, tailwind, theme-json)')
+  .option('--format <format>', 'Output format: json | style-dictionary | dtcg | shadcn | tailwind | theme-json | canonical | figma-variables | tokens-studio', 'json')
+  .option('--all-formats', 'Generate all output formats (json, style-dictionary, dtcg, shadcn, tailwind, theme-json, canonical, figma-variables, tokens-studio)')
   .option('--color-format <format>', 'Color format for shadcn output: hsl | oklch | hex', 'hsl')
   .option('--auth-type <type>', 'Authentication type: basic | bearer | cookie | custom')
   .option('--auth-username <username>', 'Username for basic auth')
@@ -28,9 +35,14 @@ program
   .option('--auth-token <token>', 'Bearer token or API key')
   .option('--auth-cookies <cookies>', 'Cookie string for session auth')
   .option('--auth-headers <headers>', 'Custom headers as JSON string')
-  .option('--include-images', 'Analyze images for additional brand colors (experimental)')
+  .option('--include-images', 'Analyze images and SVGs for additional brand colors and write an ASSETS.md/assets.json inventory')
   .option('--max-images <number>', 'Maximum number of images to analyze', '10')
   .option('--semantic-analysis', 'Analyze HTML elements for semantic color importance (buttons, nav, etc.)')
+  .option('--conditions <mode>', 'Count values under @media/@supports/@layer/@container: all | screen (drop print-only) | weighted (also discount preference variants and early layers)', 'all')
+  .option('--render', 'Load the page in a headless browser (requires playwright) to capture runtime-injected styles')
+  .option('--allow-private-hosts', 'Allow localhost/private network URLs, e.g. a local fixture server')
+  .option('--a11y-report', 'Check WCAG 2.x / APCA contrast of the generated shadcn theme and, with --semantic-analysis, of the text on the page')
+  .option('--brand-palette <palette>', 'Audit extracted colors against a brand palette: comma-separated hex list (optionally name=#hex) or a Style Dictionary / theme-json file')
   .option('--design-md', 'Emit a site-spec resource pack (DESIGN.md / STRUCTURE.md / COMPONENTS.md / IMPLEMENTATION.md / CAVEATS.md) alongside shadcn output')
   .parse(process.argv);
 
@@ -85,438 +97,87 @@ if (options.authType) {
 }
 
 // Initialize HTTP client with auth configuration
-const httpClient = new HttpClient({ auth: authConfig });
-
-function resolveVar(value: string, customProperties: Record<string, string>, seen: Set<string> = new Set()): string {
-  // Recursively resolve CSS variable references like var(--foo)
-  const varRegex = /var\((--[\w-]+)\)/g;
-  let result = value;
-  let match;
-  while ((match = varRegex.exec(result)) !== null) {
-    const varName = match[1];
-    if (seen.has(varName)) break; // Prevent infinite loops
-    seen.add(varName);
-    const replacement = customProperties[varName];
-    if (replacement) {
-      const resolved = resolveVar(replacement, customProperties, seen);
-      result = result.replace(match[0], resolved);
-    }
-  }
-  return result;
+const httpClient = new HttpClient(
+  { auth: authConfig },
+  options.allowPrivateHosts ? new SecurityValidator({ blockedHosts: [] }) : undefined
+);
+
+if (['all', 'screen', 'weighted'].indexOf(options.conditions) === -1) {
+  console.error('Invalid --conditions: expected all, screen or weighted');
+  process.exit(1);
 }
 
-function frequencyMap(arr: string[]): Record<string, number> {
-  const freq: Record<string, number> = {};
-  for (const v of arr) {
-    freq[v] = (freq[v] || 0) + 1;
+// Reference palette for --brand-palette: a palette file, or the hex list itself
+let brandPalette: BrandPaletteColor[] | undefined;
+if (options.brandPalette) {
+  try {
+    brandPalette = parseBrandPalette(
+      fs.existsSync(options.brandPalette) ? JSON.parse(fs.readFileSync(options.brandPalette, 'utf-8')) : options.brandPalette
+    );
+  } catch (error) {
+    console.error(`Invalid --brand-palette: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
   }
-  return freq;
 }
 
-function frequencyArray(arr: string[]): { value: string; count: number; prevalence: number }[] {
-  const freq = frequencyMap(arr);
-  const total = arr.length;
-  return Object.entries(freq)
-    .map(([value, count]) => ({ value, count, prevalence: +(count / total * 100).toFixed(2) }))
-    .sort((a, b) => b.count - a.count);
+// outputs/<host>-<date>/<baseName>-brand-audit.json and .md
+function writeBrandAudit(tokens: ExtractedTokens, source: string, semantic: SemanticColorAnalysis | undefined, outputDir: string, baseName: string): void {
+  if (!brandPalette) return;
+  const audit = auditBrandColors(tokens, source, brandPalette, semantic);
+  const auditPath = path.join(outputDir, `${baseName}-brand-audit`);
+  fs.writeFileSync(`${auditPath}.json`, JSON.stringify(audit, null, 2), 'utf-8');
+  fs.writeFileSync(`${auditPath}.md`, renderBrandAuditMarkdown(audit), 'utf-8');
+
+  const { summary } = audit;
+  console.log(`\n🎯 Brand audit: ${summary.onBrand} on-brand, ${summary.nearMiss} near-miss, ${summary.offPalette} off-palette colors (${summary.onBrandShare}% of uses on-brand)`);
+  audit.colors.filter(match => match.status === 'near-miss').slice(0, 5).forEach(match => console.log(`  ⚠️  ${describeNearMiss(match)}`));
+  console.log(`  ✅ brand audit: ${auditPath}.md`);
 }
 
-function extractTokensFromCss(css: string): ExtractedTokens {
-  const root: Root = safeParser(css);
-  const customProperties: Record<string, string> = {};
-  const customPropRefs: Record<string, number> = {};
-  const colors: string[] = [];
-  const colorsFromVariables: Set<string> = new Set(); // Track colors that come from CSS variables
-  const fontSizes: string[] = [];
-  const fontFamilies: string[] = [];
-  const fontWeights: string[] = [];
-  const lineHeights: string[] = [];
-  const letterSpacings: string[] = [];
-  const spacing: string[] = [];
-  const radii: string[] = [];
-  const shadows: string[] = [];
-  const gradients: string[] = [];
-  const breakpoints: string[] = [];
-  const zIndices: string[] = [];
-  const transitions: string[] = [];
-  const opacity: string[] = [];
-  const aspectRatios: string[] = [];
-  const borderWidths: string[] = [];
-  const borderStyles: string[] = [];
-
-  // Count var(--token) references
-  const varRefRegex = /var\((--[\w-]+)\)/g;
-  let match;
-  while ((match = varRefRegex.exec(css)) !== null) {
-    const varName = match[1];
-    customPropRefs[varName] = (customPropRefs[varName] || 0) + 1;
-  }
-
-  // Helper function to check if a CSS rule should be ignored
-  const shouldIgnoreRule = (rule: any): boolean => {
-    if (!rule.parent) return false;
-    
-    // Get the full selector chain
-    let currentRule = rule.parent;
-    let selectors: string[] = [];
-    
-    while (currentRule) {
-      if (currentRule.type === 'rule') {
-        selectors.push(currentRule.selector || '');
-      }
-      currentRule = currentRule.parent;
-    }
-    
-    const fullSelector = selectors.join(' ').toLowerCase();
-    
-    // Ignore problematic pseudo-states that often contain browser defaults
-    const ignoredPatterns = [
-      /:hover/i,           // Hover states often use browser defaults
-      /:focus/i,           // Focus rings often use browser defaults  
-      /:visited/i,         // Visited link colors use browser defaults
-      /:link/i,            // Default link colors
-      /:active/i,          // Active states may use defaults
-      /a:not\(/i,          // Default link styling
-      /\*:focus/i,         // Universal focus styles
-      /input:focus/i,      // Default form focus colors
-      /button:focus/i,     // Default button focus colors
-      /textarea:focus/i,   // Default textarea focus colors
-      /select:focus/i,     // Default select focus colors
-      /:focus-visible/i,   // Focus-visible often browser defaults
-      /:target/i           // Target pseudo-class defaults
-    ];
-    
-    return ignoredPatterns.some(pattern => pattern.test(fullSelector));
-  };
-
-  root.walkDecls((decl: Declaration) => {
-    // Custom properties
-    if (decl.prop.startsWith('--')) {
-      customProperties[decl.prop] = decl.value;
-      
-      // If this custom property contains colors, mark them as variable-defined
-      const colorRegex = /(#[0-9a-fA-F]{3,8}|rgba?\([^)]*\)|hsla?\([^)]*\))/g;
-      const colorMatches = decl.value.match(colorRegex);
-      if (colorMatches) {
-        colorMatches.forEach(color => colorsFromVariables.add(color));
-      }
-    }
-    
-    // Colors - but skip problematic pseudo-states
-    if (!shouldIgnoreRule(decl) && /color|background|border|fill|stroke|shadow|outline|caret|text-decoration|accent-color/i.test(decl.prop)) {
-      const colorRegex = /(#[0-9a-fA-F]{3,8}|rgba?\([^)]*\)|hsla?\([^)]*\))/g;
-      const matches = decl.value.match(colorRegex);
-      if (matches) {
-        // Additional filter for known browser default colors
-        matches.forEach(color => {
-          const normalized = color.toLowerCase();
-          const browserDefaults = [
-            '#0000ee', '#0000ff', '#0066cc', '#0080ff', '#0099ff', '#1e90ff', '#4169e1',
-            '#800080', '#8b008b', '#9932cc', '#663399',
-            '#005fcc', '#0078d4', '#0066ff', '#217ce8', '#2563eb',
-            '#0078d7', '#106ebe', '#66afe9', '#80bdff', '#007bff',
-            '#1976d2', '#2196f3', '#42a5f5'
-          ];
-          
-          // Only include if it's not a known browser default
-          if (!browserDefaults.includes(normalized)) {
-            colors.push(color);
-          }
-        });
-      }
-      
-      // Only check for CSS color keywords if no other color formats were found
-      if (!matches || matches.length === 0) {
-        const validColorKeywords = ['red', 'blue', 'green', 'black', 'white', 'gray', 'grey', 'yellow', 'orange', 'purple', 'pink', 'brown', 'cyan', 'magenta', 'lime', 'navy', 'olive', 'teal', 'silver', 'maroon', 'fuchsia', 'aqua'];
-        const keywords = decl.value.split(/\s+/).filter(word => validColorKeywords.includes(word.toLowerCase()));
-        if (keywords.length > 0) {
-          colors.push(...keywords);
-        }
-      }
-    }
-    
-    // Also extract colors from any CSS value that contains color patterns (but still filter)
-    if (!shouldIgnoreRule(decl) && decl.value) {
-      const valueColorRegex = /(#[0-9a-fA-F]{3,8}|rgba?\([^)]*\)|hsla?\([^)]*\))/g;
-      const valueMatches = decl.value.match(valueColorRegex);
-      if (valueMatches) {
-        valueMatches.forEach(color => {
-          const normalized = color.toLowerCase();
-          const browserDefaults = [
-            '#0000ee', '#0000ff', '#0066cc', '#0080ff', '#0099ff', '#1e90ff', '#4169e1',
-            '#800080', '#8b008b', '#9932cc', '#663399',
-            '#005fcc', '#0078d4', '#0066ff', '#217ce8', '#2563eb',
-            '#0078d7', '#106ebe', '#66afe9', '#80bdff', '#007bff',
-            '#1976d2', '#2196f3', '#42a5f5'
-          ];
-          
-          // Only include if it's not a known browser default
-          if (!browserDefaults.includes(normalized)) {
-            colors.push(color);
-          }
-        });
-      }
-    }
-    // Font sizes
-    if (/font-size/i.test(decl.prop)) {
-      const fontSizeRegex = /([\d.]+(px|rem|em|%|vw|vh))/g;
-      const matches = decl.value.match(fontSizeRegex);
-      if (matches) matches.forEach(f => fontSizes.push(f));
-    }
-    // Font families
-    if (/font-family/i.test(decl.prop)) {
-      const families = decl.value.split(',').map(f => f.trim().replace(/^['"]|['"]$/g, ''));
-      families.forEach(fam => fontFamilies.push(fam));
-    }
-    // Font weights
-    if (/font-weight/i.test(decl.prop)) {
-      fontWeights.push(decl.value.trim());
-    }
-    // Line heights
-    if (/line-height/i.test(decl.prop)) {
-      lineHeights.push(decl.value.trim());
-    }
-    // Letter spacing
-    if (/letter-spacing/i.test(decl.prop)) {
-      letterSpacings.push(decl.value.trim());
-    }
-    // Spacing
-    if (/margin|padding|gap/i.test(decl.prop)) {
-      const spacingRegex = /([\d.]+(px|rem|em|%|vw|vh))/g;
-      const matches = decl.value.match(spacingRegex);
-      if (matches) matches.forEach(s => spacing.push(s));
-    }
-    // Border radius
-    if (/radius/i.test(decl.prop)) {
-      const radiusRegex = /([\d.]+(px|rem|em|%))/g;
-      const matches = decl.value.match(radiusRegex);
-      if (matches) matches.forEach(r => radii.push(r));
-    }
-    // Shadows
-    if (/box-shadow|text-shadow/i.test(decl.prop)) {
-      shadows.push(decl.value);
-    }
-    // Gradients
-    if (/gradient/i.test(decl.value)) {
-      gradients.push(decl.value);
-    }
-    // Z-Index
-    if (/z-index/i.test(decl.prop)) {
-      zIndices.push(decl.value.trim());
-    }
-    // Transitions & Animations
-    if (/transition|animation/i.test(decl.prop)) {
-      transitions.push(decl.value.trim());
-    }
-    // Opacity
-    if (/opacity/i.test(decl.prop)) {
-      opacity.push(decl.value.trim());
-    }
-    // Aspect Ratio
-    if (/aspect-ratio/i.test(decl.prop)) {
-      aspectRatios.push(decl.value.trim());
-    }
-    // Border Widths
-    if (/border-width/i.test(decl.prop)) {
-      borderWidths.push(decl.value.trim());
-    }
-    // Border Styles
-    if (/border-style/i.test(decl.prop)) {
-      borderStyles.push(decl.value.trim());
-    }
-  });
-
-  // Media queries for breakpoints
-  root.walkAtRules((rule: AtRule) => {
-    if (rule.name === 'media') {
-      const bpRegex = /(min|max)-width:\s*([\d.]+(px|em|rem|vw|vh))/g;
-      let match;
-      while ((match = bpRegex.exec(rule.params)) !== null) {
-        breakpoints.push(match[2]);
-      }
-    }
-  });
-
-  // Resolve custom property values
-  const processedCustomProperties: Record<string, { value: string; references: number; refVariable?: string }> = {};
-  for (const [key, value] of Object.entries(customProperties)) {
-    // Check if the original value is exactly a single var(--token)
-    const varMatch = value.match(/^var\((--[\w-]+)\)$/);
-    if (varMatch) {
-      processedCustomProperties[key] = {
-        value: resolveVar(value, customProperties),
-        references: customPropRefs[key] || 0,
-        refVariable: varMatch[1]
-      };
-    } else {
-      processedCustomProperties[key] = {
-        value: resolveVar(value, customProperties),
-        references: customPropRefs[key] || 0
-      };
-    }
-  }
-
-  function dedup(arr: string[]) {
-    return Array.from(new Set(arr));
-  }
+// outputs/<host>-<date>/<baseName>-a11y.json and .md; the theme is generated as shadcn whatever --format is
+function writeAccessibilityReport(tokens: ExtractedTokens, meta: any, source: string, semantic: SemanticColorAnalysis | undefined, outputDir: string, baseName: string): void {
+  if (!options.a11yReport) return;
+  const { theme } = formatOutput(tokens, meta, { ...options, format: 'shadcn' });
+  const report = auditAccessibility(source, theme, semantic);
+  const reportPath = path.join(outputDir, `${baseName}-a11y`);
+  fs.writeFileSync(`${reportPath}.json`, JSON.stringify(report, null, 2), 'utf-8');
+  fs.writeFileSync(`${reportPath}.md`, renderAccessibilityMarkdown(report), 'utf-8');
+
+  const { summary } = report;
+  console.log(`\n♿ Accessibility: ${summary.themeFailures} of ${summary.themePairs} theme pairs fail` +
+    (report.semanticAnalysis ? `, ${summary.siteFailures} of ${summary.sitePairs} site text pairs fail` : ' (site text needs --semantic-analysis)'));
+  [...report.theme, ...report.site]
+    .filter(check => !check.wcag.aa || !check.apcaPass)
+    .slice(0, 5)
+    .forEach(check => console.log(`  ⚠️  ${describeContrastFailure(check)}`));
+  console.log(`  ✅ accessibility report: ${reportPath}.md`);
+}
 
-  return {
-    customProperties: processedCustomProperties,
-    colors: {
-      values: dedup(colors),
-      frequency: frequencyArray(colors)
-    },
-    colorsFromVariables: Array.from(colorsFromVariables),
-    fontSizes: {
-      values: dedup(fontSizes),
-      frequency: frequencyArray(fontSizes)
-    },
-    fontFamilies: {
-      values: dedup(fontFamilies),
-      frequency: frequencyArray(fontFamilies)
-    },
-    fontWeights: {
-      values: dedup(fontWeights),
-      frequency: frequencyArray(fontWeights)
-    },
-    lineHeights: {
-      values: dedup(lineHeights),
-      frequency: frequencyArray(lineHeights)
-    },
-    letterSpacings: {
-      values: dedup(letterSpacings),
-      frequency: frequencyArray(letterSpacings)
-    },
-    spacing: {
-      values: dedup(spacing),
-      frequency: frequencyArray(spacing)
-    },
-    radii: {
-      values: dedup(radii),
-      frequency: frequencyArray(radii)
-    },
-    shadows: {
-      values: dedup(shadows),
-      frequency: frequencyArray(shadows)
-    },
-    gradients: {
-      values: dedup(gradients),
-      frequency: frequencyArray(gradients)
-    },
-    breakpoints: {
-      values: dedup(breakpoints),
-      frequency: frequencyArray(breakpoints)
-    },
-    zIndices: {
-      values: dedup(zIndices),
-      frequency: frequencyArray(zIndices)
-    },
-    transitions: {
-      values: dedup(transitions),
-      frequency: frequencyArray(transitions)
-    },
-    opacity: {
-      values: dedup(opacity),
-      frequency: frequencyArray(opacity)
-    },
-    aspectRatios: {
-      values: dedup(aspectRatios),
-      frequency: frequencyArray(aspectRatios)
-    },
-    borderWidths: {
-      values: dedup(borderWidths),
-      frequency: frequencyArray(borderWidths)
-    },
-    borderStyles: {
-      values: dedup(borderStyles),
-      frequency: frequencyArray(borderStyles)
-    }
-  };
+// <name>-shadcn-spec/ next to the shadcn CSS: the site-spec pack for --design-md
+function writeSiteSpecPack(output: any, outputPath: string, analysisJsonString: string, structure?: PageStructure, components?: ComponentInventory): void {
+  if (!options.designMd) return;
+  const specDir = outputPath.replace('.css', '-spec');
+  fs.mkdirSync(specDir, { recursive: true });
+  const spec = generateSiteSpec({ meta: output.meta, tokens: output.tokens, bindings: output.bindings, theme: output.theme, cssPath: outputPath, analysisJsonString, structure, components });
+  fs.writeFileSync(path.join(specDir, 'DESIGN.md'), spec.designMd, 'utf-8');
+  fs.writeFileSync(path.join(specDir, 'STRUCTURE.md'), spec.structureMd, 'utf-8');
+  fs.writeFileSync(path.join(specDir, 'COMPONENTS.md'), spec.componentsMd, 'utf-8');
+  fs.writeFileSync(path.join(specDir, 'IMPLEMENTATION.md'), spec.implementationMd, 'utf-8');
+  fs.writeFileSync(path.join(specDir, 'CAVEATS.md'), spec.caveatsMd, 'utf-8');
+  fs.writeFileSync(path.join(specDir, 'composition.json'), spec.compositionJson, 'utf-8');
+  fs.writeFileSync(path.join(specDir, 'components.json'), spec.componentsJson, 'utf-8');
+  console.log(`📁 site-spec pack written to ${specDir}/ (7 files, shared canonical_hash)`);
 }
 
-async function extractStyles(html: string, baseUrl: string): Promise<void> {
+async function extractStyles(baseUrl: string): Promise<void> {
   try {
-    const dom = new JSDOM(html);
-    const document = dom.window.document;
-
-  // Get all external stylesheet URLs
-  const linkHrefs = Array.from(document.querySelectorAll('link[rel="stylesheet"]'))
-    .map(link => (link as HTMLLinkElement).href)
-    .map(href => href.startsWith('http') ? href : new URL(href, baseUrl).href);
-
-  // Get all inline <style> tag contents
-  const styleContents = Array.from(document.querySelectorAll('style'))
-    .map(style => (style as HTMLStyleElement).textContent || '');
-
-  // Fetch all external CSS
-  const externalCssArr = await Promise.all(linkHrefs.map(url => httpClient.fetchCss(url)));
-
-  // Combine all CSS
-  const allCss = [...externalCssArr, ...styleContents].join('\n');
-  console.log('Total combined CSS length:', allCss.length);
-
-  // Optional image analysis
-  let imageAnalysis: ImageAnalysisResult | undefined;
-  if (options.includeImages) {
-    try {
-      imageAnalysis = await analyzeImages(html, allCss, baseUrl, {
-        maxImages: parseInt(options.maxImages || '10'),
-        timeout: 5000
-      });
-    } catch (error) {
-      console.warn('Image analysis failed:', error);
-    }
-  }
-
-  // Optional semantic color analysis
-  let semanticAnalysis: SemanticColorAnalysis | undefined;
-  if (options.semanticAnalysis) {
-    try {
-      semanticAnalysis = analyzeSemanticColors(html, allCss);
-    } catch (error) {
-      console.warn('Semantic analysis failed:', error);
-    }
-  }
-
-  // Parse and extract tokens
-  let tokens = extractTokensFromCss(allCss);
-
-  // Enhance colors with all available analysis types
-  let enhancedColors = tokens.colors.frequency.map(f => ({ value: f.value, count: f.count }));
-
-  // Apply image analysis enhancement
-  if (imageAnalysis) {
-    enhancedColors = mergeImageColorsWithCss(enhancedColors, imageAnalysis);
-    console.log(`🖼️  Enhanced colors with image analysis: ${imageAnalysis.images.length} images processed`);
-  }
-
-  // Apply semantic analysis enhancement
-  if (semanticAnalysis) {
-    const semanticEnhanced = enhanceColorsWithSemantic(enhancedColors, semanticAnalysis);
-    
-    // Update tokens with semantic-enhanced color data
-    tokens.colors.frequency = semanticEnhanced.map(c => ({
-      value: c.value,
-      count: c.count,
-      prevalence: +(c.count / semanticEnhanced.reduce((sum, item) => sum + item.count, 0) * 100).toFixed(2)
-    }));
-    
-    tokens.colors.values = semanticEnhanced.map(c => c.value);
-    
-    console.log(`🎯 Enhanced colors with semantic analysis:`);
-    console.log(`    Button colors: ${semanticAnalysis.summary.buttonColors.length}`);
-    console.log(`    Brand colors: ${semanticAnalysis.summary.brandColors.length}`);
-    console.log(`    Total semantic elements: ${semanticAnalysis.summary.totalElements}`);
-  } else if (imageAnalysis) {
-    // If only image analysis was performed, update tokens
-    tokens.colors.frequency = enhancedColors.map(c => ({
-      value: c.value,
-      count: c.count,
-      prevalence: +(c.count / enhancedColors.reduce((sum, item) => sum + item.count, 0) * 100).toFixed(2)
-    }));
-    
-    tokens.colors.values = enhancedColors.map(c => c.value);
-  }
+  const { tokens, meta, assets, structure, components, semantic } = await extractStylesFromUrl(baseUrl, httpClient, {
+    includeImages: options.includeImages,
+    maxImages: parseInt(options.maxImages || '10'),
+    semanticAnalysis: options.semanticAnalysis,
+    render: options.render,
+    conditions: options.conditions
+  });
 
   // Prepare output folder name: outputs/<hostname>-YYYY-MM-DD
   const urlObj = new URL(baseUrl);
@@ -527,59 +188,26 @@ async function extractStyles(html: string, baseUrl: string): Promise<void> {
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
-  // Add meta info
-  const now = new Date();
-  const meta = {
-    source: baseUrl,
-    extractedAt: now.toISOString(),
-    imageAnalysis: imageAnalysis ? {
-      totalImages: imageAnalysis.totalImages,
-      processedImages: imageAnalysis.images.length,
-      logoColors: imageAnalysis.logoColors,
-      heroColors: imageAnalysis.heroColors,
-      averageColorsPerImage: imageAnalysis.averageColorsPerImage,
-      imageTypes: imageAnalysis.images.reduce((acc: Record<string, number>, img) => {
-        acc[img.type] = (acc[img.type] || 0) + 1;
-        return acc;
-      }, {})
-    } : undefined,
-    semanticAnalysis: semanticAnalysis ? {
-      totalElements: semanticAnalysis.summary.totalElements,
-      buttonColors: semanticAnalysis.summary.buttonColors,
-      brandColors: semanticAnalysis.summary.brandColors,
-      colorsByContext: semanticAnalysis.summary.colorsByContext,
-      highestWeightColors: semanticAnalysis.summary.highestWeightColors,
-      tailwind: semanticAnalysis.tailwind
-    } : undefined,
-    totalTokens: {
-      customProperties: Object.keys(tokens.customProperties).length,
-      colors: tokens.colors.frequency.reduce((a, b) => a + b.count, 0),
-      fontSizes: tokens.fontSizes.frequency.reduce((a, b) => a + b.count, 0),
-      fontFamilies: tokens.fontFamilies.frequency.reduce((a, b) => a + b.count, 0),
-      fontWeights: tokens.fontWeights.frequency.reduce((a, b) => a + b.count, 0),
-      lineHeights: tokens.lineHeights.frequency.reduce((a, b) => a + b.count, 0),
-      letterSpacings: tokens.letterSpacings.frequency.reduce((a, b) => a + b.count, 0),
-      spacing: tokens.spacing.frequency.reduce((a, b) => a + b.count, 0),
-      radii: tokens.radii.frequency.reduce((a, b) => a + b.count, 0),
-      shadows: tokens.shadows.frequency.reduce((a, b) => a + b.count, 0),
-      gradients: tokens.gradients.frequency.reduce((a, b) => a + b.count, 0),
-      breakpoints: tokens.breakpoints.frequency.reduce((a, b) => a + b.count, 0),
-      zIndices: tokens.zIndices.frequency.reduce((a, b) => a + b.count, 0),
-      transitions: tokens.transitions.frequency.reduce((a, b) => a + b.count, 0),
-      opacity: tokens.opacity.frequency.reduce((a, b) => a + b.count, 0),
-      aspectRatios: tokens.aspectRatios.frequency.reduce((a, b) => a + b.count, 0),
-      borderWidths: tokens.borderWidths.frequency.reduce((a, b) => a + b.count, 0),
-      borderStyles: tokens.borderStyles.frequency.reduce((a, b) => a + b.count, 0)
-    }
-  };
-
   // Write to outputs/<hostname>-YYYY-MM-DD/theme-HH-MM-SS.json
   const now2 = new Date();
   const timeStr = now2.toISOString().slice(11, 19).replace(/:/g, '-'); // HH-MM-SS
 
+  // Image/SVG inventory from --include-images: outputs/<host>-<date>/theme-HH-MM-SS-assets/
+  if (assets) {
+    const assetsDir = path.join(outputDir, `theme-${timeStr}-assets`);
+    fs.mkdirSync(assetsDir, { recursive: true });
+    const assetsOutput = generateAssetsOutput(assets, baseUrl);
+    fs.writeFileSync(path.join(assetsDir, 'ASSETS.md'), assetsOutput.assetsMd, 'utf-8');
+    fs.writeFileSync(path.join(assetsDir, 'assets.json'), assetsOutput.assetsJson, 'utf-8');
+    console.log(`🖼️  Asset inventory written to ${assetsDir}/ (${assets.length} assets)`);
+  }
+
+  writeBrandAudit(tokens, baseUrl, semantic, outputDir, `theme-${timeStr}`);
+  writeAccessibilityReport(tokens, meta, baseUrl, semantic, outputDir, `theme-${timeStr}`);
+
   if (options.allFormats) {
     // Generate all formats
-    const formats: ('json' | 'style-dictionary' | 'shadcn' | 'tailwind' | 'theme-json')[] = ['json', 'style-dictionary', 'shadcn', 'tailwind', 'theme-json'];
+    const formats: ('json' | 'style-dictionary' | 'dtcg' | 'shadcn' | 'tailwind' | 'theme-json' | 'canonical' | 'figma-variables' | 'tokens-studio')[] = ['json', 'style-dictionary', 'dtcg', 'shadcn', 'tailwind', 'theme-json', 'canonical', 'figma-variables', 'tokens-studio'];
     console.log(`\n🎨 Generating all formats: ${formats.join(', ')}`);
     
     for (const format of formats) {
@@ -593,6 +221,9 @@ async function extractStyles(html: string, baseUrl: string): Promise<void> {
         case 'style-dictionary':
           ext = 'sd.json';
           break;
+        case 'dtcg':
+          ext = 'tokens.json';
+          break;
         case 'shadcn':
           ext = 'css';
           formatSuffix = '-shadcn';
@@ -605,6 +236,18 @@ async function extractStyles(html: string, baseUrl: string): Promise<void> {
           ext = 'json';
           formatSuffix = '-theme';
           break;
+        case 'canonical':
+          ext = 'json';
+          formatSuffix = '-canonical';
+          break;
+        case 'figma-variables':
+          ext = 'json';
+          formatSuffix = '-figma-variables';
+          break;
+        case 'tokens-studio':
+          ext = 'json';
+          formatSuffix = '-tokens-studio';
+          break;
         default:
           ext = 'json';
       }
@@ -619,17 +262,7 @@ async function extractStyles(html: string, baseUrl: string): Promise<void> {
         const analysisPath = outputPath.replace('.css', '.analysis.json');
         const analysisJsonString = JSON.stringify(output, null, 2);
         fs.writeFileSync(analysisPath, analysisJsonString, 'utf-8');
-        if (options.designMd) {
-          const specDir = analysisPath.replace('.analysis.json', '-spec');
-          fs.mkdirSync(specDir, { recursive: true });
-          const spec = generateSiteSpec({ meta: output.meta, tokens: output.tokens, bindings: output.bindings, theme: output.theme, cssPath: outputPath, analysisJsonString });
-          fs.writeFileSync(path.join(specDir, 'DESIGN.md'), spec.designMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'STRUCTURE.md'), spec.structureMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'COMPONENTS.md'), spec.componentsMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'IMPLEMENTATION.md'), spec.implementationMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'CAVEATS.md'), spec.caveatsMd, 'utf-8');
-          console.log(`📁 site-spec pack written to ${specDir}/ (5 files, shared canonical_hash)`);
-        }
+        writeSiteSpecPack(output, outputPath, analysisJsonString, structure, components);
         console.log(`  ✅ ${format}: ${outputPath}`);
         console.log(`  📊 ${format} analysis: ${analysisPath}`);
       } else {
@@ -649,6 +282,9 @@ async function extractStyles(html: string, baseUrl: string): Promise<void> {
       case 'style-dictionary':
         ext = 'sd.json';
         break;
+      case 'dtcg':
+        ext = 'tokens.json';
+        break;
       case 'shadcn':
         ext = 'css';
         formatSuffix = '-shadcn';
@@ -661,6 +297,18 @@ async function extractStyles(html: string, baseUrl: string): Promise<void> {
         ext = 'json';
         formatSuffix = '-theme';
         break;
+      case 'canonical':
+        ext = 'json';
+        formatSuffix = '-canonical';
+        break;
+      case 'figma-variables':
+        ext = 'json';
+        formatSuffix = '-figma-variables';
+        break;
+      case 'tokens-studio':
+        ext = 'json';
+        formatSuffix = '-tokens-studio';
+        break;
       default:
         ext = 'json';
     }
@@ -674,18 +322,8 @@ async function extractStyles(html: string, baseUrl: string): Promise<void> {
       // Also save the analysis data
       const analysisPath = outputPath.replace('.css', '.analysis.json');
       const analysisJsonString = JSON.stringify(output, null, 2);
-        fs.writeFileSync(analysisPath, analysisJsonString, 'utf-8');
-        if (options.designMd) {
-          const specDir = analysisPath.replace('.analysis.json', '-spec');
-          fs.mkdirSync(specDir, { recursive: true });
-          const spec = generateSiteSpec({ meta: output.meta, tokens: output.tokens, bindings: output.bindings, theme: output.theme, cssPath: outputPath, analysisJsonString });
-          fs.writeFileSync(path.join(specDir, 'DESIGN.md'), spec.designMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'STRUCTURE.md'), spec.structureMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'COMPONENTS.md'), spec.componentsMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'IMPLEMENTATION.md'), spec.implementationMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'CAVEATS.md'), spec.caveatsMd, 'utf-8');
-          console.log(`📁 site-spec pack written to ${specDir}/ (5 files, shared canonical_hash)`);
-        }
+      fs.writeFileSync(analysisPath, analysisJsonString, 'utf-8');
+      writeSiteSpecPack(output, outputPath, analysisJsonString, structure, components);
       console.log(`Shadcn CSS written to ${outputPath}`);
       console.log(`Analysis data written to ${analysisPath}`);
     } else {
@@ -714,27 +352,10 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
   const meta = {
     sources: multiResult.sources,
     extractedAt: new Date().toISOString(),
-    totalTokens: {
-      customProperties: Object.keys(multiResult.mergedTokens.customProperties).length,
-      colors: multiResult.mergedTokens.colors.frequency.reduce((a, b) => a + b.count, 0),
-      fontSizes: multiResult.mergedTokens.fontSizes.frequency.reduce((a, b) => a + b.count, 0),
-      fontFamilies: multiResult.mergedTokens.fontFamilies.frequency.reduce((a, b) => a + b.count, 0),
-      fontWeights: multiResult.mergedTokens.fontWeights.frequency.reduce((a, b) => a + b.count, 0),
-      lineHeights: multiResult.mergedTokens.lineHeights.frequency.reduce((a, b) => a + b.count, 0),
-      letterSpacings: multiResult.mergedTokens.letterSpacings.frequency.reduce((a, b) => a + b.count, 0),
-      spacing: multiResult.mergedTokens.spacing.frequency.reduce((a, b) => a + b.count, 0),
-      radii: multiResult.mergedTokens.radii.frequency.reduce((a, b) => a + b.count, 0),
-      shadows: multiResult.mergedTokens.shadows.frequency.reduce((a, b) => a + b.count, 0),
-      gradients: multiResult.mergedTokens.gradients.frequency.reduce((a, b) => a + b.count, 0),
-      breakpoints: multiResult.mergedTokens.breakpoints.frequency.reduce((a, b) => a + b.count, 0),
-      zIndices: multiResult.mergedTokens.zIndices.frequency.reduce((a, b) => a + b.count, 0),
-      transitions: multiResult.mergedTokens.transitions.frequency.reduce((a, b) => a + b.count, 0),
-      opacity: multiResult.mergedTokens.opacity.frequency.reduce((a, b) => a + b.count, 0),
-      aspectRatios: multiResult.mergedTokens.aspectRatios.frequency.reduce((a, b) => a + b.count, 0),
-      borderWidths: multiResult.mergedTokens.borderWidths.frequency.reduce((a, b) => a + b.count, 0),
-      borderStyles: multiResult.mergedTokens.borderStyles.frequency.reduce((a, b) => a + b.count, 0)
-    },
-    conflicts: multiResult.conflicts
+    totalTokens: calculateTotalTokens(multiResult.mergedTokens),
+    conflicts: multiResult.conflicts,
+    crawl: multiResult.crawl,
+    coverage: multiResult.coverage
   };
 
   // Write files
@@ -743,7 +364,7 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
 
   if (options.allFormats) {
     // Generate all formats for multi-source
-    const formats: ('json' | 'style-dictionary' | 'shadcn' | 'tailwind' | 'theme-json')[] = ['json', 'style-dictionary', 'shadcn', 'tailwind', 'theme-json'];
+    const formats: ('json' | 'style-dictionary' | 'dtcg' | 'shadcn' | 'tailwind' | 'theme-json' | 'canonical' | 'figma-variables' | 'tokens-studio')[] = ['json', 'style-dictionary', 'dtcg', 'shadcn', 'tailwind', 'theme-json', 'canonical', 'figma-variables', 'tokens-studio'];
     console.log(`\n🎨 Generating all multi-source formats: ${formats.join(', ')}`);
     
     for (const format of formats) {
@@ -757,6 +378,9 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
         case 'style-dictionary':
           ext = 'sd.json';
           break;
+        case 'dtcg':
+          ext = 'tokens.json';
+          break;
         case 'shadcn':
           ext = 'css';
           formatSuffix = '-shadcn';
@@ -769,6 +393,18 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
           ext = 'json';
           formatSuffix = '-theme';
           break;
+        case 'canonical':
+          ext = 'json';
+          formatSuffix = '-canonical';
+          break;
+        case 'figma-variables':
+          ext = 'json';
+          formatSuffix = '-figma-variables';
+          break;
+        case 'tokens-studio':
+          ext = 'json';
+          formatSuffix = '-tokens-studio';
+          break;
         default:
           ext = 'json';
       }
@@ -783,17 +419,7 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
         const analysisPath = outputPath.replace('.css', '.analysis.json');
         const analysisJsonString = JSON.stringify(output, null, 2);
         fs.writeFileSync(analysisPath, analysisJsonString, 'utf-8');
-        if (options.designMd) {
-          const specDir = analysisPath.replace('.analysis.json', '-spec');
-          fs.mkdirSync(specDir, { recursive: true });
-          const spec = generateSiteSpec({ meta: output.meta, tokens: output.tokens, bindings: output.bindings, theme: output.theme, cssPath: outputPath, analysisJsonString });
-          fs.writeFileSync(path.join(specDir, 'DESIGN.md'), spec.designMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'STRUCTURE.md'), spec.structureMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'COMPONENTS.md'), spec.componentsMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'IMPLEMENTATION.md'), spec.implementationMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'CAVEATS.md'), spec.caveatsMd, 'utf-8');
-          console.log(`📁 site-spec pack written to ${specDir}/ (5 files, shared canonical_hash)`);
-        }
+        writeSiteSpecPack(output, outputPath, analysisJsonString, multiResult.structure, multiResult.components);
         console.log(`  ✅ ${format}: ${outputPath}`);
         console.log(`  📊 ${format} analysis: ${analysisPath}`);
       } else {
@@ -813,6 +439,9 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
       case 'style-dictionary':
         ext = 'sd.json';
         break;
+      case 'dtcg':
+        ext = 'tokens.json';
+        break;
       case 'shadcn':
         ext = 'css';
         formatSuffix = '-shadcn';
@@ -825,6 +454,18 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
         ext = 'json';
         formatSuffix = '-theme';
         break;
+      case 'canonical':
+        ext = 'json';
+        formatSuffix = '-canonical';
+        break;
+      case 'figma-variables':
+        ext = 'json';
+        formatSuffix = '-figma-variables';
+        break;
+      case 'tokens-studio':
+        ext = 'json';
+        formatSuffix = '-tokens-studio';
+        break;
       default:
         ext = 'json';
     }
@@ -838,18 +479,8 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
       // Also save the analysis data
       const analysisPath = outputPath.replace('.css', '.analysis.json');
       const analysisJsonString = JSON.stringify(output, null, 2);
-        fs.writeFileSync(analysisPath, analysisJsonString, 'utf-8');
-        if (options.designMd) {
-          const specDir = analysisPath.replace('.analysis.json', '-spec');
-          fs.mkdirSync(specDir, { recursive: true });
-          const spec = generateSiteSpec({ meta: output.meta, tokens: output.tokens, bindings: output.bindings, theme: output.theme, cssPath: outputPath, analysisJsonString });
-          fs.writeFileSync(path.join(specDir, 'DESIGN.md'), spec.designMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'STRUCTURE.md'), spec.structureMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'COMPONENTS.md'), spec.componentsMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'IMPLEMENTATION.md'), spec.implementationMd, 'utf-8');
-          fs.writeFileSync(path.join(specDir, 'CAVEATS.md'), spec.caveatsMd, 'utf-8');
-          console.log(`📁 site-spec pack written to ${specDir}/ (5 files, shared canonical_hash)`);
-        }
+      fs.writeFileSync(analysisPath, analysisJsonString, 'utf-8');
+      writeSiteSpecPack(output, outputPath, analysisJsonString, multiResult.structure, multiResult.components);
       console.log(`✅ Multi-source Shadcn CSS written to ${outputPath}`);
       console.log(`📊 Analysis data written to ${analysisPath}`);
     } else {
@@ -858,6 +489,9 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
     }
   }
 
+  writeBrandAudit(multiResult.mergedTokens, primaryUrl, undefined, outputDir, `multi-source-${timeStr}`);
+  writeAccessibilityReport(multiResult.mergedTokens, meta, primaryUrl, undefined, outputDir, `multi-source-${timeStr}`);
+
   // Also save the raw multi-source data for debugging
   const debugPath = path.join(outputDir, `multi-source-debug-${timeStr}.json`);
   fs.writeFileSync(debugPath, JSON.stringify(multiResult, null, 2), 'utf-8');
@@ -870,6 +504,16 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
     console.log(`   • ${s.url} (${s.type}, weight: ${s.weight})`);
   });
   console.log(`   Conflicts detected: ${multiResult.conflicts.length}`);
+  if (multiResult.crawl && multiResult.coverage) {
+    console.log(`   Crawl: ${multiResult.crawl.pages.length} pages, ${multiResult.crawl.skipped.length} skipped`);
+    multiResult.coverage.forEach(page => {
+      console.log(`   • ${page.url}: ${page.newTokens} new tokens, ${page.sharedStylesheets}/${page.stylesheets} stylesheets shared`);
+    });
+  }
+}
+
+function parseGlobs(value?: string): string[] | undefined {
+  return value ? value.split(',').map(glob => glob.trim()).filter(Boolean) : undefined;
 }
 
 (async () => {
@@ -881,10 +525,26 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
       urls.push(...additionalUrls);
     }
     
-    if (urls.length === 1) {
+    if (options.crawl) {
+      // Crawl the site and analyze every discovered page as a source
+      if (options.urls) console.warn('⚠️  --urls is ignored with --crawl; pages are discovered from --url');
+      console.log(`\n🕷️  Crawling ${options.url} (max ${options.maxPages} pages, depth ${options.maxDepth})...`);
+
+      const multiAnalyzer = new MultiSourceAnalyzer(httpClient);
+      const multiResult = await multiAnalyzer.analyzeSite(options.url, {
+        maxPages: parseInt(options.maxPages || '20'),
+        maxDepth: parseInt(options.maxDepth || '2'),
+        include: parseGlobs(options.include),
+        exclude: parseGlobs(options.exclude),
+        sitemap: options.sitemap,
+        robots: !options.ignoreRobots,
+        delayMs: parseInt(options.crawlDelay || '0')
+      }, undefined, { render: options.render, conditions: options.conditions });
+
+      await saveMultiSourceResults(multiResult, options);
+    } else if (urls.length === 1) {
       // Single source analysis (original behavior)
-      const html = await httpClient.fetchHtml(options.url);
-      await extractStyles(html, options.url);
+      await extractStyles(options.url);
     } else {
       // Multi-source analysis
       console.log(`\n🔍 Multi-source analysis starting...`);
@@ -892,7 +552,7 @@ async function saveMultiSourceResults(multiResult: MultiSourceTokens, options: a
       urls.forEach((url, i) => console.log(`  ${i + 1}. ${url}`));
       
       const multiAnalyzer = new MultiSourceAnalyzer(httpClient);
-      const multiResult = await multiAnalyzer.analyzeMultipleSources(urls, extractTokensFromCss);
+      const multiResult = await multiAnalyzer.analyzeMultipleSources(urls, undefined, { render: options.render, conditions: options.conditions });
       
       await saveMultiSourceResults(multiResult, options);
     }
@@ -4,10 +4,24 @@ import type {
   SourceMetadata, 
   TokenConflict, 
   FrequencyItem, 
-  ColorAnalysis 
+  ColorAnalysis,
+  CollectedCss,
+  ComponentInventory,
+  CrawlOptions,
+  ExtractionOptions,
+  FontInventory,
+  PageStructure,
+  PageTokenCoverage,
+  TypeScale
 } from './types';
 import { HttpClient } from './http-client';
 import { analyzeColors } from './color-analysis';
+import { crawlSite } from './crawler';
+import { extractFontInventory, mergeFontInventories } from './font-inventory';
+import { inferSpacingScale } from './spacing-scale';
+import { mergeTypeScales } from './type-scale';
+import { applyConditionMode } from './token-conditions';
+import { collectCss, createStylesheetDedup, extractPageLayout, loadPageStyles, extractTokensFromCss as extractTokensFromCssDefault } from './extractor';
 
 // Determine source type based on URL patterns
 function detectSourceType(url: string): SourceMetadata['type'] {
@@ -180,6 +194,45 @@ function isPotentialBrandColor(analysis: ColorAnalysis): boolean {
   );
 }
 
+// Token counts for one crawled page, plus how many values no earlier page contributed
+function pageCoverage(url: string, collected: CollectedCss, tokens: ExtractedTokens, seenTokens: Set<string>): PageTokenCoverage {
+  const groups: Record<Exclude<keyof PageTokenCoverage['tokens'], 'customProperties'>, string[]> = {
+    colors: tokens.colors.values,
+    fontSizes: tokens.fontSizes.values,
+    fontFamilies: tokens.fontFamilies.values,
+    spacing: tokens.spacing.values,
+    radii: tokens.radii.values,
+    shadows: tokens.shadows.values
+  };
+  const customProperties = Object.keys(tokens.customProperties);
+
+  let newTokens = 0;
+  const claim = (key: string) => {
+    if (seenTokens.has(key)) return;
+    seenTokens.add(key);
+    newTokens++;
+  };
+  (Object.keys(groups) as Array<keyof typeof groups>).forEach(group => groups[group].forEach(value => claim(`${group}:${value}`)));
+  customProperties.forEach(name => claim(`customProperties:${name}`));
+
+  return {
+    url,
+    stylesheets: collected.stylesheets ? collected.stylesheets.total : 0,
+    sharedStylesheets: collected.stylesheets ? collected.stylesheets.shared : 0,
+    cssLength: collected.css.length,
+    tokens: {
+      colors: groups.colors.length,
+      fontSizes: groups.fontSizes.length,
+      fontFamilies: groups.fontFamilies.length,
+      spacing: groups.spacing.length,
+      radii: groups.radii.length,
+      shadows: groups.shadows.length,
+      customProperties: customProperties.length
+    },
+    newTokens
+  };
+}
+
 export class MultiSourceAnalyzer {
   private httpClient: HttpClient;
   
@@ -189,10 +242,12 @@ export class MultiSourceAnalyzer {
   
   async analyzeMultipleSources(
     urls: string[],
-    extractTokensFromCss: (css: string) => ExtractedTokens
+    extractTokensFromCss: (css: string) => ExtractedTokens = extractTokensFromCssDefault,
+    options: ExtractionOptions = {}
   ): Promise<MultiSourceTokens> {
     const sources: SourceMetadata[] = [];
     const sourceTokens: Record<string, ExtractedTokens> = {};
+    let layout: { structure?: PageStructure; components?: ComponentInventory } = {};
     
     console.log(`\nAnalyzing ${urls.length} sources...`);
     
@@ -200,29 +255,10 @@ export class MultiSourceAnalyzer {
     for (const url of urls) {
       try {
         console.log(`\nFetching: ${url}`);
-        const html = await this.httpClient.fetchHtml(url);
-        const allCss = await this.extractAllCss(html, url);
-        
-        console.log(`CSS length: ${allCss.length}`);
-        
-        const tokens = extractTokensFromCss(allCss);
-        const sourceType = detectSourceType(url);
-        const weight = getSourceWeight(sourceType, allCss.length);
-        
-        const metadata: SourceMetadata = {
-          url,
-          type: sourceType,
-          weight,
-          extractedAt: new Date().toISOString(),
-          cssLength: allCss.length
-        };
-        
-        sources.push(metadata);
-        sourceTokens[url] = tokens;
-        
-        console.log(`Source type: ${sourceType}, Weight: ${weight}`);
-        console.log(`Tokens found - Colors: ${tokens.colors.values.length}, Spacing: ${tokens.spacing.values.length}`);
-        
+        const collected = await loadPageStyles(url, this.httpClient, options);
+        // STRUCTURE.md / COMPONENTS.md describe the primary page
+        if (sources.length === 0) layout = extractPageLayout(collected);
+        this.addSource(url, collected, extractTokensFromCss, sources, sourceTokens, options);
       } catch (error) {
         console.warn(`Failed to analyze ${url}:`, error);
       }
@@ -236,31 +272,95 @@ export class MultiSourceAnalyzer {
       sources,
       mergedTokens,
       sourceTokens,
-      conflicts
+      conflicts,
+      ...layout
     };
   }
   
-  private async extractAllCss(html: string, baseUrl: string): Promise<string> {
-    const { JSDOM } = await import('jsdom');
-    const dom = new JSDOM(html);
-    const document = dom.window.document;
+  // Discover pages by crawling from `startUrl` and analyze each one as a source. Stylesheets
+  // shared between pages are counted once, on the first page that links them.
+  async analyzeSite(
+    startUrl: string,
+    crawlOptions: CrawlOptions = {},
+    extractTokensFromCss: (css: string) => ExtractedTokens = extractTokensFromCssDefault,
+    options: ExtractionOptions = {}
+  ): Promise<MultiSourceTokens> {
+    const { pages, report } = await crawlSite(startUrl, this.httpClient, crawlOptions);
+    const sources: SourceMetadata[] = [];
+    const sourceTokens: Record<string, ExtractedTokens> = {};
+    const coverage: PageTokenCoverage[] = [];
+    const dedup = createStylesheetDedup();
+    const seenTokens = new Set<string>();
+    let layout: { structure?: PageStructure; components?: ComponentInventory } = {};
 
-    // Get all external stylesheet URLs
-    const linkHrefs = Array.from(document.querySelectorAll('link[rel="stylesheet"]'))
-      .map(link => (link as HTMLLinkElement).href)
-      .map(href => href.startsWith('http') ? href : new URL(href, baseUrl).href);
+    console.log(`\nAnalyzing ${pages.length} crawled pages...`);
 
-    // Get all inline <style> tag contents
-    const styleContents = Array.from(document.querySelectorAll('style'))
-      .map(style => (style as HTMLStyleElement).textContent || '');
+    for (const page of pages) {
+      try {
+        console.log(`\nAnalyzing: ${page.url}`);
+        // The headless browser sees runtime-injected styles, so rendered pages are not de-duplicated
+        const collected = options.render
+          ? await loadPageStyles(page.url, this.httpClient, options)
+          : await collectCss(page.html, page.url, this.httpClient, dedup, options.maxStylesheets);
+        // STRUCTURE.md / COMPONENTS.md describe the start page, which also holds every shared stylesheet
+        if (sources.length === 0) layout = extractPageLayout(collected);
+        const tokens = this.addSource(page.url, collected, extractTokensFromCss, sources, sourceTokens, options);
+        coverage.push(pageCoverage(page.url, collected, tokens, seenTokens));
+      } catch (error) {
+        console.warn(`Failed to analyze ${page.url}:`, error);
+      }
+    }
 
-    // Fetch all external CSS
-    const externalCssArr = await Promise.all(linkHrefs.map(url => this.httpClient.fetchCss(url)));
+    const mergedTokens = this.mergeTokensFromSources(sourceTokens, sources);
+    const conflicts = this.detectConflicts(sourceTokens, sources);
 
-    // Combine all CSS
-    return [...externalCssArr, ...styleContents].join('\n');
+    return {
+      sources,
+      mergedTokens,
+      sourceTokens,
+      conflicts,
+      crawl: report,
+      coverage,
+      ...layout
+    };
   }
-  
+
+  private addSource(
+    url: string,
+    collected: CollectedCss,
+    extractTokensFromCss: (css: string) => ExtractedTokens,
+    sources: SourceMetadata[],
+    sourceTokens: Record<string, ExtractedTokens>,
+    options: ExtractionOptions
+  ): ExtractedTokens {
+    const { css: allCss, imports } = collected;
+    console.log(`CSS length: ${allCss.length}`);
+
+    const tokens = extractTokensFromCss(allCss);
+    if (options.conditions) applyConditionMode(tokens, options.conditions);
+    try {
+      tokens.fonts = extractFontInventory(collected.html, allCss, url, tokens.customProperties, imports);
+    } catch (error) {
+      console.warn('Font inventory failed:', error);
+    }
+    const sourceType = detectSourceType(url);
+    const weight = getSourceWeight(sourceType, allCss.length);
+
+    sources.push({
+      url,
+      type: sourceType,
+      weight,
+      extractedAt: new Date().toISOString(),
+      cssLength: allCss.length,
+      cssImports: imports.length > 0 ? imports : undefined
+    });
+    sourceTokens[url] = tokens;
+
+    console.log(`Source type: ${sourceType}, Weight: ${weight}`);
+    console.log(`Tokens found - Colors: ${tokens.colors.values.length}, Spacing: ${tokens.spacing.values.length}`);
+    return tokens;
+  }
+
   private mergeTokensFromSources(
     sourceTokens: Record<string, ExtractedTokens>,
     sources: SourceMetadata[]
@@ -283,7 +383,9 @@ export class MultiSourceAnalyzer {
       opacity: { values: [], frequency: [] },
       aspectRatios: { values: [], frequency: [] },
       borderWidths: { values: [], frequency: [] },
-      borderStyles: { values: [], frequency: [] }
+      borderStyles: { values: [], frequency: [] },
+      typography: { values: [], frequency: [] },
+      borders: { values: [], frequency: [] }
     };
     
     // Merge each token type
@@ -309,9 +411,36 @@ export class MultiSourceAnalyzer {
         (merged[tokenType] as any).values = mergedFreq.map(f => f.value);
       }
     }
+
+    this.mergeUsage(sourceTokens, merged);
+    const fontInventories = Object.values(sourceTokens).map(tokens => tokens.fonts).filter((fonts): fonts is FontInventory => !!fonts);
+    if (fontInventories.length > 0) merged.fonts = mergeFontInventories(fontInventories);
+    const typeScales = Object.values(sourceTokens).map(tokens => tokens.typeScale).filter((scale): scale is TypeScale => !!scale);
+    if (typeScales.length > 0) merged.typeScale = mergeTypeScales(typeScales);
+    const spacingScale = Object.values(sourceTokens).map(tokens => tokens.spacingScale).filter(Boolean)[0];
+    merged.spacingScale = inferSpacingScale(merged.spacing.frequency, spacingScale ? spacingScale.rootPx : 16);
     
     return merged;
   }
+
+  // Pages usually share stylesheets, so summing selector counts would double count them;
+  // keep the widest single-source count and the union of component families
+  private mergeUsage(sourceTokens: Record<string, ExtractedTokens>, merged: ExtractedTokens) {
+    const usage: Record<string, { contexts: number; surfaces: Set<string> }> = {};
+
+    for (const tokens of Object.values(sourceTokens)) {
+      for (const [key, entry] of Object.entries(tokens.usage || {})) {
+        const existing = usage[key] || (usage[key] = { contexts: 0, surfaces: new Set<string>() });
+        existing.contexts = Math.max(existing.contexts, entry.contexts);
+        entry.surfaces.forEach(surface => existing.surfaces.add(surface));
+      }
+    }
+
+    merged.usage = {};
+    Object.keys(usage).sort().forEach(key => {
+      merged.usage![key] = { contexts: usage[key].contexts, surfaces: Array.from(usage[key].surfaces).sort() };
+    });
+  }
   
   private mergeCustomProperties(
     sourceTokens: Record<string, ExtractedTokens>,
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { HttpClient } from './http-client';
+import { renderPage } from './renderer';
+import { SecurityValidator } from './security';
+import type { CssImport } from './types';
+
+const { createFixtureServer } = require('../examples/fixture-server');
+
+// playwright is optional and browsers are installed separately (`npx playwright install chromium`);
+// without them only the failure paths can run
+function loadPlaywright(): typeof import('playwright') | null {
+  try {
+    return require('playwright');
+  } catch (error) {
+    return null;
+  }
+}
+
+const playwright = loadPlaywright();
+const hasBrowser = !!playwright && fs.existsSync(playwright.chromium.executablePath());
+
+describe('renderPage', () => {
+  let server: Server;
+  let baseUrl: string;
+  const httpClient = new HttpClient({}, new SecurityValidator({ blockedHosts: [] }));
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    server = createFixtureServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('applies the host policy before launching a browser', async () => {
+    const imports: CssImport[] = [];
+    await expect(renderPage(baseUrl, new HttpClient(), imports)).rejects.toMatchObject({ code: 'BLOCKED_HOST' });
+  });
+
+  (hasBrowser ? it : it.skip)('captures runtime-injected and adopted stylesheets', async () => {
+    const imports: CssImport[] = [];
+    const rendered = await renderPage(baseUrl, httpClient, imports);
+
+    expect(rendered.css).toContain('#0f766e'); // Linked
+    expect(rendered.css).toMatch(/#7c3aed|rgb\(124, 58, 237\)/); // Injected after load
+    expect(rendered.css).toContain('--brand-accent'); // Adopted
+    expect(rendered.adoptedStylesheetCount).toBe(1);
+    expect(rendered.computedStyles.length).toBeGreaterThan(0);
+  }, 60000);
+
+  (playwright && !hasBrowser ? it : it.skip)('reports a missing browser as a render failure', async () => {
+    const imports: CssImport[] = [];
+    await expect(renderPage(baseUrl, httpClient, imports)).rejects.toMatchObject({ code: 'RENDER_FAILED' });
+  }, 60000);
+
+  (playwright ? it.skip : it)('reports a missing playwright install as unavailable', async () => {
+    const imports: CssImport[] = [];
+    await expect(renderPage(baseUrl, httpClient, imports)).rejects.toMatchObject({ code: 'RENDERER_UNAVAILABLE' });
+  });
+});
@@ -0,0 +1,185 @@
+import { HttpClient } from './http-client';
+import { resolveCssImports } from './css-imports';
+import { SEMANTIC_SELECTORS, COLOR_PROPERTIES } from './semantic-color-analyzer';
+import type { ComputedElementStyle, CssImport, RenderedPage, ValidationError } from './types';
+
+// Default render configuration
+const DEFAULT_RENDER_TIMEOUT = 30000;
+const MAX_ELEMENTS_PER_SELECTOR = 25;
+
+export interface RenderOptions {
+  timeout?: number;
+}
+
+function createError(code: string, message: string): ValidationError {
+  const error = new Error(message) as ValidationError;
+  error.code = code;
+  return error;
+}
+
+// playwright is an optional dependency - only load it when rendering is requested
+async function loadPlaywright(): Promise<typeof import('playwright')> {
+  try {
+    return await import('playwright');
+  } catch (error) {
+    throw createError(
+      'RENDERER_UNAVAILABLE',
+      'Render mode requires playwright: run "pnpm add playwright && npx playwright install chromium"'
+    );
+  }
+}
+
+// Load `url` in headless Chromium, wait for network idle and collect the styles the
+// page actually ended up with: document.styleSheets (including CSS-in-JS <style> tags
+// injected at runtime), adopted/constructable stylesheets, and computed styles for
+// the elements matched by SEMANTIC_SELECTORS.
+export async function renderPage(
+  url: string,
+  httpClient: HttpClient,
+  imports: CssImport[],
+  options: RenderOptions = {}
+): Promise<RenderedPage> {
+  const security = httpClient.getSecurityValidator();
+  const validatedUrl = security.validateUrl(url);
+  const { chromium } = await loadPlaywright();
+
+  await security.checkConcurrentRequests();
+  security.acquireRequest();
+
+  let browser: import('playwright').Browser | undefined;
+  try {
+    browser = await chromium.launch({ headless: true });
+    const page = await browser.newPage();
+
+    // Sub-resources go through the same host policy as HttpClient
+    await page.route('**/*', route => {
+      try {
+        security.validateUrl(route.request().url());
+        return route.continue();
+      } catch (error) {
+        return route.abort('blockedbyclient');
+      }
+    });
+
+    await page.goto(validatedUrl.toString(), {
+      waitUntil: 'networkidle',
+      timeout: options.timeout || DEFAULT_RENDER_TIMEOUT
+    });
+
+    const collected = await page.evaluate(({ selectors, properties, maxElements }) => {
+      const serializeRules = (rules: CSSRuleList): string => Array.from(rules).map(rule => {
+        // Inline imported sheets when the CSSOM lets us read them
+        const imported = (rule as CSSImportRule).styleSheet;
+        if (imported) {
+          try {
+            return serializeRules(imported.cssRules);
+          } catch (error) {
+            return rule.cssText;
+          }
+        }
+        return rule.cssText;
+      }).join('\n');
+
+      const sheets: Array<{ href: string | null; css: string | null }> = [];
+      Array.from(document.styleSheets).forEach(sheet => {
+        try {
+          sheets.push({ href: sheet.href, css: serializeRules(sheet.cssRules) });
+        } catch (error) {
+          // Cross-origin sheets without CORS headers cannot be read from the CSSOM
+          sheets.push({ href: sheet.href, css: null });
+        }
+      });
+
+      // Constructable stylesheets on the document and on any open shadow roots
+      const adopted: string[] = [];
+      const collectAdopted = (root: Document | ShadowRoot) => {
+        const adoptedSheets: CSSStyleSheet[] = (root as any).adoptedStyleSheets || [];
+        adoptedSheets.forEach(sheet => adopted.push(serializeRules(sheet.cssRules)));
+      };
+      collectAdopted(document);
+      Array.from(document.querySelectorAll('*')).forEach(element => {
+        if (element.shadowRoot) {
+          collectAdopted(element.shadowRoot);
+          element.shadowRoot.querySelectorAll('style').forEach(style => adopted.push(style.textContent || ''));
+        }
+      });
+
+      const computed: Array<{ selector: string; context: string; weight: number; element: string; styles: Record<string, string>; backgrounds: string[]; fontSize: number; fontWeight: number; hasText: boolean }> = [];
+      selectors.forEach(({ selector, context, weight }) => {
+        let elements: Element[] = [];
+        try {
+          elements = Array.from(document.querySelectorAll(selector)).slice(0, maxElements);
+        } catch (error) {
+          return;
+        }
+        elements.forEach(element => {
+          const style = window.getComputedStyle(element);
+          const styles: Record<string, string> = {};
+          properties.forEach(property => {
+            const value = style.getPropertyValue(property);
+            if (value) styles[property] = value;
+          });
+          // What the text actually sits on: painted backgrounds of the element and its ancestors
+          const backgrounds: string[] = [];
+          for (let current: Element | null = element; current; current = current.parentElement) {
+            const background = window.getComputedStyle(current).backgroundColor;
+            if (background && background !== 'transparent' && background !== 'rgba(0, 0, 0, 0)') backgrounds.push(background);
+          }
+          computed.push({
+            selector,
+            context,
+            weight,
+            element: element.tagName.toLowerCase(),
+            styles,
+            backgrounds,
+            fontSize: parseFloat(style.fontSize) || 16,
+            fontWeight: parseInt(style.fontWeight, 10) || 400,
+            hasText: !!(element.textContent || '').trim()
+          });
+        });
+      });
+
+      return {
+        html: document.documentElement.outerHTML,
+        sheets,
+        adopted,
+        computed
+      };
+    }, {
+      selectors: SEMANTIC_SELECTORS,
+      // The shorthand only echoes its longhands in computed style
+      properties: COLOR_PROPERTIES.filter(property => property !== 'background'),
+      maxElements: MAX_ELEMENTS_PER_SELECTOR
+    });
+
+    // Fall back to fetching sheets the CSSOM would not expose
+    const sheetCss: string[] = [];
+    for (const sheet of collected.sheets) {
+      if (sheet.css !== null) {
+        sheetCss.push(sheet.css);
+      } else if (sheet.href) {
+        const css = await httpClient.fetchCss(sheet.href);
+        sheetCss.push(await resolveCssImports(css, sheet.href, httpClient, imports));
+      }
+    }
+
+    console.log(`🧭 Rendered ${url}: ${collected.sheets.length} stylesheets, ${collected.adopted.length} adopted stylesheets, ${collected.computed.length} computed elements`);
+
+    return {
+      html: `<!DOCTYPE html>\n${collected.html}`,
+      css: [...sheetCss, ...collected.adopted].join('\n'),
+      computedStyles: collected.computed as ComputedElementStyle[],
+      stylesheetCount: collected.sheets.length,
+      adoptedStylesheetCount: collected.adopted.length
+    };
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw createError('RENDER_FAILED', `Failed to render ${url}: ${message}`);
+  } finally {
+    if (browser) await browser.close();
+    security.releaseRequest();
+  }
+}
@@ -0,0 +1,92 @@
+import { generateCanonical } from './canonical-formatter';
+import { extractTokensFromCss } from './extractor';
+import { resolveCanonicalDocument, resolveRoleBindings } from './role-resolver';
+import type { CanonicalRoleCandidate, CanonicalToken } from './types';
+
+function token(id: string, valueResolved: string, roleCandidates: CanonicalRoleCandidate[], refCount = 1): CanonicalToken {
+  return {
+    id,
+    valueResolved,
+    valueSymbolic: null,
+    class: 'discrete',
+    provenance: [{ basis: 'named-variable', evidence: `${id}: ${valueResolved}`, weight: 1 }],
+    saliency_inputs: { refCount, aliasDepth: 0, contextBreadth: 1, surfaceDiversity: 1 },
+    roleCandidates
+  };
+}
+
+function candidate(role: string, confidence: number, validity: number): CanonicalRoleCandidate {
+  return { role: `shadcn/v1#${role}`, confidence, validity, basis: 'test' };
+}
+
+describe('resolveRoleBindings', () => {
+  it('binds background, foreground and primary from canonical.json candidates', () => {
+    const document = generateCanonical(extractTokensFromCss(`
+      :root { --background: #ffffff; --foreground: #0f172a; --primary: #2563eb; --border: #e2e8f0; }
+      body { background: var(--background); color: var(--foreground); }
+      .button { background: var(--primary); color: #ffffff; border: 1px solid var(--border); }
+      .card { background: #f8fafc; border-color: var(--border); }
+    `), { source: 'https://example.com/' });
+
+    const { bindings } = resolveCanonicalDocument(document);
+
+    expect(bindings['bg.default']).toMatchObject({ hex: '#ffffff', token: '--background' });
+    expect(bindings['text.primary']).toMatchObject({ hex: '#0f172a', token: '--foreground' });
+    expect(bindings['accent.primary']).toMatchObject({ hex: '#2563eb', token: '--primary' });
+  });
+
+  it('picks the highest confidence x validity and grades the binding', () => {
+    const { bindings, report } = resolveRoleBindings([
+      token('--brand', '#2563eb', [candidate('accent.primary', 0.9, 0.95)]),
+      token('literal:abc', '#7c3aed', [candidate('accent.primary', 0.95, 0.7)]),
+      token('--bg', '#ffffff', [candidate('bg.default', 0.6, 0.9)]),
+      token('--fg', '#0f172a', [candidate('text.primary', 0.3, 0.9)])
+    ]);
+
+    expect(bindings['accent.primary']).toMatchObject({ hex: '#2563eb', status: 'auto', evidence: ['named-variable: --brand: #2563eb'] });
+    expect(bindings['bg.default']!.status).toBe('suggested');
+    expect(bindings['text.primary']!.status).toBe('uncertain');
+    expect(report).toMatchObject({ autoBound: 1, suggested: 1, uncertain: 1 });
+  });
+
+  it('breaks ties towards named variables, then references, then id', () => {
+    const { bindings } = resolveRoleBindings([
+      token('literal:aaa', '#111111', [candidate('text.primary', 0.8, 1)], 50),
+      token('--fg-b', '#222222', [candidate('text.primary', 0.8, 1)], 2),
+      token('--fg-a', '#333333', [candidate('text.primary', 0.8, 1)], 2),
+      token('--fg-c', '#444444', [candidate('text.primary', 0.8, 1)], 9)
+    ]);
+    expect(bindings['text.primary']!.token).toBe('--fg-c');
+
+    const { bindings: tied } = resolveRoleBindings([
+      token('--fg-b', '#222222', [candidate('text.primary', 0.8, 1)]),
+      token('--fg-a', '#333333', [candidate('text.primary', 0.8, 1)])
+    ]);
+    expect(tied['text.primary']!.token).toBe('--fg-a');
+  });
+
+  it('falls back to the next valid candidate and reports the withheld one', () => {
+    const { bindings, report } = resolveRoleBindings([
+      token('--overlay', 'rgba(0, 0, 0, 0.5)', [candidate('bg.default', 0.95, 0.2)]),
+      token('--surface', '#fafafa', [candidate('bg.default', 0.6, 0.8)])
+    ]);
+
+    expect(bindings['bg.default']).toMatchObject({ token: '--surface', hex: '#fafafa' });
+    expect(report.withheld).toEqual([{
+      role: 'bg.default',
+      hex: 'rgba(0, 0, 0, 0.5)',
+      reason: 'overlay/translucent — invalid as canonical for this role (validity 0.20, confidence 0.95)'
+    }]);
+  });
+
+  it('leaves a role unmapped when no candidate qualifies', () => {
+    const { bindings, report } = resolveRoleBindings([
+      token('--pale', '#fefefe', [candidate('accent.primary', 0.9, 0.3)]),
+      token('--other', '#2563eb', [{ role: 'other/v1#accent.primary', confidence: 1, validity: 1, basis: 'test' }])
+    ]);
+
+    expect(bindings['accent.primary']).toBeNull();
+    expect(report.unmappedRoles).toContain('accent.primary');
+    expect(report.withheld).toEqual([expect.objectContaining({ role: 'accent.primary', reason: expect.stringMatching(/^lightness\/saturation implausible/) })]);
+  });
+});
@@ -0,0 +1,98 @@
+// Default role resolution policy: canonical.json role candidates -> one binding per role.
+// canonical.json deliberately ships candidates only; this is the convenience projection
+// (semantic.json in canonical.md) that DESIGN.md and other bindings consumers read.
+
+import { ROLE_DICTIONARY, SHADCN_V1_ROLES, colorAlpha } from './canonical-formatter';
+import type { CanonicalDocument, CanonicalToken, RoleBinding, RoleBindings } from './types';
+
+// Candidates below this validity are never bound, however strong the evidence
+const MIN_VALIDITY = 0.6;
+const AUTO_CONFIDENCE = 0.75;
+const AUTO_VALIDITY = 0.9;
+const SUGGESTED_CONFIDENCE = 0.5;
+
+interface RankedCandidate {
+  token: CanonicalToken;
+  confidence: number;
+  validity: number;
+  basis: string;
+}
+
+function bindingStatus(confidence: number, validity: number): RoleBinding['status'] {
+  if (confidence >= AUTO_CONFIDENCE && validity >= AUTO_VALIDITY) return 'auto';
+  if (confidence >= SUGGESTED_CONFIDENCE) return 'suggested';
+  return 'uncertain';
+}
+
+function withheldReason(candidate: RankedCandidate): string {
+  const why = colorAlpha(candidate.token.valueResolved) < 1
+    ? 'overlay/translucent — invalid as canonical for this role'
+    : 'lightness/saturation implausible for this role';
+  return `${why} (validity ${candidate.validity.toFixed(2)}, confidence ${candidate.confidence.toFixed(2)})`;
+}
+
+// Highest confidence x validity wins; ties go to the named variable, then the more referenced
+// token, then the token id so the result never depends on token order
+function compareCandidates(a: RankedCandidate, b: RankedCandidate): number {
+  const scoreDiff = b.confidence * b.validity - a.confidence * a.validity;
+  if (scoreDiff !== 0) return scoreDiff;
+  const aNamed = a.token.id.startsWith('--') ? 1 : 0;
+  const bNamed = b.token.id.startsWith('--') ? 1 : 0;
+  if (aNamed !== bNamed) return bNamed - aNamed;
+  const refDiff = b.token.saliency_inputs.refCount - a.token.saliency_inputs.refCount;
+  if (refDiff !== 0) return refDiff;
+  return a.token.id < b.token.id ? -1 : a.token.id > b.token.id ? 1 : 0;
+}
+
+export function resolveRoleBindings(tokens: CanonicalToken[], dictionary: string = ROLE_DICTIONARY): RoleBindings {
+  const candidatesByRole: Record<string, RankedCandidate[]> = {};
+  SHADCN_V1_ROLES.forEach(role => { candidatesByRole[role] = []; });
+
+  tokens.forEach(token => token.roleCandidates.forEach(candidate => {
+    const [candidateDictionary, role] = candidate.role.split('#');
+    if (candidateDictionary !== dictionary || !candidatesByRole[role]) return;
+    candidatesByRole[role].push({ token, confidence: candidate.confidence, validity: candidate.validity, basis: candidate.basis });
+  }));
+
+  const bindings: Record<string, RoleBinding | null> = {};
+  const report: RoleBindings['report'] = { autoBound: 0, suggested: 0, uncertain: 0, unmappedRoles: [], withheld: [] };
+
+  SHADCN_V1_ROLES.forEach(role => {
+    const candidates = candidatesByRole[role];
+
+    // The best-evidenced candidate is reported when validity rules it out, even if another one binds
+    const strongest = candidates.slice().sort((a, b) => b.confidence - a.confidence || compareCandidates(a, b))[0];
+    if (strongest && strongest.validity < MIN_VALIDITY) {
+      report.withheld.push({ role, hex: strongest.token.valueResolved, reason: withheldReason(strongest) });
+    }
+
+    const winner = candidates.filter(c => c.validity >= MIN_VALIDITY).sort(compareCandidates)[0];
+    if (!winner) {
+      bindings[role] = null;
+      report.unmappedRoles.push(role);
+      return;
+    }
+
+    const status = bindingStatus(winner.confidence, winner.validity);
+    if (status === 'auto') report.autoBound++;
+    else if (status === 'suggested') report.suggested++;
+    else report.uncertain++;
+
+    bindings[role] = {
+      hex: winner.token.valueResolved,
+      token: winner.token.id,
+      confidence: winner.confidence,
+      validity: winner.validity,
+      status,
+      reason: winner.basis,
+      evidence: winner.token.provenance.map(p => `${p.basis}: ${p.evidence}`)
+    };
+  });
+
+  return { dictionary, bindings, report };
+}
+
+// Resolve straight from a canonical.json document
+export function resolveCanonicalDocument(document: CanonicalDocument): RoleBindings {
+  return resolveRoleBindings(document.tokens, document.roleDictionary);
+}
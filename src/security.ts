@@ -78,6 +78,10 @@ export class SecurityValidator {
     }
   }
 
+  getMaxConcurrentRequests(): number {
+    return this.config.maxConcurrentRequests;
+  }
+
   acquireRequest(): void {
     this.activeRequests++;
   }
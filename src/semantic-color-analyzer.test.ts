@@ -0,0 +1,37 @@
+import { analyzeSemanticColors } from './semantic-color-analyzer';
+
+describe('analyzeSemanticColors', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const css = `
+    .btn { background-color: #2563eb; color: #ffffff; }
+    .btn:hover { background-color: #1e40af; }
+    .dark .btn { background-color: #f97316; }
+  `;
+
+  it('takes button colors from the cascade, not from hover or dark-scoped rules', () => {
+    const analysis = analyzeSemanticColors('<body><a class="btn">Sign up</a></body>', css);
+
+    expect(analysis.summary.buttonColors).toContain('#2563eb');
+    expect(analysis.summary.buttonColors).not.toContain('#1e40af');
+    expect(analysis.summary.buttonColors).not.toContain('#f97316');
+    expect(analysis.colors.filter(color => color.element === 'css-pattern')).toEqual([]);
+  });
+
+  it('falls back to CSS patterns only when no element matches, skipping state variants', () => {
+    const analysis = analyzeSemanticColors('<body><p>Rendered by the client</p></body>', css);
+    const fromPatterns = analysis.colors.filter(color => color.context === 'button');
+
+    expect(fromPatterns.length).toBeGreaterThan(0);
+    fromPatterns.forEach(color => expect(color.element).toBe('css-pattern'));
+    expect(analysis.summary.buttonColors).toContain('#2563eb');
+    expect(analysis.summary.buttonColors).not.toContain('#1e40af');
+    expect(analysis.summary.buttonColors).not.toContain('#f97316');
+  });
+});
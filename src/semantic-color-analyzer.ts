@@ -1,4 +1,7 @@
 import { JSDOM } from 'jsdom';
+import { CascadeResolver, CASCADE_COLOR_PROPERTIES } from './cascade-resolver';
+import { findColors, parseColor } from './css-color';
+import type { ComputedElementStyle, SemanticContrastPair } from './types';
 
 export interface SemanticColorData {
   color: string;
@@ -30,10 +33,11 @@ export interface SemanticColorAnalysis {
     colorClasses: string[];
     colors: Array<{ color: string; property: string; className: string; frequency: number }>;
   };
+  contrastPairs?: SemanticContrastPair[];
 }
 
 // Element selectors and their semantic context with weights
-const SEMANTIC_SELECTORS = [
+export const SEMANTIC_SELECTORS = [
   // Buttons (highest priority)
   { selector: 'button, [role="button"], input[type="submit"], input[type="button"]', context: 'button', weight: 100 },
   { selector: '.btn, .button, .cta-button, [class*="btn-"], [class*="button-"]', context: 'button', weight: 95 },
@@ -92,11 +96,8 @@ const SEMANTIC_SELECTORS = [
   { selector: 'h1, .title, .page-title, [class*="title"]', context: 'header', weight: 50 }
 ] as const;
 
-// Color extraction regex
-const COLOR_REGEX = /(#[0-9a-fA-F]{3,8}|rgba?\([^)]*\)|hsla?\([^)]*\))/g;
-
 // CSS properties that can contain colors
-const COLOR_PROPERTIES = [
+export const COLOR_PROPERTIES = [
   'color',
   'background-color', 
   'background',
@@ -134,201 +135,83 @@ function getDocumentPosition(element: Element, allElements: Element[]): number {
 }
 
 /**
- * Extract colors from inline styles with positional data
+ * Extract the cascaded (computed) colors for an element with positional data
  */
-function extractInlineColors(element: Element, firstSeenColors: Map<string, number>, allElements: Element[]): Array<{ color: string; property: string; domDepth: number; documentPosition: number; firstSeenIndex: number }> {
+function extractCascadedColors(element: Element, resolver: CascadeResolver, firstSeenColors: Map<string, number>, allElements: Element[]): Array<{ color: string; property: string; domDepth: number; documentPosition: number; firstSeenIndex: number }> {
   const colors: Array<{ color: string; property: string; domDepth: number; documentPosition: number; firstSeenIndex: number }> = [];
-  const style = (element as HTMLElement).style;
+  const { colors: cascaded } = resolver.resolve(element);
   const domDepth = getDomDepth(element);
   const documentPosition = getDocumentPosition(element, allElements);
   
-  for (const prop of COLOR_PROPERTIES) {
-    const value = style.getPropertyValue(prop);
-    if (value) {
-      const matches = value.match(COLOR_REGEX);
-      if (matches) {
-        matches.forEach(color => {
-          // Track first-seen order
-          if (!firstSeenColors.has(color)) {
-            firstSeenColors.set(color, firstSeenColors.size);
-          }
-          const firstSeenIndex = firstSeenColors.get(color) || 0;
-          
-          colors.push({ 
-            color, 
-            property: prop, 
-            domDepth, 
-            documentPosition, 
-            firstSeenIndex 
-          });
-        });
-      }
+  for (const prop of CASCADE_COLOR_PROPERTIES) {
+    const value = cascaded[prop];
+    if (!value) continue;
+
+    const matches = findColors(value, { keywords: true });
+    if (matches.length === 0 || isTransparentComputedColor(matches[0])) continue;
+
+    // Border/outline colors default to currentColor and would just echo `color`
+    if (prop !== 'color' && prop !== 'background-color' && value === cascaded.color) continue;
+
+    const color = matches[0];
+    // Track first-seen order
+    if (!firstSeenColors.has(color)) {
+      firstSeenColors.set(color, firstSeenColors.size);
     }
+    const firstSeenIndex = firstSeenColors.get(color) || 0;
+    
+    colors.push({ 
+      color, 
+      property: prop, 
+      domDepth, 
+      documentPosition, 
+      firstSeenIndex 
+    });
   }
   
   return colors;
 }
 
 /**
- * Extract computed colors from CSS using a more sophisticated approach
- * This analyzes the DOM elements and tries to find CSS rules that might apply
+ * Text color of an element and the painted backgrounds behind it, innermost first
  */
-function extractComputedColorsFromElements(css: string, elements: NodeListOf<Element>, context: string): Array<{ color: string; property: string; element: Element }> {
-  const colors: Array<{ color: string; property: string; element: Element }> = [];
-  
-  // Extract all CSS class names and IDs from the elements
-  const classNames = new Set<string>();
-  const ids = new Set<string>();
-  const tagNames = new Set<string>();
-  
-  elements.forEach(element => {
-    // Collect class names
-    if (element.className && typeof element.className === 'string') {
-      element.className.split(/\s+/).forEach(cls => {
-        if (cls.trim()) classNames.add(cls.trim());
-      });
-    }
-    
-    // Collect IDs
-    if (element.id) {
-      ids.add(element.id);
-    }
-    
-    // Collect tag names
-    tagNames.add(element.tagName.toLowerCase());
-  });
-  
-  // Analyze CSS for rules that might apply to these elements
-  const cssLines = css.split('\n');
-  let currentRule: { selector: string; declarations: Array<{ prop: string; value: string }> } | null = null;
-  
-  for (let i = 0; i < cssLines.length; i++) {
-    const line = cssLines[i].trim();
-    
-    // Skip empty lines and comments
-    if (!line || line.startsWith('/*') || line.startsWith('//')) continue;
-    
-    // Check if this line starts a new CSS rule
-    if (line.includes('{') && !line.includes('}')) {
-      const selectorPart = line.substring(0, line.indexOf('{')).trim();
-      currentRule = { selector: selectorPart, declarations: [] };
-      continue;
-    }
-    
-    // Check if we're in a rule and this line has declarations
-    if (currentRule && line.includes(':') && !line.startsWith('@')) {
-      const colonIndex = line.indexOf(':');
-      const prop = line.substring(0, colonIndex).trim();
-      const value = line.substring(colonIndex + 1).replace(/[;}]/g, '').trim();
-      
-      if (COLOR_PROPERTIES.includes(prop)) {
-        currentRule.declarations.push({ prop, value });
-      }
-    }
-    
-    // Check if rule ends
-    if (line.includes('}') && currentRule) {
-      // Check if this rule might apply to our elements
-      const selector = currentRule.selector.toLowerCase();
-      let ruleMatches = false;
-      
-      // Check for tag name matches
-      for (const tag of Array.from(tagNames)) {
-        if (selector.includes(tag)) {
-          ruleMatches = true;
-          break;
-        }
-      }
-      
-      // Check for class name matches
-      if (!ruleMatches) {
-        for (const className of Array.from(classNames)) {
-          if (selector.includes(`.${className}`) || selector.includes(`[class*="${className}"]`)) {
-            ruleMatches = true;
-            break;
-          }
-        }
-      }
-      
-      // Check for ID matches
-      if (!ruleMatches) {
-        for (const id of Array.from(ids)) {
-          if (selector.includes(`#${id}`)) {
-            ruleMatches = true;
-            break;
-          }
-        }
-      }
-      
-      // Check for attribute selectors that might match button types
-      if (!ruleMatches && context === 'button') {
-        if (selector.includes('[type="submit"]') || 
-            selector.includes('[type="button"]') || 
-            selector.includes('[role="button"]')) {
-          ruleMatches = true;
-        }
-      }
-      
-      // If rule matches, extract colors
-      if (ruleMatches) {
-        currentRule.declarations.forEach(({ prop, value }) => {
-          const matches = value.match(COLOR_REGEX);
-          if (matches) {
-            matches.forEach(color => {
-              // Try to associate with specific element if possible
-              const targetElement = Array.from(elements)[0]; // Use first element as representative
-              colors.push({ color, property: prop, element: targetElement });
-            });
-          }
-        });
-      }
-      
-      currentRule = null;
-    }
+function extractCascadedContrast(element: Element, resolver: CascadeResolver): { foreground: string; backgrounds: string[] } | null {
+  const color = resolver.resolve(element).colors.color;
+  // The initial `canvastext` is black on the default white canvas
+  const foreground = !color || color === 'canvastext' ? '#000000' : findColors(color, { keywords: true })[0];
+  if (!foreground) return null;
+
+  const backgrounds: string[] = [];
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const background = findColors(resolver.resolve(current).colors['background-color'] || '', { keywords: true });
+    if (background.length > 0 && !isTransparentComputedColor(background[0])) backgrounds.push(background[0]);
   }
-  
-  return colors;
+  return { foreground, backgrounds };
 }
 
 /**
- * Extract colors from computed styles (if available in browser context)
- * This is a fallback method for when CSS parsing doesn't work well
+ * Record a text/background pair, merging repeats of the same combination
  */
-function extractComputedStyleColors(element: Element): Array<{ color: string; property: string }> {
-  const colors: Array<{ color: string; property: string }> = [];
-  
-  // In a real browser environment, we could use getComputedStyle
-  // For now, we'll check common style attributes that might be present
-  const htmlElement = element as HTMLElement;
-  
-  // Check for style attributes that might contain colors
-  const bgColor = htmlElement.style.backgroundColor;
-  const textColor = htmlElement.style.color;
-  const borderColor = htmlElement.style.borderColor;
-  
-  if (bgColor) {
-    const matches = bgColor.match(COLOR_REGEX);
-    if (matches) matches.forEach(color => colors.push({ color, property: 'background-color' }));
+function addContrastPair(pairs: SemanticContrastPair[], pair: Omit<SemanticContrastPair, 'count'>): void {
+  const existing = pairs.find(p =>
+    p.context === pair.context && p.selector === pair.selector && p.foreground === pair.foreground &&
+    p.largeText === pair.largeText && p.backgrounds.join('|') === pair.backgrounds.join('|')
+  );
+  if (existing) {
+    existing.count += 1;
+  } else {
+    pairs.push({ ...pair, count: 1 });
   }
-  
-  if (textColor) {
-    const matches = textColor.match(COLOR_REGEX);
-    if (matches) matches.forEach(color => colors.push({ color, property: 'color' }));
-  }
-  
-  if (borderColor) {
-    const matches = borderColor.match(COLOR_REGEX);
-    if (matches) matches.forEach(color => colors.push({ color, property: 'border-color' }));
-  }
-  
-  return colors;
 }
 
+// State and color-scheme variants say nothing about an element's resting color
+const VARIANT_SELECTOR_REGEX = /:(?:hover|focus|focus-within|focus-visible|active|visited|disabled)\b|\.dark\b|\[data-(?:theme|mode)/i;
+
 /**
  * Extract colors from CSS based on context-specific patterns
- * This is especially important for Angular/React apps where DOM elements might not be present
+ * Fallback for Angular/React apps where the static HTML has no elements for a context
  */
-function extractContextSpecificColors(elements: NodeListOf<Element>, context: string, css: string): Array<{ color: string; property: string; frequency: number }> {
+function extractContextSpecificColors(context: string, css: string): Array<{ color: string; property: string; frequency: number }> {
   const colors: Array<{ color: string; property: string; frequency: number }> = [];
   
   // Context-specific CSS patterns to match even when DOM elements aren't found
@@ -375,11 +258,14 @@ function extractContextSpecificColors(elements: NodeListOf<Element>, context: st
   contextPatterns.forEach(pattern => {
     let match;
     while ((match = pattern.exec(css)) !== null) {
+      // The pattern can start mid-selector (`.dark .btn`), so check the whole selector
+      const selectorStart = Math.max(css.lastIndexOf('}', match.index), css.lastIndexOf(';', match.index)) + 1;
+      if (VARIANT_SELECTOR_REGEX.test(css.slice(selectorStart, match.index + match[0].indexOf('{')))) continue;
       const colorValue = match[1].trim();
       
       // Extract colors from the matched value
-      const colorMatches = colorValue.match(COLOR_REGEX);
-      if (colorMatches) {
+      const colorMatches = findColors(colorValue, { keywords: true });
+      if (colorMatches.length > 0) {
         colorMatches.forEach(color => {
           const normalizedColor = color.toLowerCase().trim();
           if (normalizedColor && normalizedColor !== 'transparent' && normalizedColor !== 'inherit') {
@@ -400,8 +286,8 @@ function extractContextSpecificColors(elements: NodeListOf<Element>, context: st
     let match;
     while ((match = customPropertyPattern.exec(css)) !== null) {
       const colorValue = match[1].trim();
-      const colorMatches = colorValue.match(COLOR_REGEX);
-      if (colorMatches) {
+      const colorMatches = findColors(colorValue);
+      if (colorMatches.length > 0) {
         colorMatches.forEach(color => {
           colors.push({
             color: color.toLowerCase().trim(),
@@ -419,16 +305,18 @@ function extractContextSpecificColors(elements: NodeListOf<Element>, context: st
 /**
  * Main semantic color analysis function
  */
-export function analyzeSemanticColors(html: string, css: string): SemanticColorAnalysis {
+export function analyzeSemanticColors(html: string, css: string, computedStyles: ComputedElementStyle[] = []): SemanticColorAnalysis {
   const dom = new JSDOM(html);
   const document = dom.window.document;
   
   const semanticColors: SemanticColorData[] = [];
   const colorCounts = new Map<string, number>();
+  const contrastPairs: SemanticContrastPair[] = [];
   
   // NEW: Track first-seen order and get all elements for positional calculations
   const firstSeenColors = new Map<string, number>();
   const allElements = Array.from(document.querySelectorAll('*'));
+  const resolver = new CascadeResolver(css);
   
   console.log('🎨 Starting semantic color analysis...');
   
@@ -458,20 +346,72 @@ export function analyzeSemanticColors(html: string, css: string): SemanticColorA
     });
   }
   
+  // Computed styles from a rendered page are the ground truth for what users see
+  if (computedStyles.length > 0) {
+    console.log(`🧭 Using computed styles for ${computedStyles.length} rendered elements`);
+    computedStyles.forEach(({ selector, context, weight, element, styles, backgrounds, fontSize, fontWeight, hasText }) => {
+      if (hasText && backgrounds && styles['color']) {
+        // WCAG large text: 24px, or 18.66px (14pt) bold
+        const size = fontSize || 16;
+        const largeText = size >= 24 || (size >= 18.66 && (fontWeight || 400) >= 700);
+        addContrastPair(contrastPairs, { context, selector, element, foreground: styles['color'], backgrounds, largeText });
+      }
+
+      Object.entries(styles).forEach(([property, value]) => {
+        const matches = findColors(value, { keywords: true });
+        if (matches.length === 0 || isTransparentComputedColor(matches[0])) return;
+        const color = matches[0];
+
+        // Border/outline colors default to currentColor and would just echo `color`
+        if (property !== 'color' && !property.startsWith('background') && color === styles['color']) {
+          return;
+        }
+
+        const existing = semanticColors.find(sc =>
+          sc.color === color && sc.context === context && sc.property === property
+        );
+        if (existing) {
+          existing.frequency += 1;
+        } else {
+          semanticColors.push({
+            color,
+            element,
+            context,
+            weight,
+            selector,
+            property,
+            frequency: 1
+          });
+        }
+
+        colorCounts.set(color, (colorCounts.get(color) || 0) + 1);
+      });
+    });
+  }
+
   // Analyze each semantic selector
+  const contextsWithElements = new Set<string>();
   for (const { selector, context, weight } of SEMANTIC_SELECTORS) {
     try {
       const elements = document.querySelectorAll(selector);
       console.log(`  Analyzing ${elements.length} elements for: ${context} (${selector})`);
+      if (elements.length > 0) contextsWithElements.add(context);
       
       elements.forEach((element) => {
-        // Extract inline colors
-        const inlineColors = extractInlineColors(element, firstSeenColors, allElements);
+        // Colors the cascade actually applies to this element
+        const cascadedColors = extractCascadedColors(element, resolver, firstSeenColors, allElements);
         
-        inlineColors.forEach(({ color, property, domDepth, documentPosition, firstSeenIndex }) => {
+        // Rendered pages already supplied measured pairs; statically, only h1/h2 are large by default
+        if (computedStyles.length === 0 && (element.textContent || '').trim()) {
+          const contrast = extractCascadedContrast(element, resolver);
+          const tag = element.tagName.toLowerCase();
+          if (contrast) addContrastPair(contrastPairs, { context, selector, element: tag, ...contrast, largeText: tag === 'h1' || tag === 'h2' });
+        }
+
+        cascadedColors.forEach(({ color, property, domDepth, documentPosition, firstSeenIndex }) => {
           const key = `${color}-${context}-${property}`;
           const existing = semanticColors.find(sc => 
-            sc.color === color && sc.context === context && sc.property === property
+            sc.element !== 'css-pattern' && sc.color === color && sc.context === context && sc.property === property
           );
           
           if (existing) {
@@ -494,82 +434,38 @@ export function analyzeSemanticColors(html: string, css: string): SemanticColorA
           colorCounts.set(color, (colorCounts.get(color) || 0) + 1);
         });
         
-        // Also try computed style extraction for each element
-        const computedColors = extractComputedStyleColors(element);
-        computedColors.forEach(({ color, property }) => {
-          const existing = semanticColors.find(sc => 
-            sc.color === color && sc.context === context && sc.property === property
-          );
-          
-          if (existing) {
-            existing.frequency += 1;
-          } else {
-            semanticColors.push({
-              color,
-              element: element.tagName.toLowerCase(),
-              context,
-              weight,
-              selector,
-              property,
-              frequency: 1
-            });
-          }
-          
-          colorCounts.set(color, (colorCounts.get(color) || 0) + 1);
-        });
-      });
-      
-      // Also analyze CSS rules that might apply to these elements
-      const cssColors = extractComputedColorsFromElements(css, elements, context);
-      cssColors.forEach(({ color, property, element }) => {
-        const existing = semanticColors.find(sc => 
-          sc.color === color && sc.context === context && sc.property === property && sc.element === element.tagName.toLowerCase()
-        );
-        
-        if (existing) {
-          existing.frequency += 1;
-        } else {
-          semanticColors.push({
-            color,
-            element: element.tagName.toLowerCase(),
-            context,
-            weight,
-            selector,
-            property,
-            frequency: 1
-          });
-        }
-        
-        colorCounts.set(color, (colorCounts.get(color) || 0) + 1);
-      });
-      
-      // Try context-specific extraction patterns
-      const contextColors = extractContextSpecificColors(elements, context, css);
-      contextColors.forEach(({ color, property, frequency }) => {
-        const existing = semanticColors.find(sc => 
-          sc.color === color && sc.context === context && sc.property === property
-        );
-        
-        if (existing) {
-          existing.frequency += frequency;
-        } else {
-          semanticColors.push({
-            color,
-            element: 'css-pattern',
-            context,
-            weight,
-            selector,
-            property,
-            frequency
-          });
-        }
-        
-        colorCounts.set(color, (colorCounts.get(color) || 0) + frequency);
       });
     } catch (error) {
       console.warn(`Error analyzing selector "${selector}":`, error);
     }
   }
+
+  // Only guess from raw CSS patterns for contexts the cascade had no elements to resolve
+  SEMANTIC_SELECTORS.forEach(({ selector, context, weight }, index) => {
+    if (contextsWithElements.has(context) || SEMANTIC_SELECTORS.findIndex(s => s.context === context) !== index) return;
+
+    extractContextSpecificColors(context, css).forEach(({ color, property, frequency }) => {
+      const existing = semanticColors.find(sc =>
+        sc.element === 'css-pattern' && sc.color === color && sc.context === context && sc.property === property
+      );
+
+      if (existing) {
+        existing.frequency += frequency;
+      } else {
+        semanticColors.push({
+          color,
+          element: 'css-pattern',
+          context,
+          weight,
+          selector,
+          property,
+          frequency
+        });
+      }
+
+      colorCounts.set(color, (colorCounts.get(color) || 0) + frequency);
+    });
+  });
   
   // Sort by weight and frequency
   semanticColors.sort((a, b) => {
@@ -624,10 +520,19 @@ export function analyzeSemanticColors(html: string, css: string): SemanticColorA
       totalClasses: tailwindAnalysis.totalTailwindClasses,
       colorClasses: tailwindAnalysis.colorClasses,
       colors: tailwindAnalysis.tailwindColors
-    } : undefined
+    } : undefined,
+    contrastPairs
   };
 }
 
+/**
+ * Check for fully transparent colors, such as the value browsers report for unset backgrounds
+ */
+function isTransparentComputedColor(color: string): boolean {
+  const parsed = parseColor(color);
+  return !parsed || parsed.alpha === 0;
+}
+
 /**
  * Merge semantic colors with existing color frequency data
  */
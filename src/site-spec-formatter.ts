@@ -3,8 +3,12 @@
 // extractor cannot produce. Shared provenance frontmatter anchors the pack.
 
 import crypto from 'crypto';
+import { parseColor } from './css-color';
+import type { ComponentFamily, ComponentInventory, LandmarkNode, PageStructure } from './types';
 
 const GENERATOR_VERSION = 'site-spec-formatter/0.1';
+const COMPOSITION_SCHEMA_VERSION = 'composition/0.1';
+const COMPONENTS_SCHEMA_VERSION = 'components/0.1';
 
 interface SiteSpecInput {
   meta: any;
@@ -13,6 +17,8 @@ interface SiteSpecInput {
   theme?: any;
   cssPath?: string;
   analysisJsonString?: string;
+  structure?: PageStructure;
+  components?: ComponentInventory;
 }
 
 export interface SiteSpec {
@@ -21,6 +27,8 @@ export interface SiteSpec {
   componentsMd: string;
   implementationMd: string;
   caveatsMd: string;
+  compositionJson: string; // Machine-readable counterpart of STRUCTURE.md
+  componentsJson: string; // Machine-readable counterpart of COMPONENTS.md
 }
 
 interface ProvenanceAnchor {
@@ -56,14 +64,8 @@ function confidenceLabel(n: number): string {
 }
 
 function isOverlayish(hex: string): boolean {
-  if (!hex) return false;
-  const rgba = /rgba?\(\s*[\d.]+\s*,\s*[\d.]+\s*,\s*[\d.]+\s*,\s*([0-9.]+)\s*\)/i.exec(hex);
-  if (rgba) return parseFloat(rgba[1]) < 0.3;
-  const hex8 = /^#[0-9a-f]{6}([0-9a-f]{2})$/i.exec(hex);
-  if (hex8) return parseInt(hex8[1], 16) / 255 < 0.3;
-  const hex4 = /^#[0-9a-f]{3}([0-9a-f])$/i.exec(hex);
-  if (hex4) return parseInt(hex4[1], 16) / 15 < 0.3;
-  return false;
+  const parsed = hex ? parseColor(hex) : null;
+  return !!parsed && parsed.alpha < 0.3;
 }
 
 function classifyStatus(score: number, threshold: number): 'full' | 'partial' | 'refused' {
@@ -123,12 +125,11 @@ function computeScores(input: SiteSpecInput): Scores {
     + 0.15 * spacingHealth
     + 0.20 * roleFraction;
 
-  // Structure: we have none of these inputs today.
-  const structure = 0;
+  const structure = computeStructureScore(input.structure);
 
   // Components: semantic button analysis is a weak positive but insufficient alone.
   const buttonAnalysisPresent = Array.isArray(meta?.semanticAnalysis?.buttonColors) && meta.semanticAnalysis.buttonColors.length > 0;
-  const components = 0.3 * (buttonAnalysisPresent ? 1 : 0);
+  const components = computeComponentsScore(input.components) + 0.1 * (buttonAnalysisPresent ? 1 : 0);
 
   const adapterPresent = !!cssPath;
   const implementation = 0.5 * (adapterPresent ? 1 : 0) + 0.3 * roleFraction + 0.2 * paletteHealth;
@@ -138,6 +139,43 @@ function computeScores(input: SiteSpecInput): Scores {
   return { design, structure, components, implementation, caveats };
 }
 
+// Landmarks and breakpoints carry most of the weight. Static extraction tops out at 0.8;
+// the rest needs the rendered DOM (--render).
+function computeStructureScore(structure?: PageStructure): number {
+  if (!structure) return 0;
+  const coreLandmarks = ['banner', 'navigation', 'main', 'contentinfo'];
+  const landmarkHealth = coreLandmarks.filter(role => structure.landmarkCounts[role]).length / coreLandmarks.length;
+  const breakpointHealth = Math.min(structure.breakpoints.filter(bp => bp.layoutDeclarations > 0).length / 3, 1);
+  const layeringHealth = structure.zLayers.length > 0 ? 1 : 0;
+  const display = structure.layout.display;
+  const layoutHealth = display.flex || display['inline-flex'] || display.grid || display['inline-grid'] ? 1 : 0;
+  const renderedHealth = structure.source === 'rendered-dom' ? 1 : 0;
+
+  return 0.35 * landmarkHealth
+    + 0.25 * breakpointHealth
+    + 0.10 * layeringHealth
+    + 0.10 * layoutHealth
+    + 0.20 * renderedHealth;
+}
+
+// Families with geometry, DOM pairing and state coverage; naming-only attribution scores lower
+function computeComponentsScore(components?: ComponentInventory): number {
+  if (!components) return 0;
+  const measured = components.families.filter(f => Object.keys(f.geometry).length > 0);
+  if (!measured.length) return 0;
+  const coverageHealth = Math.min(measured.length / 3, 1);
+  const domPaired = measured.reduce((sum, f) => sum + f.rules.domPaired, 0);
+  const totalRules = measured.reduce((sum, f) => sum + f.rules.domPaired + f.rules.patternOnly, 0);
+  const pairingHealth = totalRules ? domPaired / totalRules : 0;
+  const stateHealth = measured.filter(f => f.states.length > 0).length / measured.length;
+  const variantHealth = measured.some(f => f.variants.length > 0) ? 1 : 0;
+
+  return 0.35 * coverageHealth
+    + 0.25 * pairingHealth
+    + 0.20 * stateHealth
+    + 0.10 * variantHealth;
+}
+
 // -------- DESIGN.md --------
 
 function renderRolesSection(bindings: any): { markdown: string; withheld: Array<{ role: string; hex: string; reason: string }> } {
@@ -145,12 +183,14 @@ function renderRolesSection(bindings: any): { markdown: string; withheld: Array<
     return { markdown: '## Color Roles\n\n_No role bindings available._\n', withheld: [] };
   }
   const bound = bindings.bindings as Record<string, any>;
-  const withheld: Array<{ role: string; hex: string; reason: string }> = [];
+  // The resolver already refused these; they go to CAVEATS.md alongside the overlays caught below
+  const withheld: Array<{ role: string; hex: string; reason: string }> = (bindings.report?.withheld ?? []).slice();
   const rows: string[] = ['## Color Roles (observed)', ''];
   rows.push('| Role | Hex | Confidence | Basis |');
   rows.push('|---|---|---|---|');
   for (const role of ROLE_ORDER) {
     const b = bound[role];
+    if (!b && withheld.some(w => w.role === role)) { rows.push(`| \`${role}\` | _withheld (see CAVEATS.md)_ | — | — |`); continue; }
     if (!b) { rows.push(`| \`${role}\` | — | — | unmapped |`); continue; }
     if (isOverlayish(b.hex)) {
       withheld.push({ role, hex: b.hex, reason: 'overlay/translucent — invalid as canonical for this role' });
@@ -220,7 +260,7 @@ function buildDesignMd(input: SiteSpecInput, anchor: ProvenanceAnchor, score: nu
   const body = [
     `# DESIGN.md — ${input.meta?.source ?? 'site'}`,
     '',
-    '> **Scope:** style and token system only. This file does not describe page structure, component geometry, or visual hierarchy. See STRUCTURE.md (refusal stub) and COMPONENTS.md (refusal stub) for what this extraction cannot provide.',
+    '> **Scope:** style and token system only. This file does not describe page structure, component geometry, or visual hierarchy. See STRUCTURE.md and COMPONENTS.md for layout and component geometry.',
     '',
     rolesMd,
     renderColorPalette(input.tokens),
@@ -231,12 +271,50 @@ function buildDesignMd(input: SiteSpecInput, anchor: ProvenanceAnchor, score: nu
   return fm + body + '\n';
 }
 
-// -------- STRUCTURE.md (refusal stub) --------
+// -------- STRUCTURE.md --------
+
+function renderLandmarks(nodes: LandmarkNode[], depth: number = 0): string[] {
+  const rows: string[] = [];
+  for (const node of nodes) {
+    const label = node.label ? ` "${node.label.replace(/[\r\n]+/g, ' ')}"` : '';
+    rows.push(`${'  '.repeat(depth)}- \`${node.role}\`${label} — \`${node.selector}\``);
+    rows.push(...renderLandmarks(node.children, depth + 1));
+  }
+  return rows;
+}
+
+function topEntries(counts: Record<string, number>, limit: number): string {
+  return Object.keys(counts)
+    .sort((a, b) => counts[b] - counts[a] || (a < b ? -1 : 1))
+    .slice(0, limit)
+    .map(key => `\`${key}\` ×${counts[key]}`)
+    .join(' · ');
+}
+
+function structureGaps(structure: PageStructure): string[] {
+  const gaps = [
+    '- **State behavior** (expanded/collapsed, loading, post-interaction) — no JavaScript state inspection.',
+    '- **Route-level composition** — one URL sampled; flows across pages are unknown.'
+  ];
+  if (structure.source === 'static-html') {
+    gaps.push(
+      '- **Rendered reflow** — breakpoints list which rules change, not how the DOM actually reflows at each width. Re-run with `--render` for landmarks from the rendered DOM.',
+      '- **JavaScript-injected landmarks** — only landmarks present in the served HTML are listed.'
+    );
+  } else {
+    gaps.push('- **Multi-width capture** — the DOM was rendered at a single viewport width.');
+  }
+  return gaps;
+}
 
 function buildStructureMd(input: SiteSpecInput, anchor: ProvenanceAnchor, score: number): string {
   const threshold = 0.5;
   const status = classifyStatus(score, threshold);
   const fm = renderFrontmatter({ file: 'STRUCTURE.md', fileRole: 'layout and composition', anchor, status, score, threshold });
+  const structure = input.structure;
+  if (status !== 'refused' && structure) {
+    return fm + buildStructureBody(structure) + '\n';
+  }
   const body = [
     '# STRUCTURE.md — refusal stub',
     '',
@@ -276,12 +354,157 @@ function buildStructureMd(input: SiteSpecInput, anchor: ProvenanceAnchor, score:
   return fm + body;
 }
 
-// -------- COMPONENTS.md (refusal stub) --------
+function buildStructureBody(structure: PageStructure): string {
+  const rows: string[] = [
+    '# STRUCTURE.md — layout and composition',
+    '',
+    `> **Evidence:** ${structure.source === 'rendered-dom' ? 'rendered DOM' : 'served HTML (no JavaScript)'} plus the combined stylesheet. Machine-readable counterpart: \`composition.json\`.`,
+    '',
+    '## Landmarks',
+    ''
+  ];
+  if (structure.landmarks.length) rows.push(...renderLandmarks(structure.landmarks));
+  else rows.push('_No ARIA landmarks (implicit or explicit) found in the document._');
+
+  rows.push('', '## Breakpoints (width media queries)', '');
+  if (structure.breakpoints.length) {
+    rows.push('| Query | Min | Max | Rules | Layout declarations | Top layout properties |', '|---|---|---|---|---|---|');
+    for (const bp of structure.breakpoints) {
+      const query = bp.query.replace(/\|/g, '\\|');
+      rows.push(`| \`${query}\` | ${bp.minWidth !== undefined ? `${bp.minWidth}px` : '—'} | ${bp.maxWidth !== undefined ? `${bp.maxWidth}px` : '—'} | ${bp.ruleCount} | ${bp.layoutDeclarations} | ${topEntries(bp.layoutProperties, 4) || '—'} |`);
+    }
+  } else {
+    rows.push('_No width media queries found — the stylesheet is not responsive by breakpoint (fluid or fixed layout)._');
+  }
+
+  rows.push('', '## Layout primitives', '');
+  rows.push(`- **display values:** ${topEntries(structure.layout.display, 8) || 'none declared'}`);
+  rows.push(`- **Layout declarations outside breakpoints:** ${structure.layout.baseLayoutDeclarations}`);
+
+  rows.push('', '## Z-order layers', '');
+  if (structure.zLayers.length) {
+    rows.push('| z-index | Selectors |', '|---|---|');
+    for (const layer of structure.zLayers) {
+      const selectors = layer.selectors.map(sel => `\`${sel.replace(/\|/g, '\\|')}\``).join(', ') || '—';
+      rows.push(`| ${layer.zIndex} | ${selectors} |`);
+    }
+  } else {
+    rows.push('_No z-index declarations — layering follows document order._');
+  }
+
+  rows.push('', '## Off-screen and overlay structure', '');
+  rows.push(`- **position: fixed:** ${structure.overlays.fixed.map(sel => `\`${sel}\``).join(', ') || 'none'}`);
+  rows.push(`- **position: sticky:** ${structure.overlays.sticky.map(sel => `\`${sel}\``).join(', ') || 'none'}`);
+  rows.push(`- **Dialogs in the DOM:** ${structure.overlays.dialogs}`);
+
+  rows.push('', '## What this file still cannot describe', '', ...structureGaps(structure));
+  return rows.join('\n');
+}
+
+// -------- composition.json --------
+
+function buildCompositionJson(input: SiteSpecInput, anchor: ProvenanceAnchor, score: number): string {
+  const structure = input.structure;
+  const composition = {
+    schemaVersion: COMPOSITION_SCHEMA_VERSION,
+    canonicalHash: anchor.canonicalHash,
+    generatorVersion: anchor.generatorVersion,
+    sampledUrls: anchor.sampledUrls,
+    status: structure ? classifyStatus(score, 0.5) : 'refused',
+    score: Number(score.toFixed(2)),
+    source: structure ? structure.source : null,
+    landmarks: structure ? structure.landmarks : [],
+    landmarkCounts: structure ? structure.landmarkCounts : {},
+    breakpoints: structure ? structure.breakpoints : [],
+    layout: structure ? structure.layout : null,
+    zLayers: structure ? structure.zLayers : [],
+    overlays: structure ? structure.overlays : null
+  };
+  return JSON.stringify(composition, null, 2);
+}
+
+// -------- COMPONENTS.md --------
+
+function renderGeometry(geometry: Record<string, string>): string {
+  return Object.keys(geometry).map(prop => `\`${prop}: ${geometry[prop]}\``).join(' · ') || '—';
+}
+
+function renderComponentFamily(family: ComponentFamily): string[] {
+  const attributed = family.rules.domPaired + family.rules.patternOnly;
+  const rows: string[] = [
+    `## ${family.family}`,
+    '',
+    `- **DOM instances:** ${family.instances}`,
+    `- **Rules attributed:** ${attributed} (${family.rules.domPaired} paired to DOM nodes, ${family.rules.patternOnly} by selector naming only)`,
+    `- **Base selectors:** ${family.selectors.slice(0, 6).map(sel => `\`${sel}\``).join(', ') || '—'}`,
+    ''
+  ];
+
+  const props = Object.keys(family.geometry);
+  if (props.length) {
+    rows.push('| Property | Value | Rules |', '|---|---|---|');
+    props.forEach(prop => rows.push(`| \`${prop}\` | \`${family.geometry[prop].value}\` | ${family.geometry[prop].count} |`));
+  } else {
+    rows.push('_No padding, height, border, radius or font-size rules on the base selectors._');
+  }
+
+  if (family.states.length) {
+    rows.push('', '**States**', '', '| State | Rules | Changes |', '|---|---|---|');
+    family.states.forEach(state => rows.push(`| \`${state.state}\` | ${state.ruleCount} | ${renderGeometry(state.properties)} |`));
+  }
+  if (family.variants.length) {
+    rows.push('', '**Variants**', '', '| Variant | Kind | Geometry overrides |', '|---|---|---|');
+    family.variants.forEach(variant => rows.push(`| \`${variant.name}\` | ${variant.kind} | ${renderGeometry(variant.geometry)} |`));
+  }
+  rows.push('');
+  return rows;
+}
+
+function buildComponentsBody(components: ComponentInventory): string {
+  const measured = components.families.filter(f => Object.keys(f.geometry).length > 0);
+  const rows: string[] = [
+    '# COMPONENTS.md — component primitives',
+    '',
+    `> **Evidence:** stylesheet rules paired to ${components.source === 'rendered-dom' ? 'rendered DOM' : 'served HTML'} nodes classified by element, role and class name. Values are declared, not measured at render time. Machine-readable counterpart: \`components.json\`.`,
+    '',
+    `Families with geometry: ${measured.map(f => f.family).join(', ') || 'none'}. _Colors_ of components live in DESIGN.md; state rows list every changed property because most state rules only change color.`,
+    ''
+  ];
+  components.families.forEach(family => rows.push(...renderComponentFamily(family)));
+  rows.push(
+    '## What this file still cannot describe',
+    '',
+    '- **Rendered box sizes** — values are the declared padding/height/border, not the measured box. Content, line-height and `box-sizing` decide the final size.',
+    '- **Families outside the classifier** — only button, card, input, nav, badge and modal are recognized.',
+    '- **Script-driven states** — states toggled by JavaScript without a pseudo-class or `disabled` selector are not seen.'
+  );
+  return rows.join('\n');
+}
+
+// -------- components.json --------
+
+function buildComponentsJson(input: SiteSpecInput, anchor: ProvenanceAnchor, score: number): string {
+  const components = input.components;
+  const document = {
+    schemaVersion: COMPONENTS_SCHEMA_VERSION,
+    canonicalHash: anchor.canonicalHash,
+    generatorVersion: anchor.generatorVersion,
+    sampledUrls: anchor.sampledUrls,
+    status: components ? classifyStatus(score, 0.5) : 'refused',
+    score: Number(score.toFixed(2)),
+    source: components ? components.source : null,
+    families: components ? components.families : []
+  };
+  return JSON.stringify(document, null, 2);
+}
 
 function buildComponentsMd(input: SiteSpecInput, anchor: ProvenanceAnchor, score: number): string {
   const threshold = 0.5;
   const status = classifyStatus(score, threshold);
   const fm = renderFrontmatter({ file: 'COMPONENTS.md', fileRole: 'component primitives', anchor, status, score, threshold });
+  if (status !== 'refused' && input.components) {
+    return fm + buildComponentsBody(input.components) + '\n';
+  }
   const buttonColors = input.meta?.semanticAnalysis?.buttonColors ?? [];
   const body = [
     '# COMPONENTS.md — refusal stub',
@@ -378,9 +601,13 @@ function buildCaveatsMd(input: SiteSpecInput, anchor: ProvenanceAnchor, withheld
     '',
     '## What this extraction does NOT contain',
     '',
-    '- **Page structure / section layout** — STRUCTURE.md is a refusal stub.',
-    '- **Component geometry** — COMPONENTS.md is a refusal stub. DESIGN.md has component *colors*, not *dimensions*.',
-    '- **Visual hierarchy** — which styles apply to which semantic elements (h1 vs h2, primary button vs secondary) is not recovered.',
+    input.structure
+      ? '- **Page state and route composition** — STRUCTURE.md covers landmarks, breakpoints and layering only.'
+      : '- **Page structure / section layout** — STRUCTURE.md is a refusal stub.',
+    input.components
+      ? '- **Rendered component sizes** — COMPONENTS.md lists declared geometry, not measured boxes.'
+      : '- **Component geometry** — COMPONENTS.md is a refusal stub. DESIGN.md has component *colors*, not *dimensions*.',
+    '- **Visual hierarchy** — which styles apply to which semantic elements (h1 vs h2) is not recovered.',
     '- **Interaction and motion** — hover, focus, transitions, animations are not captured.',
     '- **Imagery and illustration** — only token-level color extraction from images is possible (not shipped in this output).',
     '- **Designer intent** — these are observations of the compiled surface. Whether any value was intentional or incidental cannot be determined from stylesheet evidence alone.',
@@ -416,7 +643,9 @@ function buildCaveatsMd(input: SiteSpecInput, anchor: ProvenanceAnchor, withheld
     '## How to consume this pack safely',
     '',
     '- **For theming / style transfer:** DESIGN.md and IMPLEMENTATION.md are sufficient. Treat each value as observed, not prescribed.',
-    '- **For page reconstruction:** do NOT rely on this pack alone. STRUCTURE.md and COMPONENTS.md are refusal stubs; their scope is what the extractor cannot provide. Supply screenshot or DOM capture for structural evidence.',
+    input.structure
+      ? '- **For page reconstruction:** do NOT rely on this pack alone. STRUCTURE.md gives the landmark skeleton and breakpoints but not state behavior, and COMPONENTS.md gives declared rather than measured geometry. Supply screenshot or DOM capture for the rest.'
+      : '- **For page reconstruction:** do NOT rely on this pack alone. STRUCTURE.md and COMPONENTS.md are refusal stubs; their scope is what the extractor cannot provide. Supply screenshot or DOM capture for structural evidence.',
     '- **For confidence-sensitive work:** read each file\'s `status` and `score` fields before synthesizing anything downstream.',
     ''
   );
@@ -444,6 +673,8 @@ export function generateSiteSpec(input: SiteSpecInput): SiteSpec {
   const componentsMd = buildComponentsMd(input, anchor, scores.components);
   const implementationMd = buildImplementationMd(input, anchor, scores.implementation);
   const caveatsMd = buildCaveatsMd(input, anchor, withheldRef);
+  const compositionJson = buildCompositionJson(input, anchor, scores.structure);
+  const componentsJson = buildComponentsJson(input, anchor, scores.components);
 
-  return { designMd, structureMd, componentsMd, implementationMd, caveatsMd };
+  return { designMd, structureMd, componentsMd, implementationMd, caveatsMd, compositionJson, componentsJson };
 }
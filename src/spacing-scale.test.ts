@@ -0,0 +1,58 @@
+import { inferSpacingScale } from './spacing-scale';
+import type { FrequencyItem } from './types';
+
+function items(counts: Record<string, number>): FrequencyItem[] {
+  return Object.keys(counts).map(value => ({ value, count: counts[value], prevalence: 0 }));
+}
+
+describe('inferSpacingScale', () => {
+  it('finds the largest grid unit that explains most values', () => {
+    const scale = inferSpacingScale(items({ '8px': 10, '16px': 8, '1.5rem': 4, '32px': 2, '4px': 1 }), 16);
+
+    expect(scale.base).toBe(8);
+    expect(scale.steps.map(step => step.px)).toEqual([8, 16, 24, 32]);
+    expect(scale.steps.map(step => step.multiple)).toEqual([1, 2, 3, 4]);
+    expect(scale.outliers.map(step => step.px)).toEqual([4]);
+    expect(scale.coverage).toBeCloseTo(24 / 25);
+  });
+
+  it('gives outliers the Tailwind key of their own size and the step they would snap to', () => {
+    const scale = inferSpacingScale(items({ '8px': 10, '16px': 10, '24px': 6, '12px': 1, '13px': 1, '1px': 1 }), 16);
+
+    expect(scale.base).toBe(8);
+    expect(scale.outliers.map(step => [step.px, step.tailwind, step.snapTo])).toEqual([
+      [1, 'px', 8],
+      [12, '3', 8],
+      [13, '[13px]', 16]
+    ]);
+  });
+
+  it('merges values that resolve to the same px size and keeps a zero step first', () => {
+    const scale = inferSpacingScale(items({ '0rem': 1, '0px': 2, '16px': 3, '1rem': 2 }), 16);
+
+    expect(scale.steps[0]).toMatchObject({ px: 0, count: 3 });
+    expect(scale.steps[1]).toMatchObject({ px: 16, values: ['16px', '1rem'], count: 5 });
+  });
+
+  it('converts rem against the root font-size and derives Tailwind keys from it', () => {
+    const scale = inferSpacingScale(items({ '1rem': 3, '2rem': 3, '4rem': 2, '1px': 1 }), 10);
+
+    expect(scale.base).toBe(10);
+    expect(scale.steps.map(step => [step.px, step.tailwind])).toEqual([[10, '4'], [20, '8'], [40, '16']]);
+  });
+
+  it('keeps relative values out of the px scale', () => {
+    const scale = inferSpacingScale(items({ '5%': 2, '2vw': 1, '8px': 4 }), 16);
+
+    expect(scale.relative.map(item => item.value)).toEqual(['5%', '2vw']);
+    expect(scale.steps.map(step => step.px)).toEqual([8]);
+  });
+
+  it('reports no base when no unit explains half the values', () => {
+    const scale = inferSpacingScale(items({ '7px': 2, '13px': 2, '9px': 2 }), 16);
+
+    expect(scale.base).toBeUndefined();
+    expect(scale.coverage).toBe(0);
+    expect(scale.outliers).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import type { FrequencyItem, SpacingScale, SpacingStep } from './types';
+
+// Largest first: a site on an 8px grid is also on a 4px one, and the larger unit is the finding
+const GRID_UNITS = [16, 12, 10, 8, 6, 5, 4, 2];
+const GRID_SHARE = 0.8; // Declarations a unit must explain to be the grid outright
+const MIN_GRID_SHARE = 0.5; // Below this no unit is reported
+const TOLERANCE_PX = 0.25; // rem values rarely land on whole px
+
+function round(n: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(n * factor) / factor;
+}
+
+// em is taken relative to the root, as it is for margins and paddings of body text
+function toPx(value: string, rootPx: number): number | null {
+  const match = /^(-?\d*\.?\d+)(px|rem|em)$/i.exec(value.trim());
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  return round(match[2].toLowerCase() === 'px' ? n : n * rootPx);
+}
+
+function isOnGrid(px: number, unit: number): boolean {
+  const multiple = px / unit;
+  return Math.abs(multiple - Math.round(multiple)) * unit <= TOLERANCE_PX;
+}
+
+// Tailwind's spacing unit is 0.25rem, so its keys follow the site's root font-size; keys go in
+// half steps and anything between needs an arbitrary value
+function tailwindSpacingKey(px: number, rootPx: number): string {
+  if (px === 1) return 'px';
+  const key = px / (rootPx / 4);
+  if (Math.abs(key * 2 - Math.round(key * 2)) < 0.01) return String(Math.round(key * 2) / 2);
+  return `[${round(px)}px]`;
+}
+
+// Normalize margin/padding/gap values to px, find the base grid they were laid out on, and
+// split them into an ordered scale and the off-grid outliers
+export function inferSpacingScale(spacing: FrequencyItem[], rootPx: number): SpacingScale {
+  const relative: FrequencyItem[] = [];
+  const byPx: Record<string, SpacingStep> = {};
+  let zero: SpacingStep | undefined;
+
+  spacing.forEach(item => {
+    const px = toPx(item.value, rootPx);
+    if (px === null) {
+      relative.push(item);
+      return;
+    }
+    const step = px === 0
+      ? zero || (zero = { px: 0, values: [], count: 0 })
+      : byPx[String(px)] || (byPx[String(px)] = { px, values: [], count: 0 });
+    step.values.push(item.value);
+    step.count += item.count;
+  });
+
+  const sized = Object.keys(byPx).map(key => byPx[key]).sort((a, b) => a.px - b.px);
+  const total = sized.reduce((sum, step) => sum + step.count, 0);
+  const share = (unit: number) => total === 0 ? 0 : sized.filter(step => isOnGrid(step.px, unit)).reduce((sum, step) => sum + step.count, 0) / total;
+
+  let base = GRID_UNITS.filter(unit => share(unit) >= GRID_SHARE)[0];
+  if (base === undefined) {
+    base = GRID_UNITS.filter(unit => share(unit) >= MIN_GRID_SHARE).sort((a, b) => share(b) - share(a) || b - a)[0];
+  }
+
+  const steps = base !== undefined ? sized.filter(step => isOnGrid(step.px, base!)) : sized;
+  const outliers = base !== undefined ? sized.filter(step => !isOnGrid(step.px, base!)) : [];
+  if (zero) steps.unshift(zero);
+
+  steps.forEach(step => {
+    if (base !== undefined) step.multiple = Math.round(step.px / base);
+    step.tailwind = tailwindSpacingKey(step.px, rootPx);
+  });
+  // Outliers keep their own size in Tailwind (`p-3`, `p-[13px]`); snapTo only suggests the step
+  outliers.forEach(outlier => {
+    outlier.tailwind = tailwindSpacingKey(outlier.px, rootPx);
+    const nearest = steps.reduce((best: SpacingStep | undefined, step) =>
+      !best || Math.abs(step.px - outlier.px) < Math.abs(best.px - outlier.px) ? step : best, undefined);
+    if (nearest) outlier.snapTo = nearest.px;
+  });
+
+  const scale: SpacingScale = { rootPx, coverage: base !== undefined ? round(share(base)) : 0, steps, outliers, relative };
+  if (base !== undefined) scale.base = base;
+  return scale;
+}
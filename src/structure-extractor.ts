@@ -0,0 +1,209 @@
+import { JSDOM } from 'jsdom';
+import { AtRule, Declaration, Rule } from 'postcss';
+import safeParser from 'postcss-safe-parser';
+import type { BreakpointStructure, LandmarkNode, PageStructure } from './types';
+
+// Implicit ARIA roles of landmark elements. header/footer only count as banner/contentinfo
+// when they are not scoped to sectioning content.
+const IMPLICIT_LANDMARK_ROLES: Record<string, string> = {
+  header: 'banner',
+  nav: 'navigation',
+  main: 'main',
+  aside: 'complementary',
+  footer: 'contentinfo',
+  search: 'search'
+};
+
+const LANDMARK_ROLES = ['banner', 'navigation', 'main', 'complementary', 'contentinfo', 'search', 'form', 'region'];
+const SECTIONING_ELEMENTS = ['article', 'aside', 'main', 'nav', 'section'];
+const LANDMARK_SELECTOR = 'header, nav, main, aside, footer, search, form, section, [role]';
+
+// Properties that change how boxes are laid out, as opposed to how they are painted
+const LAYOUT_PROPERTY_REGEX = /^(display|position|float|clear|flex(-[\w-]+)?|grid(-[\w-]+)?|order|columns?(-[\w-]+)?|(min-|max-)?(width|height)|gap|row-gap|column-gap|justify-[\w-]+|align-[\w-]+|place-[\w-]+|inset|top|right|bottom|left|overflow(-[xy])?|aspect-ratio|container(-[\w-]+)?)$/i;
+
+const MAX_SELECTORS = 20;
+
+function toPx(value: string, unit: string): number {
+  const n = parseFloat(value);
+  return unit === 'em' || unit === 'rem' ? n * 16 : n;
+}
+
+function describeElement(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  const id = element.id ? `#${element.id}` : '';
+  const classes = Array.from(element.classList).slice(0, 3).map(name => `.${name}`).join('');
+  return `${tag}${id}${classes}`;
+}
+
+function landmarkRole(element: Element): string | null {
+  const explicit = (element.getAttribute('role') || '').trim().split(/\s+/)[0].toLowerCase();
+  if (explicit) {
+    return LANDMARK_ROLES.indexOf(explicit) !== -1 ? explicit : null;
+  }
+
+  const tag = element.tagName.toLowerCase();
+  const labelled = element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby');
+  if (tag === 'section' || tag === 'form') {
+    // Unlabelled sections and forms are not landmarks
+    return labelled ? (tag === 'section' ? 'region' : 'form') : null;
+  }
+  if (tag === 'header' || tag === 'footer') {
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+      if (SECTIONING_ELEMENTS.indexOf(parent.tagName.toLowerCase()) !== -1) return null;
+    }
+  }
+  return IMPLICIT_LANDMARK_ROLES[tag] || null;
+}
+
+function landmarkLabel(element: Element, document: Document): string | undefined {
+  const label = element.getAttribute('aria-label');
+  if (label) return label.trim();
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/)
+      .map(id => document.getElementById(id)?.textContent?.trim() || '')
+      .filter(Boolean)
+      .join(' ');
+    return text || undefined;
+  }
+  return undefined;
+}
+
+function extractLandmarks(document: Document): { landmarks: LandmarkNode[]; counts: Record<string, number>; dialogs: number } {
+  const nodes = new Map<Element, LandmarkNode>();
+  const roots: LandmarkNode[] = [];
+  const counts: Record<string, number> = {};
+
+  // querySelectorAll returns document order, so ancestors are always registered before their descendants
+  Array.from(document.querySelectorAll(LANDMARK_SELECTOR)).forEach(element => {
+    const role = landmarkRole(element);
+    if (!role) return;
+
+    const label = landmarkLabel(element, document);
+    const node: LandmarkNode = { role, element: element.tagName.toLowerCase(), selector: describeElement(element), ...(label ? { label } : {}), children: [] };
+    nodes.set(element, node);
+    counts[role] = (counts[role] || 0) + 1;
+
+    let parent = element.parentElement;
+    while (parent && !nodes.has(parent)) parent = parent.parentElement;
+    if (parent) nodes.get(parent)!.children.push(node);
+    else roots.push(node);
+  });
+
+  const dialogs = document.querySelectorAll('dialog, [role="dialog"], [role="alertdialog"]').length;
+  return { landmarks: roots, counts, dialogs };
+}
+
+function widthBounds(params: string): { minWidth?: number; maxWidth?: number } | null {
+  const bounds: { minWidth?: number; maxWidth?: number } = {};
+  const featureRegex = /(min|max)-width\s*:\s*([\d.]+)(px|em|rem)/gi;
+  let match;
+  while ((match = featureRegex.exec(params)) !== null) {
+    const px = toPx(match[2], match[3].toLowerCase());
+    if (match[1].toLowerCase() === 'min') bounds.minWidth = px;
+    else bounds.maxWidth = px;
+  }
+  // Range syntax: (width >= 768px), (width < 1024px)
+  const rangeRegex = /width\s*(>=|<=|>|<)\s*([\d.]+)(px|em|rem)/gi;
+  while ((match = rangeRegex.exec(params)) !== null) {
+    const px = toPx(match[2], match[3].toLowerCase());
+    if (match[1].charAt(0) === '>') bounds.minWidth = px;
+    else bounds.maxWidth = px;
+  }
+  return bounds.minWidth !== undefined || bounds.maxWidth !== undefined ? bounds : null;
+}
+
+function widthMediaAncestor(node: any): AtRule | null {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent.type === 'atrule' && parent.name.toLowerCase() === 'media' && widthBounds(parent.params)) {
+      return parent as AtRule;
+    }
+  }
+  return null;
+}
+
+function ruleSelector(decl: Declaration): string {
+  const parent: any = decl.parent;
+  return parent && parent.type === 'rule' ? (parent as Rule).selector.replace(/\s+/g, ' ').trim() : '';
+}
+
+function pushUnique(list: string[], value: string) {
+  if (value && list.indexOf(value) === -1 && list.length < MAX_SELECTORS) list.push(value);
+}
+
+// Landmarks come from the (static or rendered) HTML, everything else from the combined CSS
+export function extractStructure(html: string, css: string, source: PageStructure['source'] = 'static-html'): PageStructure {
+  const dom = new JSDOM(html);
+  const { landmarks, counts, dialogs } = extractLandmarks(dom.window.document);
+
+  const root = safeParser(css);
+  const breakpoints = new Map<string, BreakpointStructure>();
+  const display: Record<string, number> = {};
+  const zIndexSelectors = new Map<number, string[]>();
+  const fixed: string[] = [];
+  const sticky: string[] = [];
+  let baseLayoutDeclarations = 0;
+
+  root.walkAtRules('media', (atRule: AtRule) => {
+    const bounds = widthBounds(atRule.params);
+    if (!bounds) return;
+    const query = atRule.params.replace(/\s+/g, ' ').trim();
+    const entry = breakpoints.get(query) || { query, ...bounds, ruleCount: 0, layoutDeclarations: 0, layoutProperties: {} };
+    atRule.each(child => {
+      if (child.type === 'rule') entry.ruleCount++;
+    });
+    breakpoints.set(query, entry);
+  });
+
+  root.walkDecls((decl: Declaration) => {
+    const prop = decl.prop.toLowerCase();
+    if (prop.startsWith('--')) return;
+    const value = decl.value.trim().toLowerCase();
+
+    if (LAYOUT_PROPERTY_REGEX.test(prop)) {
+      const media = widthMediaAncestor(decl);
+      const entry = media ? breakpoints.get(media.params.replace(/\s+/g, ' ').trim()) : undefined;
+      if (entry) {
+        entry.layoutDeclarations++;
+        entry.layoutProperties[prop] = (entry.layoutProperties[prop] || 0) + 1;
+      } else {
+        baseLayoutDeclarations++;
+      }
+    }
+
+    if (prop === 'display') {
+      const keyword = value.replace(/\s*!important$/, '');
+      display[keyword] = (display[keyword] || 0) + 1;
+    } else if (prop === 'z-index') {
+      const zIndex = parseInt(value, 10);
+      if (!isNaN(zIndex)) {
+        const selectors = zIndexSelectors.get(zIndex) || [];
+        pushUnique(selectors, ruleSelector(decl));
+        zIndexSelectors.set(zIndex, selectors);
+      }
+    } else if (prop === 'position') {
+      if (/^fixed\b/.test(value)) pushUnique(fixed, ruleSelector(decl));
+      if (/^(-webkit-)?sticky\b/.test(value)) pushUnique(sticky, ruleSelector(decl));
+    }
+  });
+
+  const sortedBreakpoints = Array.from(breakpoints.values()).sort((a, b) => {
+    const aWidth = a.minWidth !== undefined ? a.minWidth : a.maxWidth || 0;
+    const bWidth = b.minWidth !== undefined ? b.minWidth : b.maxWidth || 0;
+    return aWidth - bWidth || (a.query < b.query ? -1 : a.query > b.query ? 1 : 0);
+  });
+
+  const zLayers = Array.from(zIndexSelectors.keys())
+    .sort((a, b) => a - b)
+    .map(zIndex => ({ zIndex, selectors: zIndexSelectors.get(zIndex)! }));
+
+  return {
+    source,
+    landmarks,
+    landmarkCounts: counts,
+    breakpoints: sortedBreakpoints,
+    layout: { display, baseLayoutDeclarations },
+    zLayers,
+    overlays: { fixed, sticky, dialogs }
+  };
+}
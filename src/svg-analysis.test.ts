@@ -0,0 +1,61 @@
+import { JSDOM } from 'jsdom';
+import { CascadeResolver } from './cascade-resolver';
+import { extractSvgColors, parseSvgMarkup, readSvgDimensions } from './svg-analysis';
+
+describe('parseSvgMarkup', () => {
+  it('counts fills, strokes, gradient stops and flood colors from attributes and <style>', () => {
+    const result = parseSvgMarkup(`
+      <svg xmlns="http://www.w3.org/2000/svg" width="120" height="40">
+        <style>.accent { fill: #f97316; }</style>
+        <defs>
+          <linearGradient id="g"><stop offset="0" stop-color="#2563eb"/><stop offset="1" style="stop-color: #1d4ed8"/></linearGradient>
+          <filter id="f"><feFlood flood-color="#0f172a"/></filter>
+          <clipPath id="c"><rect width="10" height="10" fill="#ff0000"/></clipPath>
+        </defs>
+        <path d="M0 0h10v10H0z" fill="#2563eb" stroke="#0f172a"/>
+        <circle r="5" fill="#2563eb"/>
+        <rect class="accent" width="5" height="5"/>
+        <rect width="5" height="5" fill="url(#g)" stroke="none"/>
+        <rect width="5" height="5" fill="rgba(0, 0, 0, 0)"/>
+      </svg>
+    `);
+
+    expect(result.colors).toEqual([
+      { value: '#2563eb', count: 3 },
+      { value: '#0f172a', count: 2 },
+      { value: '#1d4ed8', count: 1 },
+      { value: '#f97316', count: 1 }
+    ]);
+    expect(result.dimensions).toEqual({ width: 120, height: 40 });
+  });
+
+  it('rejects documents that are not SVG', () => {
+    expect(() => parseSvgMarkup('<html xmlns="http://www.w3.org/1999/xhtml"/>')).toThrow('Document root is not <svg>');
+  });
+});
+
+describe('extractSvgColors', () => {
+  it('resolves inline SVG against the page cascade, including currentColor', () => {
+    const document = new JSDOM(`
+      <a class="logo"><svg viewBox="0 0 24 24"><path fill="currentColor" d="M0 0"/><path class="mark" d="M0 0"/></svg></a>
+    `).window.document;
+    const resolver = new CascadeResolver('.logo { color: #7c3aed; } .mark { fill: #22c55e; }');
+
+    const result = extractSvgColors(document.querySelector('svg')!, resolver);
+
+    expect(result.colors.map(color => color.value).sort()).toEqual(['#22c55e', '#7c3aed']);
+    expect(result.dimensions).toEqual({ width: 24, height: 24 });
+  });
+});
+
+describe('readSvgDimensions', () => {
+  function svg(attributes: string): Element {
+    return new JSDOM(`<svg ${attributes}></svg>`).window.document.querySelector('svg')!;
+  }
+
+  it('prefers width/height and falls back to the viewBox for percentages or missing sizes', () => {
+    expect(readSvgDimensions(svg('width="32.4" height="16" viewBox="0 0 100 50"'))).toEqual({ width: 32, height: 16 });
+    expect(readSvgDimensions(svg('width="100%" height="100%" viewBox="0,0,100,50"'))).toEqual({ width: 100, height: 50 });
+    expect(readSvgDimensions(svg(''))).toBeUndefined();
+  });
+});
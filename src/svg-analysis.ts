@@ -0,0 +1,96 @@
+import { JSDOM } from 'jsdom';
+import { CascadeResolver } from './cascade-resolver';
+import { parseColor, rgbaToHex } from './css-color';
+
+// Elements whose fill/stroke paint pixels
+const PAINTED_ELEMENTS = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan', 'textpath', 'use']);
+
+// Content inside these is only rendered when referenced, so it is not part of the visible artwork
+const NON_RENDERED_CONTAINERS = new Set(['defs', 'clippath', 'mask', 'symbol', 'pattern', 'marker']);
+
+export interface SvgColorResult {
+  colors: Array<{ value: string; count: number }>; // Most used first
+  dimensions?: { width: number; height: number };
+}
+
+// Normalize a resolved paint value to hex; gradients, `none` and fully transparent colors paint nothing we can report
+function toHexColor(value: string): string | null {
+  const v = value.trim().toLowerCase();
+  if (!v || v === 'none' || v.startsWith('url(')) return null;
+  // Initial `color`, i.e. what currentColor falls back to
+  if (v === 'canvastext') return '#000000';
+
+  const parsed = parseColor(v);
+  return parsed && parsed.alpha > 0 ? rgbaToHex(parsed) : null;
+}
+
+function isInsideNonRendered(element: Element, root: Element): boolean {
+  for (let current = element.parentElement; current && current !== root; current = current.parentElement) {
+    if (NON_RENDERED_CONTAINERS.has(current.localName.toLowerCase())) return true;
+  }
+  return false;
+}
+
+// Intrinsic size from width/height, falling back to the viewBox
+export function readSvgDimensions(svg: Element): { width: number; height: number } | undefined {
+  const widthAttr = svg.getAttribute('width') || '';
+  const heightAttr = svg.getAttribute('height') || '';
+  const width = parseFloat(widthAttr);
+  const height = parseFloat(heightAttr);
+  if (width > 0 && height > 0 && !widthAttr.includes('%') && !heightAttr.includes('%')) {
+    return { width: Math.round(width), height: Math.round(height) };
+  }
+
+  const viewBox = (svg.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: Math.round(viewBox[2]), height: Math.round(viewBox[3]) };
+  }
+  return undefined;
+}
+
+// Collect the colors an <svg> subtree paints: fill/stroke on shapes, stop-color on gradient
+// stops and flood-color on filters. Values come from the cascade (presentation attributes,
+// style attributes and <style> rules), so `resolver` must cover the document the element
+// lives in - that is also what resolves currentColor against the host element.
+export function extractSvgColors(svg: Element, resolver: CascadeResolver): SvgColorResult {
+  const counts = new Map<string, number>();
+  const add = (value: string | undefined) => {
+    const hex = value ? toHexColor(value) : null;
+    if (hex) counts.set(hex, (counts.get(hex) || 0) + 1);
+  };
+
+  [svg, ...Array.from(svg.querySelectorAll('*'))].forEach(element => {
+    const name = element.localName.toLowerCase();
+    if (name === 'stop') {
+      add(resolver.resolve(element).colors['stop-color']);
+    } else if (name === 'feflood' || name === 'fedropshadow') {
+      add(resolver.resolve(element).colors['flood-color']);
+    } else if (PAINTED_ELEMENTS.has(name) && !isInsideNonRendered(element, svg)) {
+      // <use> is counted with its own paint - sprite icons inherit fill from the referencing element
+      const { colors } = resolver.resolve(element);
+      add(colors.fill);
+      add(colors.stroke);
+    }
+  });
+
+  return {
+    colors: Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count),
+    dimensions: readSvgDimensions(svg)
+  };
+}
+
+// Parse a standalone .svg file. Referenced through <img> or CSS, an SVG cannot see page
+// styles, so only its own <style> elements take part in the cascade.
+export function parseSvgMarkup(markup: string): SvgColorResult {
+  const dom = new JSDOM(markup, { contentType: 'image/svg+xml' });
+  const document = dom.window.document;
+  const svg = document.documentElement;
+  if (!svg || svg.localName.toLowerCase() !== 'svg') {
+    throw new Error('Document root is not <svg>');
+  }
+
+  const css = Array.from(document.getElementsByTagName('style')).map(style => style.textContent || '').join('\n');
+  return extractSvgColors(svg, new CascadeResolver(css));
+}
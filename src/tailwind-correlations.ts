@@ -1,11 +1,7 @@
+import { inferSpacingScale } from './spacing-scale';
 import type { ExtractedTokens, TailwindCorrelations } from './types';
 
 // Tailwind's default design system for reference
-const TAILWIND_SPACING = [
-  '0', '0.5', '1', '1.5', '2', '2.5', '3', '3.5', '4', '5', '6', '7', '8', '9', '10', '11', '12', 
-  '14', '16', '20', '24', '28', '32', '36', '40', '44', '48', '52', '56', '60', '64', '72', '80', '96'
-];
-
 const TAILWIND_FONT_SIZES = [
   'xs', 'sm', 'base', 'lg', 'xl', '2xl', '3xl', '4xl', '5xl', '6xl', '7xl', '8xl', '9xl'
 ];
@@ -34,62 +30,6 @@ function normalizeToRem(value: string): number | null {
   return null;
 }
 
-// Find closest Tailwind spacing value
-function findClosestSpacing(value: string): string[] {
-  const remValue = normalizeToRem(value);
-  if (remValue === null) return [];
-  
-  // Tailwind spacing: 0.25rem increments for small values, then jumps
-  const tailwindValues = [
-    { tw: '0', rem: 0 },
-    { tw: '0.5', rem: 0.125 },
-    { tw: '1', rem: 0.25 },
-    { tw: '1.5', rem: 0.375 },
-    { tw: '2', rem: 0.5 },
-    { tw: '2.5', rem: 0.625 },
-    { tw: '3', rem: 0.75 },
-    { tw: '3.5', rem: 0.875 },
-    { tw: '4', rem: 1 },
-    { tw: '5', rem: 1.25 },
-    { tw: '6', rem: 1.5 },
-    { tw: '7', rem: 1.75 },
-    { tw: '8', rem: 2 },
-    { tw: '9', rem: 2.25 },
-    { tw: '10', rem: 2.5 },
-    { tw: '11', rem: 2.75 },
-    { tw: '12', rem: 3 },
-    { tw: '14', rem: 3.5 },
-    { tw: '16', rem: 4 },
-    { tw: '20', rem: 5 },
-    { tw: '24', rem: 6 },
-    { tw: '28', rem: 7 },
-    { tw: '32', rem: 8 },
-    { tw: '36', rem: 9 },
-    { tw: '40', rem: 10 },
-    { tw: '44', rem: 11 },
-    { tw: '48', rem: 12 },
-    { tw: '52', rem: 13 },
-    { tw: '56', rem: 14 },
-    { tw: '60', rem: 15 },
-    { tw: '64', rem: 16 },
-    { tw: '72', rem: 18 },
-    { tw: '80', rem: 20 },
-    { tw: '96', rem: 24 }
-  ];
-  
-  // Find closest match
-  const closest = tailwindValues.reduce((prev, curr) => 
-    Math.abs(curr.rem - remValue) < Math.abs(prev.rem - remValue) ? curr : prev
-  );
-  
-  const tolerance = 0.125; // Allow some tolerance
-  if (Math.abs(closest.rem - remValue) <= tolerance) {
-    return [`space-${closest.tw}`, `p-${closest.tw}`, `m-${closest.tw}`, `gap-${closest.tw}`];
-  }
-  
-  return [];
-}
-
 // Find closest Tailwind font size
 function findClosestFontSize(value: string): string[] {
   const remValue = normalizeToRem(value);
@@ -225,11 +165,16 @@ export function generateTailwindCorrelations(tokens: ExtractedTokens): TailwindC
     }
   });
   
-  // Map spacing
+  // Map spacing through the inferred scale: every value gets the key of its own size, arbitrary when Tailwind has none
+  const spacingScale = tokens.spacingScale || inferSpacingScale(tokens.spacing.frequency, 16);
+  const spacingKeys: Record<string, string> = {};
+  spacingScale.steps.concat(spacingScale.outliers).forEach(step => {
+    if (step.tailwind) step.values.forEach(value => { spacingKeys[value] = step.tailwind!; });
+  });
   tokens.spacing.values.forEach(spacing => {
-    const tailwindSpacing = findClosestSpacing(spacing);
-    if (tailwindSpacing.length > 0) {
-      correlations.spacing[spacing] = tailwindSpacing;
+    const key = spacingKeys[spacing];
+    if (key) {
+      correlations.spacing[spacing] = [`space-${key}`, `p-${key}`, `m-${key}`, `gap-${key}`];
     }
   });
   
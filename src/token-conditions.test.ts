@@ -0,0 +1,87 @@
+import safeParser from 'postcss-safe-parser';
+import { extractTokensFromCss } from './extractor';
+import { applyConditionMode, collectLayerOrder, conditionWeight, mediaWidths } from './token-conditions';
+import type { TokenCondition } from './types';
+
+describe('applyConditionMode', () => {
+  const css = `
+    .a { border-radius: 4px; } .b { border-radius: 4px; }
+    .c { border-radius: 8px; }
+    @media print { .d { border-radius: 0px; } .e { border-radius: 0px; } .f { border-radius: 0px; } }
+    @media print { .g { border-radius: 8px; } }
+  `;
+
+  it('keeps every value in all mode', () => {
+    const tokens = extractTokensFromCss(css);
+    applyConditionMode(tokens, 'all');
+    expect(tokens.radii.frequency.map(item => [item.value, item.count])).toEqual([['0px', 3], ['4px', 2], ['8px', 2]]);
+  });
+
+  it('drops print-only values in screen mode and discounts values also used in print', () => {
+    const tokens = extractTokensFromCss(css);
+    applyConditionMode(tokens, 'screen');
+    expect(tokens.radii.frequency.map(item => [item.value, item.count])).toEqual([['4px', 2], ['8px', 1]]);
+    expect(tokens.radii.values).not.toContain('0px');
+    expect(tokens.radii.frequency[0].prevalence).toBeCloseTo(66.67, 2);
+    // The per-condition counts are kept as extracted
+    expect(tokens.conditions!.find(condition => condition.key === '@media print')!.declarations).toBe(4);
+  });
+});
+
+describe('conditionWeight', () => {
+  const reducedMotion: TokenCondition = {
+    key: '@media (prefers-reduced-motion: reduce)',
+    media: '(prefers-reduced-motion: reduce)',
+    mediaFeatures: ['prefers-reduced-motion: reduce'],
+    declarations: 1
+  };
+
+  it('halves reduced-motion values in weighted mode only', () => {
+    expect(conditionWeight(reducedMotion, 'weighted', 0)).toBe(0.5);
+    expect(conditionWeight(reducedMotion, 'screen', 0)).toBe(1);
+    expect(conditionWeight(reducedMotion, 'all', 0)).toBe(1);
+    expect(conditionWeight({ key: '@media (min-width: 768px)', media: '(min-width: 768px)', mediaFeatures: ['min-width: 768px'], declarations: 1 }, 'weighted', 0)).toBe(1);
+  });
+
+  it('weighs layers by cascade position and print as nothing', () => {
+    expect(conditionWeight({ key: '@layer base', layer: 'base', layerOrder: 0, declarations: 1 }, 'weighted', 3)).toBe(0.25);
+    expect(conditionWeight({ key: '@layer utilities', layer: 'utilities', layerOrder: 2, declarations: 1 }, 'weighted', 3)).toBe(0.75);
+    expect(conditionWeight({ key: '@media print', media: 'print', print: true, declarations: 1 }, 'weighted', 0)).toBe(0);
+  });
+
+  it('halves reduced-motion transitions in the weighted frequencies', () => {
+    const tokens = extractTokensFromCss(`
+      .a { transition: opacity 200ms; } .b { transition: opacity 200ms; }
+      @media (prefers-reduced-motion: reduce) { .a, .b { transition: none; } .c { transition: none; } .d { transition: none; } }
+    `);
+    const before = tokens.transitions.frequency.find(item => item.value === 'none')!.count;
+    applyConditionMode(tokens, 'weighted');
+    expect(tokens.transitions.frequency.find(item => item.value === 'none')!.count).toBe(Math.round(before / 2));
+    expect(tokens.transitions.frequency.find(item => item.value === 'opacity 200ms')!.count).toBe(2);
+  });
+});
+
+describe('collectLayerOrder', () => {
+  it('orders nested layers by first declaration with dotted names', () => {
+    const root = safeParser(`
+      @layer reset, base;
+      @layer base {
+        @layer tokens, components;
+        @layer components { .a { color: red; } }
+      }
+      @layer reset.normalize { .b { margin: 0; } }
+      @layer utilities { .c { padding: 0; } }
+      @layer base { .d { color: blue; } }
+    `);
+    expect(collectLayerOrder(root)).toEqual(['reset', 'base', 'base.tokens', 'base.components', 'reset.normalize', 'utilities']);
+  });
+});
+
+describe('mediaWidths', () => {
+  it('reads min/max-width and both ends of range syntax', () => {
+    expect(mediaWidths('(min-width: 768px) and (max-width: 1023.98px)')).toEqual(['768px', '1023.98px']);
+    expect(mediaWidths('(640px < width <= 1024px)')).toEqual(['640px', '1024px']);
+    expect(mediaWidths('(width >= 48em)')).toEqual(['48em']);
+    expect(mediaWidths('(prefers-color-scheme: dark)')).toEqual([]);
+  });
+});
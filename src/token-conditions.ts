@@ -0,0 +1,243 @@
+import type { AtRule, ChildNode, Root } from 'postcss';
+import { inferSpacingScale } from './spacing-scale';
+import type { ConditionMode, ConditionTracker, ExtractedTokens, FrequencyItem, TokenCondition, TokenGroup } from './types';
+
+// Groups whose values are counted per condition
+export const CONDITION_GROUPS: Array<keyof ExtractedTokens> = [
+  'colors', 'fontSizes', 'fontFamilies', 'fontWeights', 'lineHeights', 'letterSpacings', 'spacing', 'radii',
+  'shadows', 'gradients', 'zIndices', 'transitions', 'opacity', 'aspectRatios', 'borderWidths', 'borderStyles',
+  'typography', 'borders'
+];
+
+// User preferences that switch on an alternative presentation rather than the site's default one
+const PREFERENCE_FEATURES = /^(prefers-reduced-motion|prefers-contrast|prefers-reduced-transparency|prefers-reduced-data|forced-colors|inverted-colors)\b/;
+const PREFERENCE_WEIGHT = 0.5;
+
+function normalize(params: string): string {
+  return params.replace(/\s+/g, ' ').trim();
+}
+
+function layerName(rule: AtRule): string {
+  return normalize(rule.params) || '(anonymous)';
+}
+
+// Layers in cascade order (first declared is the weakest), from `@layer a, b;` statements and
+// `@layer a { }` blocks; nested layers are dotted (`base.reset`)
+export function collectLayerOrder(root: Root): string[] {
+  const order: string[] = [];
+  const add = (name: string) => {
+    if (order.indexOf(name) === -1) order.push(name);
+  };
+  root.walkAtRules('layer', rule => {
+    const parents: string[] = [];
+    let parent = rule.parent as ChildNode | Root | undefined;
+    while (parent && parent.type !== 'root') {
+      if (parent.type === 'atrule' && parent.name.toLowerCase() === 'layer') parents.unshift(layerName(parent));
+      parent = parent.parent as ChildNode | Root | undefined;
+    }
+    const prefix = parents.length > 0 ? `${parents.join('.')}.` : '';
+    if (rule.nodes) add(prefix + layerName(rule));
+    else rule.params.split(',').map(normalize).filter(Boolean).forEach(name => add(prefix + name));
+  });
+  return order;
+}
+
+// Media types named by the query list (print, screen, ...) followed by its features, e.g.
+// ['print'] or ['min-width: 768px', 'prefers-reduced-motion: reduce']
+export function mediaFeatures(params: string): string[] {
+  const features: string[] = [];
+  const add = (feature: string) => {
+    if (features.indexOf(feature) === -1) features.push(feature);
+  };
+  params.toLowerCase().split(',').forEach(query => {
+    const type = /^\s*(?:not\s+|only\s+)?(print|screen|speech)\b/.exec(query);
+    if (type) add(type[1]);
+  });
+  const featureRegex = /\(([^()]+)\)/g;
+  let match;
+  while ((match = featureRegex.exec(params.toLowerCase())) !== null) {
+    add(normalize(match[1]).replace(/\s*:\s*/, ': '));
+  }
+  return features;
+}
+
+// Viewport widths a media query switches at: `min-width`/`max-width` and the range syntax
+// (`width >= 768px`, `640px < width <= 1024px`)
+export function mediaWidths(params: string): string[] {
+  const widths: string[] = [];
+  const widthRegex = /(?:\b(?:min|max)-width\s*:\s*|\bwidth\s*[<>]=?\s*)([\d.]+(?:px|em|rem|vw|vh))|([\d.]+(?:px|em|rem|vw|vh))\s*[<>]=?\s*(?=width\b)/gi;
+  let match;
+  // `width` is only looked ahead at after a lower bound, so `640px < width <= 1024px` yields both ends
+  while ((match = widthRegex.exec(params)) !== null) {
+    widths.push(match[1] || match[2]);
+  }
+  return widths;
+}
+
+// A query list that only matches print or speech never styles the screen
+function isPrintOnly(media: string): boolean {
+  return media.toLowerCase().split(',').every(query => /^\s*(only\s+)?(print|speech)\b/.test(query));
+}
+
+// The at-rules a node sits in, outermost first, keyed canonically, e.g.
+// `@layer base > @media (min-width: 768px)`; null for unconditional top-level rules
+export function conditionOf(node: ChildNode, layerOrder: string[]): Omit<TokenCondition, 'declarations'> | null {
+  const media: string[] = [];
+  const supports: string[] = [];
+  const layers: string[] = [];
+  const containers: string[] = [];
+  const parts: string[] = [];
+
+  let parent = node.parent as ChildNode | Root | undefined;
+  while (parent && parent.type !== 'root') {
+    if (parent.type === 'atrule') {
+      const name = parent.name.toLowerCase();
+      const params = normalize(parent.params);
+      if (name === 'media') media.unshift(params);
+      else if (name === 'supports') supports.unshift(params);
+      else if (name === 'layer') layers.unshift(layerName(parent));
+      else if (name === 'container') containers.unshift(params);
+      if (name === 'media' || name === 'supports' || name === 'layer' || name === 'container') parts.unshift(`@${name} ${name === 'layer' ? layerName(parent) : params}`);
+    }
+    parent = parent.parent as ChildNode | Root | undefined;
+  }
+  if (parts.length === 0) return null;
+
+  const condition: Omit<TokenCondition, 'declarations'> = { key: parts.join(' > ') };
+  if (media.length > 0) {
+    condition.media = media.join(' and ');
+    condition.mediaFeatures = mediaFeatures(condition.media);
+    if (media.some(isPrintOnly)) condition.print = true;
+  }
+  if (supports.length > 0) condition.supports = supports.join(' and ');
+  if (layers.length > 0) {
+    condition.layer = layers.join('.');
+    const order = layerOrder.indexOf(condition.layer);
+    if (order !== -1) condition.layerOrder = order;
+  }
+  if (containers.length > 0) condition.container = containers.join(' and ');
+  return condition;
+}
+
+// True when the declaration only applies under a query (@media, @supports, @container); layers
+// change cascade priority but always apply
+export function isConditional(condition: Omit<TokenCondition, 'declarations'> | null): boolean {
+  return !!condition && !!(condition.media || condition.supports || condition.container);
+}
+
+// Cascade priority of an unconditional declaration: unlayered beats every layer, later layers
+// beat earlier ones. Conditional declarations rank below both.
+export function cascadeRank(condition: Omit<TokenCondition, 'declarations'> | null): number {
+  if (!condition) return Number.MAX_VALUE;
+  if (isConditional(condition)) return -1;
+  return condition.layerOrder !== undefined ? condition.layerOrder : 0;
+}
+
+export function createConditionTracker(root: Root): ConditionTracker {
+  return { layerOrder: collectLayerOrder(root), conditions: {}, values: {} };
+}
+
+// Run `extract` for a declaration or rule and count the values it added to each group under the
+// node's condition
+export function trackConditions(
+  tracker: ConditionTracker,
+  node: ChildNode,
+  groups: Record<string, string[]>,
+  extract: (condition: Omit<TokenCondition, 'declarations'> | null) => void
+): void {
+  const condition = conditionOf(node, tracker.layerOrder);
+  if (!condition) {
+    extract(null);
+    return;
+  }
+
+  const names = Object.keys(groups);
+  const before = names.map(name => groups[name].length);
+  extract(condition);
+
+  const entry = tracker.conditions[condition.key] || (tracker.conditions[condition.key] = { ...condition, declarations: 0 });
+  if (node.type === 'decl') entry.declarations++;
+  names.forEach((name, i) => {
+    const added = groups[name].slice(before[i]);
+    if (added.length === 0) return;
+    const byValue = tracker.values[name] || (tracker.values[name] = {});
+    added.forEach(value => {
+      const counts = byValue[value] || (byValue[value] = {});
+      counts[condition.key] = (counts[condition.key] || 0) + 1;
+    });
+  });
+}
+
+// Attach the per-condition counts to the frequency items and list the conditions seen
+export function annotateConditions(tokens: ExtractedTokens, tracker: ConditionTracker): void {
+  CONDITION_GROUPS.forEach(name => {
+    const group = tokens[name] as TokenGroup | undefined;
+    const byValue = tracker.values[name];
+    if (!group || !byValue) return;
+    group.frequency.forEach(item => {
+      if (byValue[item.value]) item.conditions = byValue[item.value];
+    });
+  });
+
+  const conditions = Object.keys(tracker.conditions).map(key => tracker.conditions[key]);
+  if (conditions.length > 0) {
+    tokens.conditions = conditions.sort((a, b) => b.declarations - a.declarations || a.key.localeCompare(b.key));
+  }
+}
+
+// How much a declaration under `condition` counts: print-only rules never reach the screen, user
+// preference variants (reduced motion, contrast, ...) are alternates, and earlier layers lose the
+// cascade to later and unlayered ones. Responsive, @supports and @container values count fully.
+export function conditionWeight(condition: TokenCondition, mode: ConditionMode, layerCount: number): number {
+  if (mode === 'all') return 1;
+  if (condition.print) return 0;
+  if (mode === 'screen') return 1;
+
+  let weight = 1;
+  if ((condition.mediaFeatures || []).some(feature => PREFERENCE_FEATURES.test(feature))) weight *= PREFERENCE_WEIGHT;
+  if (condition.layerOrder !== undefined) weight *= (condition.layerOrder + 1) / (layerCount + 1);
+  return weight;
+}
+
+function reweigh(group: TokenGroup, weights: Record<string, number>): void {
+  const frequency: FrequencyItem[] = [];
+  group.frequency.forEach(item => {
+    if (!item.conditions) {
+      frequency.push(item);
+      return;
+    }
+    const conditions = item.conditions;
+    let count = item.count;
+    Object.keys(conditions).forEach(key => {
+      const weight = weights[key] !== undefined ? weights[key] : 1;
+      count -= conditions[key] * (1 - weight);
+    });
+    count = Math.round(count);
+    if (count > 0) frequency.push({ ...item, count });
+  });
+
+  const total = frequency.reduce((sum, item) => sum + item.count, 0);
+  frequency.forEach(item => {
+    item.prevalence = total === 0 ? 0 : +(item.count / total * 100).toFixed(2);
+  });
+  group.frequency = frequency.sort((a, b) => b.count - a.count);
+  group.values = group.values.filter(value => frequency.some(item => item.value === value));
+}
+
+// Filter ('screen') or weigh ('weighted') the frequencies by the conditions their declarations sit
+// in; the per-condition counts stay as extracted. The spacing scale is refitted to the result.
+export function applyConditionMode(tokens: ExtractedTokens, mode: ConditionMode): void {
+  if ((mode !== 'screen' && mode !== 'weighted') || !tokens.conditions) return;
+  const layerCount = tokens.conditions.reduce((count, condition) =>
+    condition.layerOrder !== undefined ? Math.max(count, condition.layerOrder + 1) : count, 0);
+  const weights: Record<string, number> = {};
+  tokens.conditions.forEach(condition => {
+    weights[condition.key] = conditionWeight(condition, mode, layerCount);
+  });
+
+  CONDITION_GROUPS.forEach(name => {
+    const group = tokens[name] as TokenGroup | undefined;
+    if (group) reweigh(group, weights);
+  });
+  if (tokens.spacingScale) tokens.spacingScale = inferSpacingScale(tokens.spacing.frequency, tokens.spacingScale.rootPx);
+}
@@ -0,0 +1,102 @@
+import { diffExitCode, diffSnapshots, exceededThresholds, renderDiffMarkdown, snapshotFromAnalysis, THRESHOLD_EXIT_CODE } from './token-diff';
+
+function analysis(tokens: Record<string, any>, bindings?: Record<string, string>) {
+  return {
+    meta: { source: 'https://example.com', extractedAt: '2026-01-01T00:00:00.000Z' },
+    tokens,
+    ...(bindings ? { bindings: { bindings: Object.keys(bindings).reduce((all, role) => ({ ...all, [role]: { hex: bindings[role] } }), {}) } } : {})
+  };
+}
+
+const BEFORE = analysis({
+  colors: { values: ['#2563eb', '#ffffff', '#ff0000'] },
+  spacing: ['8px', '16px', '40px'],
+  fontSizes: { values: ['16px'] },
+  customProperties: {
+    '--primary': { value: '#2563eb' },
+    '--gap': '16px',
+    '--brand': '#0f766e',
+    '--legacy': '1px'
+  }
+}, { 'bg.default': '#ffffff', 'accent.default': '#2563eb' });
+
+const AFTER = analysis({
+  colors: { values: ['#1d4ed8', '#FFFFFF', '#00ff00'] },
+  spacing: ['8px', '18px', '64px'],
+  fontSizes: { values: ['16px'] },
+  customProperties: {
+    '--primary': '#1d4ed8',
+    '--gap': '16px',
+    '--brand-primary': '#0f766e',
+    '--focus': '2px'
+  }
+}, { 'bg.default': '#ffffff', 'accent.default': '#1d4ed8' });
+
+describe('diffSnapshots', () => {
+  const diff = diffSnapshots(snapshotFromAnalysis(BEFORE, 'before.json'), snapshotFromAnalysis(AFTER, 'after.json'));
+
+  it('reports added, removed and changed values per group', () => {
+    expect(diff.groups.colors.changed).toEqual([{ before: '#2563eb', after: '#1d4ed8', deltaE: expect.any(Number) }]);
+    expect(diff.groups.colors.changed[0].deltaE).toBeGreaterThan(0);
+    expect(diff.groups.colors.changed[0].deltaE).toBeLessThan(10);
+    expect(diff.groups.colors.removed).toEqual(['#ff0000']);
+    expect(diff.groups.colors.added).toEqual(['#00ff00']);
+
+    expect(diff.groups.spacing).toEqual({ added: ['64px'], removed: ['40px'], changed: [{ before: '16px', after: '18px' }] });
+    expect(diff.groups.fontSizes).toEqual({ added: [], removed: [], changed: [] });
+    expect(diff.summary).toMatchObject({ added: 2, removed: 2, changed: 2 });
+  });
+
+  it('detects renamed custom properties and value changes', () => {
+    expect(diff.customProperties.renamed).toEqual([{ before: '--brand', after: '--brand-primary', value: '#0f766e' }]);
+    expect(diff.customProperties.changed).toEqual([{ name: '--primary', before: '#2563eb', after: '#1d4ed8', deltaE: expect.any(Number) }]);
+    expect(diff.customProperties.removed).toEqual([{ name: '--legacy', value: '1px' }]);
+    expect(diff.customProperties.added).toEqual([{ name: '--focus', value: '2px' }]);
+    expect(diff.summary.customPropertiesChanged).toBe(4);
+    expect(renderDiffMarkdown(diff)).toContain('- `--brand` → `--brand-primary`: `#0f766e`');
+  });
+
+  it('does not pair renames when several properties share the value', () => {
+    const shared = diffSnapshots(
+      snapshotFromAnalysis(analysis({ customProperties: { '--a': '0', '--b': '0' } }), 'before.json'),
+      snapshotFromAnalysis(analysis({ customProperties: { '--c': '0' } }), 'after.json')
+    );
+    expect(shared.customProperties.renamed).toEqual([]);
+    expect(shared.customProperties.removed.map(entry => entry.name)).toEqual(['--a', '--b']);
+    expect(shared.customProperties.added.map(entry => entry.name)).toEqual(['--c']);
+  });
+
+  it('reports reassigned role bindings', () => {
+    expect(diff.roles).toEqual([{ name: 'accent.default', before: '#2563eb', after: '#1d4ed8', deltaE: expect.any(Number) }]);
+    expect(diff.summary.rolesReassigned).toBe(1);
+  });
+
+  it('lists groups only one side carries as not compared', () => {
+    const partial = diffSnapshots(
+      snapshotFromAnalysis(analysis({ colors: ['#ffffff'], shadows: ['0 1px 2px #000000'] }), 'before.json'),
+      snapshotFromAnalysis(analysis({ colors: ['#ffffff'], customProperties: {} }), 'after.json')
+    );
+    expect(partial.uncomparedGroups).toEqual(['shadows', 'customProperties']);
+    expect(partial.roles).toEqual([]);
+  });
+});
+
+describe('diff thresholds', () => {
+  const diff = diffSnapshots(snapshotFromAnalysis(BEFORE, 'before.json'), snapshotFromAnalysis(AFTER, 'after.json'));
+  const same = diffSnapshots(snapshotFromAnalysis(BEFORE, 'before.json'), snapshotFromAnalysis(BEFORE, 'after.json'));
+  const largestDeltaE = diff.groups.colors.changed[0].deltaE!;
+
+  it('exits with 0 without thresholds or within them', () => {
+    expect(diffExitCode(diff, {})).toBe(0);
+    expect(diffExitCode(same, { maxChanges: 0, maxDeltaE: 0 })).toBe(0);
+    expect(diffExitCode(diff, { maxChanges: 11, maxDeltaE: largestDeltaE })).toBe(0);
+  });
+
+  it('exits with the threshold code when a threshold is exceeded', () => {
+    expect(THRESHOLD_EXIT_CODE).toBe(2);
+    expect(exceededThresholds(diff, { maxChanges: 10 })).toEqual(['11 changes (max 10)']);
+    expect(diffExitCode(diff, { maxChanges: 10 })).toBe(THRESHOLD_EXIT_CODE);
+    expect(exceededThresholds(diff, { maxDeltaE: 1 })).toEqual([`ΔE ${largestDeltaE.toFixed(2)} (max 1)`]);
+    expect(diffExitCode(diff, { maxDeltaE: 1 })).toBe(THRESHOLD_EXIT_CODE);
+  });
+});
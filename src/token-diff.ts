@@ -0,0 +1,541 @@
+// Compares two analyses (saved JSON outputs or live URLs) token by token and renders the
+// result as JSON, Markdown or a standalone HTML report
+
+import { colorToLab, deltaE2000, normalizeColorToHex } from './color-analysis';
+import { colorAlpha, generateCanonical } from './canonical-formatter';
+import { extractStylesFromUrl } from './extractor';
+import { HttpClient } from './http-client';
+import { resolveCanonicalDocument, resolveRoleBindings } from './role-resolver';
+import type { DiffThresholds, ExtractionOptions, TokenDiff, TokenDiffSide, TokenGroupDiff, TokenValueChange, ValidationError } from './types';
+
+// Every value group of ExtractedTokens, in output order
+const TOKEN_GROUPS = [
+  'colors', 'fontSizes', 'fontFamilies', 'fontWeights', 'lineHeights', 'letterSpacings', 'spacing', 'radii',
+  'shadows', 'gradients', 'breakpoints', 'zIndices', 'transitions', 'opacity', 'aspectRatios', 'borderWidths', 'borderStyles'
+];
+
+// Groups whose values are numbers or lengths, so a removed and an added value can be the same token resized
+const NUMERIC_GROUPS = [
+  'fontSizes', 'fontWeights', 'lineHeights', 'letterSpacings', 'spacing', 'radii', 'breakpoints', 'zIndices', 'opacity', 'borderWidths'
+];
+
+// Beyond these a removed/added pair reads as two different tokens rather than one that moved
+const MAX_CHANGED_DELTA_E = 10;
+const MAX_CHANGED_RELATIVE = 0.2;
+
+// Exit code of `npm run diff` when a threshold is exceeded (1 is a failed run)
+export const THRESHOLD_EXIT_CODE = 2;
+
+export interface TokenSnapshot {
+  side: TokenDiffSide;
+  groups: Record<string, string[]>;
+  customProperties: Record<string, string> | null; // null when the snapshot does not carry them
+  roles: Record<string, string | null> | null; // null when the snapshot has no role bindings
+}
+
+function createDiffError(code: string, message: string): ValidationError {
+  const error = new Error(message) as ValidationError;
+  error.name = 'ValidationError';
+  error.code = code;
+  return error;
+}
+
+function customPropertyValue(entry: any): string | null {
+  if (typeof entry === 'string') return entry;
+  if (entry && typeof entry === 'object') {
+    if (typeof entry.value === 'string') return entry.value;
+    if (typeof entry.v === 'string') return entry.v; // --compact output
+  }
+  return null;
+}
+
+function bindingsToRoles(bindings: any): Record<string, string | null> | null {
+  if (!bindings || typeof bindings.bindings !== 'object' || !bindings.bindings) return null;
+  const roles: Record<string, string | null> = {};
+  Object.keys(bindings.bindings).forEach(role => {
+    const binding = bindings.bindings[role];
+    roles[role] = binding && typeof binding.hex === 'string' ? binding.hex : null;
+  });
+  return roles;
+}
+
+// Accepts every JSON output the CLI writes: json (full or --compact), shadcn .analysis.json,
+// canonical, multi-source and multi-source-debug
+export function snapshotFromAnalysis(data: any, label: string): TokenSnapshot {
+  if (!data || typeof data !== 'object') {
+    throw createDiffError('INVALID_ANALYSIS', `${label}: analysis JSON must be an object`);
+  }
+  const meta = data.meta || {};
+  const side: TokenDiffSide = {
+    label,
+    source: typeof meta.source === 'string' ? meta.source : undefined,
+    extractedAt: typeof meta.extractedAt === 'string' ? meta.extractedAt : undefined,
+    hasRoleBindings: false
+  };
+
+  // canonical.json: no value groups, but custom properties and role candidates
+  if (Array.isArray(data.tokens) && typeof data.roleDictionary === 'string') {
+    const customProperties: Record<string, string> = {};
+    data.tokens.forEach((token: any) => {
+      if (typeof token.id === 'string' && token.id.startsWith('--')) customProperties[token.id] = token.valueResolved;
+    });
+    const roles = bindingsToRoles(resolveCanonicalDocument(data));
+    side.source = data.coverage?.urls?.[0];
+    side.hasRoleBindings = true;
+    return { side, groups: {}, customProperties, roles };
+  }
+
+  const tokens = data.mergedTokens || data.tokens;
+  if (!tokens || typeof tokens !== 'object' || Array.isArray(tokens)) {
+    throw createDiffError('INVALID_ANALYSIS', `${label}: not a recognized analysis JSON (expected a json, shadcn .analysis.json, canonical or multi-source output)`);
+  }
+  if (!side.source && Array.isArray(data.sources) && data.sources[0]) side.source = data.sources[0].url;
+
+  const groups: Record<string, string[]> = {};
+  TOKEN_GROUPS.forEach(group => {
+    const value = tokens[group];
+    const values = Array.isArray(value) ? value : value && Array.isArray(value.values) ? value.values : null;
+    if (values) groups[group] = values.filter((v: any) => typeof v === 'string');
+  });
+
+  let customProperties: Record<string, string> | null = null;
+  if (tokens.customProperties && typeof tokens.customProperties === 'object') {
+    const declared: Record<string, string> = {};
+    Object.keys(tokens.customProperties).forEach(name => {
+      const value = customPropertyValue(tokens.customProperties[name]);
+      if (value !== null) declared[name] = value;
+    });
+    customProperties = declared;
+  }
+
+  // Full json output carries frequencies, so bindings can be resolved the same way the shadcn format does
+  let roles = bindingsToRoles(data.bindings);
+  if (!roles && tokens.colors && Array.isArray(tokens.colors.frequency)) {
+    try {
+      roles = bindingsToRoles(resolveRoleBindings(generateCanonical(tokens, meta).tokens));
+    } catch (error) {
+      console.warn(`${label}: could not resolve role bindings:`, error instanceof Error ? error.message : error);
+    }
+  }
+  side.hasRoleBindings = roles !== null;
+
+  return { side, groups, customProperties, roles };
+}
+
+export async function snapshotFromUrl(url: string, httpClient: HttpClient, options: ExtractionOptions = {}): Promise<TokenSnapshot> {
+  const { tokens, meta } = await extractStylesFromUrl(url, httpClient, options);
+  const bindings = resolveRoleBindings(generateCanonical(tokens, meta).tokens);
+  return snapshotFromAnalysis({ meta, tokens, bindings }, url);
+}
+
+// Identity of a value: colors by hex (+ alpha), everything else by its text without case, quotes or extra spaces
+function valueKey(value: string, isColor: boolean): string {
+  const text = value.trim().toLowerCase();
+  if (isColor) {
+    const hex = normalizeColorToHex(text);
+    if (/^#[0-9a-f]{6}$/.test(hex)) {
+      const alpha = colorAlpha(text);
+      return alpha < 1 ? `${hex}/${alpha}` : hex;
+    }
+  }
+  return text.replace(/["']/g, '').replace(/\s+/g, ' ');
+}
+
+function colorDelta(before: string, after: string): number | undefined {
+  const labBefore = colorToLab(before);
+  const labAfter = colorToLab(after);
+  if (!labBefore || !labAfter) return undefined;
+  return Math.round(deltaE2000(labBefore, labAfter) * 100) / 100;
+}
+
+// Lengths in px (rem/em at 16px); unitless numbers stay unitless so they never pair with lengths
+function numericValue(value: string): { n: number; unit: string } | null {
+  const match = value.trim().toLowerCase().match(/^(-?(?:\d+\.?\d*|\.\d+))(px|rem|em)?$/);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  return match[2] ? { n: match[2] === 'px' ? n : n * 16, unit: 'px' } : { n, unit: '' };
+}
+
+function relativeDistance(before: string, after: string): number | undefined {
+  const a = numericValue(before);
+  const b = numericValue(after);
+  if (!a || !b || a.unit !== b.unit) return undefined;
+  const scale = Math.max(Math.abs(a.n), Math.abs(b.n));
+  return scale === 0 ? 0 : Math.abs(a.n - b.n) / scale;
+}
+
+// Pairs removed and added values that are close enough to be one token that moved, closest first
+function pairChanges(group: string, removed: string[], added: string[]): TokenGroupDiff['changed'] {
+  const isColor = group === 'colors';
+  if (!isColor && NUMERIC_GROUPS.indexOf(group) === -1) return [];
+
+  const candidates: Array<{ before: string; after: string; distance: number; deltaE?: number }> = [];
+  removed.forEach(before => added.forEach(after => {
+    if (isColor) {
+      // Lab ignores alpha, so an overlay never pairs with a solid color
+      if (colorAlpha(before) !== colorAlpha(after)) return;
+      const deltaE = colorDelta(before, after);
+      if (deltaE !== undefined && deltaE <= MAX_CHANGED_DELTA_E) candidates.push({ before, after, distance: deltaE, deltaE });
+    } else {
+      const distance = relativeDistance(before, after);
+      if (distance !== undefined && distance <= MAX_CHANGED_RELATIVE) candidates.push({ before, after, distance });
+    }
+  }));
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const usedBefore = new Set<string>();
+  const usedAfter = new Set<string>();
+  const changed: TokenGroupDiff['changed'] = [];
+  candidates.forEach(candidate => {
+    if (usedBefore.has(candidate.before) || usedAfter.has(candidate.after)) return;
+    usedBefore.add(candidate.before);
+    usedAfter.add(candidate.after);
+    changed.push(candidate.deltaE !== undefined
+      ? { before: candidate.before, after: candidate.after, deltaE: candidate.deltaE }
+      : { before: candidate.before, after: candidate.after });
+  });
+  return changed;
+}
+
+function diffGroup(group: string, before: string[], after: string[]): TokenGroupDiff {
+  const isColor = group === 'colors';
+  const keyed = (values: string[]) => {
+    const byKey = new Map<string, string>();
+    values.forEach(value => {
+      const key = valueKey(value, isColor);
+      if (!byKey.has(key)) byKey.set(key, value);
+    });
+    return byKey;
+  };
+  const beforeByKey = keyed(before);
+  const afterByKey = keyed(after);
+
+  const removed = Array.from(beforeByKey.keys()).filter(key => !afterByKey.has(key)).map(key => beforeByKey.get(key)!);
+  const added = Array.from(afterByKey.keys()).filter(key => !beforeByKey.has(key)).map(key => afterByKey.get(key)!);
+  const changed = pairChanges(group, removed, added);
+
+  return {
+    added: added.filter(value => !changed.some(change => change.after === value)),
+    removed: removed.filter(value => !changed.some(change => change.before === value)),
+    changed
+  };
+}
+
+function valueChange(name: string, before: string | null, after: string | null): TokenValueChange {
+  const deltaE = before !== null && after !== null ? colorDelta(before, after) : undefined;
+  return deltaE !== undefined ? { name, before, after, deltaE } : { name, before, after };
+}
+
+function sameValue(a: string, b: string): boolean {
+  return valueKey(a, true) === valueKey(b, true);
+}
+
+// A removed and an added custom property read as one renamed property when they hold the same
+// value and no other removed or added property does
+function pairRenames(removed: Array<{ name: string; value: string }>, added: Array<{ name: string; value: string }>): TokenDiff['customProperties']['renamed'] {
+  const countByValue = (entries: Array<{ name: string; value: string }>) => {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => {
+      const key = valueKey(entry.value, true);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+  };
+  const removedCounts = countByValue(removed);
+  const addedCounts = countByValue(added);
+
+  const renamed: TokenDiff['customProperties']['renamed'] = [];
+  removed.forEach(entry => {
+    const key = valueKey(entry.value, true);
+    if (removedCounts.get(key) !== 1 || addedCounts.get(key) !== 1) return;
+    const match = added.find(candidate => valueKey(candidate.value, true) === key)!;
+    renamed.push({ before: entry.name, after: match.name, value: match.value });
+  });
+  return renamed;
+}
+
+export function diffSnapshots(before: TokenSnapshot, after: TokenSnapshot): TokenDiff {
+  const groups: Record<string, TokenGroupDiff> = {};
+  const uncomparedGroups: string[] = [];
+  TOKEN_GROUPS.forEach(group => {
+    const inBefore = before.groups[group] !== undefined;
+    const inAfter = after.groups[group] !== undefined;
+    if (inBefore && inAfter) groups[group] = diffGroup(group, before.groups[group], after.groups[group]);
+    else if (inBefore || inAfter) uncomparedGroups.push(group);
+  });
+
+  const customProperties: TokenDiff['customProperties'] = { added: [], removed: [], renamed: [], changed: [] };
+  if (before.customProperties && after.customProperties) {
+    const beforeProperties = before.customProperties;
+    const afterProperties = after.customProperties;
+    Object.keys(beforeProperties).sort().forEach(name => {
+      const value = beforeProperties[name];
+      if (!(name in afterProperties)) customProperties.removed.push({ name, value });
+      else if (!sameValue(value, afterProperties[name])) customProperties.changed.push(valueChange(name, value, afterProperties[name]));
+    });
+    Object.keys(afterProperties).sort().forEach(name => {
+      if (!(name in beforeProperties)) customProperties.added.push({ name, value: afterProperties[name] });
+    });
+    customProperties.renamed = pairRenames(customProperties.removed, customProperties.added);
+    customProperties.removed = customProperties.removed.filter(entry => !customProperties.renamed.some(rename => rename.before === entry.name));
+    customProperties.added = customProperties.added.filter(entry => !customProperties.renamed.some(rename => rename.after === entry.name));
+  } else if (before.customProperties || after.customProperties) {
+    uncomparedGroups.push('customProperties');
+  }
+
+  // Roles are only compared when both sides have bindings; an unbound role is null
+  const roles: TokenValueChange[] = [];
+  if (before.roles && after.roles) {
+    const beforeRoles = before.roles;
+    const afterRoles = after.roles;
+    const names = Object.keys(beforeRoles).concat(Object.keys(afterRoles).filter(role => !(role in beforeRoles)));
+    names.forEach(role => {
+      const was = beforeRoles[role] ?? null;
+      const now = afterRoles[role] ?? null;
+      if (was === null && now === null) return;
+      if (was === null || now === null || !sameValue(was, now)) roles.push(valueChange(role, was, now));
+    });
+  }
+
+  const groupDiffs = Object.keys(groups).map(group => groups[group]);
+  return {
+    before: before.side,
+    after: after.side,
+    summary: {
+      added: groupDiffs.reduce((sum, diff) => sum + diff.added.length, 0),
+      removed: groupDiffs.reduce((sum, diff) => sum + diff.removed.length, 0),
+      changed: groupDiffs.reduce((sum, diff) => sum + diff.changed.length, 0),
+      customPropertiesChanged: customProperties.added.length + customProperties.removed.length + customProperties.renamed.length + customProperties.changed.length,
+      rolesReassigned: roles.length
+    },
+    groups,
+    uncomparedGroups,
+    customProperties,
+    roles
+  };
+}
+
+// Why the diff fails `thresholds`; empty when it passes
+export function exceededThresholds(diff: TokenDiff, thresholds: DiffThresholds): string[] {
+  const exceeded: string[] = [];
+  const { summary } = diff;
+  const changes = summary.added + summary.removed + summary.changed + summary.customPropertiesChanged + summary.rolesReassigned;
+  if (thresholds.maxChanges !== undefined && changes > thresholds.maxChanges) {
+    exceeded.push(`${changes} changes (max ${thresholds.maxChanges})`);
+  }
+
+  if (thresholds.maxDeltaE !== undefined) {
+    const deltas: number[] = [];
+    Object.keys(diff.groups).forEach(group => diff.groups[group].changed.forEach(change => {
+      if (change.deltaE !== undefined) deltas.push(change.deltaE);
+    }));
+    diff.customProperties.changed.concat(diff.roles).forEach(change => {
+      if (change.deltaE !== undefined) deltas.push(change.deltaE);
+    });
+    const largest = deltas.length > 0 ? Math.max.apply(null, deltas) : 0;
+    if (largest > thresholds.maxDeltaE) exceeded.push(`ΔE ${formatDelta(largest)} (max ${thresholds.maxDeltaE})`);
+  }
+  return exceeded;
+}
+
+export function diffExitCode(diff: TokenDiff, thresholds: DiffThresholds): number {
+  return exceededThresholds(diff, thresholds).length > 0 ? THRESHOLD_EXIT_CODE : 0;
+}
+
+// -------- Markdown --------
+
+function formatDelta(deltaE?: number): string {
+  return deltaE !== undefined ? deltaE.toFixed(2) : '—';
+}
+
+function code(value: string | null): string {
+  return value === null ? '_unbound_' : `\`${value.replace(/`/g, "'").replace(/\|/g, '\\|')}\``;
+}
+
+function sideLine(side: TokenDiffSide): string {
+  const parts = [side.label];
+  if (side.source && side.source !== side.label) parts.push(`(${side.source})`);
+  if (side.extractedAt) parts.push(`extracted ${side.extractedAt}`);
+  return parts.join(' ');
+}
+
+export function renderDiffMarkdown(diff: TokenDiff): string {
+  const { summary } = diff;
+  const lines: string[] = [
+    '# Token diff',
+    '',
+    `Before: ${sideLine(diff.before)}`,
+    `After: ${sideLine(diff.after)}`,
+    '',
+    `${summary.added} added, ${summary.removed} removed, ${summary.changed} changed across token groups; ` +
+      `${summary.customPropertiesChanged} custom properties changed; ${summary.rolesReassigned} role bindings reassigned.`,
+    ''
+  ];
+
+  lines.push('## Role bindings', '');
+  if (!diff.before.hasRoleBindings || !diff.after.hasRoleBindings) {
+    lines.push('Not compared: at least one snapshot has no role bindings (compact json output, or a shadcn analysis written before bindings existed).', '');
+  } else if (diff.roles.length === 0) {
+    lines.push('No role was reassigned.', '');
+  } else {
+    lines.push('| Role | Before | After | ΔE |', '|------|--------|-------|----|');
+    diff.roles.forEach(change => lines.push(`| ${change.name} | ${code(change.before)} | ${code(change.after)} | ${formatDelta(change.deltaE)} |`));
+    lines.push('');
+  }
+
+  const { customProperties } = diff;
+  lines.push('## Custom properties', '');
+  if (diff.uncomparedGroups.indexOf('customProperties') !== -1) {
+    lines.push('Not compared: only one snapshot carries custom properties (shadcn analyses do not).', '');
+  } else if (summary.customPropertiesChanged === 0) {
+    lines.push('No custom property was added, removed, renamed or revalued.', '');
+  } else {
+    if (customProperties.changed.length) {
+      lines.push('| Property | Before | After | ΔE |', '|----------|--------|-------|----|');
+      customProperties.changed.forEach(change => lines.push(`| ${code(change.name)} | ${code(change.before)} | ${code(change.after)} | ${formatDelta(change.deltaE)} |`));
+      lines.push('');
+    }
+    if (customProperties.renamed.length) {
+      lines.push(`Renamed (${customProperties.renamed.length}):`, '');
+      customProperties.renamed.forEach(entry => lines.push(`- ${code(entry.before)} → ${code(entry.after)}: ${code(entry.value)}`));
+      lines.push('');
+    }
+    if (customProperties.added.length) {
+      lines.push(`Added (${customProperties.added.length}):`, '');
+      customProperties.added.forEach(entry => lines.push(`- ${code(entry.name)}: ${code(entry.value)}`));
+      lines.push('');
+    }
+    if (customProperties.removed.length) {
+      lines.push(`Removed (${customProperties.removed.length}):`, '');
+      customProperties.removed.forEach(entry => lines.push(`- ${code(entry.name)}: ${code(entry.value)}`));
+      lines.push('');
+    }
+  }
+
+  lines.push('## Token groups', '');
+  const groupNames = Object.keys(diff.groups);
+  groupNames.forEach(group => {
+    const groupDiff = diff.groups[group];
+    const total = groupDiff.added.length + groupDiff.removed.length + groupDiff.changed.length;
+    if (total === 0) return;
+    lines.push(`### ${group} (+${groupDiff.added.length} −${groupDiff.removed.length} ~${groupDiff.changed.length})`, '');
+    groupDiff.changed.forEach(change => {
+      lines.push(`- changed ${code(change.before)} → ${code(change.after)}${change.deltaE !== undefined ? ` (ΔE ${formatDelta(change.deltaE)})` : ''}`);
+    });
+    if (groupDiff.added.length) lines.push(`- added ${groupDiff.added.map(code).join(', ')}`);
+    if (groupDiff.removed.length) lines.push(`- removed ${groupDiff.removed.map(code).join(', ')}`);
+    lines.push('');
+  });
+  const unchanged = groupNames.filter(group => {
+    const groupDiff = diff.groups[group];
+    return groupDiff.added.length + groupDiff.removed.length + groupDiff.changed.length === 0;
+  });
+  if (unchanged.length) lines.push(`Unchanged: ${unchanged.join(', ')}.`, '');
+  if (diff.uncomparedGroups.length) lines.push(`Not compared (missing from one snapshot): ${diff.uncomparedGroups.join(', ')}.`, '');
+
+  lines.push(
+    `"Changed" pairs a removed and an added value when they are close enough to be one token that moved: ` +
+      `colors within ΔE2000 ${MAX_CHANGED_DELTA_E}, lengths and numbers within ${MAX_CHANGED_RELATIVE * 100}%. ` +
+      'ΔE below 1 is imperceptible, 1-2 is visible side by side, above 5 is a clearly different shade.',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+// -------- HTML --------
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Only normalized hex ever reaches a style attribute
+function swatch(value: string | null): string {
+  if (value === null) return '<em>unbound</em>';
+  const hex = normalizeColorToHex(value.trim().toLowerCase());
+  const chip = /^#[0-9a-f]{6}$/.test(hex) ? `<span class="swatch" style="background:${hex}"></span>` : '';
+  return `${chip}<code>${escapeHtml(value)}</code>`;
+}
+
+function changeRows(changes: TokenValueChange[]): string {
+  return changes.map(change =>
+    `<tr><td><code>${escapeHtml(change.name)}</code></td><td>${swatch(change.before)}</td><td>${swatch(change.after)}</td><td>${formatDelta(change.deltaE)}</td></tr>`
+  ).join('\n');
+}
+
+export function renderDiffHtml(diff: TokenDiff): string {
+  const { summary } = diff;
+  const sections: string[] = [];
+
+  if (diff.before.hasRoleBindings && diff.after.hasRoleBindings) {
+    sections.push('<h2>Role bindings</h2>', diff.roles.length
+      ? `<table><thead><tr><th>Role</th><th>Before</th><th>After</th><th>ΔE</th></tr></thead><tbody>\n${changeRows(diff.roles)}\n</tbody></table>`
+      : '<p>No role was reassigned.</p>');
+  } else {
+    sections.push('<h2>Role bindings</h2>', '<p>Not compared: at least one snapshot has no role bindings.</p>');
+  }
+
+  const { customProperties } = diff;
+  sections.push('<h2>Custom properties</h2>');
+  if (customProperties.changed.length) {
+    sections.push(`<table><thead><tr><th>Property</th><th>Before</th><th>After</th><th>ΔE</th></tr></thead><tbody>\n${changeRows(customProperties.changed)}\n</tbody></table>`);
+  }
+  const propertyList = (title: string, entries: Array<{ name: string; value: string }>, className: string) => entries.length
+    ? `<h3>${title} (${entries.length})</h3><ul class="${className}">${entries.map(entry => `<li><code>${escapeHtml(entry.name)}</code> ${swatch(entry.value)}</li>`).join('')}</ul>`
+    : '';
+  if (customProperties.renamed.length) {
+    sections.push(`<h3>Renamed (${customProperties.renamed.length})</h3><ul class="changed">${customProperties.renamed.map(entry =>
+      `<li><code>${escapeHtml(entry.before)}</code> → <code>${escapeHtml(entry.after)}</code> ${swatch(entry.value)}</li>`
+    ).join('')}</ul>`);
+  }
+  sections.push(propertyList('Added', customProperties.added, 'added'), propertyList('Removed', customProperties.removed, 'removed'));
+  if (diff.uncomparedGroups.indexOf('customProperties') !== -1) sections.push('<p>Not compared: only one snapshot carries custom properties.</p>');
+  else if (summary.customPropertiesChanged === 0) sections.push('<p>No custom property was added, removed, renamed or revalued.</p>');
+
+  sections.push('<h2>Token groups</h2>');
+  Object.keys(diff.groups).forEach(group => {
+    const groupDiff = diff.groups[group];
+    if (groupDiff.added.length + groupDiff.removed.length + groupDiff.changed.length === 0) return;
+    const isColor = group === 'colors';
+    const value = (v: string) => isColor ? swatch(v) : `<code>${escapeHtml(v)}</code>`;
+    sections.push(`<h3>${escapeHtml(group)} <small>+${groupDiff.added.length} −${groupDiff.removed.length} ~${groupDiff.changed.length}</small></h3>`);
+    if (groupDiff.changed.length) {
+      sections.push(`<ul class="changed">${groupDiff.changed.map(change =>
+        `<li>${value(change.before)} → ${value(change.after)}${change.deltaE !== undefined ? ` <small>ΔE ${formatDelta(change.deltaE)}</small>` : ''}</li>`
+      ).join('')}</ul>`);
+    }
+    if (groupDiff.added.length) sections.push(`<ul class="added">${groupDiff.added.map(v => `<li>${value(v)}</li>`).join('')}</ul>`);
+    if (groupDiff.removed.length) sections.push(`<ul class="removed">${groupDiff.removed.map(v => `<li>${value(v)}</li>`).join('')}</ul>`);
+  });
+  if (diff.uncomparedGroups.length) {
+    sections.push(`<p>Not compared (missing from one snapshot): ${escapeHtml(diff.uncomparedGroups.join(', '))}.</p>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Token diff</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1a1a1a; }
+  table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; }
+  th, td { border-bottom: 1px solid #e5e5e5; padding: 0.35rem 0.5rem; text-align: left; vertical-align: middle; }
+  code { font-size: 12px; }
+  .swatch { display: inline-block; width: 1rem; height: 1rem; border: 1px solid #ccc; border-radius: 3px; margin-right: 0.4rem; vertical-align: middle; }
+  ul { list-style: none; padding-left: 0; }
+  li { padding: 0.15rem 0; }
+  ul.added li::before { content: '+ '; color: #15803d; }
+  ul.removed li::before { content: '− '; color: #b91c1c; }
+  ul.changed li::before { content: '~ '; color: #a16207; }
+</style>
+</head>
+<body>
+<h1>Token diff</h1>
+<p>Before: ${escapeHtml(sideLine(diff.before))}<br>After: ${escapeHtml(sideLine(diff.after))}</p>
+<p><strong>${summary.added} added, ${summary.removed} removed, ${summary.changed} changed</strong> across token groups;
+${summary.customPropertiesChanged} custom properties changed; ${summary.rolesReassigned} role bindings reassigned.</p>
+${sections.filter(Boolean).join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,64 @@
+import safeParser from 'postcss-safe-parser';
+import { detectRootFontSize, extractTypeScale, mergeTypeScales } from './type-scale';
+
+function scaleOf(css: string) {
+  const root = safeParser(css);
+  const rootPx = detectRootFontSize(root, {});
+  return extractTypeScale(root, {}, rootPx);
+}
+
+describe('detectRootFontSize', () => {
+  it('reads the unconditional html / :root font-size', () => {
+    expect(detectRootFontSize(safeParser('html { font-size: 62.5%; }'), {})).toBe(10);
+    expect(detectRootFontSize(safeParser(':root { font-size: 18px; } @media (min-width: 900px) { :root { font-size: 20px; } }'), {})).toBe(18);
+  });
+
+  it('defaults to 16px', () => {
+    expect(detectRootFontSize(safeParser('body { font-size: 14px; }'), {})).toBe(16);
+  });
+});
+
+describe('extractTypeScale', () => {
+  const css = `
+    body { font-family: Inter, sans-serif; font-size: 1rem; line-height: 1.5; }
+    h1 { font-size: 3.052rem; line-height: 1.1; }
+    h2 { font-size: 2.441rem; }
+    h3 { font-size: 1.953rem; }
+    h4 { font-size: 1.563rem; }
+    h5 { font-size: 1.25rem; }
+    small { font-size: 0.8rem; }
+    @media (min-width: 768px) { h1 { font-size: 4rem; } }
+    .card h3 { font-size: 1rem; }
+  `;
+
+  it('fits a named modular scale to the heading sizes', () => {
+    const scale = scaleOf(css)!;
+
+    expect(scale.base).toBe('1rem');
+    expect(scale.ratio).toBe(1.25);
+    expect(scale.ratioName).toBe('Major Third');
+    expect(scale.fit).toBeGreaterThan(0.9);
+  });
+
+  it('pairs font properties per role, ignoring conditional and nested rules', () => {
+    const roles = scaleOf(css)!.roles;
+    const h1 = roles.filter(style => style.role === 'h1')[0];
+    const h3 = roles.filter(style => style.role === 'h3')[0];
+
+    expect(h1).toMatchObject({ fontSize: '3.052rem', fontWeight: '700', lineHeight: '1.1', step: 5 });
+    expect(h1.inherited).toContain('font-family');
+    expect(h3.fontSize).toBe('1.953rem');
+  });
+
+  it('returns undefined when no text role is styled', () => {
+    expect(scaleOf('.grid { display: grid; }')).toBeUndefined();
+  });
+
+  it('merges crawled scales role by role, first page first', () => {
+    const first = scaleOf('body { font-size: 16px; } h1 { font-size: 32px; }')!;
+    const second = scaleOf('body { font-size: 16px; } h1 { font-size: 40px; } h2 { font-size: 24px; }')!;
+    const merged = mergeTypeScales([first, second]);
+
+    expect(merged.roles.map(style => `${style.role}:${style.fontSizePx}`)).toEqual(['h1:32', 'h2:24', 'body:16']);
+  });
+});
@@ -0,0 +1,288 @@
+import { Root, Rule } from 'postcss';
+import type { ExtractedTokens, TextRole, TextStyle, TypeScale } from './types';
+
+const ROLE_ORDER: TextRole[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'lead', 'body', 'paragraph', 'small', 'caption', 'button'];
+
+// Matched against the subject (last compound) of each selector, so `.prose h2` styles h2 too
+const ROLE_SELECTORS: Array<[TextRole, RegExp]> = [
+  ['h1', /^(h1|\.h1|\.heading-1|\.text-h1)$/i],
+  ['h2', /^(h2|\.h2|\.heading-2|\.text-h2)$/i],
+  ['h3', /^(h3|\.h3|\.heading-3|\.text-h3)$/i],
+  ['h4', /^(h4|\.h4|\.heading-4|\.text-h4)$/i],
+  ['h5', /^(h5|\.h5|\.heading-5|\.text-h5)$/i],
+  ['h6', /^(h6|\.h6|\.heading-6|\.text-h6)$/i],
+  ['lead', /^(p)?\.(lead|lede)$/i],
+  ['body', /^body$/i],
+  ['paragraph', /^p$/i],
+  ['small', /^(small|\.small|\.text-small|\.text-sm)$/i],
+  ['caption', /^(figcaption|caption|\.caption|\.text-caption|\.figure-caption)$/i],
+  ['button', /^(button|\.btn|\.button|(input)?\[type=["']?(submit|button)["']?\])$/i]
+];
+
+// Browser stylesheet sizes (em of the parent) for roles whose rules leave font-size alone
+const UA_SIZES: Partial<Record<TextRole, number>> = { h1: 2, h2: 1.5, h3: 1.17, h4: 1, h5: 0.83, h6: 0.67, small: 0.83 };
+const FONT_SIZE_KEYWORDS: Record<string, number> = { 'xx-small': 9, 'x-small': 10, small: 13, medium: 16, large: 18, 'x-large': 24, 'xx-large': 32, 'xxx-large': 48 };
+const HEADINGS: TextRole[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+const NAMED_SCALES: Array<[string, number]> = [
+  ['Minor Second', 1.067],
+  ['Major Second', 1.125],
+  ['Minor Third', 1.2],
+  ['Major Third', 1.25],
+  ['Perfect Fourth', 1.333],
+  ['Augmented Fourth', 1.414],
+  ['Perfect Fifth', 1.5],
+  ['Golden Ratio', 1.618]
+];
+
+const FONT_PROPERTIES = ['font-family', 'font-size', 'font-weight', 'line-height', 'letter-spacing'];
+
+interface RoleCandidate {
+  selector: string;
+  depth: number; // Compounds in the selector; bare `h1` beats `.card h1`
+  conditional: boolean; // Inside @media/@supports/@container
+  declared: Record<string, string>;
+}
+
+function round(n: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(n * factor) / factor;
+}
+
+function resolveValue(value: string, customProperties: ExtractedTokens['customProperties']): string {
+  return value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/g, (whole, name: string, fallback?: string) => {
+    const property = customProperties[name];
+    if (property && property.value) return property.value;
+    return fallback !== undefined ? fallback.trim() : whole;
+  });
+}
+
+// `font: italic 700 2rem/1.2 Inter, sans-serif` -> longhands; the shorthand resets what it omits
+function expandFontShorthand(value: string): Record<string, string> | null {
+  const match = /^((?:[\w-]+\s+)*?)(\d*\.?\d+(?:px|rem|em|%|pt|vw|vh)|(?:xx?x?-)?(?:small|large)|medium)(?:\s*\/\s*([^\s,]+))?\s+(.+)$/i.exec(value.trim());
+  if (!match) return null;
+  const weight = match[1].trim().split(/\s+/).filter(word => /^([1-9]00|bold|bolder|lighter)$/i.test(word))[0];
+  return {
+    'font-family': match[4],
+    'font-size': match[2],
+    'font-weight': weight || '400',
+    'line-height': match[3] || 'normal'
+  };
+}
+
+function fontDeclarations(rule: Rule, customProperties: ExtractedTokens['customProperties']): Record<string, string> {
+  const declared: Record<string, string> = {};
+  rule.each(node => {
+    if (node.type !== 'decl') return;
+    const prop = node.prop.toLowerCase();
+    const value = resolveValue(node.value.trim(), customProperties);
+    if (prop === 'font') {
+      const expanded = expandFontShorthand(value);
+      if (expanded) Object.assign(declared, expanded);
+    } else if (FONT_PROPERTIES.indexOf(prop) !== -1) {
+      declared[prop] = value;
+    }
+  });
+  return declared;
+}
+
+function isConditional(rule: Rule): boolean {
+  let parent: any = rule.parent;
+  while (parent && parent.type !== 'root') {
+    if (parent.type === 'atrule' && !/^layer$/i.test(parent.name)) return true;
+    parent = parent.parent;
+  }
+  return false;
+}
+
+// Font size in px; clamp() counts at its maximum, calc() and unresolved var() are unknown
+function fontSizePx(value: string, rootPx: number, parentPx: number): number | null {
+  let text = value.trim().toLowerCase();
+  const clamp = /^clamp\((.*)\)$/.exec(text);
+  if (clamp) text = clamp[1].split(',').pop()!.trim();
+  if (FONT_SIZE_KEYWORDS[text] !== undefined) return FONT_SIZE_KEYWORDS[text];
+  const match = /^(\d*\.?\d+)(px|rem|em|%|pt)$/.exec(text);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'rem': return round(n * rootPx);
+    case 'em': return round(n * parentPx);
+    case '%': return round(n / 100 * parentPx);
+    case 'pt': return round(n * 4 / 3);
+    default: return n;
+  }
+}
+
+// Later rules of the simplest, unconditional selectors win, as in the cascade
+function cascadeRole(candidates: RoleCandidate[]): { selector: string; declared: Record<string, string> } {
+  const rank = (candidate: RoleCandidate) => (candidate.conditional ? 100 : 0) + candidate.depth;
+  const best = Math.min(...candidates.map(rank));
+  const tier = candidates.filter(candidate => rank(candidate) === best);
+  const declared: Record<string, string> = {};
+  tier.forEach(candidate => Object.assign(declared, candidate.declared));
+  return { selector: tier[0].selector, declared };
+}
+
+function normalizeWeight(weight: string): string {
+  const lower = weight.trim().toLowerCase();
+  return lower === 'bold' ? '700' : lower === 'normal' ? '400' : lower;
+}
+
+function buildStyle(
+  role: TextRole,
+  cascaded: { selector: string; declared: Record<string, string> },
+  body: Record<string, string>,
+  bodyPx: number,
+  rootPx: number
+): TextStyle | null {
+  const { selector, declared } = cascaded;
+  const inherited: string[] = [];
+  const parentPx = role === 'body' ? rootPx : bodyPx;
+
+  let sizePx: number | null;
+  if (declared['font-size']) {
+    sizePx = fontSizePx(declared['font-size'], rootPx, parentPx);
+    if (sizePx === null) return null;
+  } else {
+    inherited.push('font-size');
+    sizePx = round(parentPx * (UA_SIZES[role] || 1));
+  }
+  const declaredSize = declared['font-size'] && declared['font-size'].trim();
+  const portable = declaredSize && /^\d*\.?\d+(px|rem)$/i.test(declaredSize);
+
+  // Undeclared properties inherit from body; headings are bold by the browser's own stylesheet
+  const inherit = (prop: string, fallback?: string): string | undefined => {
+    if (declared[prop]) return declared[prop];
+    inherited.push(prop);
+    return role !== 'body' && body[prop] && !(prop === 'font-weight' && HEADINGS.indexOf(role) !== -1) ? body[prop] : fallback;
+  };
+  const fontFamily = inherit('font-family');
+  const fontWeight = inherit('font-weight', HEADINGS.indexOf(role) !== -1 ? '700' : '400')!;
+  const lineHeight = inherit('line-height');
+  const letterSpacing = inherit('letter-spacing');
+
+  const style: TextStyle = {
+    role,
+    selector,
+    fontSize: portable ? declaredSize! : `${round(sizePx / rootPx, 4)}rem`,
+    fontSizePx: sizePx,
+    fontWeight: normalizeWeight(fontWeight),
+    inherited: FONT_PROPERTIES.filter(prop => inherited.indexOf(prop) !== -1)
+  };
+  if (declaredSize && !portable) style.declaredSize = declaredSize;
+  if (fontFamily) style.fontFamily = fontFamily;
+  if (lineHeight) style.lineHeight = lineHeight;
+  if (letterSpacing) style.letterSpacing = letterSpacing;
+  return style;
+}
+
+// Base size from running text, then the named ratio whose steps the other sizes land on best.
+// Small ratios fit anything, so a ratio's score also counts how many of its steps go unused.
+function fitScale(roles: TextStyle[], rootPx: number): TypeScale {
+  const anchor = roles.filter(style => style.role === 'paragraph' && style.inherited.indexOf('font-size') === -1)[0]
+    || roles.filter(style => style.role === 'body')[0];
+  const basePx = anchor ? anchor.fontSizePx : rootPx;
+  const scale: TypeScale = { base: anchor ? anchor.fontSize : '1rem', basePx, rootPx, roles };
+
+  const sizes = Array.from(new Set(roles
+    .filter(style => ['body', 'paragraph', 'button'].indexOf(style.role) === -1)
+    .map(style => style.fontSizePx)))
+    .filter(px => Math.abs(Math.log(px / basePx)) > 0.01);
+  if (sizes.length < 2) return scale;
+
+  const exponents = sizes.map(px => Math.log(px / basePx));
+  let best: { name: string; steps: number[]; fit: number; score: number } | null = null;
+  for (const [name, ratio] of NAMED_SCALES) {
+    const step = Math.log(ratio);
+    const steps = exponents.map(e => Math.round(e / step));
+    const residual = exponents.reduce((sum, e, i) => sum + Math.abs(e - steps[i] * step) / (step / 2), 0) / exponents.length;
+    const used = Array.from(new Set(steps.concat([0])));
+    const span = Math.max(...used) - Math.min(...used) + 1;
+    const score = (1 - residual) * used.length / span;
+    if (!best || score > best.score) best = { name, steps, fit: 1 - residual, score };
+  }
+  const chosen = best!;
+
+  // Least-squares ratio for the chosen step assignment, so 1.24 is reported as such
+  const numerator = exponents.reduce((sum, e, i) => sum + e * chosen.steps[i], 0);
+  const denominator = chosen.steps.reduce((sum, n) => sum + n * n, 0);
+  if (denominator === 0) return scale;
+  const ratio = round(Math.exp(numerator / denominator), 3);
+
+  scale.ratio = ratio;
+  scale.ratioName = chosen.name;
+  scale.fit = round(chosen.fit);
+  roles.forEach(style => {
+    style.step = Math.round(Math.log(style.fontSizePx / basePx) / Math.log(ratio));
+  });
+  return scale;
+}
+
+function selectorCompounds(selector: string): string[] {
+  return selector.trim().split(/\s*[>+~]\s*|\s+/).filter(Boolean);
+}
+
+// What 1rem is in px: the last unconditional `html` / `:root` font-size, 16 when the site sets none
+export function detectRootFontSize(root: Root, customProperties: ExtractedTokens['customProperties']): number {
+  let rootSize: string | undefined;
+  root.walkRules(rule => {
+    if (isConditional(rule) || !rule.selectors.some(selector => /^(html|:root)$/i.test(selector.trim()))) return;
+    const declared = fontDeclarations(rule, customProperties);
+    if (declared['font-size']) rootSize = declared['font-size'];
+  });
+  return (rootSize && fontSizePx(rootSize, 16, 16)) || 16;
+}
+
+// Pair the font declarations of the rules styling each text role (h1-h6, body, p, small, .lead,
+// captions, buttons), fill what they leave out from body and browser defaults, and infer the
+// modular scale behind the sizes
+export function extractTypeScale(root: Root, customProperties: ExtractedTokens['customProperties'], rootPx: number): TypeScale | undefined {
+  const candidates: Partial<Record<TextRole, RoleCandidate[]>> = {};
+
+  root.walkRules(rule => {
+    const declared = fontDeclarations(rule, customProperties);
+    if (Object.keys(declared).length === 0) return;
+    const conditional = isConditional(rule);
+    rule.selectors.forEach(selector => {
+      const compounds = selectorCompounds(selector);
+      const subject = compounds[compounds.length - 1] || '';
+      const match = ROLE_SELECTORS.filter(([, pattern]) => pattern.test(subject))[0];
+      if (!match) return;
+      const list = candidates[match[0]] || (candidates[match[0]] = []);
+      list.push({ selector: selector.trim(), depth: compounds.length, conditional, declared });
+    });
+  });
+  if (Object.keys(candidates).length === 0) return undefined;
+
+  const body = candidates.body ? cascadeRole(candidates.body).declared : {};
+  const bodyPx = (body['font-size'] && fontSizePx(body['font-size'], rootPx, rootPx)) || rootPx;
+
+  const roles: TextStyle[] = [];
+  ROLE_ORDER.forEach(role => {
+    const list = candidates[role];
+    const style = list ? buildStyle(role, cascadeRole(list), body, bodyPx, rootPx) : null;
+    if (style) roles.push(style);
+  });
+  return roles.length > 0 ? fitScale(roles, rootPx) : undefined;
+}
+
+// Crawls: each role comes from the first page that styles it, then the scale is fitted again
+export function mergeTypeScales(scales: TypeScale[]): TypeScale {
+  const roles: TextStyle[] = [];
+  ROLE_ORDER.forEach(role => {
+    for (const scale of scales) {
+      const style = scale.roles.filter(candidate => candidate.role === role)[0];
+      if (style) {
+        const { step, ...rest } = style;
+        roles.push({ ...rest, inherited: style.inherited.slice() });
+        break;
+      }
+    }
+  });
+  return fitScale(roles, scales[0].rootPx);
+}
+
+// Scale facts without the per-role styles, for output metadata
+export function typeScaleSummary(scale: TypeScale): { base: string; ratio?: number; ratioName?: string; fit?: number } {
+  return { base: scale.base, ratio: scale.ratio, ratioName: scale.ratioName, fit: scale.fit };
+}
@@ -1,5 +1,5 @@
 export interface Options {
-  format?: 'json' | 'style-dictionary' | 'shadcn' | 'tailwind' | 'theme-json';
+  format?: 'json' | 'style-dictionary' | 'dtcg' | 'shadcn' | 'tailwind' | 'theme-json' | 'canonical' | 'figma-variables' | 'tokens-studio';
   compact?: boolean;
   allFormats?: boolean;
   colorFormat?: 'hsl' | 'oklch' | 'hex';
@@ -3,6 +3,8 @@ export interface ExtractedTokens {
     value: string;
     references: number;
     refVariable?: string;
+    expression?: string; // Declared value when var() resolution changed it
+    conditions?: Record<string, string>; // Values declared under @media/@supports/@container, by condition key
   }>;
   colors: TokenGroup;
   colorsFromVariables?: string[]; // Colors that come from CSS custom properties
@@ -22,6 +24,120 @@ export interface ExtractedTokens {
   aspectRatios: TokenGroup;
   borderWidths: TokenGroup;
   borderStyles: TokenGroup;
+  typography?: TokenGroup; // Font properties declared together in one rule, as a declaration block
+  borders?: TokenGroup; // border shorthands (width style color)
+  colorSchemes?: ColorSchemeTokens; // Present when the CSS ships scheme-specific rules
+  fonts?: FontInventory; // Web fonts the page loads and how its font-family stacks use them
+  typeScale?: TypeScale; // Present when rules style at least one text role (h1-h6, body, p, ...)
+  spacingScale?: SpacingScale; // margin/padding/gap values in px, fitted to the site's base grid
+  conditions?: TokenCondition[]; // At-rule contexts values were declared in, most declarations first
+  usage?: Record<string, TokenUsage>; // Keyed by tokenUsageKey(), e.g. `color:#0a0a0a` or `var:--primary`
+}
+
+// Spacing normalized to px with the detected root font-size; the base grid is the largest unit
+// most declarations are multiples of
+export interface SpacingScale {
+  rootPx: number;
+  base?: number; // Grid unit in px (4, 8, ...); absent when no unit explains most values
+  coverage: number; // 0-1 share of fixed-size declarations that sit on the grid
+  steps: SpacingStep[]; // On-grid values, smallest first
+  outliers: SpacingStep[]; // Off-grid values
+  relative: FrequencyItem[]; // %, vw and vh values, which have no fixed px size
+}
+
+export interface SpacingStep {
+  px: number;
+  values: string[]; // As declared, e.g. ['1rem', '16px']
+  count: number;
+  multiple?: number; // px / base
+  snapTo?: number; // Outliers: the nearest step, in px
+  tailwind?: string; // Spacing key ('4', 'px') or an arbitrary value ('[13px]') for the value's own size
+}
+
+export type TextRole = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6' | 'lead' | 'body' | 'paragraph' | 'small' | 'caption' | 'button';
+
+// Font declarations paired per text role, and the modular scale their sizes sit on
+export interface TypeScale {
+  base: string; // Body text size, e.g. '1rem'
+  basePx: number;
+  rootPx: number; // What 1rem is, from an `html` / `:root` font-size
+  ratio?: number; // Fitted ratio between neighbouring steps; needs two sizes besides the base
+  ratioName?: string; // Named scale the sizes fit best, e.g. 'Major Third'
+  fit?: number; // 0-1, how close the sizes land on that scale's steps
+  roles: TextStyle[];
+}
+
+export interface TextStyle {
+  role: TextRole;
+  selector: string; // Simplest selector that styles the role
+  fontFamily?: string;
+  fontSize: string; // px or rem
+  fontSizePx: number;
+  declaredSize?: string; // Declared font-size when it had to be converted, e.g. '2em' or a clamp()
+  fontWeight: string;
+  lineHeight?: string;
+  letterSpacing?: string;
+  inherited: string[]; // Properties taken from body or browser defaults rather than the role's own rules
+  step?: number; // Steps above (negative: below) the base on the inferred scale
+}
+
+// @font-face rules and font service links, with every family named in a font-family stack
+export interface FontInventory {
+  families: FontFamilyEntry[];
+  faces: FontFaceRule[];
+  links: FontLink[];
+}
+
+// Who serves a face: the site itself (relative, same-domain or data: URLs), a font service, another host,
+// or nobody - local() sources only alias fonts installed on the visitor's machine
+export type FontProvider = 'self-hosted' | 'google' | 'adobe' | 'third-party' | 'local';
+
+export interface FontFamilyEntry {
+  family: string;
+  // loaded: a face or font link ships it; local: @font-face over local() fonts only (metric-adjusted fallbacks);
+  // system: a well-known OS font; generic: a CSS generic family; missing: named but never loaded
+  status: 'loaded' | 'local' | 'system' | 'generic' | 'missing';
+  provider?: FontProvider;
+  weights: string[]; // '400', or a variable range like '100 900'
+  styles: string[];
+  variable: boolean;
+  faces: number;
+  usage: number; // font-family / font declarations naming it, var() references resolved
+  primary: boolean; // First choice of at least one stack rather than only a fallback
+  generic?: string; // Generic family its stacks fall back to, e.g. 'sans-serif'
+}
+
+export interface FontFaceRule {
+  family: string;
+  weight: string;
+  style: string;
+  stretch?: string;
+  unicodeRange?: string;
+  display?: string;
+  sources: FontFaceSource[];
+  provider: FontProvider;
+  variable: boolean;
+}
+
+export interface FontFaceSource {
+  url?: string; // data: URLs are cut before their payload
+  local?: string;
+  format?: string;
+  tech?: string;
+}
+
+export interface FontLink {
+  href: string;
+  provider: FontProvider;
+  kind: 'stylesheet' | 'import' | 'preload';
+  families: Array<{ family: string; weights: string[]; styles: string[] }>; // Empty when the URL does not name them (Adobe kits, preloads)
+  display?: string;
+}
+
+// Where a value (or a var() reference) is used: distinct selectors and the component families they belong to
+export interface TokenUsage {
+  contexts: number;
+  surfaces: string[];
 }
 
 export interface TokenGroup {
@@ -33,12 +149,274 @@ export interface FrequencyItem {
   value: string;
   count: number;
   prevalence: number;
+  conditions?: Record<string, number>; // Occurrences under each TokenCondition key; the rest are unconditional
+}
+
+// The @media/@supports/@layer/@container rules a declaration sits in, outermost first
+export interface TokenCondition {
+  key: string; // e.g. '@layer base > @media (min-width: 768px)'
+  media?: string; // Nested queries joined with 'and'
+  mediaFeatures?: string[]; // Media types and features, e.g. ['print'] or ['prefers-reduced-motion: reduce']
+  print?: boolean; // Only applies to print or speech
+  supports?: string;
+  layer?: string; // Dotted for nested layers
+  layerOrder?: number; // Cascade position: 0 is the first-declared, weakest layer
+  container?: string;
+  declarations: number;
+}
+
+// How declarations under a condition count towards frequencies: 'all' counts every declaration
+// once, 'screen' drops print-only ones, 'weighted' also discounts preference variants and early layers
+export type ConditionMode = 'all' | 'screen' | 'weighted';
+
+// Per-condition counts gathered while walking a stylesheet
+export interface ConditionTracker {
+  layerOrder: string[];
+  conditions: Record<string, TokenCondition>;
+  values: Record<string, Record<string, Record<string, number>>>; // group -> value -> condition key -> count
+}
+
+// Dark-scheme rules are split out of the main (light) token set and reported here
+export interface ColorSchemeTokens {
+  signals: {
+    prefersColorSchemeRules: number; // Rules inside @media (prefers-color-scheme: dark)
+    selectorScopes: string[]; // Dark scopes seen in selectors, e.g. ".dark", [data-theme="dark"]
+    colorSchemeDeclarations: string[]; // Distinct `color-scheme` values
+  };
+  strategy?: 'media' | 'selector'; // How the site switches to dark
+  selector?: string; // Most used dark scope when strategy is 'selector'
+  dark?: {
+    colors: TokenGroup;
+    customProperties: Record<string, string>; // Color custom properties redefined for dark, as hex
+    pairs: ColorSchemePair[];
+  };
+}
+
+// The same custom property or selector/property declared with a light and a dark color
+export interface ColorSchemePair {
+  light: string;
+  dark: string;
+  count: number;
+}
+
+// Where an output's dark theme came from - the site's own dark rules or synthesized from the light palette
+export interface DarkModeReport {
+  source: 'site' | 'synthesized';
+  strategy?: ColorSchemeTokens['strategy'];
+  selector?: string;
+  extracted: string[]; // Variables/tokens that carry the site's real dark value
+  synthesized: string[]; // Variables/tokens derived from the light palette
+}
+
+// Where a derived theme variable came from: the winning token (null = default kept) and how sure we are
+export interface DesignVariableSource {
+  value: string;
+  source: string | null;
+  confidence: number; // 0-1
 }
 
 export interface ExtractedMeta {
   source: string;
   extractedAt: string;
   totalTokens: Record<string, number>;
+  cssImports?: CssImport[];
+  stylesheets?: { failed?: string[]; skipped?: string[] }; // Linked stylesheets whose tokens are missing
+  render?: {
+    stylesheets: number;
+    adoptedStylesheets: number;
+    computedElements: number;
+  };
+  imageAnalysis?: {
+    totalImages: number;
+    processedImages: number;
+    logoColors: string[];
+    heroColors: string[];
+    averageColorsPerImage: number;
+    imageTypes: Record<string, number>;
+  };
+  semanticAnalysis?: {
+    totalElements: number;
+    buttonColors: string[];
+    brandColors: string[];
+    colorsByContext: Record<string, string[]>;
+    highestWeightColors: string[];
+    tailwind?: SemanticColorAnalysis['tailwind'];
+  };
+}
+
+export interface CssImport {
+  url: string;
+  importedFrom: string; // URL of the importing stylesheet (the page URL for inline <style> blocks)
+  depth: number;
+  media?: string;
+  layer?: string; // '' for an anonymous layer
+  supports?: string;
+  status: 'resolved' | 'failed' | 'cycle' | 'depth-limit';
+  cssLength: number;
+}
+
+export interface CollectedCss {
+  html: string;
+  css: string;
+  imports: CssImport[];
+  rendered?: RenderedPage;
+  stylesheets?: {
+    total: number; // External stylesheets and inline <style> blocks on the page
+    shared: number; // Already collected from an earlier page of the same crawl
+    failed?: string[]; // Linked stylesheets that could not be fetched (or were empty)
+    skipped?: string[]; // Linked stylesheets past ExtractionOptions.maxStylesheets
+  };
+}
+
+// Shared across the pages of one crawl so each stylesheet is fetched and counted once
+export interface StylesheetDedup {
+  seenUrls: Set<string>;
+  seenHashes: Set<string>; // sha1 of stylesheet content, catches cache-busted URLs
+}
+
+export interface CrawlOptions {
+  maxDepth?: number; // Link hops from the start URL (default 2)
+  maxPages?: number; // Pages analyzed, start URL included (default 20)
+  include?: string[]; // Path globs a page must match, e.g. /blog/**
+  exclude?: string[]; // Path globs that are never crawled; wins over include
+  sitemap?: boolean; // Seed from sitemap.xml (default true)
+  robots?: boolean; // Honor robots.txt (default true)
+  delayMs?: number; // Pause between page fetches; robots.txt Crawl-delay raises it
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  discoveredVia: 'start' | 'link' | 'sitemap';
+  html: string;
+}
+
+export interface CrawlReport {
+  startUrl: string;
+  pages: Array<Omit<CrawledPage, 'html'>>;
+  discovered: number; // Crawlable URLs found, including those cut by maxPages
+  skipped: Array<{ url: string; reason: 'robots' | 'excluded' | 'fetch-failed' | 'page-limit' }>;
+  robots: { found: boolean; disallowRules: number; crawlDelay?: number };
+  sitemap: { found: boolean; urls: number };
+}
+
+// What one crawled page contributed to the merged token set
+export interface PageTokenCoverage {
+  url: string;
+  stylesheets: number;
+  sharedStylesheets: number;
+  cssLength: number; // CSS analyzed for this page, shared stylesheets excluded
+  tokens: Record<'colors' | 'fontSizes' | 'fontFamilies' | 'spacing' | 'radii' | 'shadows' | 'customProperties', number>;
+  newTokens: number; // Values no earlier page had
+}
+
+export interface ExtractionOptions {
+  includeImages?: boolean;
+  maxImages?: number;
+  semanticAnalysis?: boolean;
+  render?: boolean; // Load the page in a headless browser instead of fetching static HTML
+  conditions?: ConditionMode; // Defaults to 'all'
+  maxStylesheets?: number; // Linked stylesheets fetched per page; unlimited when omitted
+}
+
+export interface ComputedElementStyle {
+  selector: string;
+  context: SemanticColorData['context'];
+  weight: number;
+  element: string;
+  styles: Record<string, string>;
+  backgrounds?: string[]; // Computed background-colors from the element up, innermost first
+  fontSize?: number; // px
+  fontWeight?: number;
+  hasText?: boolean;
+}
+
+export interface RenderedPage {
+  html: string;
+  css: string;
+  computedStyles: ComputedElementStyle[];
+  stylesheetCount: number;
+  adoptedStylesheetCount: number;
+}
+
+export interface ExtractionResult {
+  css: string;
+  tokens: ExtractedTokens;
+  meta: ExtractedMeta;
+  assets?: AssetInventoryEntry[]; // Present when image analysis ran
+  structure?: PageStructure;
+  components?: ComponentInventory;
+  semantic?: SemanticColorAnalysis; // Present when semantic analysis ran; meta only keeps its summary
+}
+
+// Page layout evidence from the DOM and stylesheet: landmarks, breakpoints, layering
+export interface PageStructure {
+  source: 'static-html' | 'rendered-dom';
+  landmarks: LandmarkNode[]; // Top-level landmarks, nested ones under `children`
+  landmarkCounts: Record<string, number>; // By ARIA role
+  breakpoints: BreakpointStructure[]; // Width media queries, narrowest first
+  layout: {
+    display: Record<string, number>; // display values across all rules
+    baseLayoutDeclarations: number; // Layout-affecting declarations outside any width media query
+  };
+  zLayers: Array<{ zIndex: number; selectors: string[] }>; // Lowest layer first
+  overlays: {
+    fixed: string[]; // Selectors with position: fixed
+    sticky: string[];
+    dialogs: number; // <dialog>, role="dialog"/"alertdialog" elements in the DOM
+  };
+}
+
+export interface LandmarkNode {
+  role: string; // banner, navigation, main, complementary, contentinfo, search, form, region
+  element: string;
+  selector: string; // tag#id.class, for locating the node
+  label?: string;
+  children: LandmarkNode[];
+}
+
+export interface BreakpointStructure {
+  query: string;
+  minWidth?: number; // px
+  maxWidth?: number; // px
+  ruleCount: number;
+  layoutDeclarations: number;
+  layoutProperties: Record<string, number>;
+}
+
+// Component primitives: stylesheet rules paired to classified DOM nodes
+export interface ComponentInventory {
+  source: 'static-html' | 'rendered-dom';
+  families: ComponentFamily[]; // Only families with DOM instances or matching rules
+}
+
+export type ComponentFamilyName = 'button' | 'card' | 'input' | 'nav' | 'badge' | 'modal';
+export type ComponentStateName = 'hover' | 'focus' | 'active' | 'disabled';
+
+export interface ComponentFamily {
+  family: ComponentFamilyName;
+  instances: number; // DOM nodes classified into the family
+  rules: {
+    domPaired: number; // Rules whose selector matched a classified DOM node
+    patternOnly: number; // Rules attributed from selector naming alone
+  };
+  selectors: string[]; // Base (stateless, variantless) selectors
+  geometry: Record<string, { value: string; count: number }>; // Most common value per property on base rules
+  states: ComponentState[];
+  variants: ComponentVariant[];
+}
+
+export interface ComponentState {
+  state: ComponentStateName;
+  ruleCount: number;
+  properties: Record<string, string>; // Last declared value per property across state rules
+}
+
+export interface ComponentVariant {
+  name: string; // primary, secondary, sm, lg, ...
+  kind: 'emphasis' | 'size';
+  selectors: string[];
+  geometry: Record<string, string>;
 }
 
 export interface AuthConfig {
@@ -76,6 +454,7 @@ export interface SourceMetadata {
   weight: number;
   extractedAt: string;
   cssLength: number;
+  cssImports?: CssImport[];
 }
 
 export interface MultiSourceTokens {
@@ -83,6 +462,10 @@ export interface MultiSourceTokens {
   mergedTokens: ExtractedTokens;
   sourceTokens: Record<string, ExtractedTokens>;
   conflicts: TokenConflict[];
+  crawl?: CrawlReport; // Present when sources were discovered by crawling
+  coverage?: PageTokenCoverage[];
+  structure?: PageStructure; // Of the primary (first analyzed) page
+  components?: ComponentInventory; // Of the primary (first analyzed) page
 }
 
 export interface TokenConflict {
@@ -113,11 +496,280 @@ export interface ColorAnalysis {
   confidence: number;
 }
 
+// canonical.json (see canonical.md): a provenanced token graph that carries role candidates, not resolutions
+export interface CanonicalToken {
+  id: string; // Variable name, or literal:<sha1(value + context class)> truncated to 10 hex chars
+  valueResolved: string;
+  valueSymbolic: string | null; // var() chains, clamp(), calc(), color-mix() expressions
+  class: 'discrete' | 'scale' | 'fluid' | 'component' | 'layout';
+  provenance: CanonicalProvenance[];
+  saliency_inputs: {
+    refCount: number;
+    aliasDepth: number;
+    contextBreadth: number; // Distinct selectors
+    surfaceDiversity: number; // Distinct component families
+  };
+  roleCandidates: CanonicalRoleCandidate[];
+}
+
+export interface CanonicalProvenance {
+  basis: 'named-variable' | 'computed-style' | 'alias-resolved' | 'convention-match';
+  evidence: string;
+  weight: number; // 0-1, combined downstream
+}
+
+export interface CanonicalRoleCandidate {
+  role: string; // Dictionary URI, e.g. shadcn/v1#bg.default
+  confidence: number; // 0-1, evidence-weighted
+  validity: number; // 0-1, rule-based plausibility of this token in this role
+  basis: string;
+}
+
+export interface CanonicalDocument {
+  contractVersion: string;
+  extractorVersion: string;
+  roleDictionary: string;
+  coverage: {
+    urls: string[];
+    routes: string[];
+    sampleBias: 'homepage-only' | 'multi-route' | 'full-crawl';
+    estimatedFraction: number | null;
+  };
+  substrateScore: number;
+  outcome: 'full' | 'partial' | 'refused';
+  refusal?: {
+    reason: 'substrate_below_threshold' | 'coverage_too_narrow' | 'extraction_failed';
+    missingRoles: string[];
+    substrateScore: number;
+    recommendedConsumerBehavior: string;
+  };
+  tokens: CanonicalToken[];
+  unmappedSiteRoles: CanonicalToken[];
+  legacy_extractor_residue?: Record<string, unknown>;
+}
+
+// One canonical token picked per dictionary role by the default resolution policy
+export interface RoleBinding {
+  hex: string; // The token's resolved value
+  token: string; // Canonical token id
+  confidence: number;
+  validity: number;
+  status: 'auto' | 'suggested' | 'uncertain';
+  reason: string; // Basis of the winning candidate
+  evidence: string[]; // Provenance of the winning token
+}
+
+export interface RoleBindings {
+  dictionary: string;
+  bindings: Record<string, RoleBinding | null>; // Every dictionary role, null when nothing valid was found
+  report: {
+    autoBound: number;
+    suggested: number;
+    uncertain: number;
+    unmappedRoles: string[];
+    withheld: Array<{ role: string; hex: string; reason: string }>; // Strong candidates rejected as invalid for the role
+  };
+}
+
+// Token-level comparison of two analyses (`npm run diff`, POST /api/v1/diff)
+export interface TokenDiff {
+  before: TokenDiffSide;
+  after: TokenDiffSide;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    customPropertiesChanged: number; // Added, removed, renamed or revalued custom properties
+    rolesReassigned: number;
+  };
+  groups: Record<string, TokenGroupDiff>; // Keyed by ExtractedTokens group, e.g. `colors`, `spacing`
+  uncomparedGroups: string[]; // Groups (or customProperties) only one snapshot carries, e.g. shadows against a shadcn analysis
+  customProperties: {
+    added: Array<{ name: string; value: string }>;
+    removed: Array<{ name: string; value: string }>;
+    renamed: Array<{ before: string; after: string; value: string }>; // Same value under a new name
+    changed: TokenValueChange[];
+  };
+  roles: TokenValueChange[]; // shadcn role bindings whose value moved; `name` is the role
+}
+
+// Limits a diff may not exceed (`npm run diff -- --max-changes 0 --max-delta-e 2`)
+export interface DiffThresholds {
+  maxChanges?: number; // Token group, custom property and role changes together
+  maxDeltaE?: number; // Largest ΔE2000 of any changed color, custom property or role
+}
+
+export interface TokenDiffSide {
+  label: string; // File path or URL the snapshot came from
+  source?: string; // Analyzed site, when the snapshot records it
+  extractedAt?: string;
+  hasRoleBindings: boolean;
+}
+
+export interface TokenGroupDiff {
+  added: string[];
+  removed: string[];
+  changed: Array<{ before: string; after: string; deltaE?: number }>; // Nearby values paired as one token that moved
+}
+
+export interface TokenValueChange {
+  name: string;
+  before: string | null; // null when the side has no value (unbound role)
+  after: string | null;
+  deltaE?: number; // CIEDE2000, when both values are colors
+}
+
+// A named reference color the brand audit measures extracted colors against
+export interface BrandPaletteColor {
+  name: string;
+  hex: string;
+}
+
+// Every extracted color mapped to its nearest brand color by CIEDE2000
+export interface BrandAudit {
+  source: string;
+  generatedAt: string;
+  palette: BrandPaletteColor[];
+  thresholds: {
+    nearMiss: number; // ΔE2000 up to which a color that is not the exact palette hex is an off-brand shade of it
+  };
+  semanticAnalysis: boolean; // Whether selectors/contexts were available
+  summary: {
+    colors: number;
+    onBrand: number;
+    nearMiss: number;
+    offPalette: number;
+    uses: number; // Sum of usage counts across all colors
+    onBrandShare: number; // % of uses
+    nearMissShare: number; // % of uses
+    unusedBrandColors: string[]; // Palette names with no on-brand use
+  };
+  colors: BrandColorMatch[]; // Near misses first, then on-brand, then off-palette; by uses within each
+  brandColors: Array<{
+    name: string;
+    hex: string;
+    onBrandUses: number;
+    nearMisses: Array<{ hex: string; count: number; deltaE: number }>;
+  }>;
+}
+
+export interface BrandColorMatch {
+  value: string; // As extracted
+  hex: string;
+  alpha?: number; // Present for translucent colors; the solid color is compared
+  count: number;
+  nearest: { name: string; hex: string; deltaE: number };
+  status: 'on-brand' | 'near-miss' | 'off-palette';
+  contexts: Array<{ context: string; selector: string; property: string }>; // From semantic analysis
+  surfaces: string[]; // Component families using the color, from tokens.usage
+}
+
 export interface ShadcnTheme {
   light: Record<string, string>;
   dark?: Record<string, string>;
 }
 
+// WCAG 2.x contrast and APCA lightness contrast for the generated theme and the page's own text
+export interface AccessibilityReport {
+  source: string;
+  generatedAt: string;
+  thresholds: Record<ContrastCheck['kind'], { aa: number; aaa: number; apca: number }>;
+  semanticAnalysis: boolean; // Site pairs need the semantic element walk
+  summary: {
+    themePairs: number;
+    themeFailures: number; // Fails WCAG AA or the APCA level
+    sitePairs: number;
+    siteFailures: number;
+    aaaPasses: number;
+  };
+  theme: ThemeContrastCheck[];
+  site: SiteContrastCheck[]; // Failures first, then by uses
+}
+
+export interface ContrastCheck {
+  kind: 'text' | 'large-text' | 'non-text';
+  foreground: string; // Hex after compositing translucent layers
+  background: string;
+  ratio: number; // WCAG 2.x, 1-21
+  apca: number; // Lc, negative for light-on-dark
+  wcag: { aa: boolean; aaa: boolean };
+  apcaPass: boolean;
+  suggestion?: { target: 'foreground' | 'background'; color: string; ratio: number; apca: number; deltaE: number }; // Nearest shade (ΔE2000, same hue) that passes AA and APCA
+}
+
+export interface ThemeContrastCheck extends ContrastCheck {
+  mode: 'light' | 'dark';
+  foregroundVar: string;
+  backgroundVar: string;
+}
+
+export interface SiteContrastCheck extends ContrastCheck {
+  context: string;
+  selector: string;
+  element: string;
+  count: number;
+}
+
+// The cascaded text color of a semantic element and the backgrounds it sits on
+export interface SemanticContrastPair {
+  context: string;
+  selector: string;
+  element: string;
+  foreground: string;
+  backgrounds: string[]; // Non-transparent background-colors from the element up to the root, innermost first
+  largeText: boolean;
+  count: number;
+}
+
+// Figma Variables REST body (POST /v1/files/:file_key/variables); ids are temporary, resolved by Figma on import
+export type FigmaVariableValue =
+  | { r: number; g: number; b: number; a: number }
+  | { type: 'VARIABLE_ALIAS'; id: string }
+  | number
+  | string;
+
+export interface FigmaVariablesPayload {
+  variableCollections: Array<{ action: 'CREATE'; id: string; name: string; initialModeId: string }>;
+  variableModes: Array<{ action: 'CREATE' | 'UPDATE'; id: string; name: string; variableCollectionId: string }>;
+  variables: Array<{
+    action: 'CREATE';
+    id: string;
+    name: string; // Slash-separated groups, e.g. color/primary
+    variableCollectionId: string;
+    resolvedType: 'COLOR' | 'FLOAT' | 'STRING';
+    description?: string;
+    scopes?: string[];
+    codeSyntax?: { WEB?: string };
+  }>;
+  variableModeValues: Array<{ variableId: string; modeId: string; value: FigmaVariableValue }>;
+}
+
+// Tokens Studio (W3C $-prefixed) token; $value may be a {reference} or math on references
+export interface TokensStudioToken {
+  $type: 'color' | 'dimension' | 'number' | 'borderRadius' | 'fontFamilies' | 'boxShadow';
+  $value: string | number | TokensStudioShadow | TokensStudioShadow[];
+  $description?: string;
+}
+
+export interface TokensStudioShadow {
+  x: string;
+  y: string;
+  blur: string;
+  spread: string;
+  color: string;
+  type: 'dropShadow' | 'innerShadow';
+}
+
+// W3C Design Tokens Community Group token (https://tr.designtokens.org/format/); groups are plain objects of these
+export interface DtcgToken {
+  $type:
+    | 'color' | 'dimension' | 'fontFamily' | 'fontWeight' | 'duration' | 'cubicBezier' | 'number'
+    | 'strokeStyle' | 'border' | 'transition' | 'shadow' | 'gradient' | 'typography';
+  $value: string | number | number[] | string[] | Record<string, any> | Array<Record<string, any>>; // "{group.token}" for an alias
+  $description?: string;
+  $extensions?: Record<string, any>;
+}
+
 export interface TailwindCorrelations {
   colors: Record<string, string[]>;
   spacing: Record<string, string[]>;
@@ -131,6 +783,8 @@ export interface ImageColorData {
   type: 'logo' | 'hero' | 'product' | 'background' | 'icon' | 'unknown';
   dominantColors: string[];
   weight: number;
+  dimensions?: { width: number; height: number };
+  format?: string; // Decoded format reported by the image decoder (png, jpeg, webp, gif, ...)
   analysis?: {
     colorCount: number;
     averageSaturation: number;
@@ -145,6 +799,19 @@ export interface ImageAnalysisResult {
   logoColors: string[];
   heroColors: string[];
   averageColorsPerImage: number;
+  assets: AssetInventoryEntry[];
+}
+
+// Every image/SVG referenced by the page, whether or not it was analyzed
+export interface AssetInventoryEntry {
+  url: string; // inline-svg#<n> for <svg> markup embedded in the page
+  kind: 'image' | 'svg';
+  source: 'img' | 'picture' | 'css' | 'icon' | 'meta' | 'inline-svg';
+  type: ImageColorData['type'];
+  alt?: string;
+  dimensions?: { width: number; height: number };
+  colors: string[];
+  analyzed: boolean;
 }
 
 export interface SemanticColorData {
@@ -172,4 +839,5 @@ export interface SemanticColorAnalysis {
     colorClasses: string[];
     colors: Array<{ color: string; property: string; className: string; frequency: number }>;
   };
+  contrastPairs?: SemanticContrastPair[];
 } 
\ No newline at end of file